@@ -0,0 +1,83 @@
+/**
+ * Autenticação das rotas REST e do handshake do WebSocket.
+ * O usuário autenticado fica em req.user (Express) e no IncomingMessage do upgrade (WebSocket).
+ */
+
+import type { IncomingMessage } from 'http';
+import type { Request, Response, NextFunction } from 'express';
+import { AuthError, createVerifierFromEnv, type TokenVerifier } from './verifiers.js';
+import type { AuthUser } from '../types/index.js';
+
+// Rotas abertas, relativas a /api: a tela de login precisa delas antes de autenticar
+const PUBLIC_ROUTES: Array<{ method: string; path: RegExp }> = [
+  { method: 'GET', path: /^\/ui\/config$/ },
+  { method: 'GET', path: /^\/ui\/uploads\/[^/]+$/ },
+];
+
+// Usuário atribuído às requisições com AUTH_PROVIDER=none
+const LOCAL_USER: AuthUser = {
+  uid: 'local',
+  name: 'Usuário local',
+  provider: 'none',
+  claims: {},
+};
+
+let verifier: TokenVerifier | null = null;
+let initialized = false;
+
+export function initializeAuth(): void {
+  verifier = createVerifierFromEnv();
+  initialized = true;
+
+  if (verifier) {
+    console.log(`🔒 [Auth] Autenticação por bearer token (${verifier.name})`);
+  } else {
+    console.warn('⚠️  [Auth] AUTH_PROVIDER=none: API e WebSocket abertos para qualquer cliente. Use apenas em desenvolvimento');
+  }
+}
+
+function extractBearerToken(header: string | undefined): string | null {
+  const match = /^Bearer\s+(.+)$/i.exec(header ?? '');
+  return match ? match[1].trim() : null;
+}
+
+export async function authenticateToken(token: string | null): Promise<AuthUser> {
+  if (!initialized) {
+    throw new Error('Autenticação não inicializada (initializeAuth não foi chamado)');
+  }
+  if (!verifier) {
+    return LOCAL_USER;
+  }
+  if (!token) {
+    throw new AuthError('Token de autenticação ausente');
+  }
+  return verifier.verify(token);
+}
+
+export async function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (PUBLIC_ROUTES.some(route => route.method === req.method && route.path.test(req.path))) {
+    return next();
+  }
+
+  try {
+    req.user = await authenticateToken(extractBearerToken(req.headers.authorization));
+    next();
+  } catch (error: any) {
+    if (error instanceof AuthError) {
+      return res.status(401).json({ error: error.message });
+    }
+    console.error('[Auth] Erro ao verificar token:', error.message);
+    res.status(503).json({ error: 'Não foi possível verificar o token de autenticação' });
+  }
+}
+
+/**
+ * Handshake do WebSocket: o navegador não envia cabeçalhos customizados,
+ * então o token também é aceito em ?token= na URL.
+ */
+export async function authenticateUpgrade(req: IncomingMessage): Promise<AuthUser> {
+  const queryToken = new URL(req.url ?? '/', 'http://localhost').searchParams.get('token');
+  const user = await authenticateToken(extractBearerToken(req.headers.authorization) ?? queryToken);
+  req.user = user;
+  return user;
+}
@@ -0,0 +1,94 @@
+/**
+ * Perfis e permissões por conexão.
+ * O perfil define o que o usuário pode fazer (reader < editor < admin); as permissões
+ * (grants) definem em quais conexões um usuário que não é admin pode fazer isso.
+ */
+
+import type { Request, Response, NextFunction } from 'express';
+import { accessControlStorage } from '../storage/access-control.js';
+import type { AuthUser, Role } from '../types/index.js';
+
+const ROLE_RANK: Record<Role, number> = {
+  reader: 0,
+  editor: 1,
+  admin: 2,
+};
+
+// Lidos sob demanda: os imports rodam antes do dotenv.config() do index.ts
+function configuredAdmins(): string[] {
+  return (process.env.AUTH_ADMINS || '')
+    .split(',')
+    .map(user => user.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+export function defaultRole(): Role {
+  const role = (process.env.AUTH_DEFAULT_ROLE || 'reader').toLowerCase() as Role;
+  return role in ROLE_RANK ? role : 'reader';
+}
+
+/**
+ * Chave do usuário no storage de permissões: o e-mail, desde que o token traga
+ * email_verified: true; senão o uid. Um e-mail não verificado pode ser cadastrado
+ * por qualquer um e herdaria os perfis e acessos concedidos ao dono do endereço.
+ */
+export function userKeyOf(user: AuthUser): string {
+  const emailVerified = user.claims.email_verified === true;
+  return (user.email && emailVerified ? user.email : user.uid).toLowerCase();
+}
+
+export function resolveRole(user: AuthUser): Role {
+  // Sem autenticação não há como distinguir usuários
+  if (user.provider === 'none') return 'admin';
+
+  const key = userKeyOf(user);
+  // AUTH_ADMINS garante acesso de admin mesmo com o arquivo de permissões vazio ou perdido
+  if (configuredAdmins().includes(key)) return 'admin';
+
+  return accessControlStorage.getRole(key) ?? defaultRole();
+}
+
+export function hasRole(user: AuthUser | undefined, minRole: Role): boolean {
+  return !!user && ROLE_RANK[resolveRole(user)] >= ROLE_RANK[minRole];
+}
+
+export function canAccessConnection(user: AuthUser | undefined, connId: string, minRole: Role = 'reader'): boolean {
+  if (!user || !hasRole(user, minRole)) return false;
+  if (resolveRole(user) === 'admin') return true;
+  return accessControlStorage.isGranted(connId, userKeyOf(user));
+}
+
+export function requireRole(minRole: Role) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!hasRole(req.user, minRole)) {
+      return res.status(403).json({ error: `Acesso negado: requer perfil ${minRole}` });
+    }
+    next();
+  };
+}
+
+/**
+ * Exige o perfil mínimo e acesso à conexão. Por padrão o connId vem de req.params.connId;
+ * rotas que recebem a conexão no corpo passam o próprio extrator. Sem connId a requisição
+ * segue, e a validação da rota responde 400; um connId que não é string é recusado aqui,
+ * já que não haveria conexão a conferir.
+ */
+export function requireConnectionAccess(
+  minRole: Role,
+  connIdOf: (req: Request) => unknown = req => req.params.connId
+) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!hasRole(req.user, minRole)) {
+      return res.status(403).json({ error: `Acesso negado: requer perfil ${minRole}` });
+    }
+
+    const connId = connIdOf(req);
+    if (connId !== undefined && typeof connId !== 'string') {
+      return res.status(400).json({ error: 'connId inválido' });
+    }
+    if (connId !== undefined && !canAccessConnection(req.user, connId, minRole)) {
+      return res.status(403).json({ error: 'Sem acesso a esta conexão' });
+    }
+    next();
+  };
+}
@@ -0,0 +1,224 @@
+/**
+ * Verificadores de bearer token.
+ * O provedor é escolhido por AUTH_PROVIDER: "firebase" (ID tokens do Firebase Auth, padrão),
+ * "jwt" (JWT próprio assinado com HS256 ou RS256, útil com um emissor local) ou "none".
+ */
+
+import { createHmac, createPublicKey, timingSafeEqual, verify as verifySignature, type KeyObject } from 'crypto';
+import type { AuthUser } from '../types/index.js';
+
+const CLOCK_SKEW_SECONDS = 30;
+const FIREBASE_CERTS_URL = 'https://www.googleapis.com/robot/v1/metadata/x509/securetoken@system.gserviceaccount.com';
+// Mesmo projeto configurado em frontend/src/config/firebase.ts
+const DEFAULT_FIREBASE_PROJECT_ID = 'rtcentral-7b3a4';
+
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+export interface TokenVerifier {
+  readonly name: string;
+  verify(token: string): Promise<AuthUser>;
+}
+
+interface JwtPayload {
+  sub?: string;
+  iss?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+  iat?: number;
+  email?: string;
+  name?: string;
+  [claim: string]: unknown;
+}
+
+interface DecodedJwt {
+  header: { alg?: string; kid?: string; typ?: string };
+  payload: JwtPayload;
+  signingInput: string;
+  signature: Buffer;
+}
+
+function decodeJwt(token: string): DecodedJwt {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new AuthError('Token malformado');
+  }
+
+  try {
+    return {
+      header: JSON.parse(Buffer.from(parts[0], 'base64url').toString('utf-8')),
+      payload: JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf-8')),
+      signingInput: `${parts[0]}.${parts[1]}`,
+      signature: Buffer.from(parts[2], 'base64url'),
+    };
+  } catch {
+    throw new AuthError('Token malformado');
+  }
+}
+
+function checkClaims(payload: JwtPayload, expected: { issuer?: string; audience?: string }): void {
+  const now = Math.floor(Date.now() / 1000);
+
+  if (typeof payload.exp !== 'number' || payload.exp + CLOCK_SKEW_SECONDS < now) {
+    throw new AuthError('Token expirado');
+  }
+  if (typeof payload.nbf === 'number' && payload.nbf - CLOCK_SKEW_SECONDS > now) {
+    throw new AuthError('Token ainda não é válido');
+  }
+  if (typeof payload.iat === 'number' && payload.iat - CLOCK_SKEW_SECONDS > now) {
+    throw new AuthError('Token emitido no futuro');
+  }
+  if (expected.issuer && payload.iss !== expected.issuer) {
+    throw new AuthError('Emissor do token inválido');
+  }
+  if (expected.audience) {
+    const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+    if (!audiences.includes(expected.audience)) {
+      throw new AuthError('Audiência do token inválida');
+    }
+  }
+  if (typeof payload.sub !== 'string' || payload.sub === '') {
+    throw new AuthError('Token sem identificação do usuário (sub)');
+  }
+}
+
+function toAuthUser(payload: JwtPayload, provider: string): AuthUser {
+  return {
+    uid: payload.sub!,
+    email: typeof payload.email === 'string' ? payload.email : undefined,
+    name: typeof payload.name === 'string' ? payload.name : undefined,
+    provider,
+    claims: payload,
+  };
+}
+
+/**
+ * ID tokens do Firebase Auth: RS256 assinados pelas chaves públicas do Google,
+ * com iss/aud apontando para o projeto. Com FIREBASE_AUTH_EMULATOR_HOST definido,
+ * os tokens do emulador (sem assinatura) são aceitos, como faz o firebase-admin.
+ */
+class FirebaseTokenVerifier implements TokenVerifier {
+  readonly name = 'firebase';
+  private certs = new Map<string, KeyObject>();
+  private certsExpireAt = 0;
+  private fetching: Promise<void> | null = null;
+
+  constructor(private projectId: string, private emulator: boolean) {}
+
+  async verify(token: string): Promise<AuthUser> {
+    const { header, payload, signingInput, signature } = decodeJwt(token);
+
+    if (!this.emulator) {
+      if (header.alg !== 'RS256' || !header.kid) {
+        throw new AuthError('Algoritmo de assinatura do token não suportado');
+      }
+      const key = await this.publicKey(header.kid);
+      if (!verifySignature('RSA-SHA256', Buffer.from(signingInput), key, signature)) {
+        throw new AuthError('Assinatura do token inválida');
+      }
+    }
+
+    checkClaims(payload, {
+      issuer: `https://securetoken.google.com/${this.projectId}`,
+      audience: this.projectId,
+    });
+    return toAuthUser(payload, this.name);
+  }
+
+  private async publicKey(kid: string): Promise<KeyObject> {
+    if (Date.now() >= this.certsExpireAt || !this.certs.has(kid)) {
+      // Requisições simultâneas compartilham o mesmo download
+      this.fetching ??= this.fetchCerts().finally(() => {
+        this.fetching = null;
+      });
+      await this.fetching;
+    }
+
+    const key = this.certs.get(kid);
+    if (!key) {
+      throw new AuthError('Token assinado por chave desconhecida');
+    }
+    return key;
+  }
+
+  private async fetchCerts(): Promise<void> {
+    const response = await fetch(FIREBASE_CERTS_URL);
+    if (!response.ok) {
+      throw new Error(`Falha ao obter certificados do Firebase (HTTP ${response.status})`);
+    }
+
+    const certs = await response.json() as Record<string, string>;
+    this.certs = new Map(Object.entries(certs).map(([kid, pem]) => [kid, createPublicKey(pem)]));
+
+    // O Google informa por quanto tempo as chaves podem ficar em cache
+    const maxAge = /max-age=(\d+)/.exec(response.headers.get('cache-control') ?? '');
+    this.certsExpireAt = Date.now() + (maxAge ? Number(maxAge[1]) * 1000 : 60 * 60 * 1000);
+  }
+}
+
+/**
+ * JWT genérico: HS256 com segredo compartilhado (AUTH_JWT_SECRET) ou RS256 com chave
+ * pública PEM (AUTH_JWT_PUBLIC_KEY). Só o algoritmo configurado é aceito.
+ */
+class JwtTokenVerifier implements TokenVerifier {
+  readonly name = 'jwt';
+  private publicKey: KeyObject | null;
+
+  constructor(private options: { secret?: string; publicKey?: string; issuer?: string; audience?: string }) {
+    this.publicKey = options.publicKey ? createPublicKey(options.publicKey) : null;
+  }
+
+  async verify(token: string): Promise<AuthUser> {
+    const { header, payload, signingInput, signature } = decodeJwt(token);
+
+    if (this.publicKey) {
+      if (header.alg !== 'RS256' || !verifySignature('RSA-SHA256', Buffer.from(signingInput), this.publicKey, signature)) {
+        throw new AuthError('Assinatura do token inválida');
+      }
+    } else {
+      const expected = createHmac('sha256', this.options.secret!).update(signingInput).digest();
+      if (header.alg !== 'HS256' || expected.length !== signature.length || !timingSafeEqual(expected, signature)) {
+        throw new AuthError('Assinatura do token inválida');
+      }
+    }
+
+    checkClaims(payload, { issuer: this.options.issuer, audience: this.options.audience });
+    return toAuthUser(payload, this.name);
+  }
+}
+
+// null quando AUTH_PROVIDER=none (autenticação desligada)
+export function createVerifierFromEnv(): TokenVerifier | null {
+  const provider = (process.env.AUTH_PROVIDER || 'firebase').toLowerCase();
+
+  switch (provider) {
+    case 'firebase':
+      return new FirebaseTokenVerifier(
+        process.env.FIREBASE_PROJECT_ID || DEFAULT_FIREBASE_PROJECT_ID,
+        !!process.env.FIREBASE_AUTH_EMULATOR_HOST
+      );
+    case 'jwt': {
+      const secret = process.env.AUTH_JWT_SECRET;
+      // Chaves PEM em variáveis de ambiente costumam vir com \n escapado
+      const publicKey = process.env.AUTH_JWT_PUBLIC_KEY?.replace(/\\n/g, '\n');
+      if (!secret && !publicKey) {
+        throw new AuthError('AUTH_PROVIDER=jwt exige AUTH_JWT_SECRET ou AUTH_JWT_PUBLIC_KEY');
+      }
+      return new JwtTokenVerifier({
+        secret,
+        publicKey,
+        issuer: process.env.AUTH_JWT_ISSUER,
+        audience: process.env.AUTH_JWT_AUDIENCE,
+      });
+    }
+    case 'none':
+      return null;
+    default:
+      throw new AuthError(`AUTH_PROVIDER inválido: ${provider} (use firebase, jwt ou none)`);
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Rotação da chave mestra pela linha de comando, com o servidor parado:
+ *
+ *   npm run secrets:rotate                      # gera uma nova chave (keyfile)
+ *   npm run secrets:rotate -- --new-key <b64>   # usa a chave informada
+ *
+ * Com SECRETS_MASTER_KEY definida, a nova chave é gerada se não for informada e
+ * impressa antes de regravar qualquer arquivo, para não se perder se a rotação falhar.
+ */
+
+import dotenv from 'dotenv';
+import { randomBytes } from 'crypto';
+import { resolve, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { secretStore } from '../storage/secrets.js';
+import { connectionStorage } from '../storage/connections.js';
+import { openAIConfigStorage } from '../storage/openai-config.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+dotenv.config({ path: resolve(__dirname, '../../..', '.env') });
+
+function argValue(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+async function main() {
+  await secretStore.initialize();
+  // Os storages se registram ao carregar, para que a rotação regrave seus arquivos
+  await connectionStorage.initialize();
+  await openAIConfigStorage.initialize();
+  await secretStore.finishRecovery();
+
+  let newKey = argValue('--new-key');
+  if (!newKey && secretStore.keySource === 'env') {
+    newKey = randomBytes(32).toString('base64');
+    console.log(`\n🔑 Nova chave mestra gerada (guarde antes de continuar):\n   ${newKey}\n`);
+  }
+
+  const { keyId, previousKeyId } = await secretStore.rotate(newKey);
+  console.log(`\n✅ Chave mestra rotacionada: ${previousKeyId} → ${keyId}`);
+
+  if (secretStore.keySource === 'env') {
+    console.log(`\n⚠️  Atualize SECRETS_MASTER_KEY antes de iniciar o servidor:\n   SECRETS_MASTER_KEY=${newKey}`);
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Erro ao rotacionar chave mestra:', error.message);
+  process.exit(1);
+});
@@ -0,0 +1,75 @@
+/**
+ * Registro de drivers de banco de dados, indexado por DatabaseType.
+ * Os drivers nativos são registrados ao carregar o módulo; drivers de
+ * terceiros podem ser registrados na inicialização via DB_DRIVERS.
+ */
+
+import { resolve } from 'path';
+import { pathToFileURL } from 'url';
+import { MySQLDriver } from './drivers/mysql-driver.js';
+import { SQLServerDriver } from './drivers/sqlserver-driver.js';
+import { PostgresDriver } from './drivers/postgres-driver.js';
+import { SQLiteDriver } from './drivers/sqlite-driver.js';
+import type { DatabaseDriver, DatabaseType } from '../types/index.js';
+
+class DriverRegistry {
+  private drivers = new Map<DatabaseType, DatabaseDriver>();
+
+  register(driver: DatabaseDriver): void {
+    if (this.drivers.has(driver.type)) {
+      console.warn(`⚠️  [Drivers] Driver '${driver.type}' substituído por ${driver.displayName}`);
+    }
+    this.drivers.set(driver.type, driver);
+  }
+
+  has(type: DatabaseType): boolean {
+    return this.drivers.has(type);
+  }
+
+  get(type: DatabaseType): DatabaseDriver {
+    const driver = this.drivers.get(type);
+    if (!driver) {
+      throw new Error(`Tipo de banco de dados não suportado: ${type}`);
+    }
+    return driver;
+  }
+
+  list(): DatabaseDriver[] {
+    return Array.from(this.drivers.values());
+  }
+
+  /**
+   * Carrega drivers externos. Cada módulo deve exportar por padrão um
+   * DatabaseDriver ou uma função que recebe o registro e registra seus drivers.
+   * Caminhos relativos são resolvidos a partir de baseDir.
+   */
+  async loadExternal(specifiers: string[], baseDir: string): Promise<void> {
+    for (const specifier of specifiers) {
+      const url = specifier.startsWith('.') || specifier.startsWith('/')
+        ? pathToFileURL(resolve(baseDir, specifier)).href
+        : specifier;
+
+      const module = await import(url);
+      const exported = module.default ?? module;
+
+      if (typeof exported === 'function') {
+        await exported(this);
+      } else if (exported && typeof exported.type === 'string') {
+        this.register(exported as DatabaseDriver);
+      } else {
+        throw new Error(`Módulo '${specifier}' não exporta um driver de banco de dados`);
+      }
+
+      console.log(`✅ [Drivers] Driver externo carregado: ${specifier}`);
+    }
+  }
+}
+
+export type { DriverRegistry };
+
+export const driverRegistry = new DriverRegistry();
+
+driverRegistry.register(new MySQLDriver());
+driverRegistry.register(new SQLServerDriver());
+driverRegistry.register(new PostgresDriver());
+driverRegistry.register(new SQLiteDriver());
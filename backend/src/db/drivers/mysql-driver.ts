@@ -0,0 +1,163 @@
+import { Pool, createPool } from 'mysql2/promise';
+import type { Connection as CoreConnection } from 'mysql2';
+import { MySQLIntrospector } from '../mysql-introspector.js';
+import { onAbort, throwIfAborted } from '../executions.js';
+import { bindParameters } from '../../utils/sql-parameters.js';
+import type { DatabaseConnection, DatabaseDriver, QueryParams, QueryStatsOptions } from '../../types/index.js';
+
+const STREAM_HIGH_WATER_MARK = 500;
+
+// SQL do usuário roda em uma transação somente leitura, além da checagem do classificador:
+// o MySQL recusa escritas em tabelas permanentes dentro dela
+const READ_ONLY_TRANSACTION = 'START TRANSACTION READ ONLY';
+
+export class MySQLDriver implements DatabaseDriver {
+  readonly type = 'mysql';
+  readonly displayName = 'MySQL';
+  readonly connectionKind = 'server';
+  readonly dialect = 'mysql';
+
+  private pools = new Map<string, Pool>();
+
+  async getPool(conn: DatabaseConnection): Promise<Pool> {
+    if (!this.pools.has(conn.id)) {
+      const pool = createPool({
+        host: conn.host,
+        port: conn.port,
+        user: conn.user,
+        password: conn.password,
+        database: conn.database,
+        ssl: conn.ssl ? { rejectUnauthorized: false } : undefined,
+        waitForConnections: true,
+        connectionLimit: 10,
+        queueLimit: 0,
+      });
+
+      this.pools.set(conn.id, pool);
+    }
+
+    return this.pools.get(conn.id)!;
+  }
+
+  async connect(conn: DatabaseConnection): Promise<void> {
+    await this.getPool(conn);
+  }
+
+  async test(conn: DatabaseConnection): Promise<boolean> {
+    const pool = await this.getPool(conn);
+    // Testar conexão básica
+    await pool.query('SELECT 1');
+    // Testar acesso ao banco específico
+    try {
+      await pool.query(`USE \`${conn.database}\``);
+    } catch (error: any) {
+      throw new Error(`Não foi possível acessar o banco '${conn.database}': ${error.message}`);
+    }
+    // Testar acesso ao INFORMATION_SCHEMA
+    try {
+      await pool.query('SELECT 1 FROM INFORMATION_SCHEMA.TABLES LIMIT 1');
+    } catch (error: any) {
+      throw new Error(`Sem permissão para acessar INFORMATION_SCHEMA: ${error.message}`);
+    }
+    return true;
+  }
+
+  async introspect(conn: DatabaseConnection) {
+    return new MySQLIntrospector(await this.getPool(conn)).getSchema(conn.database);
+  }
+
+  async getDDL(conn: DatabaseConnection): Promise<string> {
+    return new MySQLIntrospector(await this.getPool(conn)).getDDL(conn.database);
+  }
+
+  async execute(conn: DatabaseConnection, sql: string, signal?: AbortSignal, params?: QueryParams): Promise<any[]> {
+    const bound = bindParameters(sql, this.dialect, params, 'positional');
+    const pool = await this.getPool(conn);
+    const connection = await pool.getConnection();
+    const removeAbortHandler = this.killQueryOnAbort(pool, connection.threadId, signal);
+
+    try {
+      throwIfAborted(signal);
+      await connection.query(READ_ONLY_TRANSACTION);
+      const [rows] = await connection.query(bound.sql, bound.values);
+      return Array.isArray(rows) ? rows : [];
+    } finally {
+      removeAbortHandler();
+      await connection.query('ROLLBACK').catch(() => undefined);
+      connection.release();
+    }
+  }
+
+  async *stream(conn: DatabaseConnection, sql: string, signal?: AbortSignal, params?: QueryParams): AsyncGenerator<any, void, undefined> {
+    const bound = bindParameters(sql, this.dialect, params, 'positional');
+    const pool = await this.getPool(conn);
+    const connection = await pool.getConnection();
+    const removeAbortHandler = this.killQueryOnAbort(pool, connection.threadId, signal);
+    let finished = false;
+
+    try {
+      throwIfAborted(signal);
+      await connection.query(READ_ONLY_TRANSACTION);
+      // stream() só existe na conexão de callbacks que o wrapper de promises encapsula
+      const core = connection.connection as unknown as CoreConnection;
+      const rows = core.query(bound.sql, bound.values).stream({ highWaterMark: STREAM_HIGH_WATER_MARK });
+      for await (const row of rows) {
+        yield row;
+      }
+      finished = true;
+    } finally {
+      removeAbortHandler();
+      // Se a leitura foi interrompida, a conexão ainda tem linhas pendentes e não pode voltar ao pool
+      if (finished) {
+        await connection.query('ROLLBACK').catch(() => undefined);
+        connection.release();
+      } else {
+        connection.destroy();
+      }
+    }
+  }
+
+  // KILL QUERY precisa partir de outra conexão; a conexão da query continua utilizável
+  private killQueryOnAbort(pool: Pool, threadId: number, signal?: AbortSignal): () => void {
+    return onAbort(signal, () => {
+      pool.query('KILL QUERY ?', [threadId]).catch((error) => {
+        console.error(`[MySQL] Erro ao cancelar query da thread ${threadId}:`, error.message);
+      });
+    });
+  }
+
+  async getActiveQueries(conn: DatabaseConnection) {
+    return new MySQLIntrospector(await this.getPool(conn)).getActiveQueries();
+  }
+
+  async getQueryStats(conn: DatabaseConnection, options: QueryStatsOptions) {
+    return new MySQLIntrospector(await this.getPool(conn)).getQueryStats(options);
+  }
+
+  async getServerStatus(conn: DatabaseConnection) {
+    return new MySQLIntrospector(await this.getPool(conn)).getServerStatus();
+  }
+
+  async kill(conn: DatabaseConnection, sessionId: number): Promise<void> {
+    await new MySQLIntrospector(await this.getPool(conn)).killSession(sessionId);
+  }
+
+  async explain(conn: DatabaseConnection, sql: string, params?: QueryParams): Promise<any[]> {
+    return this.execute(conn, `EXPLAIN ${sql}`, undefined, params);
+  }
+
+  async close(connId: string): Promise<void> {
+    const pool = this.pools.get(connId);
+    if (pool) {
+      await pool.end();
+      this.pools.delete(connId);
+    }
+  }
+
+  async closeAll(): Promise<void> {
+    for (const pool of this.pools.values()) {
+      await pool.end();
+    }
+    this.pools.clear();
+  }
+}
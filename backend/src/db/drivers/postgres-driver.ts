@@ -0,0 +1,154 @@
+import pg from 'pg';
+import { PostgresIntrospector } from '../postgres-introspector.js';
+import { onAbort, throwIfAborted } from '../executions.js';
+import { bindParameters } from '../../utils/sql-parameters.js';
+import type { DatabaseConnection, DatabaseDriver, QueryParams } from '../../types/index.js';
+
+const STREAM_BATCH_SIZE = 500;
+
+export class PostgresDriver implements DatabaseDriver {
+  readonly type = 'postgres';
+  readonly displayName = 'PostgreSQL';
+  readonly connectionKind = 'server';
+  readonly dialect = 'postgres';
+
+  private pools = new Map<string, pg.Pool>();
+
+  async getPool(conn: DatabaseConnection): Promise<pg.Pool> {
+    if (!this.pools.has(conn.id)) {
+      const pool = new pg.Pool({
+        host: conn.host,
+        port: conn.port,
+        user: conn.user,
+        password: conn.password,
+        database: conn.database,
+        ssl: conn.ssl ? { rejectUnauthorized: false } : undefined,
+        max: 10,
+        idleTimeoutMillis: 30000,
+        statement_timeout: 60000, // 60 segundos, igual ao SQL Server
+      });
+
+      // Erros em conexões ociosas não devem derrubar o processo
+      pool.on('error', (error) => {
+        console.error(`[Postgres] Erro em conexão ociosa (${conn.id}):`, error.message);
+      });
+
+      this.pools.set(conn.id, pool);
+    }
+
+    return this.pools.get(conn.id)!;
+  }
+
+  async connect(conn: DatabaseConnection): Promise<void> {
+    await this.getPool(conn);
+  }
+
+  async test(conn: DatabaseConnection): Promise<boolean> {
+    const pool = await this.getPool(conn);
+    await pool.query('SELECT 1');
+    // Testar acesso ao catálogo
+    try {
+      await pool.query('SELECT 1 FROM information_schema.tables LIMIT 1');
+    } catch (error: any) {
+      throw new Error(`Sem permissão para acessar information_schema: ${error.message}`);
+    }
+    return true;
+  }
+
+  async introspect(conn: DatabaseConnection) {
+    return new PostgresIntrospector(await this.getPool(conn)).getSchema(conn.database);
+  }
+
+  async getDDL(conn: DatabaseConnection): Promise<string> {
+    return new PostgresIntrospector(await this.getPool(conn)).getDDL(conn.database);
+  }
+
+  async execute(conn: DatabaseConnection, sql: string, signal?: AbortSignal, params?: QueryParams): Promise<any[]> {
+    const bound = bindParameters(sql, this.dialect, params, 'numbered');
+    const pool = await this.getPool(conn);
+    const client = await pool.connect();
+    let removeAbortHandler = () => {};
+    try {
+      removeAbortHandler = await this.cancelBackendOnAbort(pool, client, signal);
+      throwIfAborted(signal);
+      // Como no stream: funções que escrevem (inclusive as criadas pelo usuário) falham na transação somente leitura
+      await client.query('BEGIN READ ONLY');
+      const result = await client.query(bound.sql, bound.values);
+      return result.rows || [];
+    } finally {
+      removeAbortHandler();
+      await client.query('ROLLBACK').catch(() => undefined);
+      client.release();
+    }
+  }
+
+  async *stream(conn: DatabaseConnection, sql: string, signal?: AbortSignal, params?: QueryParams): AsyncGenerator<any, void, undefined> {
+    const bound = bindParameters(sql, this.dialect, params, 'numbered');
+    const pool = await this.getPool(conn);
+    const client = await pool.connect();
+    let removeAbortHandler = () => {};
+
+    try {
+      removeAbortHandler = await this.cancelBackendOnAbort(pool, client, signal);
+      throwIfAborted(signal);
+      // Cursores do PostgreSQL só existem dentro de uma transação
+      await client.query('BEGIN READ ONLY');
+      // $1, $2... do SQL valem dentro do DECLARE
+      await client.query(`DECLARE rt_cursor NO SCROLL CURSOR FOR ${bound.sql.trim().replace(/;+$/, '')}`, bound.values);
+
+      while (true) {
+        const { rows } = await client.query(`FETCH FORWARD ${STREAM_BATCH_SIZE} FROM rt_cursor`);
+        if (rows.length === 0) break;
+        yield* rows;
+      }
+    } finally {
+      removeAbortHandler();
+      await client.query('ROLLBACK').catch(() => undefined);
+      client.release();
+    }
+  }
+
+  // pg_cancel_backend interrompe apenas o comando atual do processo, sem encerrar a sessão
+  private async cancelBackendOnAbort(pool: pg.Pool, client: pg.PoolClient, signal?: AbortSignal): Promise<() => void> {
+    if (!signal) return () => {};
+
+    const { rows } = await client.query<{ pid: number }>('SELECT pg_backend_pid() AS pid');
+    const pid = rows[0].pid;
+    return onAbort(signal, () => {
+      pool.query('SELECT pg_cancel_backend($1)', [pid]).catch((error) => {
+        console.error(`[Postgres] Erro ao cancelar query do processo ${pid}:`, error.message);
+      });
+    });
+  }
+
+  async getActiveQueries(conn: DatabaseConnection) {
+    return new PostgresIntrospector(await this.getPool(conn)).getActiveQueries();
+  }
+
+  async getServerStatus(conn: DatabaseConnection) {
+    return new PostgresIntrospector(await this.getPool(conn)).getServerStatus();
+  }
+
+  async kill(conn: DatabaseConnection, sessionId: number): Promise<void> {
+    await new PostgresIntrospector(await this.getPool(conn)).killSession(sessionId);
+  }
+
+  async explain(conn: DatabaseConnection, sql: string, params?: QueryParams): Promise<any[]> {
+    return this.execute(conn, `EXPLAIN ${sql}`, undefined, params);
+  }
+
+  async close(connId: string): Promise<void> {
+    const pool = this.pools.get(connId);
+    if (pool) {
+      await pool.end();
+      this.pools.delete(connId);
+    }
+  }
+
+  async closeAll(): Promise<void> {
+    for (const pool of this.pools.values()) {
+      await pool.end();
+    }
+    this.pools.clear();
+  }
+}
@@ -0,0 +1,112 @@
+import Database from 'better-sqlite3';
+import { existsSync } from 'fs';
+import { SQLiteIntrospector } from '../sqlite-introspector.js';
+import { throwIfAborted } from '../executions.js';
+import { bindParameters } from '../../utils/sql-parameters.js';
+import type { DatabaseConnection, DatabaseDriver, QueryParams, QueryParamValue } from '../../types/index.js';
+
+// better-sqlite3 não aceita booleanos como parâmetro
+function toSQLiteValues(values: QueryParamValue[]): Array<string | number | null> {
+  return values.map(value => (typeof value === 'boolean' ? (value ? 1 : 0) : value));
+}
+
+export class SQLiteDriver implements DatabaseDriver {
+  readonly type = 'sqlite';
+  readonly displayName = 'SQLite';
+  readonly connectionKind = 'file';
+  readonly dialect = 'sqlite';
+
+  // Uma única conexão por arquivo; better-sqlite3 é síncrono
+  private databases = new Map<string, Database.Database>();
+
+  async getDatabase(conn: DatabaseConnection): Promise<Database.Database> {
+    if (!this.databases.has(conn.id)) {
+      if (!conn.filePath || !existsSync(conn.filePath)) {
+        throw new Error(`Arquivo SQLite não encontrado: ${conn.filePath || '(vazio)'}`);
+      }
+
+      const db = new Database(conn.filePath, { fileMustExist: true, timeout: 5000 });
+      db.pragma('foreign_keys = ON');
+
+      this.databases.set(conn.id, db);
+    }
+
+    return this.databases.get(conn.id)!;
+  }
+
+  async connect(conn: DatabaseConnection): Promise<void> {
+    await this.getDatabase(conn);
+  }
+
+  async test(conn: DatabaseConnection): Promise<boolean> {
+    const db = await this.getDatabase(conn);
+    try {
+      db.prepare('SELECT 1 FROM sqlite_master LIMIT 1').get();
+    } catch (error: any) {
+      throw new Error(`Arquivo '${conn.filePath}' não é um banco SQLite válido: ${error.message}`);
+    }
+    return true;
+  }
+
+  async introspect(conn: DatabaseConnection) {
+    return new SQLiteIntrospector(await this.getDatabase(conn)).getSchema(conn.database);
+  }
+
+  async getDDL(conn: DatabaseConnection): Promise<string> {
+    return new SQLiteIntrospector(await this.getDatabase(conn)).getDDL(conn.database);
+  }
+
+  // better-sqlite3 executa de forma síncrona: o cancelamento só é verificado antes de começar
+  async execute(conn: DatabaseConnection, sql: string, signal?: AbortSignal, params?: QueryParams): Promise<any[]> {
+    const bound = bindParameters(sql, this.dialect, params, 'positional');
+    const db = await this.getDatabase(conn);
+    throwIfAborted(signal);
+    return db.prepare(bound.sql).all(...toSQLiteValues(bound.values)) as any[];
+  }
+
+  async *stream(conn: DatabaseConnection, sql: string, signal?: AbortSignal, params?: QueryParams): AsyncGenerator<any, void, undefined> {
+    const bound = bindParameters(sql, this.dialect, params, 'positional');
+    await this.getDatabase(conn); // Valida o arquivo
+
+    // Conexão própria e somente leitura: enquanto iterate() está aberto,
+    // better-sqlite3 não permite outras queries na mesma conexão
+    const db = new Database(conn.filePath!, { readonly: true, fileMustExist: true, timeout: 5000 });
+
+    try {
+      // Entre uma linha e outra o cancelamento é verificado
+      for (const row of db.prepare(bound.sql).iterate(...toSQLiteValues(bound.values))) {
+        throwIfAborted(signal);
+        yield row;
+      }
+    } finally {
+      db.close();
+    }
+  }
+
+  async getActiveQueries(conn: DatabaseConnection) {
+    return new SQLiteIntrospector(await this.getDatabase(conn)).getActiveQueries();
+  }
+
+  async kill(_conn: DatabaseConnection, _sessionId: number): Promise<void> {
+    throw new Error('SQLite não possui sessões para encerrar');
+  }
+
+  async explain(conn: DatabaseConnection, sql: string, params?: QueryParams): Promise<any[]> {
+    return this.execute(conn, `EXPLAIN QUERY PLAN ${sql}`, undefined, params);
+  }
+
+  async close(connId: string): Promise<void> {
+    const db = this.databases.get(connId);
+    if (db) {
+      db.close();
+      this.databases.delete(connId);
+    }
+  }
+
+  async closeAll(): Promise<void> {
+    for (const db of this.databases.values()) {
+      db.close();
+    }
+    this.databases.clear();
+  }
+}
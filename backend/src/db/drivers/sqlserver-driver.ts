@@ -0,0 +1,173 @@
+import sql from 'mssql';
+import { SQLServerIntrospector } from '../sqlserver-introspector.js';
+import { onAbort, throwIfAborted } from '../executions.js';
+import { bindParameters, type BoundSql } from '../../utils/sql-parameters.js';
+import type { DatabaseConnection, DatabaseDriver, QueryParams, QueryParamValue, QueryStatsOptions } from '../../types/index.js';
+
+const STREAM_HIGH_WATER_MARK = 500;
+
+// Tipo do parâmetro pelo valor: o mesmo em request.input e no DECLARE usado pelo EXPLAIN
+function parameterType(value: QueryParamValue): { type: sql.ISqlType | (() => sql.ISqlType); declared: string } {
+  if (typeof value === 'boolean') return { type: sql.Bit, declared: 'BIT' };
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? { type: sql.BigInt, declared: 'BIGINT' } : { type: sql.Float, declared: 'FLOAT' };
+  }
+  return { type: sql.NVarChar, declared: 'NVARCHAR(4000)' };
+}
+
+function addInputs(request: sql.Request, bound: BoundSql): void {
+  bound.names.forEach((name, i) => request.input(name, parameterType(bound.values[i]).type, bound.values[i]));
+}
+
+export class SQLServerDriver implements DatabaseDriver {
+  readonly type = 'sqlserver';
+  readonly displayName = 'SQL Server';
+  readonly connectionKind = 'server';
+  readonly dialect = 'sqlserver';
+
+  private pools = new Map<string, sql.ConnectionPool>();
+
+  async getPool(conn: DatabaseConnection): Promise<sql.ConnectionPool> {
+    if (!this.pools.has(conn.id)) {
+      const config: sql.config = {
+        server: conn.host,
+        port: conn.port,
+        user: conn.user,
+        password: conn.password,
+        database: conn.database,
+        options: {
+          encrypt: conn.ssl ?? false,
+          trustServerCertificate: conn.ssl ?? false,
+          enableArithAbort: true,
+          requestTimeout: 60000, // 60 segundos (aumentado de 15s padrão)
+        },
+        pool: {
+          max: 10,
+          min: 0,
+          idleTimeoutMillis: 30000,
+        },
+      };
+
+      const pool = await sql.connect(config);
+      this.pools.set(conn.id, pool);
+    }
+
+    return this.pools.get(conn.id)!;
+  }
+
+  async connect(conn: DatabaseConnection): Promise<void> {
+    await this.getPool(conn);
+  }
+
+  async test(conn: DatabaseConnection): Promise<boolean> {
+    const pool = await this.getPool(conn);
+    await pool.request().query('SELECT 1');
+    return true;
+  }
+
+  async introspect(conn: DatabaseConnection) {
+    return new SQLServerIntrospector(await this.getPool(conn)).getSchema(conn.database);
+  }
+
+  async getDDL(conn: DatabaseConnection): Promise<string> {
+    return new SQLServerIntrospector(await this.getPool(conn)).getDDL(conn.database);
+  }
+
+  async execute(conn: DatabaseConnection, sqlText: string, signal?: AbortSignal, params?: QueryParams): Promise<any[]> {
+    const bound = bindParameters(sqlText, this.dialect, params, 'named');
+    throwIfAborted(signal);
+    const pool = await this.getPool(conn);
+    const request = pool.request();
+    addInputs(request, bound);
+
+    // Configurar timeout de 60 segundos para a query
+    request.timeout = 60000;
+    const removeAbortHandler = onAbort(signal, () => request.cancel());
+    try {
+      const result = await request.query(bound.sql);
+      return result.recordset || [];
+    } finally {
+      removeAbortHandler();
+    }
+  }
+
+  async *stream(conn: DatabaseConnection, sqlText: string, signal?: AbortSignal, params?: QueryParams): AsyncGenerator<any, void, undefined> {
+    const bound = bindParameters(sqlText, this.dialect, params, 'named');
+    throwIfAborted(signal);
+    const pool = await this.getPool(conn);
+    const request = pool.request();
+    addInputs(request, bound);
+    // Leitura pausada continua sujeita ao requestTimeout do pool
+    const rows = request.toReadableStream({ highWaterMark: STREAM_HIGH_WATER_MARK });
+    let finished = false;
+
+    // Em modo stream, os erros chegam pelo evento 'error' do stream
+    request.query(bound.sql);
+    const removeAbortHandler = onAbort(signal, () => request.cancel());
+
+    try {
+      for await (const row of rows) {
+        yield row;
+      }
+      finished = true;
+    } finally {
+      removeAbortHandler();
+      if (!finished) {
+        request.cancel();
+      }
+    }
+  }
+
+  async getActiveQueries(conn: DatabaseConnection) {
+    return new SQLServerIntrospector(await this.getPool(conn)).getActiveQueries();
+  }
+
+  async getQueryStats(conn: DatabaseConnection, options: QueryStatsOptions) {
+    return new SQLServerIntrospector(await this.getPool(conn)).getQueryStats(options);
+  }
+
+  async getServerStatus(conn: DatabaseConnection) {
+    return new SQLServerIntrospector(await this.getPool(conn)).getServerStatus();
+  }
+
+  async kill(conn: DatabaseConnection, sessionId: number): Promise<void> {
+    await new SQLServerIntrospector(await this.getPool(conn)).killSession(sessionId);
+  }
+
+  async explain(conn: DatabaseConnection, sqlText: string, params?: QueryParams): Promise<any[]> {
+    // SET SHOWPLAN_ALL precisa estar sozinho no batch e valer para a mesma conexão,
+    // por isso os três batches rodam dentro de uma transação
+    const bound = bindParameters(sqlText, this.dialect, params, 'named');
+    // O plano não depende dos valores: basta declarar as variáveis com o tipo de cada valor
+    const declarations = bound.names
+      .map((name, i) => `DECLARE @${name} ${parameterType(bound.values[i]).declared};\n`)
+      .join('');
+    const pool = await this.getPool(conn);
+    const transaction = new sql.Transaction(pool);
+    await transaction.begin();
+
+    try {
+      await transaction.request().batch('SET SHOWPLAN_ALL ON');
+      const result = await transaction.request().batch(declarations + bound.sql);
+      await transaction.request().batch('SET SHOWPLAN_ALL OFF');
+      return result.recordset || [];
+    } finally {
+      await transaction.rollback();
+    }
+  }
+
+  async close(connId: string): Promise<void> {
+    const pool = this.pools.get(connId);
+    if (pool) {
+      await pool.close();
+      this.pools.delete(connId);
+    }
+  }
+
+  async closeAll(): Promise<void> {
+    for (const pool of this.pools.values()) {
+      await pool.close();
+    }
+    this.pools.clear();
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Execuções de query em andamento, identificadas por um execId escolhido pelo cliente.
+ * Cancelar uma execução aborta o AbortSignal entregue ao driver, que interrompe
+ * a query no banco (KILL QUERY, request.cancel(), pg_cancel_backend...).
+ * O execId vale apenas dentro do usuário que executou (owner = userKeyOf do usuário):
+ * outro usuário não cancela a execução nem ocupa o mesmo id.
+ */
+
+const EXEC_ID_PATTERN = /^[A-Za-z0-9_-]{1,100}$/;
+
+interface RunningExecution {
+  connId: string;
+  owner: string;
+  controller: AbortController;
+  startedAt: number;
+}
+
+export interface Execution {
+  execId: string;
+  signal: AbortSignal;
+}
+
+export class ExecutionAbortedError extends Error {
+  constructor() {
+    super('Query cancelada pelo usuário');
+    this.name = 'ExecutionAbortedError';
+  }
+}
+
+export function throwIfAborted(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) {
+    throw new ExecutionAbortedError();
+  }
+}
+
+/**
+ * Registra um handler chamado quando o signal for abortado.
+ * Retorna a função que remove o handler, para ser chamada ao fim da execução.
+ */
+export function onAbort(signal: AbortSignal | undefined, handler: () => void): () => void {
+  if (!signal) return () => undefined;
+  if (signal.aborted) {
+    handler();
+    return () => undefined;
+  }
+  signal.addEventListener('abort', handler, { once: true });
+  return () => signal.removeEventListener('abort', handler);
+}
+
+class ExecutionRegistry {
+  private executions = new Map<string, RunningExecution>();
+
+  isValidId(execId: unknown): execId is string {
+    return typeof execId === 'string' && EXEC_ID_PATTERN.test(execId);
+  }
+
+  // O execId não contém ':', então a chave não se confunde entre usuários
+  private keyOf(owner: string, execId: string): string {
+    return `${execId}:${owner}`;
+  }
+
+  start(connId: string, owner: string, execId: string): Execution {
+    const key = this.keyOf(owner, execId);
+    if (this.executions.has(key)) {
+      throw new Error(`Já existe uma execução em andamento com o id ${execId}`);
+    }
+
+    const controller = new AbortController();
+    this.executions.set(key, { connId, owner, controller, startedAt: Date.now() });
+    return { execId, signal: controller.signal };
+  }
+
+  finish(owner: string, execId: string): void {
+    this.executions.delete(this.keyOf(owner, execId));
+  }
+
+  /**
+   * Aborta a execução do owner. Retorna a duração até o cancelamento em ms,
+   * ou null se ela não existe (ou já terminou) nesta conexão para esse usuário.
+   */
+  cancel(connId: string, owner: string, execId: string): number | null {
+    const key = this.keyOf(owner, execId);
+    const execution = this.executions.get(key);
+    if (!execution || execution.connId !== connId) {
+      return null;
+    }
+
+    execution.controller.abort();
+    this.executions.delete(key);
+    return Date.now() - execution.startedAt;
+  }
+}
+
+export const executionRegistry = new ExecutionRegistry();
@@ -0,0 +1,194 @@
+/**
+ * Histórico de métricas de monitoramento por conexão.
+ * Cada conexão monitorada ganha um sampler que lê as queries ativas e os contadores
+ * do servidor a cada intervalo; as amostras ficam num ring buffer em memória
+ * (o histórico recomeça quando o backend reinicia). O sampler para sozinho quando
+ * ninguém acompanha a conexão pelo WebSocket nem consulta o histórico por METRICS_IDLE_MINUTES.
+ */
+
+import { ConnectionManager } from './connection-manager.js';
+import { connectionStorage } from '../storage/connections.js';
+import type { MetricsSample } from '../types/index.js';
+
+// Lidos sob demanda: os imports rodam antes do dotenv.config() do index.ts
+function sampleIntervalMs(): number {
+  return Number(process.env.METRICS_SAMPLE_INTERVAL_MS) || 10 * 1000;
+}
+
+function retentionMs(): number {
+  return (Number(process.env.METRICS_RETENTION_HOURS) || 24) * 60 * 60 * 1000;
+}
+
+function idleMs(): number {
+  return (Number(process.env.METRICS_IDLE_MINUTES) || 30) * 60 * 1000;
+}
+
+// Buffer circular de tamanho fixo: ao encher, a amostra mais antiga é sobrescrita
+class RingBuffer<T> {
+  private items: T[] = [];
+  private next = 0;
+
+  constructor(private capacity: number) {}
+
+  push(item: T): void {
+    if (this.items.length < this.capacity) {
+      this.items.push(item);
+    } else {
+      this.items[this.next] = item;
+    }
+    this.next = (this.next + 1) % this.capacity;
+  }
+
+  // Da mais antiga para a mais recente
+  toArray(): T[] {
+    if (this.items.length < this.capacity) {
+      return [...this.items];
+    }
+    return [...this.items.slice(this.next), ...this.items.slice(0, this.next)];
+  }
+}
+
+interface Sampler {
+  timer: NodeJS.Timeout;
+  samples: RingBuffer<MetricsSample>;
+  lastCounter: { queries: number; at: number } | null; // Para calcular a taxa de queries
+  sampling: boolean;
+  failing: boolean; // Evita repetir o mesmo erro no log a cada amostra
+  watchers: number; // Inscrições WebSocket ativas na conexão
+  lastDemand: number; // Última consulta ao histórico ou saída do último inscrito
+}
+
+class MetricsHistory {
+  private samplers = new Map<string, Sampler>();
+
+  get intervalMs(): number {
+    return sampleIntervalMs();
+  }
+
+  get retentionMs(): number {
+    return retentionMs();
+  }
+
+  // Inicia a coleta da conexão, se ainda não estiver ativa, e adia a parada por ociosidade
+  ensureSampling(connId: string): void {
+    const existing = this.samplers.get(connId);
+    if (existing) {
+      existing.lastDemand = Date.now();
+      return;
+    }
+
+    const sampler: Sampler = {
+      timer: setInterval(() => this.sample(connId, sampler), this.intervalMs),
+      samples: new RingBuffer(Math.ceil(this.retentionMs / this.intervalMs)),
+      lastCounter: null,
+      sampling: false,
+      failing: false,
+      watchers: 0,
+      lastDemand: Date.now(),
+    };
+    // Não impedir o encerramento do processo
+    sampler.timer.unref();
+
+    this.samplers.set(connId, sampler);
+    console.log(`📈 [Metrics] Coletando métricas de ${connId} a cada ${this.intervalMs / 1000}s`);
+    this.sample(connId, sampler);
+  }
+
+  /**
+   * Mantém a coleta ativa enquanto um cliente acompanha a conexão pelo WebSocket.
+   * Retorna a função que libera a inscrição; depois dela o sampler segue até ficar ocioso.
+   */
+  watch(connId: string): () => void {
+    this.ensureSampling(connId);
+    const sampler = this.samplers.get(connId)!;
+    sampler.watchers++;
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      sampler.watchers--;
+      sampler.lastDemand = Date.now();
+    };
+  }
+
+  query(connId: string, from: number, to: number): MetricsSample[] {
+    const sampler = this.samplers.get(connId);
+    if (!sampler) return [];
+    return sampler.samples.toArray().filter(s => s.timestamp >= from && s.timestamp <= to);
+  }
+
+  stop(connId: string): void {
+    const sampler = this.samplers.get(connId);
+    if (!sampler) return;
+
+    clearInterval(sampler.timer);
+    this.samplers.delete(connId);
+  }
+
+  stopAll(): void {
+    for (const connId of Array.from(this.samplers.keys())) {
+      this.stop(connId);
+    }
+  }
+
+  private async sample(connId: string, sampler: Sampler): Promise<void> {
+    // Banco lento: não empilhar amostras enquanto a anterior não terminou
+    if (sampler.sampling) return;
+
+    const conn = connectionStorage.get(connId);
+    if (!conn) {
+      this.stop(connId);
+      return;
+    }
+
+    // Sem inscritos nem consultas ao histórico: parar de consultar o servidor e liberar o pool
+    if (sampler.watchers === 0 && Date.now() - sampler.lastDemand > idleMs()) {
+      console.log(`💤 [Metrics] Coleta de ${conn.name} encerrada por falta de uso`);
+      this.stop(connId);
+      return;
+    }
+
+    sampler.sampling = true;
+    try {
+      const driver = ConnectionManager.getDriver(conn);
+      const queries = await driver.getActiveQueries(conn);
+      const status = driver.getServerStatus ? await driver.getServerStatus(conn) : null;
+      const now = Date.now();
+
+      let qps: number | null = null;
+      if (status && sampler.lastCounter) {
+        const delta = status.queries - sampler.lastCounter.queries;
+        const seconds = (now - sampler.lastCounter.at) / 1000;
+        // Contador menor que o anterior: o servidor reiniciou
+        if (delta >= 0 && seconds > 0) {
+          qps = Math.round((delta / seconds) * 10) / 10;
+        }
+      }
+      sampler.lastCounter = status ? { queries: status.queries, at: now } : null;
+
+      sampler.samples.push({
+        timestamp: now,
+        activeSessions: queries.length,
+        blockedSessions: queries.filter(q => (q.blocking ?? []).some(id => id !== q.sessionId)).length,
+        longestQuerySeconds: queries.reduce((max, q) => Math.max(max, q.elapsedTime), 0),
+        connections: status?.connections ?? null,
+        qps,
+      });
+
+      if (sampler.failing) {
+        console.log(`✅ [Metrics] Coleta de ${conn.name} restabelecida`);
+        sampler.failing = false;
+      }
+    } catch (error: any) {
+      if (!sampler.failing) {
+        console.error(`[Metrics] Erro ao coletar métricas de ${conn.name}:`, error.message);
+        sampler.failing = true;
+      }
+    } finally {
+      sampler.sampling = false;
+    }
+  }
+}
+
+export const metricsHistory = new MetricsHistory();
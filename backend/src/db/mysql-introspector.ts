@@ -1,5 +1,46 @@
 import type { Pool } from 'mysql2/promise';
-import type { SchemaInfo, Table, Column, ForeignKey, View, Trigger, Index } from '../types/index.js';
+import type { SchemaInfo, Table, Column, ForeignKey, View, Trigger, Index, ActiveQuery, QueryStats, QueryStatsOptions, QueryStatsOrder, ServerStatus } from '../types/index.js';
+
+type ProcessListRow = {
+  ID: number;
+  USER: string;
+  HOST: string;
+  DB: string | null;
+  COMMAND: string;
+  TIME: number;
+  STATE: string | null;
+  INFO: string | null;
+};
+
+interface LockWait {
+  waitingPid: number;
+  blockingPid: number;
+  waitType: string;
+  waitSeconds: number;
+  waitResource: string;
+}
+
+// Colunas de events_statements_summary_by_digest (timers em picossegundos)
+const QUERY_STATS_ORDER: Record<QueryStatsOrder, string> = {
+  total: 'SUM_TIMER_WAIT',
+  avg: 'AVG_TIMER_WAIT',
+  executions: 'COUNT_STAR',
+};
+
+function toActiveQuery(q: ProcessListRow): ActiveQuery {
+  return {
+    id: `mysql_${q.ID}`,
+    sessionId: q.ID,
+    user: q.USER,
+    host: q.HOST,
+    database: q.DB || undefined,
+    status: q.STATE || (q.COMMAND === 'Sleep' ? 'sleeping' : 'running'),
+    command: q.COMMAND,
+    startTime: new Date(Date.now() - q.TIME * 1000),
+    elapsedTime: q.TIME,
+    sqlText: q.INFO || '',
+  };
+}
 
 export class MySQLIntrospector {
   constructor(private pool: Pool) {}
@@ -351,30 +392,173 @@ export class MySQLIntrospector {
        WHERE COMMAND NOT IN ('Sleep', 'Binlog Dump', 'Daemon')
          AND INFO IS NOT NULL
        ORDER BY TIME DESC`
+    ) as [ProcessListRow[], any];
+
+    const result = queries.map(toActiveQuery);
+    const byId = new Map(result.map((q) => [q.sessionId, q]));
+
+    for (const wait of await this.getLockWaits()) {
+      const waiting = byId.get(wait.waitingPid);
+      if (!waiting) continue;
+
+      waiting.blocking = Array.from(new Set([...(waiting.blocking ?? []), wait.blockingPid]));
+      // A primeira espera encontrada é a que está travando a query
+      if (!waiting.waitType) {
+        waiting.waitType = wait.waitType;
+        waiting.waitTime = wait.waitSeconds * 1000;
+        waiting.waitResource = wait.waitResource;
+      }
+    }
+
+    // Quem bloqueia pode estar ocioso (Sleep) com a transação aberta, fora da lista acima
+    const missingBlockers = Array.from(new Set(result.flatMap((q) => q.blocking ?? [])))
+      .filter((id) => !byId.has(id));
+    if (missingBlockers.length > 0) {
+      const [blockers] = await this.pool.query(
+        `SELECT ID, USER, HOST, DB, COMMAND, TIME, STATE, INFO
+         FROM INFORMATION_SCHEMA.PROCESSLIST
+         WHERE ID IN (?)`,
+        [missingBlockers]
+      ) as [ProcessListRow[], any];
+      result.push(...blockers.map(toActiveQuery));
+    }
+
+    return result;
+  }
+
+  // Esperas por lock de linha (InnoDB) e de metadados, com a sessão que espera e a que bloqueia
+  private async getLockWaits(): Promise<LockWait[]> {
+    const waits: LockWait[] = [];
+
+    type RowLockWait = {
+      waiting_pid: number;
+      blocking_pid: number;
+      wait_age_secs: number | null;
+      locked_table: string;
+      locked_index: string | null;
+      waiting_lock_mode: string;
+    };
+    let rowLockWaits: RowLockWait[] = [];
+    try {
+      [rowLockWaits] = await this.pool.query(
+        `SELECT waiting_pid, blocking_pid, wait_age_secs, locked_table, locked_index, waiting_lock_mode
+         FROM sys.innodb_lock_waits`
+      ) as [RowLockWait[], any];
+    } catch {
+      // Sem o schema sys: ler direto do performance_schema (MySQL 8+)
+      try {
+        [rowLockWaits] = await this.pool.query(
+          `SELECT
+            rt.PROCESSLIST_ID AS waiting_pid,
+            bt.PROCESSLIST_ID AS blocking_pid,
+            TIMESTAMPDIFF(SECOND, trx.trx_wait_started, NOW()) AS wait_age_secs,
+            CONCAT(rl.OBJECT_SCHEMA, '.', rl.OBJECT_NAME) AS locked_table,
+            rl.INDEX_NAME AS locked_index,
+            rl.LOCK_MODE AS waiting_lock_mode
+           FROM performance_schema.data_lock_waits w
+           JOIN performance_schema.threads rt ON rt.THREAD_ID = w.REQUESTING_THREAD_ID
+           JOIN performance_schema.threads bt ON bt.THREAD_ID = w.BLOCKING_THREAD_ID
+           JOIN performance_schema.data_locks rl
+             ON rl.ENGINE = w.ENGINE AND rl.ENGINE_LOCK_ID = w.REQUESTING_ENGINE_LOCK_ID
+           LEFT JOIN information_schema.INNODB_TRX trx ON trx.trx_mysql_thread_id = rt.PROCESSLIST_ID`
+        ) as [RowLockWait[], any];
+      } catch (error: any) {
+        console.warn('[MySQL] Não foi possível ler esperas de lock do InnoDB:', error.message);
+      }
+    }
+
+    for (const w of rowLockWaits) {
+      waits.push({
+        waitingPid: Number(w.waiting_pid),
+        blockingPid: Number(w.blocking_pid),
+        waitType: `row lock (${w.waiting_lock_mode})`,
+        waitSeconds: Number(w.wait_age_secs ?? 0),
+        waitResource: w.locked_index ? `${w.locked_table} [${w.locked_index}]` : w.locked_table,
+      });
+    }
+
+    // Metadata locks: ALTER/DROP esperando transações abertas na tabela, por exemplo
+    try {
+      const [metadataWaits] = await this.pool.query(
+        `SELECT waiting_pid, blocking_pid, waiting_query_secs, object_schema, object_name, waiting_lock_type
+         FROM sys.schema_table_lock_waits`
+      ) as [Array<{
+        waiting_pid: number;
+        blocking_pid: number;
+        waiting_query_secs: number | null;
+        object_schema: string;
+        object_name: string;
+        waiting_lock_type: string;
+      }>, any];
+
+      for (const w of metadataWaits) {
+        waits.push({
+          waitingPid: Number(w.waiting_pid),
+          blockingPid: Number(w.blocking_pid),
+          waitType: `metadata lock (${w.waiting_lock_type})`,
+          waitSeconds: Number(w.waiting_query_secs ?? 0),
+          waitResource: `${w.object_schema}.${w.object_name}`,
+        });
+      }
+    } catch {
+      // schema sys indisponível ou instrumentação de MDL desligada
+    }
+
+    return waits.filter((w) => w.waitingPid !== w.blockingPid);
+  }
+
+  // Estatísticas agregadas por digest (texto normalizado, com literais trocados por ?)
+  async getQueryStats({ orderBy, limit }: QueryStatsOptions): Promise<QueryStats[]> {
+    const [rows] = await this.pool.query(
+      `SELECT
+        DIGEST_TEXT,
+        COUNT_STAR,
+        SUM_TIMER_WAIT / 1000000000 AS total_elapsed_ms,
+        AVG_TIMER_WAIT / 1000000000 AS avg_elapsed_ms,
+        MIN_TIMER_WAIT / 1000000000 AS min_elapsed_ms,
+        MAX_TIMER_WAIT / 1000000000 AS max_elapsed_ms
+       FROM performance_schema.events_statements_summary_by_digest
+       WHERE DIGEST_TEXT IS NOT NULL
+         AND COUNT_STAR > 0
+         AND (SCHEMA_NAME IS NULL OR SCHEMA_NAME NOT IN ('performance_schema', 'information_schema', 'sys', 'mysql'))
+         AND DIGEST_TEXT NOT LIKE '%performance_schema%'
+       ORDER BY ${QUERY_STATS_ORDER[orderBy]} DESC
+       LIMIT ?`,
+      [limit]
     ) as [Array<{
-      ID: number;
-      USER: string;
-      HOST: string;
-      DB: string | null;
-      COMMAND: string;
-      TIME: number;
-      STATE: string | null;
-      INFO: string | null;
+      DIGEST_TEXT: string;
+      COUNT_STAR: number | string;
+      total_elapsed_ms: number | string;
+      avg_elapsed_ms: number | string;
+      min_elapsed_ms: number | string;
+      max_elapsed_ms: number | string;
     }>, any];
 
-    return queries.map(q => ({
-      id: `mysql_${q.ID}`,
-      sessionId: q.ID,
-      user: q.USER,
-      host: q.HOST,
-      database: q.DB || undefined,
-      status: q.STATE || 'running',
-      command: q.COMMAND,
-      startTime: new Date(Date.now() - q.TIME * 1000),
-      elapsedTime: q.TIME,
-      sqlText: q.INFO || '',
+    // Os timers são BIGINT UNSIGNED e as divisões viram DECIMAL, que o mysql2 retorna como string
+    return rows.map(row => ({
+      sqlText: row.DIGEST_TEXT,
+      executionCount: Number(row.COUNT_STAR),
+      totalElapsedTime: Number(row.total_elapsed_ms),
+      avgElapsedTime: Number(row.avg_elapsed_ms),
+      minElapsedTime: Number(row.min_elapsed_ms),
+      maxElapsedTime: Number(row.max_elapsed_ms),
     }));
   }
-}
 
+  // Questions conta apenas comandos enviados por clientes (sem os de stored procedures)
+  async getServerStatus(): Promise<ServerStatus> {
+    const [rows] = await this.pool.query(
+      `SHOW GLOBAL STATUS WHERE Variable_name IN ('Threads_connected', 'Questions')`
+    ) as [Array<{ Variable_name: string; Value: string }>, any];
+
+    const status = new Map(rows.map(row => [row.Variable_name, Number(row.Value)]));
+    return {
+      connections: status.get('Threads_connected') ?? 0,
+      queries: status.get('Questions') ?? 0,
+    };
+  }
 
+  async killSession(sessionId: number): Promise<void> {
+    await this.pool.query('KILL ?', [sessionId]);
+  }
+}
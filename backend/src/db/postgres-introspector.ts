@@ -0,0 +1,429 @@
+import type pg from 'pg';
+import type { SchemaInfo, Table, Column, ForeignKey, View, Trigger, Index, ServerStatus } from '../types/index.js';
+
+// Schemas internos do PostgreSQL que não devem aparecer na introspecção
+const SYSTEM_SCHEMAS = ['pg_catalog', 'information_schema', 'pg_toast'];
+
+export class PostgresIntrospector {
+  constructor(private pool: pg.Pool) {}
+
+  async getSchema(database: string): Promise<SchemaInfo> {
+    // Validar que o banco conectado é o esperado
+    try {
+      const { rows } = await this.pool.query<{ current_database: string }>('SELECT current_database()');
+      if (rows[0]?.current_database !== database) {
+        throw new Error(`Banco de dados '${database}' não encontrado ou sem permissão de acesso`);
+      }
+    } catch (error: any) {
+      if (error.message.includes('não encontrado')) {
+        throw error;
+      }
+      throw new Error(`Erro ao verificar banco de dados: ${error.message}`);
+    }
+
+    try {
+      const [tables, views, triggers, foreignKeys] = await Promise.all([
+        this.getTables(),
+        this.getViews(),
+        this.getTriggers(),
+        this.getForeignKeys(),
+      ]);
+
+      return {
+        tables,
+        views,
+        triggers,
+        foreignKeys,
+      };
+    } catch (error: any) {
+      if (error.message.includes('permission denied')) {
+        throw new Error(`Acesso negado ao banco de dados '${database}'. Verifique as credenciais e permissões.`);
+      }
+      throw new Error(`Erro ao obter schema: ${error.message}`);
+    }
+  }
+
+  private async getTables(): Promise<Table[]> {
+    const { rows: tables } = await this.pool.query<{ table_schema: string; table_name: string }>(
+      `SELECT table_schema, table_name
+       FROM information_schema.tables
+       WHERE table_type = 'BASE TABLE'
+         AND table_schema <> ALL($1)
+       ORDER BY table_schema, table_name`,
+      [SYSTEM_SCHEMAS]
+    );
+
+    const result: Table[] = [];
+
+    for (const table of tables) {
+      try {
+        const columns = await this.getColumns(table.table_schema, table.table_name);
+        const primaryKeys = await this.getPrimaryKeys(table.table_schema, table.table_name);
+        const indexes = await this.getIndexes(table.table_schema, table.table_name);
+
+        result.push({
+          name: table.table_name,
+          schema: table.table_schema,
+          columns: columns.map(col => ({ ...col, isPrimaryKey: primaryKeys.includes(col.name) })),
+          primaryKeys,
+          indexes,
+        });
+      } catch (tableError: any) {
+        console.warn(`Erro ao processar tabela ${table.table_schema}.${table.table_name}:`, tableError.message);
+        // Continuar com outras tabelas mesmo se uma falhar
+        result.push({
+          name: table.table_name,
+          schema: table.table_schema,
+          columns: [],
+          primaryKeys: [],
+          indexes: [],
+        });
+      }
+    }
+
+    return result;
+  }
+
+  // Funciona tanto para tabelas quanto para views (ambas são relações em pg_class)
+  private async getColumns(schema: string, relationName: string): Promise<Column[]> {
+    const { rows: columns } = await this.pool.query<{
+      column_name: string;
+      data_type: string;
+      is_nullable: boolean;
+      column_default: string | null;
+      column_comment: string | null;
+    }>(
+      `SELECT
+        a.attname AS column_name,
+        format_type(a.atttypid, a.atttypmod) AS data_type,
+        NOT a.attnotnull AS is_nullable,
+        pg_get_expr(d.adbin, d.adrelid) AS column_default,
+        col_description(a.attrelid, a.attnum) AS column_comment
+       FROM pg_attribute a
+       LEFT JOIN pg_attrdef d ON d.adrelid = a.attrelid AND d.adnum = a.attnum
+       WHERE a.attrelid = format('%I.%I', $1::text, $2::text)::regclass
+         AND a.attnum > 0
+         AND NOT a.attisdropped
+       ORDER BY a.attnum`,
+      [schema, relationName]
+    );
+
+    return columns.map(col => ({
+      name: col.column_name,
+      type: col.data_type,
+      nullable: col.is_nullable,
+      isPrimaryKey: false, // Preenchido em getTables
+      isForeignKey: false, // Será preenchido depois
+      defaultValue: col.column_default ?? undefined,
+      comment: col.column_comment || undefined,
+    }));
+  }
+
+  private async getPrimaryKeys(schema: string, tableName: string): Promise<string[]> {
+    const { rows: keys } = await this.pool.query<{ column_name: string }>(
+      `SELECT a.attname AS column_name
+       FROM pg_index i
+       JOIN pg_attribute a ON a.attrelid = i.indrelid AND a.attnum = ANY(i.indkey)
+       WHERE i.indrelid = format('%I.%I', $1::text, $2::text)::regclass
+         AND i.indisprimary
+       ORDER BY array_position(i.indkey::int2[], a.attnum)`,
+      [schema, tableName]
+    );
+
+    return keys.map(k => k.column_name);
+  }
+
+  private async getIndexes(schema: string, tableName: string): Promise<Index[]> {
+    const { rows: indexes } = await this.pool.query<{
+      index_name: string;
+      column_name: string;
+      is_unique: boolean;
+    }>(
+      `SELECT
+        ic.relname AS index_name,
+        a.attname AS column_name,
+        ix.indisunique AS is_unique
+       FROM pg_index ix
+       JOIN pg_class ic ON ic.oid = ix.indexrelid
+       CROSS JOIN LATERAL unnest(ix.indkey::int2[]) WITH ORDINALITY AS k(attnum, ord)
+       JOIN pg_attribute a ON a.attrelid = ix.indrelid AND a.attnum = k.attnum
+       WHERE ix.indrelid = format('%I.%I', $1::text, $2::text)::regclass
+       ORDER BY ic.relname, k.ord`,
+      [schema, tableName]
+    );
+
+    const indexMap = new Map<string, Index>();
+
+    for (const idx of indexes) {
+      if (!indexMap.has(idx.index_name)) {
+        indexMap.set(idx.index_name, {
+          name: idx.index_name,
+          columns: [],
+          unique: idx.is_unique,
+        });
+      }
+      indexMap.get(idx.index_name)!.columns.push(idx.column_name);
+    }
+
+    return Array.from(indexMap.values());
+  }
+
+  private async getForeignKeys(): Promise<ForeignKey[]> {
+    const { rows: fks } = await this.pool.query<{
+      constraint_name: string;
+      from_schema: string;
+      from_table: string;
+      from_column: string;
+      to_schema: string;
+      to_table: string;
+      to_column: string;
+    }>(
+      `SELECT
+        con.conname AS constraint_name,
+        ns.nspname AS from_schema,
+        cl.relname AS from_table,
+        a.attname AS from_column,
+        fns.nspname AS to_schema,
+        fcl.relname AS to_table,
+        fa.attname AS to_column
+       FROM pg_constraint con
+       JOIN pg_class cl ON cl.oid = con.conrelid
+       JOIN pg_namespace ns ON ns.oid = cl.relnamespace
+       JOIN pg_class fcl ON fcl.oid = con.confrelid
+       JOIN pg_namespace fns ON fns.oid = fcl.relnamespace
+       CROSS JOIN LATERAL unnest(con.conkey, con.confkey) AS k(attnum, fattnum)
+       JOIN pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = k.attnum
+       JOIN pg_attribute fa ON fa.attrelid = con.confrelid AND fa.attnum = k.fattnum
+       WHERE con.contype = 'f'
+         AND ns.nspname <> ALL($1)
+       ORDER BY ns.nspname, cl.relname, con.conname`,
+      [SYSTEM_SCHEMAS]
+    );
+
+    return fks.map(fk => ({
+      name: fk.constraint_name,
+      fromTable: `${fk.from_schema}.${fk.from_table}`,
+      fromColumn: fk.from_column,
+      toTable: `${fk.to_schema}.${fk.to_table}`,
+      toColumn: fk.to_column,
+    }));
+  }
+
+  private async getViews(): Promise<View[]> {
+    const { rows: views } = await this.pool.query<{
+      schemaname: string;
+      viewname: string;
+      definition: string | null;
+    }>(
+      `SELECT schemaname, viewname, definition
+       FROM pg_views
+       WHERE schemaname <> ALL($1)
+       ORDER BY schemaname, viewname`,
+      [SYSTEM_SCHEMAS]
+    );
+
+    const result: View[] = [];
+
+    for (const view of views) {
+      const columns = await this.getColumns(view.schemaname, view.viewname);
+
+      result.push({
+        name: view.viewname,
+        schema: view.schemaname,
+        definition: view.definition || '',
+        columns,
+      });
+    }
+
+    return result;
+  }
+
+  private async getTriggers(): Promise<Trigger[]> {
+    const { rows: triggers } = await this.pool.query<{
+      trigger_name: string;
+      trigger_schema: string;
+      table_name: string;
+      events: string;
+      action_timing: string;
+      definition: string;
+    }>(
+      `SELECT
+        t.trigger_name,
+        t.event_object_schema AS trigger_schema,
+        t.event_object_table AS table_name,
+        string_agg(t.event_manipulation, ' OR ' ORDER BY t.event_manipulation) AS events,
+        t.action_timing,
+        pg_get_triggerdef(tg.oid) AS definition
+       FROM information_schema.triggers t
+       JOIN pg_class cl ON cl.relname = t.event_object_table
+       JOIN pg_namespace ns ON ns.oid = cl.relnamespace AND ns.nspname = t.event_object_schema
+       JOIN pg_trigger tg ON tg.tgrelid = cl.oid AND tg.tgname = t.trigger_name
+       WHERE t.event_object_schema <> ALL($1)
+       GROUP BY t.trigger_name, t.event_object_schema, t.event_object_table, t.action_timing, tg.oid
+       ORDER BY t.event_object_schema, t.event_object_table, t.trigger_name`,
+      [SYSTEM_SCHEMAS]
+    );
+
+    return triggers.map(t => ({
+      name: t.trigger_name,
+      table: `${t.trigger_schema}.${t.table_name}`,
+      event: t.events,
+      timing: t.action_timing,
+      definition: t.definition,
+    }));
+  }
+
+  async getDDL(database: string): Promise<string> {
+    // PostgreSQL não tem SHOW CREATE TABLE
+    // Gerar DDL das tabelas a partir dos metadados e usar pg_get_* para o restante
+    const schema = await this.getSchema(database);
+    const ddl: string[] = [];
+    const quote = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+    // Tabelas
+    for (const table of schema.tables) {
+      ddl.push(`-- Table: ${table.schema}.${table.name}`);
+      ddl.push(`CREATE TABLE ${quote(table.schema!)}.${quote(table.name)} (`);
+
+      const colDefs = table.columns.map(col => {
+        let def = `  ${quote(col.name)} ${col.type}`;
+        if (!col.nullable) def += ' NOT NULL';
+        if (col.defaultValue) def += ` DEFAULT ${col.defaultValue}`;
+        return def;
+      });
+
+      if (table.primaryKeys.length > 0) {
+        colDefs.push(`  PRIMARY KEY (${table.primaryKeys.map(quote).join(', ')})`);
+      }
+
+      ddl.push(colDefs.join(',\n'));
+      ddl.push(');');
+      ddl.push('');
+    }
+
+    // Foreign Keys (definição completa, incluindo chaves compostas e ações)
+    const { rows: constraints } = await this.pool.query<{
+      schema_name: string;
+      table_name: string;
+      constraint_name: string;
+      definition: string;
+    }>(
+      `SELECT ns.nspname AS schema_name, cl.relname AS table_name, con.conname AS constraint_name,
+              pg_get_constraintdef(con.oid) AS definition
+       FROM pg_constraint con
+       JOIN pg_class cl ON cl.oid = con.conrelid
+       JOIN pg_namespace ns ON ns.oid = cl.relnamespace
+       WHERE con.contype = 'f'
+         AND ns.nspname <> ALL($1)
+       ORDER BY ns.nspname, cl.relname, con.conname`,
+      [SYSTEM_SCHEMAS]
+    );
+
+    for (const fk of constraints) {
+      ddl.push(`-- Foreign Key: ${fk.constraint_name}`);
+      ddl.push(`ALTER TABLE ${quote(fk.schema_name)}.${quote(fk.table_name)}`);
+      ddl.push(`  ADD CONSTRAINT ${quote(fk.constraint_name)} ${fk.definition};`);
+      ddl.push('');
+    }
+
+    // Views
+    for (const view of schema.views) {
+      ddl.push(`-- View: ${view.schema}.${view.name}`);
+      ddl.push(`CREATE VIEW ${quote(view.schema!)}.${quote(view.name)} AS`);
+      ddl.push(view.definition.trim());
+      ddl.push('');
+    }
+
+    // Triggers
+    for (const trigger of schema.triggers) {
+      ddl.push(`-- Trigger: ${trigger.name}`);
+      ddl.push(trigger.definition + ';');
+      ddl.push('');
+    }
+
+    return ddl.join('\n');
+  }
+
+  async getActiveQueries(): Promise<any[]> {
+    const { rows: queries } = await this.pool.query<{
+      pid: number;
+      usename: string | null;
+      client_addr: string | null;
+      client_hostname: string | null;
+      datname: string | null;
+      state: string | null;
+      backend_type: string | null;
+      query_start: Date | null;
+      elapsed_seconds: number | null;
+      query: string | null;
+      blocking_pids: number[];
+      wait_event_type: string | null;
+      wait_event: string | null;
+      locked_relation: string | null;
+    }>(
+      `SELECT
+        pid,
+        usename,
+        client_addr::text AS client_addr,
+        client_hostname,
+        datname,
+        state,
+        backend_type,
+        query_start,
+        EXTRACT(EPOCH FROM (now() - query_start))::int AS elapsed_seconds,
+        query,
+        pg_blocking_pids(pid) AS blocking_pids,
+        wait_event_type,
+        wait_event,
+        (SELECT l.relation::regclass::text FROM pg_locks l
+          WHERE l.pid = a.pid AND NOT l.granted AND l.relation IS NOT NULL
+          LIMIT 1) AS locked_relation
+       FROM pg_stat_activity a
+       WHERE state IS NOT NULL
+         AND state <> 'idle'
+         AND pid <> pg_backend_pid()
+       ORDER BY query_start`
+    );
+
+    return queries.map(q => ({
+      id: `postgres_${q.pid}`,
+      sessionId: q.pid,
+      user: q.usename || '',
+      host: q.client_hostname || q.client_addr || 'local',
+      database: q.datname || undefined,
+      status: q.state || 'active',
+      command: q.backend_type || 'client backend',
+      startTime: q.query_start || new Date(),
+      elapsedTime: q.elapsed_seconds || 0,
+      sqlText: q.query || '',
+      blocking: q.blocking_pids.length > 0 ? q.blocking_pids : undefined,
+      // O PostgreSQL não expõe quando a espera começou; apenas o tipo e o recurso
+      waitType: q.wait_event ? `${q.wait_event_type}:${q.wait_event}` : undefined,
+      waitResource: q.locked_relation || undefined,
+    }));
+  }
+
+  // O PostgreSQL não conta statements; usamos transações (commit + rollback) como aproximação
+  async getServerStatus(): Promise<ServerStatus> {
+    const { rows } = await this.pool.query<{ connections: string; transactions: string | null }>(
+      `SELECT
+        (SELECT count(*) FROM pg_stat_activity WHERE backend_type = 'client backend') AS connections,
+        (SELECT sum(xact_commit + xact_rollback) FROM pg_stat_database) AS transactions`
+    );
+
+    return {
+      connections: Number(rows[0]?.connections ?? 0),
+      queries: Number(rows[0]?.transactions ?? 0),
+    };
+  }
+
+  async killSession(sessionId: number): Promise<void> {
+    const { rows } = await this.pool.query<{ terminated: boolean }>(
+      'SELECT pg_terminate_backend($1) AS terminated',
+      [sessionId]
+    );
+    if (!rows[0]?.terminated) {
+      throw new Error(`Sessão ${sessionId} não encontrada ou sem permissão para encerrá-la`);
+    }
+  }
+}
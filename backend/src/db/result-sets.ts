@@ -0,0 +1,197 @@
+/**
+ * Resultados de queries mantidos abertos no servidor e lidos em páginas.
+ * Cada resultado segura o cursor do driver até ser lido por completo,
+ * fechado pelo cliente ou expirar por inatividade, e só é acessível ao
+ * usuário que executou a query (owner = userKeyOf do usuário).
+ */
+
+import { randomUUID } from 'crypto';
+
+const RESULT_TTL_MS = 10 * 60 * 1000; // 10 minutos sem acesso
+const SWEEP_INTERVAL_MS = 60 * 1000;
+const MAX_RESULTS_PER_OWNER = 3; // Por usuário e conexão
+// Cursores abertos por conexão somando todos os usuários; abaixo do max: 10 dos pools,
+// para sobrar conexão para execuções, monitoramento e introspecção
+const MAX_CURSORS_PER_CONNECTION = 5;
+const MAX_BUFFERED_ROWS = 50000; // Janela de linhas mantida em memória por resultado
+// Depois de cada página, linhas lidas adiante: resultados pequenos chegam ao fim e liberam a conexão
+const DRAIN_AHEAD_ROWS = 5000;
+
+export interface ResultPage {
+  handle: string;
+  rows: any[];
+  columns: string[];
+  offset: number;
+  totalRows: number | null; // Conhecido apenas depois que o resultado foi lido até o fim
+  hasMore: boolean;
+}
+
+export class ResultSet {
+  readonly handle = randomUUID();
+  lastAccess = Date.now();
+
+  private columns: string[] = [];
+  private buffer: any[] = [];
+  private bufferStart = 0; // Offset da primeira linha ainda em memória
+  private done = false;
+  private failure: unknown = null; // Erro da leitura adiantada, entregue na próxima página
+  private pending: Promise<unknown> = Promise.resolve(); // Serializa leituras concorrentes
+
+  constructor(readonly connId: string, readonly owner: string, private iterator: AsyncIterator<any>) {}
+
+  // Linhas anteriores a este offset já foram descartadas da janela
+  get firstAvailableRow(): number {
+    return this.bufferStart;
+  }
+
+  // Lido até o fim (ou fechado): o driver já devolveu a conexão ao pool
+  get holdsCursor(): boolean {
+    return !this.done;
+  }
+
+  private get fetched(): number {
+    return this.bufferStart + this.buffer.length;
+  }
+
+  private async fill(untilRow: number): Promise<void> {
+    while (!this.done && this.fetched < untilRow) {
+      const next = await this.iterator.next();
+      if (next.done) {
+        this.done = true;
+        break;
+      }
+      if (this.columns.length === 0) {
+        this.columns = Object.keys(next.value);
+      }
+      this.buffer.push(next.value);
+    }
+
+    const overflow = this.buffer.length - MAX_BUFFERED_ROWS;
+    if (overflow > 0) {
+      this.buffer.splice(0, overflow);
+      this.bufferStart += overflow;
+    }
+  }
+
+  read(offset: number, size: number): Promise<ResultPage> {
+    this.lastAccess = Date.now();
+
+    const page = this.pending.then(async () => {
+      if (this.failure) throw this.failure;
+      // Uma linha a mais para saber se existe próxima página
+      await this.fill(offset + size + 1);
+
+      const start = offset - this.bufferStart;
+      const rows = this.buffer.slice(start, start + size);
+
+      return {
+        handle: this.handle,
+        rows,
+        columns: this.columns,
+        offset,
+        totalRows: this.done ? this.fetched : null,
+        hasMore: this.fetched > offset + rows.length,
+      };
+    });
+
+    // A leitura adiantada roda depois da resposta; a próxima página espera por ela
+    this.pending = page
+      .then(() => this.fill(offset + size + DRAIN_AHEAD_ROWS))
+      .catch((error) => {
+        // O driver já encerrou o cursor ao lançar o erro
+        if (!this.failure) this.failure = error;
+        this.done = true;
+      });
+    return page;
+  }
+
+  async close(): Promise<void> {
+    if (!this.done) {
+      this.done = true;
+      await this.iterator.return?.();
+    }
+    this.buffer = [];
+  }
+}
+
+class ResultSetStore {
+  private results = new Map<string, ResultSet>();
+  private sweeper: NodeJS.Timeout | null = null;
+
+  async open(connId: string, owner: string, rows: AsyncIterable<any>): Promise<ResultSet> {
+    // Liberar os resultados mais antigos do usuário nesta conexão antes de abrir outro
+    await this.evictOldest(this.forConnection(connId).filter(r => r.owner === owner), MAX_RESULTS_PER_OWNER);
+    // E, somando todos os usuários, os cursores usados há mais tempo, para não esgotar o pool
+    await this.evictOldest(this.forConnection(connId).filter(r => r.holdsCursor), MAX_CURSORS_PER_CONNECTION);
+
+    const result = new ResultSet(connId, owner, rows[Symbol.asyncIterator]());
+    this.results.set(result.handle, result);
+    this.startSweeper();
+    return result;
+  }
+
+  // Resultado aberto pelo owner nesta conexão; os de outros usuários não são encontrados
+  get(handle: string, connId: string, owner: string): ResultSet | undefined {
+    const result = this.results.get(handle);
+    return result && result.connId === connId && result.owner === owner ? result : undefined;
+  }
+
+  async close(handle: string): Promise<void> {
+    const result = this.results.get(handle);
+    if (!result) return;
+
+    this.results.delete(handle);
+    try {
+      await result.close();
+    } catch (error: any) {
+      console.error(`[Results] Erro ao fechar resultado ${handle}:`, error.message);
+    }
+  }
+
+  async closeConnection(connId: string): Promise<void> {
+    for (const result of this.forConnection(connId)) {
+      await this.close(result.handle);
+    }
+  }
+
+  async closeAll(): Promise<void> {
+    for (const handle of Array.from(this.results.keys())) {
+      await this.close(handle);
+    }
+    if (this.sweeper) {
+      clearInterval(this.sweeper);
+      this.sweeper = null;
+    }
+  }
+
+  // Fecha os usados há mais tempo até sobrar espaço para mais um dentro do limite
+  private async evictOldest(results: ResultSet[], limit: number): Promise<void> {
+    const oldest = results.sort((a, b) => a.lastAccess - b.lastAccess);
+    for (const result of oldest.slice(0, Math.max(0, oldest.length - limit + 1))) {
+      await this.close(result.handle);
+    }
+  }
+
+  private forConnection(connId: string): ResultSet[] {
+    return Array.from(this.results.values()).filter(r => r.connId === connId);
+  }
+
+  private startSweeper(): void {
+    if (this.sweeper) return;
+
+    this.sweeper = setInterval(() => {
+      const now = Date.now();
+      for (const result of this.results.values()) {
+        if (now - result.lastAccess > RESULT_TTL_MS) {
+          console.log(`🧹 [Results] Resultado ${result.handle} expirado por inatividade`);
+          this.close(result.handle);
+        }
+      }
+    }, SWEEP_INTERVAL_MS);
+
+    // Não impedir o encerramento do processo
+    this.sweeper.unref();
+  }
+}
+
+export const resultSetStore = new ResultSetStore();
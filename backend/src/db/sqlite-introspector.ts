@@ -0,0 +1,216 @@
+import type Database from 'better-sqlite3';
+import type { SchemaInfo, Table, Column, ForeignKey, View, Trigger, Index } from '../types/index.js';
+
+interface MasterRow {
+  type: 'table' | 'view' | 'index' | 'trigger';
+  name: string;
+  tbl_name: string;
+  sql: string | null;
+}
+
+interface TableInfoRow {
+  cid: number;
+  name: string;
+  type: string;
+  notnull: number;
+  dflt_value: string | null;
+  pk: number;
+}
+
+interface ForeignKeyListRow {
+  id: number;
+  seq: number;
+  table: string;
+  from: string;
+  to: string | null;
+}
+
+interface IndexListRow {
+  seq: number;
+  name: string;
+  unique: number;
+  origin: string;
+  partial: number;
+}
+
+export class SQLiteIntrospector {
+  constructor(private db: Database.Database) {}
+
+  async getSchema(database: string): Promise<SchemaInfo> {
+    // Validar que o arquivo é um banco SQLite legível
+    try {
+      this.db.prepare('SELECT 1 FROM sqlite_master LIMIT 1').get();
+    } catch (error: any) {
+      throw new Error(`Arquivo '${database}' não é um banco SQLite válido: ${error.message}`);
+    }
+
+    try {
+      const tables = this.getTables();
+      const views = this.getViews();
+      const triggers = this.getTriggers();
+      const foreignKeys = this.getForeignKeys(tables);
+
+      return {
+        tables,
+        views,
+        triggers,
+        foreignKeys,
+      };
+    } catch (error: any) {
+      throw new Error(`Erro ao obter schema: ${error.message}`);
+    }
+  }
+
+  // Objetos do usuário no sqlite_master (ignora tabelas internas sqlite_*)
+  private getMasterRows(type: MasterRow['type']): MasterRow[] {
+    return this.db.prepare(
+      `SELECT type, name, tbl_name, sql
+       FROM sqlite_master
+       WHERE type = ? AND name NOT LIKE 'sqlite_%'
+       ORDER BY name`
+    ).all(type) as MasterRow[];
+  }
+
+  private getTables(): Table[] {
+    const result: Table[] = [];
+
+    for (const table of this.getMasterRows('table')) {
+      try {
+        const info = this.getTableInfo(table.name);
+        const primaryKeys = info
+          .filter(col => col.pk > 0)
+          .sort((a, b) => a.pk - b.pk)
+          .map(col => col.name);
+
+        result.push({
+          name: table.name,
+          columns: this.toColumns(info),
+          primaryKeys,
+          indexes: this.getIndexes(table.name),
+        });
+      } catch (tableError: any) {
+        console.warn(`Erro ao processar tabela ${table.name}:`, tableError.message);
+        // Continuar com outras tabelas mesmo se uma falhar
+        result.push({
+          name: table.name,
+          columns: [],
+          primaryKeys: [],
+          indexes: [],
+        });
+      }
+    }
+
+    return result;
+  }
+
+  // PRAGMA table_info funciona tanto para tabelas quanto para views
+  private getTableInfo(relationName: string): TableInfoRow[] {
+    return this.db.prepare('SELECT * FROM pragma_table_info(?) ORDER BY cid').all(relationName) as TableInfoRow[];
+  }
+
+  private toColumns(info: TableInfoRow[]): Column[] {
+    return info.map(col => ({
+      name: col.name,
+      // Colunas sem tipo declarado são permitidas no SQLite
+      type: col.type || 'ANY',
+      nullable: col.notnull === 0 && col.pk === 0,
+      isPrimaryKey: col.pk > 0,
+      isForeignKey: false, // Será preenchido depois
+      defaultValue: col.dflt_value ?? undefined,
+    }));
+  }
+
+  private getIndexes(tableName: string): Index[] {
+    const indexes = this.db.prepare('SELECT * FROM pragma_index_list(?)').all(tableName) as IndexListRow[];
+
+    return indexes.map(idx => {
+      const columns = this.db.prepare('SELECT name FROM pragma_index_info(?) ORDER BY seqno')
+        .all(idx.name) as Array<{ name: string | null }>;
+
+      return {
+        name: idx.name,
+        // Colunas de índices sobre expressões vêm sem nome
+        columns: columns.map(c => c.name ?? '<expr>'),
+        unique: idx.unique === 1,
+      };
+    });
+  }
+
+  private getForeignKeys(tables: Table[]): ForeignKey[] {
+    const result: ForeignKey[] = [];
+
+    for (const table of tables) {
+      const fks = this.db.prepare('SELECT * FROM pragma_foreign_key_list(?) ORDER BY id, seq')
+        .all(table.name) as ForeignKeyListRow[];
+
+      for (const fk of fks) {
+        // FKs no SQLite não têm nome; "to" fica NULL quando referencia a PK implicitamente
+        const target = tables.find(t => t.name.toLowerCase() === fk.table.toLowerCase());
+
+        result.push({
+          name: `fk_${table.name}_${fk.id}`,
+          fromTable: table.name,
+          fromColumn: fk.from,
+          toTable: target?.name ?? fk.table,
+          toColumn: fk.to ?? target?.primaryKeys[fk.seq] ?? '',
+        });
+      }
+    }
+
+    return result;
+  }
+
+  private getViews(): View[] {
+    return this.getMasterRows('view').map(view => ({
+      name: view.name,
+      definition: view.sql || '',
+      columns: this.toColumns(this.getTableInfo(view.name)),
+    }));
+  }
+
+  private getTriggers(): Trigger[] {
+    return this.getMasterRows('trigger').map(trigger => {
+      const definition = trigger.sql || '';
+      const header = definition.split(/\bBEGIN\b/i)[0];
+      const timing = header.match(/\b(BEFORE|AFTER|INSTEAD\s+OF)\b/i)?.[1] ?? 'BEFORE';
+      const event = header.match(/\b(INSERT|UPDATE|DELETE)\b/i)?.[1] ?? '';
+
+      return {
+        name: trigger.name,
+        table: trigger.tbl_name,
+        event: event.toUpperCase(),
+        timing: timing.toUpperCase().replace(/\s+/g, ' '),
+        definition,
+      };
+    });
+  }
+
+  async getDDL(_database: string): Promise<string> {
+    // O SQLite guarda o DDL original de cada objeto no sqlite_master
+    const ddl: string[] = [];
+    const sections: Array<{ type: MasterRow['type']; label: string }> = [
+      { type: 'table', label: 'Table' },
+      { type: 'index', label: 'Index' },
+      { type: 'view', label: 'View' },
+      { type: 'trigger', label: 'Trigger' },
+    ];
+
+    for (const section of sections) {
+      for (const row of this.getMasterRows(section.type)) {
+        // Índices automáticos (PK/UNIQUE) não têm SQL próprio
+        if (!row.sql) continue;
+
+        ddl.push(`-- ${section.label}: ${row.name}`);
+        ddl.push(row.sql.trim().replace(/;?$/, ';'));
+        ddl.push('');
+      }
+    }
+
+    return ddl.join('\n');
+  }
+
+  async getActiveQueries(): Promise<any[]> {
+    // SQLite é embarcado: não há sessões de outros clientes para monitorar
+    return [];
+  }
+}
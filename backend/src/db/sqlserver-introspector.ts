@@ -1,5 +1,11 @@
 import sql from 'mssql';
-import type { SchemaInfo, Table, Column, ForeignKey, View, Trigger, Index } from '../types/index.js';
+import type { SchemaInfo, Table, Column, ForeignKey, View, Trigger, Index, QueryStats, QueryStatsOptions, QueryStatsOrder, ServerStatus } from '../types/index.js';
+
+const QUERY_STATS_ORDER: Record<QueryStatsOrder, string> = {
+  total: 'qs.total_elapsed_time',
+  avg: 'qs.total_elapsed_time / qs.execution_count',
+  executions: 'qs.execution_count',
+};
 
 export class SQLServerIntrospector {
   constructor(private pool: sql.ConnectionPool) {}
@@ -460,12 +466,16 @@ export class SQLServerIntrospector {
         r.session_id,
         s.login_name,
         s.host_name,
+        DB_NAME(r.database_id) AS database_name,
         r.status,
         r.command,
         r.start_time,
         DATEDIFF(SECOND, r.start_time, GETDATE()) AS elapsed_seconds,
         t.text AS sql_text,
-        r.blocking_session_id
+        r.blocking_session_id,
+        r.wait_type,
+        r.wait_time,
+        r.wait_resource
       FROM sys.dm_exec_requests r
       INNER JOIN sys.dm_exec_sessions s ON r.session_id = s.session_id
       CROSS APPLY sys.dm_exec_sql_text(r.sql_handle) t
@@ -474,23 +484,70 @@ export class SQLServerIntrospector {
       ORDER BY r.start_time DESC
     `);
 
-    return result.recordset.map((row: any) => ({
+    const queries = result.recordset.map((row: any) => ({
       id: `sqlserver_${row.session_id}`,
       sessionId: row.session_id,
       user: row.login_name,
       host: row.host_name,
+      database: row.database_name || undefined,
       status: row.status,
       command: row.command,
       startTime: row.start_time,
       elapsedTime: row.elapsed_seconds || 0,
       sqlText: row.sql_text || '',
       blocking: row.blocking_session_id ? [row.blocking_session_id] : undefined,
+      waitType: row.wait_type || undefined,
+      waitTime: row.wait_type ? row.wait_time : undefined,
+      waitResource: row.wait_resource || undefined,
     }));
+
+    return [...queries, ...(await this.getIdleBlockers())];
   }
 
-  async getQueryStats(): Promise<any[]> {
+  // Sessões sem request ativo (transação aberta e ociosa) que seguram locks de outras:
+  // costumam ser a raiz da cadeia de bloqueio e não aparecem em dm_exec_requests
+  private async getIdleBlockers(): Promise<any[]> {
     const result = await this.pool.request().query(`
-      SELECT TOP 50
+      SELECT
+        s.session_id,
+        s.login_name,
+        s.host_name,
+        DB_NAME(s.database_id) AS database_name,
+        s.status,
+        s.last_request_start_time,
+        DATEDIFF(SECOND, s.last_request_start_time, GETDATE()) AS elapsed_seconds,
+        t.text AS sql_text
+      FROM sys.dm_exec_sessions s
+      LEFT JOIN sys.dm_exec_connections c ON c.session_id = s.session_id
+      OUTER APPLY sys.dm_exec_sql_text(c.most_recent_sql_handle) t
+      WHERE s.session_id IN (
+          SELECT blocking_session_id FROM sys.dm_exec_requests WHERE blocking_session_id > 0
+        )
+        AND NOT EXISTS (
+          SELECT 1 FROM sys.dm_exec_requests r
+          WHERE r.session_id = s.session_id AND r.status != 'sleeping'
+        )
+    `);
+
+    return result.recordset.map((row: any) => ({
+      id: `sqlserver_${row.session_id}`,
+      sessionId: row.session_id,
+      user: row.login_name,
+      host: row.host_name,
+      database: row.database_name || undefined,
+      status: row.status,
+      command: 'AWAITING COMMAND',
+      startTime: row.last_request_start_time,
+      elapsedTime: row.elapsed_seconds || 0,
+      sqlText: row.sql_text || '',
+    }));
+  }
+
+  async getQueryStats({ orderBy, limit }: QueryStatsOptions): Promise<QueryStats[]> {
+    const result = await this.pool.request()
+      .input('limit', sql.Int, limit)
+      .query(`
+      SELECT TOP (@limit)
         qs.execution_count,
         qs.total_elapsed_time / 1000.0 AS total_elapsed_ms,
         qs.total_elapsed_time / qs.execution_count / 1000.0 AS avg_elapsed_ms,
@@ -500,7 +557,7 @@ export class SQLServerIntrospector {
       FROM sys.dm_exec_query_stats qs
       CROSS APPLY sys.dm_exec_sql_text(qs.sql_handle) t
       WHERE t.text NOT LIKE '%sys.dm_exec%'
-      ORDER BY qs.total_elapsed_time DESC
+      ORDER BY ${QUERY_STATS_ORDER[orderBy]} DESC
     `);
 
     return result.recordset.map((row: any) => ({
@@ -512,6 +569,28 @@ export class SQLServerIntrospector {
       maxElapsedTime: row.max_elapsed_ms,
     }));
   }
-}
 
+  // Apesar do nome, 'Batch Requests/sec' é um contador acumulado
+  async getServerStatus(): Promise<ServerStatus> {
+    const result = await this.pool.request().query(`
+      SELECT
+        (SELECT COUNT(*) FROM sys.dm_exec_sessions WHERE is_user_process = 1) AS connections,
+        (SELECT TOP 1 cntr_value FROM sys.dm_os_performance_counters
+          WHERE counter_name = 'Batch Requests/sec' AND object_name LIKE '%SQL Statistics%') AS batch_requests
+    `);
+
+    const row = result.recordset[0] ?? {};
+    return {
+      connections: Number(row.connections ?? 0),
+      queries: Number(row.batch_requests ?? 0),
+    };
+  }
 
+  async killSession(sessionId: number): Promise<void> {
+    if (!Number.isInteger(sessionId) || sessionId <= 0) {
+      throw new Error(`Sessão inválida: ${sessionId}`);
+    }
+    // KILL não aceita parâmetros; o spid já foi validado como inteiro
+    await this.pool.request().query(`KILL ${sessionId}`);
+  }
+}
@@ -9,11 +9,24 @@ import monitoringRouter from './routes/monitoring.js';
 import openaiRouter from './routes/openai.js';
 import uiRouter from './routes/ui.js';
 import queryRouter from './routes/query.js';
+import secretsRouter from './routes/secrets.js';
+import accessRouter from './routes/access.js';
+import auditRouter from './routes/audit.js';
+import savedQueriesRouter from './routes/saved-queries.js';
+import historyRouter from './routes/history.js';
 import { handleMonitoring, cleanupMonitoring } from './ws/monitoring-handler.js';
+import { initializeAuth, requireAuth, authenticateUpgrade } from './auth/middleware.js';
+import { requireRole } from './auth/permissions.js';
 import { ConnectionManager } from './db/connection-manager.js';
+import { driverRegistry } from './db/driver-registry.js';
+import { metricsHistory } from './db/metrics-history.js';
 import { connectionStorage } from './storage/connections.js';
 import { openAIConfigStorage } from './storage/openai-config.js';
 import { uiConfigStorage } from './storage/ui-config.js';
+import { secretStore } from './storage/secrets.js';
+import { accessControlStorage } from './storage/access-control.js';
+import { savedQueryStorage } from './storage/saved-queries.js';
+import { queryHistoryStorage } from './storage/query-history.js';
 
 // Carregar .env da raiz do projeto
 import { resolve } from 'path';
@@ -37,6 +50,9 @@ app.get('/health', (req, res) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
+// Todas as rotas /api exigem bearer token, exceto as públicas da tela de login
+app.use('/api', requireAuth);
+
 // Rotas
 app.use('/api/connections', connectionsRouter);
 app.use('/api/schema', schemaRouter);
@@ -44,20 +60,36 @@ app.use('/api/monitoring', monitoringRouter);
 app.use('/api/openai', openaiRouter);
 app.use('/api/ui', uiRouter);
 app.use('/api/query', queryRouter);
+app.use('/api/secrets', requireRole('admin'), secretsRouter);
+app.use('/api/access', accessRouter);
+app.use('/api/audit', requireRole('admin'), auditRouter);
+app.use('/api/saved-queries', savedQueriesRouter);
+app.use('/api/history', historyRouter);
 
 // WebSocket Server
 const server = createServer(app);
-const wss = new WebSocketServer({ server });
+const wss = new WebSocketServer({
+  server,
+  // Handshake recusado com 401 sem token válido (Authorization ou ?token=)
+  verifyClient: (info, callback) => {
+    authenticateUpgrade(info.req)
+      .then(() => callback(true))
+      .catch((error) => {
+        console.warn(`[Auth] Conexão WebSocket recusada: ${error.message}`);
+        callback(false, 401, 'Unauthorized');
+      });
+  },
+});
 
-wss.on('connection', (ws) => {
-  console.log('Cliente WebSocket conectado');
+wss.on('connection', (ws, req) => {
+  console.log(`Cliente WebSocket conectado (${req.user?.email || req.user?.uid})`);
 
   ws.on('message', async (data) => {
     try {
       const message = JSON.parse(data.toString());
       
       if (message.type === 'monitoring') {
-        handleMonitoring(ws, message.payload);
+        handleMonitoring(ws, message.payload, req.user);
       }
     } catch (error) {
       console.error('Erro ao processar mensagem WebSocket:', error);
@@ -74,6 +106,7 @@ wss.on('connection', (ws) => {
 process.on('SIGTERM', async () => {
   console.log('Encerrando servidor...');
   cleanupMonitoring();
+  metricsHistory.stopAll();
   await ConnectionManager.closeAll();
   server.close();
   process.exit(0);
@@ -82,6 +115,7 @@ process.on('SIGTERM', async () => {
 process.on('SIGINT', async () => {
   console.log('Encerrando servidor...');
   cleanupMonitoring();
+  metricsHistory.stopAll();
   await ConnectionManager.closeAll();
   server.close();
   process.exit(0);
@@ -91,6 +125,23 @@ process.on('SIGINT', async () => {
 async function startServer() {
   try {
     console.log('\n🔧 [Server] Inicializando servidor...');
+    
+    initializeAuth();
+    
+    // Drivers de terceiros (lista separada por vírgulas de módulos ou caminhos)
+    const externalDrivers = (process.env.DB_DRIVERS || '').split(',').map(s => s.trim()).filter(Boolean);
+    if (externalDrivers.length > 0) {
+      console.log(`📦 [Server] Carregando ${externalDrivers.length} driver(s) externo(s)...`);
+      await driverRegistry.loadExternal(externalDrivers, rootDir);
+    }
+    console.log(`✅ [Server] Drivers disponíveis: ${driverRegistry.list().map(d => d.displayName).join(', ')}`);
+    
+    console.log(`📦 [Server] Carregando chave mestra...`);
+    await secretStore.initialize();
+    
+    console.log(`📦 [Server] Carregando permissões...`);
+    await accessControlStorage.initialize();
+    
     console.log(`📦 [Server] Carregando conexões...`);
     await connectionStorage.initialize();
     const connectionsCount = connectionStorage.getAll().length;
@@ -101,6 +152,10 @@ async function startServer() {
     await schemaCacheStorage.initialize();
     console.log(`✅ [Server] Cache de schemas inicializado`);
     
+    console.log(`📦 [Server] Carregando queries salvas e histórico...`);
+    await savedQueryStorage.initialize();
+    await queryHistoryStorage.initialize();
+    
     console.log(`📦 [Server] Carregando configuração OpenAI...`);
     await openAIConfigStorage.initialize();
     const openAIConfig = openAIConfigStorage.get();
@@ -114,6 +169,9 @@ async function startServer() {
     await uiConfigStorage.initialize();
     console.log(`✅ [Server] Configuração UI inicializada`);
     
+    // Depois que todos os storages com segredos carregaram
+    await secretStore.finishRecovery();
+    
     server.listen(port, () => {
       console.log(`\n🚀 [Server] RT SQL Studio Backend iniciado com sucesso!`);
       console.log(`   📍 HTTP: http://localhost:${port}`);
@@ -125,6 +183,17 @@ async function startServer() {
       console.log(`      - GET  /api/schema/:connId`);
       console.log(`      - GET  /api/schema/:connId/graph`);
       console.log(`      - POST /api/query/:connId/execute`);
+      console.log(`      - GET  /api/query/:connId/results/:handle`);
+      console.log(`      - POST /api/query/:connId/cancel/:execId`);
+      console.log(`      - GET  /api/monitoring/:connId/history`);
+      console.log(`      - POST /api/monitoring/:connId/sessions/:sessionId/kill`);
+      console.log(`      - POST /api/secrets/rotate`);
+      console.log(`      - GET  /api/access/me`);
+      console.log(`      - GET  /api/audit`);
+      console.log(`      - PUT  /api/access/connections/:connId/grants`);
+      console.log(`      - POST /api/query/:connId/explain`);
+      console.log(`      - GET  /api/saved-queries?connId=`);
+      console.log(`      - GET  /api/history?connId=`);
       console.log(`      - GET  /api/openai/config`);
       console.log(`      - POST /api/openai/config`);
       console.log(`      - POST /api/openai/generate-sql`);
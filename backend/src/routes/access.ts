@@ -0,0 +1,122 @@
+import { Router, type Request, type Response } from 'express';
+import { z } from 'zod';
+import { accessControlStorage } from '../storage/access-control.js';
+import { connectionStorage } from '../storage/connections.js';
+import { auditLog, auditUser } from '../storage/audit-log.js';
+import { defaultRole, requireRole, resolveRole } from '../auth/permissions.js';
+
+const router = Router();
+
+const roleSchema = z.object({
+  role: z.enum(['admin', 'editor', 'reader']),
+});
+
+const grantsSchema = z.object({
+  users: z.array(z.string().trim().min(1)),
+});
+
+// Perfil do usuário autenticado (usado pelo frontend para montar a navegação)
+router.get('/me', (req: Request, res: Response) => {
+  const user = req.user!;
+  res.json({
+    uid: user.uid,
+    email: user.email,
+    name: user.name,
+    role: resolveRole(user),
+  });
+});
+
+// Gestão de perfis e permissões: apenas admin
+router.use(requireRole('admin'));
+
+// Listar usuários com perfil atribuído ou acesso a alguma conexão, com o perfil efetivo
+router.get('/users', (req: Request, res: Response) => {
+  res.json(accessControlStorage.listUsers(defaultRole()));
+});
+
+// Atribuir perfil (cria o usuário se ainda não existir)
+router.put('/users/:user', async (req: Request, res: Response) => {
+  const parsed = roleSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Dados inválidos', details: parsed.error.errors });
+  }
+
+  const { user } = req.params;
+  const { role } = parsed.data;
+  const previousRole = accessControlStorage.getRole(user) ?? null;
+  try {
+    await accessControlStorage.setRole(user, role);
+    await auditLog.record({
+      user: auditUser(req.user),
+      action: 'access.role.set',
+      target: user,
+      success: true,
+      details: { role, previousRole },
+    });
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Erro ao salvar perfil:', error);
+    res.status(500).json({ error: 'Erro ao salvar perfil' });
+  }
+});
+
+// Remover usuário (volta ao perfil padrão e perde os acessos)
+router.delete('/users/:user', async (req: Request, res: Response) => {
+  const { user } = req.params;
+  try {
+    if (!(await accessControlStorage.removeUser(user))) {
+      return res.status(404).json({ error: 'Usuário não encontrado' });
+    }
+    await auditLog.record({
+      user: auditUser(req.user),
+      action: 'access.user.remove',
+      target: user,
+      success: true,
+    });
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Erro ao remover usuário:', error);
+    res.status(500).json({ error: 'Erro ao remover usuário' });
+  }
+});
+
+// Usuários com acesso à conexão
+router.get('/connections/:connId/grants', (req: Request, res: Response) => {
+  const conn = connectionStorage.get(req.params.connId);
+  if (!conn) {
+    return res.status(404).json({ error: 'Conexão não encontrada' });
+  }
+  res.json({ users: accessControlStorage.getGrants(conn.id) });
+});
+
+// Substituir a lista de usuários com acesso à conexão
+router.put('/connections/:connId/grants', async (req: Request, res: Response) => {
+  const conn = connectionStorage.get(req.params.connId);
+  if (!conn) {
+    return res.status(404).json({ error: 'Conexão não encontrada' });
+  }
+
+  const parsed = grantsSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Dados inválidos', details: parsed.error.errors });
+  }
+
+  try {
+    await accessControlStorage.setGrants(conn.id, parsed.data.users);
+    const users = accessControlStorage.getGrants(conn.id);
+    await auditLog.record({
+      user: auditUser(req.user),
+      action: 'access.grants.set',
+      connId: conn.id,
+      connectionName: conn.name,
+      success: true,
+      details: { users },
+    });
+    res.json({ users });
+  } catch (error: any) {
+    console.error('Erro ao salvar permissões:', error);
+    res.status(500).json({ error: 'Erro ao salvar permissões' });
+  }
+});
+
+export default router;
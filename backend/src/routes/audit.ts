@@ -0,0 +1,40 @@
+import { Router, type Request, type Response } from 'express';
+import { z } from 'zod';
+import { auditLog } from '../storage/audit-log.js';
+
+const router = Router();
+
+// Filtros opcionais; datas em ISO 8601
+const auditQuerySchema = z.object({
+  user: z.string().trim().min(1).optional(),
+  connId: z.string().trim().min(1).optional(),
+  action: z.string().trim().min(1).optional(),
+  status: z.enum(['success', 'failure']).optional(),
+  search: z.string().trim().min(1).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// Entradas de auditoria, da mais recente para a mais antiga
+router.get('/', async (req: Request, res: Response) => {
+  const parsed = auditQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Parâmetros inválidos', details: parsed.error.errors });
+  }
+
+  const { status, ...filter } = parsed.data;
+  try {
+    const result = await auditLog.query({
+      ...filter,
+      success: status === undefined ? undefined : status === 'success',
+    });
+    res.json({ ...result, limit: filter.limit, offset: filter.offset });
+  } catch (error: any) {
+    console.error('Erro ao consultar auditoria:', error);
+    res.status(500).json({ error: error.message || 'Erro ao consultar auditoria' });
+  }
+});
+
+export default router;
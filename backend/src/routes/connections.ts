@@ -1,15 +1,30 @@
 import { Router, type Request, type Response } from 'express';
+import { basename, resolve } from 'path';
 import { z } from 'zod';
 import { ConnectionManager } from '../db/connection-manager.js';
+import { driverRegistry } from '../db/driver-registry.js';
+import { metricsHistory } from '../db/metrics-history.js';
 import { connectionStorage } from '../storage/connections.js';
+import { accessControlStorage } from '../storage/access-control.js';
+import { savedQueryStorage } from '../storage/saved-queries.js';
+import { queryHistoryStorage } from '../storage/query-history.js';
+import { auditLog, auditUser } from '../storage/audit-log.js';
+import { canAccessConnection, requireConnectionAccess, requireRole } from '../auth/permissions.js';
 import { introspectAndCache } from '../utils/schema-introspection.js';
 import type { DatabaseConnection } from '../types/index.js';
 
 const router = Router();
 
-const connectionSchema = z.object({
+// O tipo precisa ter um driver registrado com o formato de conexão esperado
+const driverTypeSchema = (kind: 'server' | 'file') =>
+  z.string().refine(
+    type => driverRegistry.has(type) && driverRegistry.get(type).connectionKind === kind,
+    type => ({ message: `Tipo de banco de dados não suportado: ${type}` })
+  );
+
+const serverConnectionSchema = z.object({
   name: z.string().min(1),
-  type: z.enum(['mysql', 'sqlserver']),
+  type: driverTypeSchema('server'),
   host: z.string().min(1),
   port: z.number().int().positive(),
   user: z.string().min(1),
@@ -18,9 +33,42 @@ const connectionSchema = z.object({
   ssl: z.boolean().optional(),
 });
 
-// Listar conexões
+// Bancos de arquivo (ex.: SQLite) apontam para um arquivo local, sem host nem credenciais
+const fileConnectionSchema = z.object({
+  name: z.string().min(1),
+  type: driverTypeSchema('file'),
+  filePath: z.string().min(1),
+});
+
+const connectionSchema = z.union([fileConnectionSchema, serverConnectionSchema]);
+
+function toConnectionFields(data: z.infer<typeof connectionSchema>): Omit<DatabaseConnection, 'id' | 'createdAt'> {
+  if ('filePath' in data) {
+    const filePath = resolve(data.filePath);
+    return {
+      name: data.name,
+      type: data.type,
+      host: 'localhost',
+      port: 0,
+      user: '',
+      password: '',
+      database: basename(filePath),
+      filePath,
+    };
+  }
+  return { ...data, filePath: undefined };
+}
+
+// Destino da conexão para a auditoria (nunca a senha)
+function describeTarget(conn: Omit<DatabaseConnection, 'id' | 'createdAt'>): Record<string, unknown> {
+  return conn.filePath
+    ? { type: conn.type, filePath: conn.filePath }
+    : { type: conn.type, host: conn.host, port: conn.port, database: conn.database, user: conn.user };
+}
+
+// Listar conexões (apenas as que o usuário pode acessar)
 router.get('/', (req: Request, res: Response) => {
-  const conns = connectionStorage.getAll().map(conn => ({
+  const conns = connectionStorage.getAll().filter(conn => canAccessConnection(req.user, conn.id)).map(conn => ({
     ...conn,
     password: undefined, // Não retornar senha
   }));
@@ -28,19 +76,28 @@ router.get('/', (req: Request, res: Response) => {
 });
 
 // Criar conexão
-router.post('/', async (req: Request, res: Response) => {
+router.post('/', requireRole('admin'), async (req: Request, res: Response) => {
   try {
-    const data = connectionSchema.parse(req.body);
+    const data = toConnectionFields(connectionSchema.parse(req.body));
     const conn: DatabaseConnection = {
       ...data,
       id: `conn_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       createdAt: new Date(),
     };
 
+    const audit = {
+      user: auditUser(req.user),
+      action: 'connection.create',
+      connId: conn.id,
+      connectionName: conn.name,
+      details: describeTarget(conn),
+    };
+
     // Testar conexão
     try {
       await ConnectionManager.testConnection(conn);
     } catch (testError: any) {
+      await auditLog.record({ ...audit, success: false, error: testError.message });
       return res.status(400).json({ 
         error: 'Falha ao conectar ao banco de dados',
         details: testError.message 
@@ -49,6 +106,7 @@ router.post('/', async (req: Request, res: Response) => {
 
     // Salvar conexão
     await connectionStorage.set(conn);
+    await auditLog.record({ ...audit, success: true });
 
     // Fazer introspecção e salvar no cache (em background, não bloquear resposta)
     introspectAndCache(conn).catch((error: any) => {
@@ -67,9 +125,9 @@ router.post('/', async (req: Request, res: Response) => {
 });
 
 // Testar conexão
-router.post('/test', async (req: Request, res: Response) => {
+router.post('/test', requireRole('admin'), async (req: Request, res: Response) => {
   try {
-    const data = connectionSchema.parse(req.body);
+    const data = toConnectionFields(connectionSchema.parse(req.body));
     const conn: DatabaseConnection = {
       ...data,
       id: 'test',
@@ -94,7 +152,7 @@ router.post('/test', async (req: Request, res: Response) => {
 });
 
 // Obter conexão específica
-router.get('/:id', (req: Request, res: Response) => {
+router.get('/:id', requireConnectionAccess('reader', req => req.params.id), (req: Request, res: Response) => {
   const conn = connectionStorage.get(req.params.id);
   if (!conn) {
     return res.status(404).json({ error: 'Conexão não encontrada' });
@@ -103,26 +161,40 @@ router.get('/:id', (req: Request, res: Response) => {
 });
 
 // Atualizar conexão
-router.put('/:id', async (req: Request, res: Response) => {
+router.put('/:id', requireRole('admin'), async (req: Request, res: Response) => {
   try {
     const existingConn = connectionStorage.get(req.params.id);
     if (!existingConn) {
       return res.status(404).json({ error: 'Conexão não encontrada' });
     }
 
-    const data = connectionSchema.parse(req.body);
+    const data = toConnectionFields(connectionSchema.parse(req.body));
     
     // Se a senha não foi fornecida, manter a senha existente
     const updatedConn: DatabaseConnection = {
       ...existingConn,
       ...data,
-      password: data.password || existingConn.password, // Manter senha existente se não fornecida
+      // Manter senha existente se não fornecida (bancos de arquivo não usam senha)
+      password: data.filePath ? '' : data.password || existingConn.password,
+    };
+
+    const audit = {
+      user: auditUser(req.user),
+      action: 'connection.update',
+      connId: existingConn.id,
+      connectionName: updatedConn.name,
+      details: {
+        ...describeTarget(updatedConn),
+        ...(existingConn.name !== updatedConn.name && { previousName: existingConn.name }),
+        passwordChanged: updatedConn.password !== existingConn.password,
+      },
     };
 
     // Testar conexão
     try {
       await ConnectionManager.testConnection(updatedConn);
     } catch (testError: any) {
+      await auditLog.record({ ...audit, success: false, error: testError.message });
       return res.status(400).json({ 
         error: 'Falha ao conectar ao banco de dados',
         details: testError.message 
@@ -134,6 +206,7 @@ router.put('/:id', async (req: Request, res: Response) => {
 
     // Salvar conexão atualizada
     await connectionStorage.set(updatedConn);
+    await auditLog.record({ ...audit, success: true });
 
     // Fazer introspecção e salvar no cache (em background)
     introspectAndCache(updatedConn).catch((error: any) => {
@@ -150,14 +223,27 @@ router.put('/:id', async (req: Request, res: Response) => {
 });
 
 // Deletar conexão
-router.delete('/:id', async (req: Request, res: Response) => {
+router.delete('/:id', requireRole('admin'), async (req: Request, res: Response) => {
   const conn = connectionStorage.get(req.params.id);
   if (!conn) {
     return res.status(404).json({ error: 'Conexão não encontrada' });
   }
 
+  // Parar a coleta antes de fechar o pool, senão a próxima amostra o reabre
+  metricsHistory.stop(conn.id);
   await ConnectionManager.closeConnection(conn.id, conn.type);
   await connectionStorage.delete(conn.id);
+  await accessControlStorage.deleteConnection(conn.id);
+  await savedQueryStorage.deleteConnection(conn.id);
+  await queryHistoryStorage.deleteConnection(conn.id);
+  await auditLog.record({
+    user: auditUser(req.user),
+    action: 'connection.delete',
+    connId: conn.id,
+    connectionName: conn.name,
+    success: true,
+    details: describeTarget(conn),
+  });
   
   // Deletar cache também
   const { schemaCacheStorage } = await import('../storage/schema-cache.js');
@@ -0,0 +1,114 @@
+import { Router, type Request, type Response } from 'express';
+import { z } from 'zod';
+import { connectionStorage } from '../storage/connections.js';
+import { queryHistoryStorage } from '../storage/query-history.js';
+import { savedQueryStorage } from '../storage/saved-queries.js';
+import { canAccessConnection, userKeyOf } from '../auth/permissions.js';
+
+const router = Router();
+
+const listQuerySchema = z.object({
+  connId: z.string().min(1),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+const clearQuerySchema = z.object({
+  connId: z.string().min(1),
+});
+
+const entrySchema = z.object({
+  connId: z.string().min(1),
+  sql: z.string().min(1),
+  ast: z.record(z.unknown()).optional(),
+  savedQueryId: z.string().min(1).optional(),
+  rowCount: z.number().int().min(0).optional(),
+  durationMs: z.number().min(0).optional(),
+});
+
+// O acesso é conferido no connId já validado que cada rota usa (?connId= na listagem e na limpeza,
+// corpo ao registrar), e não em um middleware que poderia ler um e gravar com o outro
+const NO_ACCESS = { error: 'Sem acesso a esta conexão' };
+
+// Execuções do usuário na conexão, da mais recente para a mais antiga
+router.get('/', (req: Request, res: Response) => {
+  const parsed = listQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Parâmetros inválidos', details: parsed.error.errors });
+  }
+
+  const { connId, limit } = parsed.data;
+  if (!canAccessConnection(req.user, connId)) {
+    return res.status(403).json(NO_ACCESS);
+  }
+  res.json(queryHistoryStorage.list(connId, userKeyOf(req.user!), limit));
+});
+
+router.post('/', async (req: Request, res: Response) => {
+  const parsed = entrySchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Dados inválidos', details: parsed.error.errors });
+  }
+
+  const { connId, ...input } = parsed.data;
+  if (!canAccessConnection(req.user, connId)) {
+    return res.status(403).json(NO_ACCESS);
+  }
+  if (!connectionStorage.get(connId)) {
+    return res.status(404).json({ error: 'Conexão não encontrada' });
+  }
+
+  const owner = userKeyOf(req.user!);
+  // Ids de queries de outra conexão ou que o usuário não vê são descartados
+  const saved = input.savedQueryId ? savedQueryStorage.get(input.savedQueryId) : undefined;
+  const savedQuery = saved && saved.connId === connId && savedQueryStorage.isVisibleTo(saved, owner) ? saved : undefined;
+
+  try {
+    const entry = await queryHistoryStorage.add(connId, owner, { ...input, savedQueryId: savedQuery?.id });
+    // Última execução exibida na biblioteca de queries
+    if (savedQuery) {
+      await savedQueryStorage.markRun(savedQuery.id, owner);
+    }
+    res.status(201).json(entry);
+  } catch (error: any) {
+    console.error('Erro ao registrar histórico:', error);
+    res.status(500).json({ error: 'Erro ao registrar histórico' });
+  }
+});
+
+// Limpar todo o histórico do usuário na conexão
+router.delete('/', async (req: Request, res: Response) => {
+  const parsed = clearQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Parâmetros inválidos', details: parsed.error.errors });
+  }
+
+  if (!canAccessConnection(req.user, parsed.data.connId)) {
+    return res.status(403).json(NO_ACCESS);
+  }
+
+  try {
+    const removed = await queryHistoryStorage.clear(parsed.data.connId, userKeyOf(req.user!));
+    res.json({ removed });
+  } catch (error: any) {
+    console.error('Erro ao limpar histórico:', error);
+    res.status(500).json({ error: 'Erro ao limpar histórico' });
+  }
+});
+
+router.delete('/:id', async (req: Request, res: Response) => {
+  const entry = queryHistoryStorage.get(req.params.id);
+  // Entradas de outros usuários respondem como inexistentes
+  if (!entry || entry.owner !== userKeyOf(req.user!)) {
+    return res.status(404).json({ error: 'Entrada não encontrada' });
+  }
+
+  try {
+    await queryHistoryStorage.delete(entry.id);
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Erro ao excluir entrada do histórico:', error);
+    res.status(500).json({ error: 'Erro ao excluir entrada do histórico' });
+  }
+});
+
+export default router;
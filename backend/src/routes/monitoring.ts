@@ -1,11 +1,15 @@
 import { Router, type Request, type Response } from 'express';
+import { z } from 'zod';
 import { ConnectionManager } from '../db/connection-manager.js';
-import { MySQLIntrospector } from '../db/mysql-introspector.js';
-import { SQLServerIntrospector } from '../db/sqlserver-introspector.js';
+import { metricsHistory } from '../db/metrics-history.js';
 import { connectionStorage } from '../storage/connections.js';
+import { auditLog, auditUser } from '../storage/audit-log.js';
+import { requireConnectionAccess } from '../auth/permissions.js';
 
 const router = Router();
 
+router.use('/:connId', requireConnectionAccess('reader'));
+
 // Queries ativas
 router.get('/:connId/active-queries', async (req: Request, res: Response) => {
   try {
@@ -16,16 +20,7 @@ router.get('/:connId/active-queries', async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'Conexão não encontrada' });
     }
 
-    let queries;
-    if (conn.type === 'mysql') {
-      const pool = await ConnectionManager.getMySQLPool(conn);
-      const introspector = new MySQLIntrospector(pool);
-      queries = await introspector.getActiveQueries();
-    } else {
-      const pool = await ConnectionManager.getSQLServerPool(conn);
-      const introspector = new SQLServerIntrospector(pool);
-      queries = await introspector.getActiveQueries();
-    }
+    const queries = await ConnectionManager.getDriver(conn).getActiveQueries(conn);
 
     res.json(queries);
   } catch (error: any) {
@@ -34,23 +29,33 @@ router.get('/:connId/active-queries', async (req: Request, res: Response) => {
   }
 });
 
-// Estatísticas de queries (apenas SQL Server por enquanto)
+// Top-N de estatísticas: ?orderBy=total|avg|executions&limit=50
+const queryStatsSchema = z.object({
+  orderBy: z.enum(['total', 'avg', 'executions']).default('total'),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+});
+
+// Estatísticas de queries (drivers que implementam getQueryStats)
 router.get('/:connId/query-stats', async (req: Request, res: Response) => {
   try {
     const { connId } = req.params;
+    const parsed = queryStatsSchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Parâmetros inválidos', details: parsed.error.errors });
+    }
+
     const conn = connectionStorage.get(connId);
     
     if (!conn) {
       return res.status(404).json({ error: 'Conexão não encontrada' });
     }
 
-    if (conn.type !== 'sqlserver') {
-      return res.status(400).json({ error: 'Estatísticas de queries disponíveis apenas para SQL Server' });
+    const driver = ConnectionManager.getDriver(conn);
+    if (!driver.getQueryStats) {
+      return res.status(400).json({ error: `Estatísticas de queries não disponíveis para ${driver.displayName}` });
     }
 
-    const pool = await ConnectionManager.getSQLServerPool(conn);
-    const introspector = new SQLServerIntrospector(pool);
-    const stats = await introspector.getQueryStats();
+    const stats = await driver.getQueryStats(conn, parsed.data);
 
     res.json(stats);
   } catch (error: any) {
@@ -59,5 +64,79 @@ router.get('/:connId/query-stats', async (req: Request, res: Response) => {
   }
 });
 
+// Janela do histórico em datas ISO 8601; padrão: última hora
+const historySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+// Histórico de métricas (a coleta começa na primeira vez que a conexão é monitorada e cada consulta adia a parada por ociosidade)
+router.get('/:connId/history', (req: Request, res: Response) => {
+  const { connId } = req.params;
+  const parsed = historySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Parâmetros inválidos', details: parsed.error.errors });
+  }
+
+  const conn = connectionStorage.get(connId);
+  if (!conn) {
+    return res.status(404).json({ error: 'Conexão não encontrada' });
+  }
+
+  const to = parsed.data.to?.getTime() ?? Date.now();
+  const from = parsed.data.from?.getTime() ?? to - 60 * 60 * 1000;
+  if (from > to) {
+    return res.status(400).json({ error: 'O início do período deve ser anterior ao fim' });
+  }
+
+  metricsHistory.ensureSampling(connId);
+
+  res.json({
+    intervalMs: metricsHistory.intervalMs,
+    retentionMs: metricsHistory.retentionMs,
+    samples: metricsHistory.query(connId, from, to),
+  });
+});
+
+// Encerrar sessão (KILL / pg_terminate_backend)
+router.post('/:connId/sessions/:sessionId/kill', requireConnectionAccess('editor'), async (req: Request, res: Response) => {
+  const { connId } = req.params;
+  const sessionId = Number(req.params.sessionId);
+
+  if (!Number.isInteger(sessionId) || sessionId <= 0) {
+    return res.status(400).json({ error: 'ID de sessão inválido' });
+  }
+
+  // Identidade verificada pelo token (requireAuth), não informada pelo cliente
+  const user = auditUser(req.user);
+
+  const conn = connectionStorage.get(connId);
+  if (!conn) {
+    return res.status(404).json({ error: 'Conexão não encontrada' });
+  }
+
+  const audit = {
+    user,
+    action: 'session.kill',
+    connId,
+    connectionName: conn.name,
+    target: `sessão ${sessionId}`,
+    details: { sessionId, databaseType: conn.type },
+  };
+
+  try {
+    console.log(`🛑 [Monitoring] Encerrando sessão ${sessionId} em ${conn.name} (solicitado por ${user})`);
+    await ConnectionManager.getDriver(conn).kill(conn, sessionId);
+    await auditLog.record({ ...audit, success: true });
+
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error(`❌ [Monitoring] Erro ao encerrar sessão ${sessionId}:`, error.message);
+    await auditLog.record({ ...audit, success: false, error: error.message });
+
+    res.status(500).json({ error: error.message || 'Erro ao encerrar sessão' });
+  }
+});
+
 export default router;
 
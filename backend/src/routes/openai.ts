@@ -1,13 +1,19 @@
 import { Router, type Request, type Response } from 'express';
 import { z } from 'zod';
+import { randomUUID } from 'crypto';
 import { openAIConfigStorage } from '../storage/openai-config.js';
 import { ConnectionManager } from '../db/connection-manager.js';
-import { MySQLIntrospector } from '../db/mysql-introspector.js';
-import { SQLServerIntrospector } from '../db/sqlserver-introspector.js';
 import { connectionStorage } from '../storage/connections.js';
+import { checkReadOnly } from '../utils/sql-classifier.js';
+import { executionRegistry } from '../db/executions.js';
+import { sqlAuditor } from '../storage/audit-log.js';
+import { requireConnectionAccess, requireRole, userKeyOf } from '../auth/permissions.js';
 
 const router = Router();
 
+// Estas rotas recebem a conexão no corpo da requisição
+const connIdFromBody = (req: Request) => req.body?.connId;
+
 const configSchema = z.object({
   apiKey: z.string().min(1, 'API Key é obrigatória'),
   model: z.string().optional().default('gpt-4o-mini'),
@@ -42,7 +48,7 @@ router.get('/config', async (req: Request, res: Response) => {
 });
 
 // Salvar configuração
-router.post('/config', async (req: Request, res: Response) => {
+router.post('/config', requireRole('admin'), async (req: Request, res: Response) => {
   try {
     const data = configSchema.parse(req.body);
     await openAIConfigStorage.set(data);
@@ -57,7 +63,7 @@ router.post('/config', async (req: Request, res: Response) => {
 });
 
 // Testar configuração (validar API key)
-router.post('/config/test', async (req: Request, res: Response) => {
+router.post('/config/test', requireRole('admin'), async (req: Request, res: Response) => {
   try {
     const data = configSchema.parse(req.body);
     
@@ -91,7 +97,7 @@ router.post('/config/test', async (req: Request, res: Response) => {
 });
 
 // Gerar SQL a partir de prompt
-router.post('/generate-sql', async (req: Request, res: Response) => {
+router.post('/generate-sql', requireConnectionAccess('reader', connIdFromBody), async (req: Request, res: Response) => {
   const startTime = Date.now();
   console.log('\n🤖 [OpenAI] Iniciando geração de SQL...');
   console.log(`📝 [OpenAI] Prompt recebido: "${req.body.prompt?.substring(0, 100)}${req.body.prompt?.length > 100 ? '...' : ''}"`);
@@ -131,6 +137,9 @@ router.post('/generate-sql', async (req: Request, res: Response) => {
     }
     console.log(`✅ [OpenAI] Conexão encontrada: ${connection.name} (${connection.type}) - Database: ${connection.database}`);
 
+    const audit = sqlAuditor('ai.generate-sql', req.user, connection);
+    const auditDetails = { prompt, model: config.model || 'gpt-4o-mini' };
+
     // Obter schema do banco (usar cache)
     console.log(`📊 [OpenAI] Obtendo schema do banco de dados...`);
     let schemaInfo;
@@ -200,7 +209,7 @@ router.post('/generate-sql', async (req: Request, res: Response) => {
     }
 
     // Preparar prompt para OpenAI (compacto)
-    const systemPrompt = `Você é um especialista em SQL para ${connection.type === 'mysql' ? 'MySQL' : 'SQL Server'}.
+    const systemPrompt = `Você é um especialista em SQL para ${ConnectionManager.getDriver(connection).displayName}.
 
 Gere queries SELECT baseadas em descrições em linguagem natural e no schema fornecido.
 
@@ -258,6 +267,7 @@ ${JSON.stringify(schemaContext)}`;
         const errorMessage = errorData.error?.message || 'Erro desconhecido';
         
         console.error(`❌ [OpenAI] Erro na API: Status ${response.status}`);
+        await audit({ success: false, error: errorMessage, details: { ...auditDetails, status: response.status } });
         console.error(`   - Mensagem: ${errorMessage}`);
         console.error(`   - Tipo: ${errorType}`);
         
@@ -330,6 +340,7 @@ ${JSON.stringify(schemaContext)}`;
 
       if (!generatedSQL) {
         console.error(`❌ [OpenAI] Resposta vazia da API`);
+        await audit({ success: false, error: 'Nenhuma resposta da IA', details: auditDetails });
         return res.status(500).json({ error: 'Nenhuma resposta da IA' });
       }
 
@@ -352,6 +363,8 @@ ${JSON.stringify(schemaContext)}`;
       console.log(`   - SQL gerado (${cleanSQL.length} caracteres): ${cleanSQL.substring(0, 100)}${cleanSQL.length > 100 ? '...' : ''}`);
       console.log(`✨ [OpenAI] Processo concluído com sucesso!\n`);
 
+      await audit({ success: true, sql: cleanSQL.trim(), details: { ...auditDetails, tokensUsed } });
+
       res.json({
         sql: cleanSQL.trim(),
         model: config.model || 'gpt-4o-mini',
@@ -366,6 +379,7 @@ ${JSON.stringify(schemaContext)}`;
         console.error(`   - Stack: ${error.stack.split('\n')[0]}`);
       }
       console.log(`\n`);
+      await audit({ success: false, error: error.message || 'Erro desconhecido', details: auditDetails });
       return res.status(500).json({
         error: 'Erro ao gerar SQL',
         details: error.message || 'Erro desconhecido',
@@ -385,15 +399,15 @@ ${JSON.stringify(schemaContext)}`;
   }
 });
 
-// Executar SQL gerado (apenas SELECT por segurança)
-router.post('/execute-sql', async (req: Request, res: Response) => {
+// Executar SQL gerado (apenas leitura por segurança)
+router.post('/execute-sql', requireConnectionAccess('editor', connIdFromBody), async (req: Request, res: Response) => {
   const startTime = Date.now();
   console.log('\n⚡ [SQL Execute] Iniciando execução de query...');
   console.log(`🔗 [SQL Execute] Connection ID: ${req.body.connId}`);
   console.log(`📝 [SQL Execute] SQL: ${req.body.sql?.substring(0, 150)}${req.body.sql?.length > 150 ? '...' : ''}`);
   
   try {
-    const { sql, connId } = req.body;
+    const { sql, connId, execId = randomUUID() } = req.body;
 
     if (!sql || typeof sql !== 'string' || sql.trim() === '') {
       return res.status(400).json({ error: 'SQL é obrigatório' });
@@ -403,33 +417,9 @@ router.post('/execute-sql', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'ID da conexão é obrigatório' });
     }
 
-    // Validar que é apenas SELECT (segurança)
-    console.log(`🔒 [SQL Execute] Validando segurança da query...`);
-    const sqlUpper = sql.trim().toUpperCase();
-    
-    // Remover comentários do início para validar
-    const sqlWithoutComments = sql.trim().replace(/^--.*$/gm, '').trim();
-    const sqlUpperNoComments = sqlWithoutComments.toUpperCase();
-    
-    const dangerousKeywords = ['INSERT', 'UPDATE', 'DELETE', 'DROP', 'TRUNCATE', 'ALTER', 'CREATE', 'EXEC', 'EXECUTE'];
-    const hasDangerousKeyword = dangerousKeywords.some(keyword => sqlUpper.includes(keyword));
-    
-    // Verificar se começa com SELECT (ignorando comentários)
-    const startsWithSelect = sqlUpperNoComments.startsWith('SELECT');
-    
-    if (hasDangerousKeyword || !startsWithSelect) {
-      console.error(`❌ [SQL Execute] Query bloqueada por segurança!`);
-      console.error(`   - Contém palavras perigosas: ${hasDangerousKeyword}`);
-      console.error(`   - Começa com SELECT: ${startsWithSelect}`);
-      console.error(`   - SQL (primeiros 200 chars): ${sql.substring(0, 200)}`);
-      return res.status(400).json({ 
-        error: 'Apenas queries SELECT são permitidas',
-        details: sqlWithoutComments.length === 0 
-          ? 'Query contém apenas comentários ou está vazia. Corrija os erros antes de executar.'
-          : 'Por segurança, apenas queries SELECT podem ser executadas'
-      });
+    if (!executionRegistry.isValidId(execId)) {
+      return res.status(400).json({ error: 'execId inválido' });
     }
-    console.log(`✅ [SQL Execute] Query validada como SELECT seguro`);
 
     // Obter conexão
     console.log(`🔍 [SQL Execute] Buscando conexão...`);
@@ -440,25 +430,31 @@ router.post('/execute-sql', async (req: Request, res: Response) => {
     }
     console.log(`✅ [SQL Execute] Conexão encontrada: ${connection.name} (${connection.type})`);
 
-    // Executar query
+    const audit = sqlAuditor('ai.execute-sql', req.user, connection, sql);
+
+    // Validar que é apenas leitura (segurança), segundo o dialeto do banco
+    console.log(`🔒 [SQL Execute] Validando segurança da query...`);
+    const driver = ConnectionManager.getDriver(connection);
+    const blocked = checkReadOnly(sql, driver.dialect ?? 'ansi', 'SQL Execute');
+    if (blocked) {
+      await audit({ success: false, error: blocked.error, details: { blocked: true, reason: blocked.details } });
+      return res.status(400).json(blocked);
+    }
+    console.log(`✅ [SQL Execute] Query validada como leitura`);
+
+    // Executar query (cancelável por POST /api/query/:connId/cancel/:execId)
+    let execution;
+    try {
+      execution = executionRegistry.start(connection.id, userKeyOf(req.user!), execId);
+    } catch (error: any) {
+      return res.status(409).json({ error: error.message });
+    }
+
     try {
       console.log(`🚀 [SQL Execute] Executando query no banco de dados...`);
       const queryStartTime = Date.now();
-      let result;
-      if (connection.type === 'mysql') {
-        console.log(`🔌 [SQL Execute] Usando pool MySQL...`);
-        const pool = await ConnectionManager.getMySQLPool(connection);
-        const [rows] = await pool.query(sql);
-        result = rows;
-      } else {
-        console.log(`🔌 [SQL Execute] Usando pool SQL Server...`);
-        const pool = await ConnectionManager.getSQLServerPool(connection);
-        // Configurar timeout de 60 segundos para a query
-        const request = pool.request();
-        request.timeout = 60000; // 60 segundos
-        const queryResult = await request.query(sql);
-        result = queryResult.recordset;
-      }
+      console.log(`🔌 [SQL Execute] Usando driver ${driver.displayName} (execução ${execId})...`);
+      const result = await driver.execute(connection, sql, execution.signal);
       const queryTime = Date.now() - queryStartTime;
       console.log(`✅ [SQL Execute] Query executada em ${queryTime}ms`);
 
@@ -471,15 +467,25 @@ router.post('/execute-sql', async (req: Request, res: Response) => {
       console.log(`📊 [SQL Execute] Resultados: ${totalRows} linhas total, ${limitedResult.length} exibidas${hasMore ? ' (limitado a 1000)' : ''}`);
       console.log(`✨ [SQL Execute] Processo concluído em ${totalTime}ms!\n`);
 
+      await audit({ success: true, rowCount: totalRows });
+
       res.json({
         rows: limitedResult,
         columns: limitedResult.length > 0 ? Object.keys(limitedResult[0]) : [],
         totalRows,
         displayedRows: limitedResult.length,
         hasMore,
+        execId,
       });
     } catch (error: any) {
       const totalTime = Date.now() - startTime;
+
+      if (execution.signal.aborted) {
+        console.log(`🛑 [SQL Execute] Execução ${execId} cancelada após ${totalTime}ms\n`);
+        await audit({ success: false, error: 'Query cancelada pelo usuário', details: { cancelled: true } });
+        return res.status(409).json({ error: 'Query cancelada pelo usuário', cancelled: true });
+      }
+
       console.error(`❌ [SQL Execute] Erro ao executar query após ${totalTime}ms:`);
       console.error(`   - Tipo: ${error.name || 'Unknown'}`);
       console.error(`   - Mensagem: ${error.message || 'Erro desconhecido'}`);
@@ -487,10 +493,13 @@ router.post('/execute-sql', async (req: Request, res: Response) => {
         console.error(`   - Código: ${error.code}`);
       }
       console.log(`\n`);
+      await audit({ success: false, error: error.message || 'Erro desconhecido' });
       return res.status(500).json({
         error: 'Erro ao executar query',
         details: error.message || 'Erro desconhecido',
       });
+    } finally {
+      executionRegistry.finish(userKeyOf(req.user!), execId);
     }
   } catch (error: unknown) {
     const totalTime = Date.now() - startTime;
@@ -503,7 +512,7 @@ router.post('/execute-sql', async (req: Request, res: Response) => {
 });
 
 // Analisar SQL e sugerir melhorias
-router.post('/analyze-sql', async (req: Request, res: Response) => {
+router.post('/analyze-sql', requireConnectionAccess('reader', connIdFromBody), async (req: Request, res: Response) => {
   const startTime = Date.now();
   console.log('\n🔍 [OpenAI] Iniciando análise de SQL...');
   console.log(`📝 [OpenAI] SQL recebido: ${req.body.sql?.substring(0, 100)}${req.body.sql?.length > 100 ? '...' : ''}`);
@@ -538,7 +547,7 @@ router.post('/analyze-sql', async (req: Request, res: Response) => {
     }
 
     // Preparar prompt para análise
-    const systemPrompt = `Você é um especialista em otimização de SQL para ${connection.type === 'mysql' ? 'MySQL' : 'SQL Server'}.
+    const systemPrompt = `Você é um especialista em otimização de SQL para ${ConnectionManager.getDriver(connection).displayName}.
 
 Analise a query SQL fornecida e sugira melhorias de:
 1. Performance (índices, JOINs otimizados, subqueries)
@@ -561,7 +570,7 @@ Formato da resposta:
 ${sql}
 \`\`\`
 
-Tipo de banco: ${connection.type === 'mysql' ? 'MySQL' : 'SQL Server'}`;
+Tipo de banco: ${ConnectionManager.getDriver(connection).displayName}`;
 
     // Adicionar prompt complementar se fornecido
     if (complementaryPrompt && typeof complementaryPrompt === 'string' && complementaryPrompt.trim()) {
@@ -1,17 +1,56 @@
 import { Router, Request, Response } from 'express';
+import { randomUUID } from 'crypto';
 import { ConnectionManager } from '../db/connection-manager.js';
+import { driverRegistry } from '../db/driver-registry.js';
+import { resultSetStore } from '../db/result-sets.js';
+import { executionRegistry } from '../db/executions.js';
 import { connectionStorage } from '../storage/connections.js';
+import { checkReadOnly } from '../utils/sql-classifier.js';
+import { parseQueryParams, validateParameters, QueryParameterError } from '../utils/sql-parameters.js';
+import { sqlAuditor } from '../storage/audit-log.js';
+import { requireConnectionAccess, userKeyOf } from '../auth/permissions.js';
+import type { QueryParams, SqlDialect } from '../types/index.js';
 
 const router = Router();
 
+// Executar (e explicar) queries exige perfil editor
+router.use('/:connId', requireConnectionAccess('editor'));
+
+// Tamanho de página: padrão e máximo aceito por requisição
+const DEFAULT_PAGE_SIZE = 1000;
+const MAX_PAGE_SIZE = 10000;
+
+// Valida params contra os parâmetros nomeados do SQL; devolve a mensagem de erro, se houver
+function checkParameters(sql: string, dialect: SqlDialect, value: unknown): { params?: QueryParams; error?: string } {
+  try {
+    const params = parseQueryParams(value);
+    validateParameters(sql, dialect, params);
+    return { params };
+  } catch (error) {
+    if (error instanceof QueryParameterError) return { error: error.message };
+    throw error;
+  }
+}
+
+function parsePageSize(value: unknown): number {
+  const size = typeof value === 'string' ? parseInt(value, 10) : value;
+  return typeof size === 'number' && Number.isFinite(size) && size > 0
+    ? Math.min(Math.floor(size), MAX_PAGE_SIZE)
+    : DEFAULT_PAGE_SIZE;
+}
+
 /**
  * POST /api/query/:connId/execute
- * Executa uma query SQL e retorna os resultados
+ * Executa uma query SQL em modo streaming e retorna a primeira página
+ * junto com o handle do resultado, usado para buscar as páginas seguintes.
+ * O execId enviado pelo cliente permite cancelar a execução enquanto ela roda.
+ * Parâmetros nomeados do SQL (:nome, @nome) recebem valor em params e são ligados pelo driver.
  */
 router.post('/:connId/execute', async (req: Request, res: Response) => {
   const startTime = Date.now();
   const { connId } = req.params;
   const { sql, limit } = req.body;
+  const execId: string = req.body.execId ?? randomUUID();
 
   console.log('\n⚡ [Query Execute] Iniciando execução de query...');
   console.log(`🔗 [Query Execute] Connection ID: ${connId}`);
@@ -26,38 +65,11 @@ router.post('/:connId/execute', async (req: Request, res: Response) => {
       });
     }
 
-    // Validar segurança da query (apenas SELECT)
-    // Remover comentários do início para validar
-    const sqlWithoutComments = sql.trim().replace(/^--.*$/gm, '').trim();
-    const sqlUpper = sqlWithoutComments.toUpperCase();
-    const dangerousKeywords = ['INSERT', 'UPDATE', 'DELETE', 'DROP', 'TRUNCATE', 'ALTER', 'CREATE', 'EXEC', 'EXECUTE'];
-    const hasDangerousKeyword = dangerousKeywords.some(keyword => sqlUpper.includes(keyword));
-    
-    // Verificar se começa com SELECT ou WITH (ignorando comentários)
-    const startsWithSelect = sqlUpper.startsWith('SELECT');
-    const startsWithWith = sqlUpper.startsWith('WITH');
-    
-    if (hasDangerousKeyword && !startsWithSelect && !startsWithWith) {
-      console.error(`❌ [Query Execute] Query bloqueada por segurança!`);
-      console.error(`   - Contém palavras perigosas: ${hasDangerousKeyword}`);
-      console.error(`   - Começa com SELECT: ${startsWithSelect}`);
-      console.error(`   - Começa com WITH: ${startsWithWith}`);
-      console.error(`   - SQL (primeiros 200 chars): ${sql.substring(0, 200)}`);
+    if (!executionRegistry.isValidId(execId)) {
       return res.status(400).json({
-        error: 'Apenas queries SELECT são permitidas por segurança',
-        details: sqlWithoutComments.length === 0 
-          ? 'Query contém apenas comentários ou está vazia. Corrija os erros antes de executar.'
-          : 'Por segurança, apenas queries SELECT podem ser executadas'
+        error: 'execId inválido',
       });
     }
-    
-    if (sqlWithoutComments.length === 0) {
-      return res.status(400).json({
-        error: 'Query contém apenas comentários ou está vazia',
-      });
-    }
-    
-    console.log(`✅ [Query Execute] Query validada como SELECT seguro`);
 
     // Buscar conexão
     const connection = connectionStorage.get(connId);
@@ -70,67 +82,93 @@ router.post('/:connId/execute', async (req: Request, res: Response) => {
 
     console.log(`✅ [Query Execute] Conexão encontrada: ${connection.name} (${connection.type})`);
 
-    // Executar query
-    let result: any[] = [];
+    const audit = sqlAuditor('query.execute', req.user, connection, sql);
+
+    if (!driverRegistry.has(connection.type)) {
+      console.error(`❌ [Query Execute] Tipo de banco não suportado: ${connection.type}`);
+      return res.status(400).json({
+        error: 'Tipo de banco de dados não suportado',
+      });
+    }
+
+    const driver = ConnectionManager.getDriver(connection);
+
+    // Validar segurança da query (apenas leitura), segundo o dialeto do banco
+    const blocked = checkReadOnly(sql, driver.dialect ?? 'ansi', 'Query Execute');
+    if (blocked) {
+      await audit({ success: false, error: blocked.error, details: { blocked: true, reason: blocked.details } });
+      return res.status(400).json(blocked);
+    }
+
+    console.log(`✅ [Query Execute] Query validada como leitura`);
+
+    const { params, error: paramsError } = checkParameters(sql, driver.dialect ?? 'ansi', req.body.params);
+    if (paramsError) {
+      await audit({ success: false, error: paramsError });
+      return res.status(400).json({ error: paramsError });
+    }
+    if (params) {
+      console.log(`🧩 [Query Execute] Parâmetros: ${Object.keys(params).join(', ') || 'nenhum'}`);
+    }
+
+    // Executar query (o limite é o tamanho da página)
+    const pageSize = parsePageSize(limit);
     const queryStartTime = Date.now();
+    let handle: string | null = null;
 
+    let execution;
     try {
-      if (connection.type === 'mysql') {
-        console.log(`🔌 [Query Execute] Usando pool MySQL...`);
-        try {
-          const pool = await ConnectionManager.getMySQLPool(connection);
-          console.log(`✅ [Query Execute] Pool MySQL obtido com sucesso`);
-          const [rows] = await pool.query(sql);
-          result = Array.isArray(rows) ? rows : [];
-        } catch (poolError: any) {
-          console.error(`❌ [Query Execute] Erro ao obter pool MySQL:`, poolError);
-          throw poolError;
-        }
-      } else if (connection.type === 'sqlserver') {
-        console.log(`🔌 [Query Execute] Usando pool SQL Server...`);
-        try {
-          const pool = await ConnectionManager.getSQLServerPool(connection);
-          console.log(`✅ [Query Execute] Pool SQL Server obtido com sucesso`);
-          const request = pool.request();
-          
-          // Configurar timeout de 60 segundos para a query
-          request.timeout = 60000;
-          const queryResult = await request.query(sql);
-          result = queryResult.recordset || [];
-        } catch (poolError: any) {
-          console.error(`❌ [Query Execute] Erro ao obter pool SQL Server:`, poolError);
-          throw poolError;
-        }
-      } else {
-        console.error(`❌ [Query Execute] Tipo de banco não suportado: ${connection.type}`);
-        return res.status(400).json({
-          error: 'Tipo de banco de dados não suportado',
-        });
-      }
+      execution = executionRegistry.start(connection.id, userKeyOf(req.user!), execId);
+    } catch (error: any) {
+      return res.status(409).json({ error: error.message });
+    }
 
-      const queryTime = Date.now() - queryStartTime;
-      console.log(`✅ [Query Execute] Query executada em ${queryTime}ms`);
+    try {
+      console.log(`🔌 [Query Execute] Usando driver ${driver.displayName} (execução ${execId})...`);
+      const result = await resultSetStore.open(connection.id, userKeyOf(req.user!), driver.stream(connection, sql, execution.signal, params));
+      handle = result.handle;
+      const page = await result.read(0, pageSize);
 
-      // Aplicar limite se especificado
-      const maxLimit = limit && typeof limit === 'number' && limit > 0 ? Math.min(limit, 10000) : 1000;
-      const totalRows = result.length;
-      const limitedResult = result.slice(0, maxLimit);
-      const hasMore = totalRows > maxLimit;
+      const queryTime = Date.now() - queryStartTime;
+      console.log(`✅ [Query Execute] Primeira página obtida em ${queryTime}ms`);
 
       const totalTime = Date.now() - startTime;
-      console.log(`📊 [Query Execute] Resultados: ${totalRows} linhas total, ${limitedResult.length} exibidas${hasMore ? ` (limitado a ${maxLimit})` : ''}`);
+      console.log(`📊 [Query Execute] Resultados: ${page.rows.length} linhas na página${page.hasMore ? ' (há mais linhas)' : ''}${page.totalRows !== null ? `, ${page.totalRows} no total` : ''}`);
       console.log(`✨ [Query Execute] Processo concluído em ${totalTime}ms!\n`);
 
+      const details = {
+        ...(page.totalRows === null && { hasMore: true }),
+        ...(params && { params }),
+      };
+      await audit({
+        success: true,
+        rowCount: page.totalRows ?? page.rows.length,
+        ...(Object.keys(details).length > 0 && { details }),
+      });
+
       res.json({
-        rows: limitedResult,
-        columns: limitedResult.length > 0 ? Object.keys(limitedResult[0]) : [],
-        totalRows,
-        hasMore,
+        ...page,
+        execId,
         executionTime: queryTime,
         totalTime,
       });
     } catch (dbError: any) {
+      if (handle) {
+        await resultSetStore.close(handle);
+      }
+
       const totalTime = Date.now() - startTime;
+
+      // O erro devolvido pelo banco após KILL/cancel não é útil ao usuário
+      if (execution.signal.aborted) {
+        console.log(`🛑 [Query Execute] Execução ${execId} cancelada após ${totalTime}ms\n`);
+        await audit({ success: false, error: 'Query cancelada pelo usuário', details: { cancelled: true } });
+        return res.status(409).json({
+          error: 'Query cancelada pelo usuário',
+          cancelled: true,
+        });
+      }
+
       console.error(`❌ [Query Execute] Erro ao executar query após ${totalTime}ms:`);
       console.error(`   - Tipo: ${dbError.name || 'Unknown'}`);
       console.error(`   - Mensagem: ${dbError.message || 'Erro desconhecido'}`);
@@ -153,10 +191,14 @@ router.post('/:connId/execute', async (req: Request, res: Response) => {
         errorMessage = dbError;
       }
 
+      await audit({ success: false, error: errorMessage, ...(params && { details: { params } }) });
+
       res.status(500).json({
         error: errorMessage,
         details: process.env.NODE_ENV === 'development' ? dbError.stack : undefined,
       });
+    } finally {
+      executionRegistry.finish(userKeyOf(req.user!), execId);
     }
   } catch (error: any) {
     const totalTime = Date.now() - startTime;
@@ -168,5 +210,136 @@ router.post('/:connId/execute', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /api/query/:connId/cancel/:execId
+ * Cancela uma execução em andamento (Query Builder ou SQL da IA) do próprio usuário
+ */
+router.post('/:connId/cancel/:execId', (req: Request, res: Response) => {
+  const { connId, execId } = req.params;
+
+  const elapsed = executionRegistry.cancel(connId, userKeyOf(req.user!), execId);
+  if (elapsed === null) {
+    return res.status(404).json({
+      error: 'Execução não encontrada ou já finalizada',
+    });
+  }
+
+  console.log(`🛑 [Query Cancel] Execução ${execId} cancelada após ${elapsed}ms`);
+  res.json({ success: true, elapsed });
+});
+
+/**
+ * GET /api/query/:connId/results/:handle?offset=&size=
+ * Retorna uma página de um resultado aberto por /execute
+ */
+router.get('/:connId/results/:handle', async (req: Request, res: Response) => {
+  const { connId, handle } = req.params;
+  const offset = Math.max(0, parseInt(String(req.query.offset ?? '0'), 10) || 0);
+  const size = parsePageSize(req.query.size);
+
+  const result = resultSetStore.get(handle, connId, userKeyOf(req.user!));
+  if (!result) {
+    return res.status(404).json({
+      error: 'Resultado não encontrado ou expirado',
+      details: 'Execute a query novamente para obter os resultados',
+    });
+  }
+
+  if (offset < result.firstAvailableRow) {
+    return res.status(410).json({
+      error: 'Página não está mais disponível',
+      details: `Apenas linhas a partir de ${result.firstAvailableRow} ainda estão em memória. Execute a query novamente para voltar ao início.`,
+    });
+  }
+
+  try {
+    const page = await result.read(offset, size);
+    console.log(`📄 [Query Results] ${handle}: linhas ${offset}-${offset + page.rows.length}`);
+    res.json(page);
+  } catch (error: any) {
+    console.error(`❌ [Query Results] Erro ao ler página de ${handle}:`, error.message);
+    await resultSetStore.close(handle);
+    res.status(500).json({
+      error: error.message || 'Erro ao obter resultados',
+    });
+  }
+});
+
+/**
+ * DELETE /api/query/:connId/results/:handle
+ * Fecha um resultado aberto, liberando o cursor no banco
+ */
+router.delete('/:connId/results/:handle', async (req: Request, res: Response) => {
+  const { connId, handle } = req.params;
+  const result = resultSetStore.get(handle, connId, userKeyOf(req.user!));
+
+  if (result) {
+    await resultSetStore.close(handle);
+  }
+
+  res.json({ success: true });
+});
+
+/**
+ * POST /api/query/:connId/explain
+ * Retorna o plano de execução de uma query no formato nativo de cada banco
+ * Aceita os mesmos params de /execute
+ */
+router.post('/:connId/explain', async (req: Request, res: Response) => {
+  const { connId } = req.params;
+  const { sql } = req.body;
+
+  console.log(`\n🔍 [Query Explain] Connection ID: ${connId}`);
+
+  if (!sql || typeof sql !== 'string' || sql.trim().length === 0) {
+    return res.status(400).json({
+      error: 'Query SQL é obrigatória e não pode estar vazia',
+    });
+  }
+
+  const connection = connectionStorage.get(connId);
+  if (!connection) {
+    return res.status(404).json({
+      error: 'Conexão não encontrada',
+    });
+  }
+
+  const audit = sqlAuditor('query.explain', req.user, connection, sql);
+
+  try {
+    const driver = ConnectionManager.getDriver(connection);
+
+    const blocked = checkReadOnly(sql, driver.dialect ?? 'ansi', 'Query Explain');
+    if (blocked) {
+      await audit({ success: false, error: blocked.error, details: { blocked: true, reason: blocked.details } });
+      return res.status(400).json(blocked);
+    }
+
+    const { params, error: paramsError } = checkParameters(sql, driver.dialect ?? 'ansi', req.body.params);
+    if (paramsError) {
+      await audit({ success: false, error: paramsError });
+      return res.status(400).json({ error: paramsError });
+    }
+
+    const rows = await driver.explain(connection, sql, params);
+    console.log(`✅ [Query Explain] Plano obtido: ${rows.length} linha(s)`);
+    await audit({ success: true, rowCount: rows.length, ...(params && { details: { params } }) });
+
+    res.json({
+      rows,
+      columns: rows.length > 0 ? Object.keys(rows[0]) : [],
+      totalRows: rows.length,
+      displayedRows: rows.length,
+      hasMore: false,
+    });
+  } catch (error: any) {
+    console.error(`❌ [Query Explain] Erro ao obter plano de execução:`, error.message);
+    await audit({ success: false, error: error.message || 'Erro ao executar EXPLAIN' });
+    res.status(500).json({
+      error: error.message || 'Erro ao executar EXPLAIN',
+    });
+  }
+});
+
 export default router;
 
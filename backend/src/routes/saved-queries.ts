@@ -0,0 +1,199 @@
+import { Router, type Request, type Response } from 'express';
+import { z } from 'zod';
+import { connectionStorage } from '../storage/connections.js';
+import { savedQueryStorage } from '../storage/saved-queries.js';
+import { canAccessConnection, hasRole, userKeyOf } from '../auth/permissions.js';
+import type { AuthUser, SavedQuery } from '../types/index.js';
+
+const router = Router();
+
+// "Financeiro / Mensal/" -> "Financeiro/Mensal"; vazio volta para a raiz
+const folderSchema = z.string().max(200).transform(folder =>
+  folder.split('/').map(part => part.trim()).filter(Boolean).join('/') || undefined
+);
+
+const savedQueryFields = {
+  name: z.string().trim().min(1).max(200),
+  description: z.string().trim().max(2000).optional(),
+  folder: folderSchema.optional(),
+  tags: z.array(z.string().trim().min(1).max(50)).max(20).default([]),
+  shared: z.boolean().default(false),
+  sql: z.string().min(1),
+  ast: z.record(z.unknown()),
+};
+
+const createSchema = z.object({
+  connId: z.string().min(1),
+  ...savedQueryFields,
+});
+
+// Sem os defaults: campos ausentes não mudam
+const updateSchema = z.object({
+  ...savedQueryFields,
+  tags: savedQueryFields.tags.removeDefault(),
+  shared: savedQueryFields.shared.removeDefault(),
+}).partial();
+
+const importSchema = z.object({
+  connId: z.string().min(1),
+  queries: z.array(z.object({
+    ...savedQueryFields,
+    createdAt: z.coerce.date().optional(),
+    updatedAt: z.coerce.date().optional(),
+  })).max(500),
+});
+
+const listQuerySchema = z.object({
+  connId: z.string().min(1),
+});
+
+// O acesso é conferido no connId já validado que a rota grava ou lista (?connId= na listagem,
+// corpo na criação e importação), e não em um middleware que poderia ler um e gravar com o outro
+const NO_ACCESS = { error: 'Sem acesso a esta conexão' };
+
+function authorNameOf(user: AuthUser): string {
+  return user.name || user.email || user.uid;
+}
+
+// Só o autor altera a query; admins também podem alterar ou retirar as compartilhadas
+function canEdit(query: SavedQuery, user: AuthUser): boolean {
+  return query.owner === userKeyOf(user) || (query.shared && hasRole(user, 'admin'));
+}
+
+function toView(query: SavedQuery, user: AuthUser) {
+  return { ...query, editable: canEdit(query, user) };
+}
+
+/**
+ * Rotas por id (permalink, edição, exclusão) não recebem connId: o acesso é conferido na conexão
+ * gravada na própria query, inclusive nas compartilhadas. Sem distinção entre "não existe" e
+ * "não é visível para o usuário"
+ */
+function findVisibleQuery(req: Request): SavedQuery | undefined {
+  const query = savedQueryStorage.get(req.params.id);
+  if (!query || !canAccessConnection(req.user, query.connId)) return undefined;
+  return savedQueryStorage.isVisibleTo(query, userKeyOf(req.user!)) ? query : undefined;
+}
+
+// Queries do usuário e compartilhadas na conexão, da mais recente para a mais antiga
+router.get('/', (req: Request, res: Response) => {
+  const parsed = listQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Parâmetros inválidos', details: parsed.error.errors });
+  }
+
+  const user = req.user!;
+  if (!canAccessConnection(user, parsed.data.connId)) {
+    return res.status(403).json(NO_ACCESS);
+  }
+  res.json(savedQueryStorage.list(parsed.data.connId, userKeyOf(user)).map(q => toView(q, user)));
+});
+
+// Query pelo id (usado pelos permalinks do Query Builder)
+router.get('/:id', (req: Request, res: Response) => {
+  const query = findVisibleQuery(req);
+  if (!query) {
+    return res.status(404).json({ error: 'Query não encontrada' });
+  }
+  res.json(toView(query, req.user!));
+});
+
+router.post('/', async (req: Request, res: Response) => {
+  const parsed = createSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Dados inválidos', details: parsed.error.errors });
+  }
+
+  const { connId, ...input } = parsed.data;
+  if (!canAccessConnection(req.user, connId)) {
+    return res.status(403).json(NO_ACCESS);
+  }
+  if (!connectionStorage.get(connId)) {
+    return res.status(404).json({ error: 'Conexão não encontrada' });
+  }
+
+  const user = req.user!;
+  try {
+    const query = await savedQueryStorage.create(connId, userKeyOf(user), authorNameOf(user), input);
+    res.status(201).json(toView(query, user));
+  } catch (error: any) {
+    console.error('Erro ao salvar query:', error);
+    res.status(500).json({ error: 'Erro ao salvar query' });
+  }
+});
+
+/**
+ * Importação única das queries que as versões anteriores do frontend guardavam
+ * no localStorage. Repetir a importação não duplica queries já salvas.
+ */
+router.post('/import', async (req: Request, res: Response) => {
+  const parsed = importSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Dados inválidos', details: parsed.error.errors });
+  }
+
+  const { connId, queries } = parsed.data;
+  if (!canAccessConnection(req.user, connId)) {
+    return res.status(403).json(NO_ACCESS);
+  }
+  if (!connectionStorage.get(connId)) {
+    return res.status(404).json({ error: 'Conexão não encontrada' });
+  }
+
+  const user = req.user!;
+  try {
+    const imported = await savedQueryStorage.import(connId, userKeyOf(user), authorNameOf(user), queries.map(q => ({
+      ...q,
+      createdAt: q.createdAt?.toISOString(),
+      updatedAt: q.updatedAt?.toISOString(),
+    })));
+    console.log(`[SavedQueries] ${imported.length} de ${queries.length} query(ies) importada(s) para a conexão ${connId}`);
+    res.json({ imported: imported.length, skipped: queries.length - imported.length });
+  } catch (error: any) {
+    console.error('Erro ao importar queries:', error);
+    res.status(500).json({ error: 'Erro ao importar queries' });
+  }
+});
+
+router.put('/:id', async (req: Request, res: Response) => {
+  const parsed = updateSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Dados inválidos', details: parsed.error.errors });
+  }
+
+  const user = req.user!;
+  const query = findVisibleQuery(req);
+  if (!query) {
+    return res.status(404).json({ error: 'Query não encontrada' });
+  }
+  if (!canEdit(query, user)) {
+    return res.status(403).json({ error: 'Apenas o autor pode alterar esta query' });
+  }
+
+  try {
+    res.json(toView((await savedQueryStorage.update(query.id, parsed.data))!, user));
+  } catch (error: any) {
+    console.error('Erro ao atualizar query:', error);
+    res.status(500).json({ error: 'Erro ao atualizar query' });
+  }
+});
+
+router.delete('/:id', async (req: Request, res: Response) => {
+  const query = findVisibleQuery(req);
+  if (!query) {
+    return res.status(404).json({ error: 'Query não encontrada' });
+  }
+  if (!canEdit(query, req.user!)) {
+    return res.status(403).json({ error: 'Apenas o autor pode excluir esta query' });
+  }
+
+  try {
+    await savedQueryStorage.delete(query.id);
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Erro ao excluir query:', error);
+    res.status(500).json({ error: 'Erro ao excluir query' });
+  }
+});
+
+export default router;
@@ -1,13 +1,15 @@
 import { Router, type Request, type Response } from 'express';
 import { ConnectionManager } from '../db/connection-manager.js';
-import { MySQLIntrospector } from '../db/mysql-introspector.js';
-import { SQLServerIntrospector } from '../db/sqlserver-introspector.js';
 import { connectionStorage } from '../storage/connections.js';
 import { schemaCacheStorage } from '../storage/schema-cache.js';
 import { introspectAndCache } from '../utils/schema-introspection.js';
+import { requireConnectionAccess } from '../auth/permissions.js';
 
 const router = Router();
 
+// Navegar no schema é permitido a qualquer perfil com acesso à conexão
+router.use('/:connId', requireConnectionAccess('reader'));
+
 // Obter schema completo (usa cache se disponível)
 router.get('/:connId', async (req: Request, res: Response) => {
   try {
@@ -170,16 +172,7 @@ router.get('/:connId/ddl', async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'Conexão não encontrada' });
     }
 
-    let ddl: string;
-    if (conn.type === 'mysql') {
-      const pool = await ConnectionManager.getMySQLPool(conn);
-      const introspector = new MySQLIntrospector(pool);
-      ddl = await introspector.getDDL(conn.database);
-    } else {
-      const pool = await ConnectionManager.getSQLServerPool(conn);
-      const introspector = new SQLServerIntrospector(pool);
-      ddl = await introspector.getDDL(conn.database);
-    }
+    const ddl = await ConnectionManager.getDriver(conn).getDDL(conn);
 
     res.setHeader('Content-Type', 'text/plain; charset=utf-8');
     res.send(ddl);
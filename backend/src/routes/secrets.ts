@@ -0,0 +1,45 @@
+import { Router, type Request, type Response } from 'express';
+import { z } from 'zod';
+import { secretStore, SecretsError } from '../storage/secrets.js';
+
+const router = Router();
+
+// Origem e identificador da chave mestra (nunca a chave em si)
+router.get('/status', (req: Request, res: Response) => {
+  res.json({
+    keySource: secretStore.keySource,
+    keyId: secretStore.keyId,
+  });
+});
+
+// newKey: 32 bytes em base64; obrigatória quando a chave vem de SECRETS_MASTER_KEY
+const rotateSchema = z.object({
+  newKey: z.string().trim().min(1).optional(),
+});
+
+// Rotacionar a chave mestra, regravando todos os segredos
+router.post('/rotate', async (req: Request, res: Response) => {
+  const parsed = rotateSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Dados inválidos', details: parsed.error.errors });
+  }
+
+  try {
+    const result = await secretStore.rotate(parsed.data.newKey);
+    res.json({
+      success: true,
+      ...result,
+      ...(secretStore.keySource === 'env' && {
+        warning: 'Atualize SECRETS_MASTER_KEY com a nova chave antes de reiniciar o servidor',
+      }),
+    });
+  } catch (error: any) {
+    if (error instanceof SecretsError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Erro ao rotacionar chave mestra:', error);
+    res.status(500).json({ error: error.message || 'Erro ao rotacionar chave mestra' });
+  }
+});
+
+export default router;
@@ -3,6 +3,7 @@ import multer from 'multer';
 import { join } from 'path';
 import { promises as fs } from 'fs';
 import { uiConfigStorage } from '../storage/ui-config.js';
+import { requireRole } from '../auth/permissions.js';
 
 const router = Router();
 
@@ -51,7 +52,7 @@ router.get('/config', async (req: Request, res: Response) => {
 });
 
 // Atualizar configuração de UI (opacidade do background)
-router.post('/config', async (req: Request, res: Response) => {
+router.post('/config', requireRole('admin'), async (req: Request, res: Response) => {
   try {
     const { loginBackgroundOpacity } = req.body;
     if (loginBackgroundOpacity !== undefined) {
@@ -73,7 +74,7 @@ router.post('/config', async (req: Request, res: Response) => {
 });
 
 // Upload de background do login
-router.post('/upload-background', upload.single('background'), async (req: Request, res: Response) => {
+router.post('/upload-background', requireRole('admin'), upload.single('background'), async (req: Request, res: Response) => {
   try {
     if (!req.file) {
       return res.status(400).json({ error: 'Nenhum arquivo enviado' });
@@ -0,0 +1,129 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import type { Role } from '../types/index.js';
+
+const STORAGE_FILE = join(process.cwd(), 'data', 'access-control.json');
+
+// Usuários são identificados pela chave de userKeyOf (e-mail verificado, ou uid), sempre em minúsculas
+interface AccessControlData {
+  users: Record<string, Role>; // Perfil de cada usuário
+  grants: Record<string, string[]>; // connId -> usuários com acesso à conexão
+}
+
+function emptyData(): AccessControlData {
+  return { users: {}, grants: {} };
+}
+
+function normalizeUser(user: string): string {
+  return user.trim().toLowerCase();
+}
+
+// Garantir que o diretório existe
+async function ensureDataDir(): Promise<void> {
+  const dataDir = join(process.cwd(), 'data');
+  try {
+    await fs.access(dataDir);
+  } catch {
+    await fs.mkdir(dataDir, { recursive: true });
+  }
+}
+
+async function loadData(): Promise<AccessControlData> {
+  try {
+    await ensureDataDir();
+    const data = JSON.parse(await fs.readFile(STORAGE_FILE, 'utf-8')) as Partial<AccessControlData>;
+    return { users: data.users ?? {}, grants: data.grants ?? {} };
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return emptyData();
+    }
+    // Arquivo corrompido: não seguir com permissões vazias, o próximo save apagaria todas
+    console.error('Erro ao carregar permissões:', error);
+    throw error;
+  }
+}
+
+async function saveData(data: AccessControlData): Promise<void> {
+  try {
+    await ensureDataDir();
+    await fs.writeFile(STORAGE_FILE, JSON.stringify(data, null, 2), 'utf-8');
+  } catch (error) {
+    console.error('Erro ao salvar permissões:', error);
+    throw error;
+  }
+}
+
+// Perfis de usuários e permissões por conexão, persistidos em data/access-control.json
+class AccessControlStorage {
+  private data: AccessControlData = emptyData();
+  private initialized: boolean = false;
+
+  async initialize(): Promise<void> {
+    if (this.initialized) return;
+
+    this.data = await loadData();
+    this.initialized = true;
+    console.log(`[Storage] Permissões carregadas: ${Object.keys(this.data.users).length} usuário(s), ${Object.keys(this.data.grants).length} conexão(ões) com acesso concedido`);
+  }
+
+  getRole(user: string): Role | undefined {
+    return this.data.users[normalizeUser(user)];
+  }
+
+  /**
+   * Usuários com perfil atribuído ou com acesso a alguma conexão. Quem só tem acesso roda
+   * com o perfil padrão, informado por quem chama (AUTH_DEFAULT_ROLE fica em auth/permissions)
+   */
+  listUsers(defaultRole: Role): Array<{ user: string; role: Role; explicitRole: boolean; connections: string[] }> {
+    const keys = new Set([...Object.keys(this.data.users), ...Object.values(this.data.grants).flat()]);
+    return Array.from(keys).map(user => ({
+      user,
+      role: this.data.users[user] ?? defaultRole,
+      explicitRole: user in this.data.users,
+      connections: Object.entries(this.data.grants)
+        .filter(([, users]) => users.includes(user))
+        .map(([connId]) => connId),
+    }));
+  }
+
+  async setRole(user: string, role: Role): Promise<void> {
+    this.data.users[normalizeUser(user)] = role;
+    await saveData(this.data);
+  }
+
+  // Remove o perfil e os acessos do usuário
+  async removeUser(user: string): Promise<boolean> {
+    const key = normalizeUser(user);
+    const granted = Object.values(this.data.grants).some(users => users.includes(key));
+    if (!(key in this.data.users) && !granted) return false;
+
+    delete this.data.users[key];
+    for (const [connId, users] of Object.entries(this.data.grants)) {
+      this.data.grants[connId] = users.filter(u => u !== key);
+    }
+    await saveData(this.data);
+    return true;
+  }
+
+  getGrants(connId: string): string[] {
+    return this.data.grants[connId] ?? [];
+  }
+
+  isGranted(connId: string, user: string): boolean {
+    return this.getGrants(connId).includes(normalizeUser(user));
+  }
+
+  async setGrants(connId: string, users: string[]): Promise<void> {
+    this.data.grants[connId] = Array.from(new Set(users.map(normalizeUser)));
+    await saveData(this.data);
+  }
+
+  async deleteConnection(connId: string): Promise<void> {
+    if (!(connId in this.data.grants)) return;
+
+    delete this.data.grants[connId];
+    await saveData(this.data);
+  }
+}
+
+export const accessControlStorage = new AccessControlStorage();
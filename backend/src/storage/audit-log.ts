@@ -0,0 +1,120 @@
+import { promises as fs, createReadStream } from 'fs';
+import { createInterface } from 'readline';
+import { join } from 'path';
+import { randomUUID } from 'crypto';
+import type { AuditEntry, AuditFilter, AuthUser, DatabaseConnection } from '../types/index.js';
+
+const AUDIT_FILE = join(process.cwd(), 'data', 'audit.jsonl');
+
+// Identificação do usuário nas entradas: e-mail quando houver, senão o uid do token
+export function auditUser(user: AuthUser | undefined): string {
+  return user?.email || user?.uid || 'desconhecido';
+}
+
+function matches(entry: AuditEntry, filter: AuditFilter): boolean {
+  if (filter.user && !entry.user.toLowerCase().includes(filter.user.toLowerCase())) return false;
+  if (filter.connId && entry.connId !== filter.connId) return false;
+  if (filter.action) {
+    const prefix = filter.action.endsWith('.');
+    if (prefix ? !entry.action.startsWith(filter.action) : entry.action !== filter.action) return false;
+  }
+  if (filter.success !== undefined && entry.success !== filter.success) return false;
+
+  const time = Date.parse(entry.timestamp);
+  if (filter.from && time < filter.from.getTime()) return false;
+  if (filter.to && time > filter.to.getTime()) return false;
+
+  if (filter.search) {
+    const search = filter.search.toLowerCase();
+    const haystack = [entry.sql, entry.target, entry.error, entry.connectionName].filter(Boolean).join('\n').toLowerCase();
+    if (!haystack.includes(search)) return false;
+  }
+  return true;
+}
+
+// Log de auditoria append-only: uma entrada JSON por linha, nunca reescrita
+class AuditLogStorage {
+  private writing: Promise<void> = Promise.resolve(); // Mantém a ordem das gravações
+
+  async record(entry: Omit<AuditEntry, 'id' | 'timestamp'>): Promise<AuditEntry> {
+    const full: AuditEntry = {
+      id: randomUUID(),
+      timestamp: new Date().toISOString(),
+      ...entry,
+    };
+
+    this.writing = this.writing.then(async () => {
+      try {
+        await fs.mkdir(join(process.cwd(), 'data'), { recursive: true });
+        await fs.appendFile(AUDIT_FILE, JSON.stringify(full) + '\n', 'utf-8');
+      } catch (error) {
+        console.error('[Audit] Erro ao gravar entrada de auditoria:', error);
+      }
+    });
+    await this.writing;
+
+    console.log(`📋 [Audit] ${full.action} por ${full.user}${full.target ? ` (${full.target})` : ''}: ${full.success ? 'sucesso' : 'falha'}`);
+    return full;
+  }
+
+  /**
+   * Entradas que atendem ao filtro, da mais recente para a mais antiga.
+   * O arquivo é lido linha a linha e só a janela da página pedida fica em memória.
+   */
+  async query(filter: AuditFilter): Promise<{ entries: AuditEntry[]; total: number }> {
+    // Gravações em andamento entram no resultado
+    await this.writing;
+
+    const window = filter.offset + filter.limit;
+    const recent: AuditEntry[] = [];
+    let total = 0;
+
+    try {
+      const lines = createInterface({ input: createReadStream(AUDIT_FILE, 'utf-8'), crlfDelay: Infinity });
+      for await (const line of lines) {
+        if (!line.trim()) continue;
+
+        let entry: AuditEntry;
+        try {
+          entry = JSON.parse(line);
+        } catch {
+          continue; // Linha truncada por um crash durante a gravação
+        }
+
+        if (!matches(entry, filter)) continue;
+        total++;
+        recent.push(entry);
+        if (recent.length > window) recent.shift();
+      }
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+
+    const entries = recent.reverse().slice(filter.offset, window);
+    return { entries, total };
+  }
+}
+
+export const auditLog = new AuditLogStorage();
+
+type SqlAuditResult = Pick<AuditEntry, 'success' | 'error' | 'rowCount' | 'sql' | 'details'>;
+
+/**
+ * Registrador de uma execução de SQL: fixa usuário, conexão e SQL no início da rota,
+ * e cada saída (sucesso, bloqueio, erro, cancelamento) registra só o resultado.
+ * A duração é contada a partir da criação do registrador. Sem sql (geração por IA),
+ * o SQL vem no resultado.
+ */
+export function sqlAuditor(action: string, user: AuthUser | undefined, connection: DatabaseConnection, sql?: string) {
+  const startTime = Date.now();
+  return (result: SqlAuditResult) =>
+    auditLog.record({
+      user: auditUser(user),
+      action,
+      connId: connection.id,
+      connectionName: connection.name,
+      sql,
+      durationMs: Date.now() - startTime,
+      ...result,
+    });
+}
@@ -1,5 +1,6 @@
 import { promises as fs } from 'fs';
 import { join } from 'path';
+import { secretStore, SecretsError } from './secrets.js';
 import type { DatabaseConnection } from '../types/index.js';
 
 const STORAGE_FILE = join(process.cwd(), 'data', 'connections.json');
@@ -14,8 +15,8 @@ async function ensureDataDir(): Promise<void> {
   }
 }
 
-// Carregar conexões do arquivo
-async function loadConnections(): Promise<Map<string, DatabaseConnection>> {
+// Carregar conexões do arquivo (senhas descriptografadas em memória)
+async function loadConnections(): Promise<{ connections: Map<string, DatabaseConnection>; plaintext: number }> {
   try {
     await ensureDataDir();
     const data = await fs.readFile(STORAGE_FILE, 'utf-8');
@@ -23,20 +24,29 @@ async function loadConnections(): Promise<Map<string, DatabaseConnection>> {
     
     // Converter createdAt de string para Date
     const map = new Map<string, DatabaseConnection>();
+    let plaintext = 0;
     for (const conn of connections) {
+      if (conn.password && !secretStore.isEncrypted(conn.password)) {
+        plaintext++;
+      }
       map.set(conn.id, {
         ...conn,
+        password: conn.password ? secretStore.decrypt(conn.password) : conn.password,
         createdAt: new Date(conn.createdAt),
       });
     }
-    return map;
+    return { connections: map, plaintext };
   } catch (error: any) {
+    // Chave errada: não seguir com a lista vazia, o próximo save apagaria as conexões
+    if (error instanceof SecretsError) {
+      throw error;
+    }
     // Se o arquivo não existe, retornar Map vazio
     if (error.code === 'ENOENT') {
-      return new Map();
+      return { connections: new Map(), plaintext: 0 };
     }
     console.error('Erro ao carregar conexões:', error);
-    return new Map();
+    return { connections: new Map(), plaintext: 0 };
   }
 }
 
@@ -44,7 +54,10 @@ async function loadConnections(): Promise<Map<string, DatabaseConnection>> {
 async function saveConnections(connections: Map<string, DatabaseConnection>): Promise<void> {
   try {
     await ensureDataDir();
-    const array = Array.from(connections.values());
+    const array = Array.from(connections.values()).map(conn => ({
+      ...conn,
+      password: conn.password ? secretStore.encrypt(conn.password) : conn.password,
+    }));
     await fs.writeFile(STORAGE_FILE, JSON.stringify(array, null, 2), 'utf-8');
   } catch (error) {
     console.error('Erro ao salvar conexões:', error);
@@ -54,6 +67,7 @@ async function saveConnections(connections: Map<string, DatabaseConnection>): Pr
 
 // Storage persistente para conexões
 class ConnectionStorage {
+  readonly name = 'connections.json';
   private connections: Map<string, DatabaseConnection> = new Map();
   private initialized: boolean = false;
 
@@ -61,9 +75,20 @@ class ConnectionStorage {
   async initialize(): Promise<void> {
     if (this.initialized) return;
     
-    this.connections = await loadConnections();
+    const { connections, plaintext } = await loadConnections();
+    this.connections = connections;
     this.initialized = true;
+    secretStore.register(this);
     console.log(`[Storage] Carregadas ${this.connections.size} conexões do arquivo`);
+
+    if (plaintext > 0) {
+      await saveConnections(this.connections);
+      console.log(`🔐 [Storage] ${plaintext} senha(s) em texto puro migrada(s) para armazenamento criptografado`);
+    }
+  }
+
+  async resave(): Promise<void> {
+    await saveConnections(this.connections);
   }
 
   getAll(): DatabaseConnection[] {
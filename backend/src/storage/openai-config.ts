@@ -1,5 +1,6 @@
 import { promises as fs } from 'fs';
 import { join } from 'path';
+import { secretStore, SecretsError } from './secrets.js';
 
 export interface OpenAIConfig {
   apiKey: string;
@@ -20,19 +21,27 @@ async function ensureDataDir(): Promise<void> {
   }
 }
 
-// Carregar configuração do arquivo
-async function loadConfig(): Promise<OpenAIConfig | null> {
+// Carregar configuração do arquivo (API key descriptografada em memória)
+async function loadConfig(): Promise<{ config: OpenAIConfig | null; plaintext: boolean }> {
   try {
     await ensureDataDir();
     const data = await fs.readFile(STORAGE_FILE, 'utf-8');
-    return JSON.parse(data) as OpenAIConfig;
+    const config = JSON.parse(data) as OpenAIConfig;
+    return {
+      config: { ...config, apiKey: config.apiKey ? secretStore.decrypt(config.apiKey) : config.apiKey },
+      plaintext: !!config.apiKey && !secretStore.isEncrypted(config.apiKey),
+    };
   } catch (error: any) {
+    // Chave errada: não seguir sem configuração, o próximo save sobrescreveria a API key
+    if (error instanceof SecretsError) {
+      throw error;
+    }
     // Se o arquivo não existe, retornar null
     if (error.code === 'ENOENT') {
-      return null;
+      return { config: null, plaintext: false };
     }
     console.error('Erro ao carregar configuração OpenAI:', error);
-    return null;
+    return { config: null, plaintext: false };
   }
 }
 
@@ -40,7 +49,8 @@ async function loadConfig(): Promise<OpenAIConfig | null> {
 async function saveConfig(config: OpenAIConfig): Promise<void> {
   try {
     await ensureDataDir();
-    await fs.writeFile(STORAGE_FILE, JSON.stringify(config, null, 2), 'utf-8');
+    const stored = { ...config, apiKey: config.apiKey ? secretStore.encrypt(config.apiKey) : config.apiKey };
+    await fs.writeFile(STORAGE_FILE, JSON.stringify(stored, null, 2), 'utf-8');
   } catch (error) {
     console.error('Erro ao salvar configuração OpenAI:', error);
     throw error;
@@ -49,6 +59,7 @@ async function saveConfig(config: OpenAIConfig): Promise<void> {
 
 // Storage persistente para configuração OpenAI
 class OpenAIConfigStorage {
+  readonly name = 'openai-config.json';
   private config: OpenAIConfig | null = null;
   private initialized: boolean = false;
 
@@ -56,8 +67,15 @@ class OpenAIConfigStorage {
   async initialize(): Promise<void> {
     if (this.initialized) return;
     
-    this.config = await loadConfig();
+    const { config, plaintext } = await loadConfig();
+    this.config = config;
     this.initialized = true;
+    secretStore.register(this);
+
+    if (config && plaintext) {
+      await saveConfig(config);
+      console.log('🔐 [Storage] API key da OpenAI em texto puro migrada para armazenamento criptografado');
+    }
     if (this.config) {
       console.log('[Storage] Configuração OpenAI carregada');
     } else {
@@ -69,6 +87,12 @@ class OpenAIConfigStorage {
     return this.config;
   }
 
+  async resave(): Promise<void> {
+    if (this.config) {
+      await saveConfig(this.config);
+    }
+  }
+
   async set(config: OpenAIConfig): Promise<void> {
     this.config = config;
     await saveConfig(config);
@@ -0,0 +1,122 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { randomUUID } from 'crypto';
+import type { QueryHistoryEntry } from '../types/index.js';
+
+const STORAGE_FILE = join(process.cwd(), 'data', 'query-history.json');
+
+// Entradas mantidas por usuário em cada conexão; as mais antigas são descartadas
+const MAX_ENTRIES_PER_USER = 100;
+
+export type QueryHistoryInput = Pick<QueryHistoryEntry, 'sql' | 'ast' | 'savedQueryId' | 'rowCount' | 'durationMs'>;
+
+// Garantir que o diretório existe
+async function ensureDataDir(): Promise<void> {
+  const dataDir = join(process.cwd(), 'data');
+  try {
+    await fs.access(dataDir);
+  } catch {
+    await fs.mkdir(dataDir, { recursive: true });
+  }
+}
+
+async function loadEntries(): Promise<QueryHistoryEntry[]> {
+  try {
+    await ensureDataDir();
+    const data = await fs.readFile(STORAGE_FILE, 'utf-8');
+    return JSON.parse(data) as QueryHistoryEntry[];
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return [];
+    }
+    console.error('Erro ao carregar histórico de queries:', error);
+    throw error;
+  }
+}
+
+async function saveEntries(entries: QueryHistoryEntry[]): Promise<void> {
+  try {
+    await ensureDataDir();
+    await fs.writeFile(STORAGE_FILE, JSON.stringify(entries, null, 2), 'utf-8');
+  } catch (error) {
+    console.error('Erro ao salvar histórico de queries:', error);
+    throw error;
+  }
+}
+
+// Histórico de execuções do Query Builder por conexão e usuário, persistido em data/query-history.json
+class QueryHistoryStorage {
+  // Em ordem de execução (mais antigas primeiro)
+  private entries: QueryHistoryEntry[] = [];
+  private initialized: boolean = false;
+
+  async initialize(): Promise<void> {
+    if (this.initialized) return;
+
+    this.entries = await loadEntries();
+    this.initialized = true;
+    console.log(`[Storage] ${this.entries.length} entrada(s) de histórico de queries carregada(s)`);
+  }
+
+  // Mais recentes primeiro
+  list(connId: string, owner: string, limit: number = MAX_ENTRIES_PER_USER): QueryHistoryEntry[] {
+    return this.entries
+      .filter(e => e.connId === connId && e.owner === owner)
+      .reverse()
+      .slice(0, limit);
+  }
+
+  get(id: string): QueryHistoryEntry | undefined {
+    return this.entries.find(e => e.id === id);
+  }
+
+  async add(connId: string, owner: string, input: QueryHistoryInput): Promise<QueryHistoryEntry> {
+    const entry: QueryHistoryEntry = {
+      id: randomUUID(),
+      connId,
+      owner,
+      ...input,
+      executedAt: new Date().toISOString(),
+    };
+    this.entries.push(entry);
+
+    const own = this.entries.filter(e => e.connId === connId && e.owner === owner);
+    if (own.length > MAX_ENTRIES_PER_USER) {
+      const dropped = new Set(own.slice(0, own.length - MAX_ENTRIES_PER_USER));
+      this.entries = this.entries.filter(e => !dropped.has(e));
+    }
+
+    await saveEntries(this.entries);
+    return entry;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const index = this.entries.findIndex(e => e.id === id);
+    if (index === -1) return false;
+
+    this.entries.splice(index, 1);
+    await saveEntries(this.entries);
+    return true;
+  }
+
+  // Limpa o histórico do usuário na conexão; retorna quantas entradas foram removidas
+  async clear(connId: string, owner: string): Promise<number> {
+    const remaining = this.entries.filter(e => !(e.connId === connId && e.owner === owner));
+    const removed = this.entries.length - remaining.length;
+    if (removed === 0) return 0;
+
+    this.entries = remaining;
+    await saveEntries(this.entries);
+    return removed;
+  }
+
+  async deleteConnection(connId: string): Promise<void> {
+    const remaining = this.entries.filter(e => e.connId !== connId);
+    if (remaining.length === this.entries.length) return;
+
+    this.entries = remaining;
+    await saveEntries(this.entries);
+  }
+}
+
+export const queryHistoryStorage = new QueryHistoryStorage();
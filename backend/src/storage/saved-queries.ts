@@ -0,0 +1,165 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { randomUUID } from 'crypto';
+import type { SavedQuery } from '../types/index.js';
+
+const STORAGE_FILE = join(process.cwd(), 'data', 'saved-queries.json');
+
+export type SavedQueryInput = Pick<SavedQuery, 'name' | 'description' | 'folder' | 'tags' | 'shared' | 'sql' | 'ast'>;
+
+// Garantir que o diretório existe
+async function ensureDataDir(): Promise<void> {
+  const dataDir = join(process.cwd(), 'data');
+  try {
+    await fs.access(dataDir);
+  } catch {
+    await fs.mkdir(dataDir, { recursive: true });
+  }
+}
+
+async function loadQueries(): Promise<SavedQuery[]> {
+  try {
+    await ensureDataDir();
+    const data = await fs.readFile(STORAGE_FILE, 'utf-8');
+    // Queries gravadas antes da biblioteca compartilhada não têm o campo shared
+    return (JSON.parse(data) as SavedQuery[]).map(q => ({ ...q, shared: q.shared ?? false }));
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return [];
+    }
+    // Arquivo corrompido: não seguir com a lista vazia, o próximo save apagaria todas
+    console.error('Erro ao carregar queries salvas:', error);
+    throw error;
+  }
+}
+
+async function saveQueries(queries: SavedQuery[]): Promise<void> {
+  try {
+    await ensureDataDir();
+    await fs.writeFile(STORAGE_FILE, JSON.stringify(queries, null, 2), 'utf-8');
+  } catch (error) {
+    console.error('Erro ao salvar queries salvas:', error);
+    throw error;
+  }
+}
+
+// Queries salvas por conexão e usuário e a biblioteca compartilhada, persistidas em data/saved-queries.json
+class SavedQueryStorage {
+  private queries: SavedQuery[] = [];
+  private initialized: boolean = false;
+
+  async initialize(): Promise<void> {
+    if (this.initialized) return;
+
+    this.queries = await loadQueries();
+    this.initialized = true;
+    console.log(`[Storage] ${this.queries.length} query(ies) salva(s) carregada(s)`);
+  }
+
+  // Queries do usuário e as compartilhadas por outros na conexão, mais recentes primeiro
+  list(connId: string, user: string): SavedQuery[] {
+    return this.queries
+      .filter(q => q.connId === connId && this.isVisibleTo(q, user))
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  get(id: string): SavedQuery | undefined {
+    return this.queries.find(q => q.id === id);
+  }
+
+  isVisibleTo(query: SavedQuery, user: string): boolean {
+    return query.shared || query.owner === user;
+  }
+
+  async create(connId: string, owner: string, authorName: string | undefined, input: SavedQueryInput): Promise<SavedQuery> {
+    const now = new Date().toISOString();
+    const query: SavedQuery = { id: randomUUID(), connId, owner, authorName, ...input, createdAt: now, updatedAt: now };
+    this.queries.push(query);
+    await saveQueries(this.queries);
+    return query;
+  }
+
+  async update(id: string, changes: Partial<SavedQueryInput>): Promise<SavedQuery | undefined> {
+    const query = this.get(id);
+    if (!query) return undefined;
+
+    Object.assign(query, changes, { updatedAt: new Date().toISOString() });
+    await saveQueries(this.queries);
+    return query;
+  }
+
+  // Registra a execução sem mexer em updatedAt, que marca alterações no conteúdo
+  async markRun(id: string, user: string): Promise<void> {
+    const query = this.get(id);
+    if (!query) return;
+
+    query.lastRunAt = new Date().toISOString();
+    query.lastRunBy = user;
+    await saveQueries(this.queries);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const index = this.queries.findIndex(q => q.id === id);
+    if (index === -1) return false;
+
+    this.queries.splice(index, 1);
+    await saveQueries(this.queries);
+    return true;
+  }
+
+  /**
+   * Importa queries de outra origem (o localStorage das versões antigas do frontend),
+   * preservando as datas. Queries com o mesmo nome e SQL de uma já salva são ignoradas,
+   * então repetir a importação não duplica nada.
+   */
+  async import(
+    connId: string,
+    owner: string,
+    authorName: string | undefined,
+    entries: Array<SavedQueryInput & { createdAt?: string; updatedAt?: string }>
+  ): Promise<SavedQuery[]> {
+    const existing = new Set(
+      this.queries.filter(q => q.connId === connId && q.owner === owner).map(q => `${q.name}\u0000${q.sql}`)
+    );
+    const imported: SavedQuery[] = [];
+
+    for (const entry of entries) {
+      const key = `${entry.name}\u0000${entry.sql}`;
+      if (existing.has(key)) continue;
+      existing.add(key);
+
+      const now = new Date().toISOString();
+      imported.push({
+        id: randomUUID(),
+        connId,
+        owner,
+        authorName,
+        name: entry.name,
+        description: entry.description,
+        folder: entry.folder,
+        tags: entry.tags,
+        shared: entry.shared,
+        sql: entry.sql,
+        ast: entry.ast,
+        createdAt: entry.createdAt ?? now,
+        updatedAt: entry.updatedAt ?? entry.createdAt ?? now,
+      });
+    }
+
+    if (imported.length > 0) {
+      this.queries.push(...imported);
+      await saveQueries(this.queries);
+    }
+    return imported;
+  }
+
+  async deleteConnection(connId: string): Promise<void> {
+    const remaining = this.queries.filter(q => q.connId !== connId);
+    if (remaining.length === this.queries.length) return;
+
+    this.queries = remaining;
+    await saveQueries(this.queries);
+  }
+}
+
+export const savedQueryStorage = new SavedQueryStorage();
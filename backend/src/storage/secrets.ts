@@ -0,0 +1,221 @@
+/**
+ * Criptografia em repouso de segredos (senhas de conexão, API keys) com AES-256-GCM.
+ *
+ * A chave mestra vem de SECRETS_MASTER_KEY (32 bytes em base64) ou de um keyfile
+ * (SECRETS_KEY_FILE, padrão data/master.key), gerado na primeira execução.
+ * Valores cifrados são strings "enc:v1:<keyId>:<iv>:<tag>:<dados>", então os arquivos
+ * JSON continuam com o mesmo formato e valores em texto puro são migrados ao carregar.
+ */
+
+import { promises as fs } from 'fs';
+import { join, dirname, isAbsolute } from 'path';
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+const PREFIX = 'enc:v1:';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+
+// Lido sob demanda: os imports rodam antes do dotenv.config() do index.ts
+function keyFilePath(): string {
+  const configured = process.env.SECRETS_KEY_FILE;
+  if (!configured) return join(process.cwd(), 'data', 'master.key');
+  return isAbsolute(configured) ? configured : join(process.cwd(), configured);
+}
+
+// Presente apenas durante uma rotação (também com SECRETS_MASTER_KEY); se sobrar após um crash, a rotação não terminou
+function pendingKeyFilePath(): string {
+  return `${keyFilePath()}.new`;
+}
+
+export type MasterKeySource = 'env' | 'keyfile';
+
+// Storage que guarda segredos e sabe regravar seu arquivo com a chave ativa
+export interface SecretHolder {
+  name: string;
+  resave(): Promise<void>;
+}
+
+export class SecretsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SecretsError';
+  }
+}
+
+function keyIdOf(key: Buffer): string {
+  return createHash('sha256').update(key).digest('hex').slice(0, 8);
+}
+
+function parseKey(encoded: string, origin: string): Buffer {
+  const key = Buffer.from(encoded.trim(), 'base64');
+  if (key.length !== KEY_BYTES) {
+    throw new SecretsError(`${origin} deve conter ${KEY_BYTES} bytes em base64 (ex.: openssl rand -base64 32)`);
+  }
+  return key;
+}
+
+async function readKeyFile(path: string): Promise<Buffer | null> {
+  try {
+    return parseKey(await fs.readFile(path, 'utf-8'), path);
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+async function writeKeyFile(path: string, key: Buffer): Promise<void> {
+  await fs.mkdir(dirname(path), { recursive: true });
+  await fs.writeFile(path, key.toString('base64') + '\n', { encoding: 'utf-8', mode: 0o600 });
+}
+
+class SecretStore {
+  private activeKey: Buffer | null = null;
+  // Chaves aceitas na leitura, por keyId (a ativa e, durante a recuperação de uma rotação, a pendente)
+  private keyring = new Map<string, Buffer>();
+  private holders: SecretHolder[] = [];
+  private source: MasterKeySource = 'keyfile';
+  private recovering = false;
+
+  // Carrega a chave mestra; precisa rodar antes dos storages que guardam segredos
+  async initialize(): Promise<void> {
+    if (this.activeKey) return;
+
+    if (process.env.SECRETS_MASTER_KEY) {
+      this.source = 'env';
+      this.useKey(parseKey(process.env.SECRETS_MASTER_KEY, 'SECRETS_MASTER_KEY'));
+    } else {
+      this.source = 'keyfile';
+      let key = await readKeyFile(keyFilePath());
+      if (!key) {
+        key = randomBytes(KEY_BYTES);
+        await writeKeyFile(keyFilePath(), key);
+        console.log(`🔑 [Secrets] Chave mestra gerada em ${keyFilePath()} (faça backup: sem ela os segredos não podem ser lidos)`);
+      }
+      this.useKey(key);
+    }
+
+    // Rotação interrompida: os arquivos podem estar com as duas chaves misturadas
+    const pending = await readKeyFile(pendingKeyFilePath());
+    if (pending) {
+      console.warn('⚠️  [Secrets] Rotação de chave interrompida encontrada; os segredos serão regravados com a chave atual');
+      this.keyring.set(keyIdOf(pending), pending);
+      this.recovering = true;
+    }
+
+    console.log(`✅ [Secrets] Chave mestra ${this.keyId} carregada (${this.source === 'env' ? 'SECRETS_MASTER_KEY' : 'keyfile'})`);
+  }
+
+  // Chamado pelos storages depois de carregar seus arquivos
+  register(holder: SecretHolder): void {
+    if (!this.holders.includes(holder)) {
+      this.holders.push(holder);
+    }
+  }
+
+  // Termina a recuperação de uma rotação interrompida, depois que todos os storages carregaram
+  async finishRecovery(): Promise<void> {
+    if (!this.recovering) return;
+
+    await this.resaveAll();
+    await fs.rm(pendingKeyFilePath(), { force: true });
+    this.keyring = new Map([[this.keyId, this.requireKey()]]);
+    this.recovering = false;
+  }
+
+  get keyId(): string {
+    return keyIdOf(this.requireKey());
+  }
+
+  get keySource(): MasterKeySource {
+    return this.source;
+  }
+
+  isEncrypted(value: unknown): value is string {
+    return typeof value === 'string' && value.startsWith(PREFIX);
+  }
+
+  encrypt(plaintext: string): string {
+    const key = this.requireKey();
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv('aes-256-gcm', key, iv);
+    const data = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+    const tag = cipher.getAuthTag();
+    return `${PREFIX}${keyIdOf(key)}:${iv.toString('base64')}:${tag.toString('base64')}:${data.toString('base64')}`;
+  }
+
+  // Valores sem o prefixo são texto puro de arquivos antigos e passam direto
+  decrypt(value: string): string {
+    if (!this.isEncrypted(value)) return value;
+
+    const [keyId, iv, tag, data] = value.slice(PREFIX.length).split(':');
+    const key = this.keyring.get(keyId);
+    if (!key) {
+      throw new SecretsError(`Segredo cifrado com a chave ${keyId}, mas a chave mestra carregada é ${this.keyId}. Verifique SECRETS_MASTER_KEY ou ${keyFilePath()}`);
+    }
+
+    try {
+      const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(tag, 'base64'));
+      return Buffer.concat([decipher.update(Buffer.from(data, 'base64')), decipher.final()]).toString('utf-8');
+    } catch {
+      throw new SecretsError(`Segredo corrompido ou adulterado (chave ${keyId})`);
+    }
+  }
+
+  /**
+   * Troca a chave mestra e regrava todos os segredos com a nova.
+   * Com a chave no keyfile, a nova chave é gerada (ou informada) e gravada no lugar da antiga.
+   * Com SECRETS_MASTER_KEY, a nova chave precisa ser informada e a variável atualizada
+   * antes do próximo start. Nos dois casos a nova chave fica em master.key.new enquanto os
+   * arquivos são regravados: se a rotação falhar no meio, o próximo start (ainda com a chave
+   * anterior) lê os segredos já regravados com ela e volta tudo para a chave anterior.
+   */
+  async rotate(newKeyBase64?: string): Promise<{ keyId: string; previousKeyId: string }> {
+    if (this.source === 'env' && !newKeyBase64) {
+      throw new SecretsError('A chave mestra vem de SECRETS_MASTER_KEY: informe a nova chave para rotacionar');
+    }
+
+    const previousKeyId = this.keyId;
+    const newKey = newKeyBase64 ? parseKey(newKeyBase64, 'A nova chave') : randomBytes(KEY_BYTES);
+    if (keyIdOf(newKey) === previousKeyId) {
+      throw new SecretsError('A nova chave é igual à atual');
+    }
+
+    // A chave nova vai para disco antes dos dados, para nunca existir segredo cifrado com chave perdida
+    await writeKeyFile(pendingKeyFilePath(), newKey);
+
+    this.useKey(newKey);
+    await this.resaveAll();
+
+    if (this.source === 'keyfile') {
+      await fs.rename(pendingKeyFilePath(), keyFilePath());
+    } else {
+      // A chave nova passa a valer pela variável de ambiente; não deixá-la em disco
+      await fs.rm(pendingKeyFilePath(), { force: true });
+    }
+
+    console.log(`🔑 [Secrets] Chave mestra rotacionada: ${previousKeyId} → ${this.keyId}`);
+    return { keyId: this.keyId, previousKeyId };
+  }
+
+  private useKey(key: Buffer): void {
+    this.activeKey = key;
+    this.keyring.set(keyIdOf(key), key);
+  }
+
+  private requireKey(): Buffer {
+    if (!this.activeKey) {
+      throw new SecretsError('Chave mestra não carregada (secretStore.initialize não foi chamado)');
+    }
+    return this.activeKey;
+  }
+
+  private async resaveAll(): Promise<void> {
+    for (const holder of this.holders) {
+      await holder.resave();
+      console.log(`🔐 [Secrets] ${holder.name} regravado com a chave ${this.keyId}`);
+    }
+  }
+}
+
+export const secretStore = new SecretStore();
@@ -0,0 +1,8 @@
+import type { AuthUser } from './index.js';
+
+// req.user no Express (Request estende IncomingMessage) e no upgrade do WebSocket
+declare module 'http' {
+  interface IncomingMessage {
+    user?: AuthUser;
+  }
+}
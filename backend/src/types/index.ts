@@ -1,4 +1,7 @@
-export type DatabaseType = 'mysql' | 'sqlserver';
+export type BuiltinDatabaseType = 'mysql' | 'sqlserver' | 'postgres' | 'sqlite';
+
+// Drivers de terceiros podem registrar outros tipos em tempo de inicialização
+export type DatabaseType = BuiltinDatabaseType | (string & {});
 
 export interface DatabaseConnection {
   id: string;
@@ -10,6 +13,7 @@ export interface DatabaseConnection {
   password: string;
   database: string;
   ssl?: boolean;
+  filePath?: string; // Caminho do arquivo .sqlite (apenas SQLite)
   createdAt: Date;
 }
 
@@ -101,7 +105,84 @@ export interface ActiveQuery {
   startTime: Date;
   elapsedTime: number;
   sqlText: string;
-  blocking?: number[];
+  blocking?: number[]; // Sessões que bloqueiam esta (quem ela está esperando)
+  waitType?: string; // Tipo de espera atual (ex.: LCK_M_X, row lock)
+  waitTime?: number; // Tempo na espera atual, em ms
+  waitResource?: string; // Recurso aguardado (tabela, índice, página...)
+}
+
+// Perfis de acesso (auth/permissions.ts): reader navega no schema, editor executa queries,
+// admin gerencia conexões, configurações e permissões
+export type Role = 'admin' | 'editor' | 'reader';
+
+// Usuário autenticado pelo bearer token (auth/middleware.ts), disponível em req.user
+export interface AuthUser {
+  uid: string;
+  email?: string;
+  name?: string;
+  provider: string; // firebase, jwt ou none
+  claims: Record<string, unknown>;
+}
+
+// Registro de auditoria de SQL executado e ações administrativas (append-only em data/audit.jsonl)
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  user: string; // Usuário que executou a ação
+  action: string; // Ex.: 'query.execute', 'connection.delete', 'session.kill'
+  connId?: string;
+  connectionName?: string;
+  target?: string; // Objeto afetado pela ação (ex.: sessão 53)
+  sql?: string; // SQL executado ou gerado
+  rowCount?: number; // Linhas retornadas (no streaming, as lidas até a resposta)
+  durationMs?: number;
+  success: boolean;
+  error?: string;
+  details?: Record<string, unknown>;
+}
+
+export interface AuditFilter {
+  user?: string;
+  connId?: string;
+  action?: string; // Ação exata ou prefixo terminado em '.' (ex.: 'connection.')
+  success?: boolean;
+  search?: string; // Texto no SQL, alvo ou erro
+  from?: Date;
+  to?: Date;
+  limit: number;
+  offset: number;
+}
+
+// Query salva do Query Builder; com shared, entra na biblioteca compartilhada da conexão
+export interface SavedQuery {
+  id: string;
+  connId: string;
+  owner: string; // Chave do usuário (userKeyOf)
+  authorName?: string; // Nome exibido do autor, gravado na criação
+  name: string;
+  description?: string;
+  folder?: string; // Pasta na biblioteca, com subpastas separadas por '/' (ausente = raiz)
+  tags: string[];
+  shared: boolean; // Visível na biblioteca para todos com acesso à conexão
+  sql: string;
+  ast: unknown; // QueryAST do frontend, guardado sem interpretar
+  createdAt: string;
+  updatedAt: string;
+  lastRunAt?: string;
+  lastRunBy?: string; // Chave do último usuário que executou
+}
+
+// Query executada pelo Query Builder
+export interface QueryHistoryEntry {
+  id: string;
+  connId: string;
+  owner: string;
+  sql: string;
+  ast?: unknown; // Ausente em SQL importado, que não veio do builder
+  savedQueryId?: string; // Query salva que foi executada, quando houver
+  executedAt: string;
+  rowCount?: number;
+  durationMs?: number;
 }
 
 export interface QueryStats {
@@ -113,4 +194,63 @@ export interface QueryStats {
   maxElapsedTime: number;
 }
 
+// Critério do top-N de estatísticas: tempo total, tempo médio ou número de execuções
+export type QueryStatsOrder = 'total' | 'avg' | 'executions';
+
+export interface QueryStatsOptions {
+  orderBy: QueryStatsOrder;
+  limit: number;
+}
+
+// Contadores do servidor lidos a cada amostra do histórico de métricas
+export interface ServerStatus {
+  connections: number; // Conexões de clientes abertas
+  queries: number; // Contador acumulado desde o start do servidor; a taxa sai da diferença entre amostras
+}
+
+// Amostra do histórico de métricas (db/metrics-history.ts)
+export interface MetricsSample {
+  timestamp: number; // epoch ms
+  activeSessions: number;
+  blockedSessions: number;
+  longestQuerySeconds: number;
+  connections: number | null; // null em drivers sem getServerStatus
+  qps: number | null; // null na primeira amostra e após reinício do servidor
+}
+
+// Valores de parâmetros nomeados (:nome ou @nome) enviados junto com o SQL, sem o prefixo no nome
+export type QueryParamValue = string | number | boolean | null;
+export type QueryParams = Record<string, QueryParamValue>;
 
+// Dialetos conhecidos pelo classificador de SQL (utils/sql-classifier.ts)
+export type SqlDialect = 'mysql' | 'sqlserver' | 'postgres' | 'sqlite' | 'ansi';
+
+/**
+ * Driver de um engine de banco de dados.
+ * Cada driver é registrado no driverRegistry pelo seu DatabaseType e
+ * encapsula pools, introspecção, execução e monitoramento daquele engine.
+ */
+export interface DatabaseDriver {
+  type: DatabaseType;
+  displayName: string; // Nome exibido ao usuário e usado nos prompts da IA
+  connectionKind: 'server' | 'file'; // Conexão por host/credenciais ou por arquivo local
+  dialect?: SqlDialect; // Regras léxicas usadas na validação de SQL (padrão: 'ansi')
+
+  connect(conn: DatabaseConnection): Promise<void>;
+  test(conn: DatabaseConnection): Promise<boolean>;
+  introspect(conn: DatabaseConnection): Promise<SchemaInfo>;
+  getDDL(conn: DatabaseConnection): Promise<string>;
+  // Abortar o signal cancela a query em andamento no banco. Os params preenchem os
+  // parâmetros nomeados do SQL como parâmetros do driver (utils/sql-parameters.ts)
+  execute(conn: DatabaseConnection, sql: string, signal?: AbortSignal, params?: QueryParams): Promise<any[]>;
+  // Lê as linhas sob demanda; encerrar o iterador antes do fim libera o cursor no banco
+  stream(conn: DatabaseConnection, sql: string, signal?: AbortSignal, params?: QueryParams): AsyncGenerator<any, void, undefined>;
+  getActiveQueries(conn: DatabaseConnection): Promise<ActiveQuery[]>;
+  getQueryStats?(conn: DatabaseConnection, options: QueryStatsOptions): Promise<QueryStats[]>;
+  getServerStatus?(conn: DatabaseConnection): Promise<ServerStatus>;
+  kill(conn: DatabaseConnection, sessionId: number): Promise<void>;
+  explain(conn: DatabaseConnection, sql: string, params?: QueryParams): Promise<any[]>;
+
+  close(connId: string): Promise<void>;
+  closeAll(): Promise<void>;
+}
@@ -6,10 +6,21 @@ declare module 'mssql' {
 
   export interface Request {
     query(query: string): Promise<IResult<any>>;
+    batch(batch: string): Promise<IResult<any>>;
+    toReadableStream(streamOptions?: { highWaterMark?: number }): import('stream').Readable;
+    cancel(): boolean;
     timeout: number;
-    input(name: string, type: any, value: any): Request;
+    input(name: string, type: ISqlType | (() => ISqlType), value: any): Request;
   }
 
+  // Os tipos do mssql são fábricas: NVarChar(100) ou o próprio NVarChar, com o tamanho padrão
+  export interface ISqlType {
+    type: ISqlTypeFactory;
+    length?: number;
+  }
+
+  export type ISqlTypeFactory = (...args: any[]) => ISqlType;
+
   export interface IResult<T> {
     recordset: T[];
     rowsAffected: number[];
@@ -34,7 +45,19 @@ declare module 'mssql' {
     };
   }
 
+  export class Transaction {
+    constructor(pool: ConnectionPool);
+    begin(): Promise<Transaction>;
+    commit(): Promise<void>;
+    rollback(): Promise<void>;
+    request(): Request;
+  }
+
   export function connect(config: config): Promise<ConnectionPool>;
   
-  export const NVarChar: any;
+  export const NVarChar: ISqlTypeFactory;
+  export const Int: ISqlTypeFactory;
+  export const BigInt: ISqlTypeFactory;
+  export const Float: ISqlTypeFactory;
+  export const Bit: ISqlTypeFactory;
 }
@@ -3,8 +3,6 @@
  */
 
 import { ConnectionManager } from '../db/connection-manager.js';
-import { MySQLIntrospector } from '../db/mysql-introspector.js';
-import { SQLServerIntrospector } from '../db/sqlserver-introspector.js';
 import { GraphBuilder } from '../utils/graph-builder.js';
 import { schemaCacheStorage } from '../storage/schema-cache.js';
 import type { DatabaseConnection, SchemaInfo, GraphData } from '../types/index.js';
@@ -18,15 +16,9 @@ export async function introspectAndCache(conn: DatabaseConnection): Promise<{
 }> {
   console.log(`[Introspection] Iniciando introspecção para ${conn.name} (${conn.id})`);
   
-  let introspector;
+  const driver = ConnectionManager.getDriver(conn);
   try {
-    if (conn.type === 'mysql') {
-      const pool = await ConnectionManager.getMySQLPool(conn);
-      introspector = new MySQLIntrospector(pool);
-    } else {
-      const pool = await ConnectionManager.getSQLServerPool(conn);
-      introspector = new SQLServerIntrospector(pool);
-    }
+    await driver.connect(conn);
   } catch (poolError: any) {
     console.error('[Introspection] Erro ao obter pool de conexão:', poolError);
     throw new Error(`Erro ao conectar ao banco de dados: ${poolError.message}`);
@@ -35,7 +27,7 @@ export async function introspectAndCache(conn: DatabaseConnection): Promise<{
   let schema: SchemaInfo;
   try {
     console.log(`[Introspection] Obtendo schema do banco: ${conn.database} (${conn.type})`);
-    schema = await introspector.getSchema(conn.database);
+    schema = await driver.introspect(conn);
     console.log(`[Introspection] Schema obtido: ${schema.tables.length} tabelas, ${schema.views.length} views, ${schema.foreignKeys.length} foreign keys`);
   } catch (schemaError: any) {
     console.error('[Introspection] Erro ao obter schema:', schemaError);
@@ -0,0 +1,423 @@
+import type { SqlDialect } from '../types/index.js';
+
+/**
+ * Classificador de instruções SQL usado para garantir que apenas leituras
+ * sejam executadas (Query Builder e execução de SQL gerado pela IA).
+ *
+ * O texto é tokenizado segundo as regras léxicas de cada dialeto (comentários,
+ * strings, identificadores entre aspas/colchetes/crases), dividido em
+ * instruções e cada instrução é classificada pelo seu verbo e pelas
+ * construções que gravam dados.
+ */
+
+type TokenType = 'word' | 'identifier' | 'string' | 'number' | 'parameter' | 'symbol';
+
+export interface Token {
+  type: TokenType;
+  value: string; // Palavras em maiúsculas; demais tokens como no texto original
+  start: number;
+  end: number;
+}
+
+export interface ClassifiedStatement {
+  text: string;
+  verb: string;
+  readOnly: boolean;
+  reason?: string; // Motivo quando a instrução não é uma leitura
+}
+
+export interface ReadOnlyViolation {
+  error: string;
+  details?: string;
+}
+
+// Verbos aceitos como início de uma instrução de leitura
+const READ_VERBS: Record<SqlDialect, Set<string>> = {
+  mysql: new Set(['SELECT', 'WITH', 'VALUES', 'TABLE', 'SHOW', 'DESCRIBE', 'DESC', 'EXPLAIN']),
+  postgres: new Set(['SELECT', 'WITH', 'VALUES', 'TABLE', 'SHOW', 'EXPLAIN']),
+  sqlite: new Set(['SELECT', 'WITH', 'VALUES', 'EXPLAIN', 'PRAGMA']),
+  sqlserver: new Set(['SELECT', 'WITH']),
+  ansi: new Set(['SELECT', 'WITH', 'VALUES']),
+};
+
+// Verbos que podem vir depois de EXPLAIN e suas opções
+const STATEMENT_VERBS = new Set([
+  'SELECT', 'WITH', 'VALUES', 'TABLE', 'INSERT', 'UPDATE', 'DELETE', 'REPLACE', 'MERGE',
+  'CREATE', 'DROP', 'ALTER', 'TRUNCATE', 'CALL', 'EXECUTE', 'DECLARE',
+]);
+
+// No T-SQL o ";" é opcional: qualquer uma destas palavras reservadas inicia outra instrução
+const TSQL_STATEMENT_KEYWORDS = new Set([
+  'INSERT', 'UPDATE', 'DELETE', 'MERGE', 'DROP', 'CREATE', 'ALTER', 'TRUNCATE',
+  'EXEC', 'EXECUTE', 'GRANT', 'REVOKE', 'DENY', 'DECLARE', 'SET', 'USE',
+  'BACKUP', 'RESTORE', 'DBCC', 'SHUTDOWN', 'KILL', 'BEGIN', 'COMMIT', 'ROLLBACK', 'SAVE',
+  'WAITFOR', 'RECONFIGURE', 'CHECKPOINT', 'PRINT', 'RAISERROR', 'IF', 'WHILE', 'GOTO',
+  'RETURN', 'SETUSER', 'REVERT', 'UPDATETEXT', 'WRITETEXT',
+]);
+
+// Funções que alteram estado mesmo quando chamadas dentro de um SELECT
+const SIDE_EFFECT_FUNCTIONS: Record<SqlDialect, Set<string>> = {
+  mysql: new Set(['GET_LOCK', 'RELEASE_LOCK', 'RELEASE_ALL_LOCKS']),
+  postgres: new Set([
+    'PG_TERMINATE_BACKEND', 'PG_CANCEL_BACKEND', 'PG_RELOAD_CONF', 'PG_ROTATE_LOGFILE',
+    'PG_PROMOTE', 'PG_SWITCH_WAL', 'SET_CONFIG', 'NEXTVAL', 'SETVAL', 'LO_IMPORT',
+    'LO_EXPORT', 'LO_UNLINK', 'LO_CREATE', 'DBLINK_EXEC', 'PG_ADVISORY_LOCK', 'PG_ADVISORY_XACT_LOCK',
+  ]),
+  sqlite: new Set(['LOAD_EXTENSION']),
+  sqlserver: new Set(['OPENQUERY', 'OPENROWSET', 'OPENDATASOURCE']),
+  ansi: new Set(),
+};
+
+// PRAGMAs do SQLite que apenas consultam metadados
+const READ_PRAGMAS = new Set([
+  'TABLE_INFO', 'TABLE_XINFO', 'TABLE_LIST', 'INDEX_LIST', 'INDEX_INFO', 'INDEX_XINFO',
+  'FOREIGN_KEY_LIST', 'FOREIGN_KEY_CHECK', 'INTEGRITY_CHECK', 'QUICK_CHECK', 'DATABASE_LIST',
+  'COLLATION_LIST', 'FUNCTION_LIST', 'MODULE_LIST', 'PRAGMA_LIST', 'COMPILE_OPTIONS',
+]);
+
+const WORD_START = /[A-Za-z_\u00C0-\uFFFF]/;
+const WORD_CHAR = /[\w$\u00C0-\uFFFF]/;
+const WHITESPACE = /\s/;
+
+function skipLine(sql: string, i: number): number {
+  const end = sql.indexOf('\n', i);
+  return end < 0 ? sql.length : end + 1;
+}
+
+function skipBlockComment(sql: string, i: number, nested: boolean): number {
+  let depth = 0;
+  while (i < sql.length) {
+    if (sql[i] === '/' && sql[i + 1] === '*') {
+      depth = nested || depth === 0 ? depth + 1 : depth;
+      i += 2;
+    } else if (sql[i] === '*' && sql[i + 1] === '/') {
+      depth--;
+      i += 2;
+      if (depth === 0) return i;
+    } else {
+      i++;
+    }
+  }
+  return i;
+}
+
+// Retorna a posição após o delimitador de fechamento; delimitador duplicado é escape
+function scanQuoted(sql: string, i: number, close: string, backslashEscapes: boolean): number {
+  let j = i + 1;
+  while (j < sql.length) {
+    const ch = sql[j];
+    if (backslashEscapes && ch === '\\') {
+      j += 2;
+    } else if (ch === close) {
+      if (sql[j + 1] !== close) return j + 1;
+      j += 2;
+    } else {
+      j++;
+    }
+  }
+  return sql.length;
+}
+
+// Também usado na ligação de parâmetros nomeados (utils/sql-parameters.ts)
+export function tokenize(sql: string, dialect: SqlDialect): Token[] {
+  const tokens: Token[] = [];
+  const isMySQL = dialect === 'mysql';
+  let inVersionedComment = false;
+  let i = 0;
+
+  const push = (type: TokenType, start: number, end: number) => {
+    const text = sql.slice(start, end);
+    tokens.push({ type, value: type === 'word' ? text.toUpperCase() : text, start, end });
+  };
+
+  while (i < sql.length) {
+    const ch = sql[i];
+    const next = sql[i + 1];
+
+    if (WHITESPACE.test(ch)) {
+      i++;
+      continue;
+    }
+
+    // No MySQL, "--" só abre comentário quando seguido de espaço ("SELECT 1--1" é subtração)
+    if (ch === '-' && next === '-' && (!isMySQL || i + 2 >= sql.length || WHITESPACE.test(sql[i + 2]))) {
+      i = skipLine(sql, i);
+      continue;
+    }
+    if (ch === '#' && isMySQL) {
+      i = skipLine(sql, i);
+      continue;
+    }
+
+    if (ch === '/' && next === '*') {
+      // /*! ... */ e /*M! ... */ são executados pelo MySQL/MariaDB: o conteúdo é tokenizado
+      const versioned = isMySQL && (sql[i + 2] === '!' || (sql[i + 2] === 'M' && sql[i + 3] === '!'));
+      if (versioned) {
+        i = sql.indexOf('!', i) + 1;
+        while (i < sql.length && /[0-9]/.test(sql[i])) i++;
+        inVersionedComment = true;
+      } else {
+        i = skipBlockComment(sql, i, dialect === 'postgres');
+      }
+      continue;
+    }
+    if (inVersionedComment && ch === '*' && next === '/') {
+      inVersionedComment = false;
+      i += 2;
+      continue;
+    }
+
+    if (ch === "'") {
+      // Assume NO_BACKSLASH_ESCAPES desligado no MySQL (padrão do servidor)
+      const end = scanQuoted(sql, i, "'", isMySQL);
+      push('string', i, end);
+      i = end;
+      continue;
+    }
+
+    if (ch === '"') {
+      const end = scanQuoted(sql, i, '"', isMySQL);
+      push(isMySQL ? 'string' : 'identifier', i, end);
+      i = end;
+      continue;
+    }
+
+    if (ch === '`' && (isMySQL || dialect === 'sqlite')) {
+      const end = scanQuoted(sql, i, '`', false);
+      push('identifier', i, end);
+      i = end;
+      continue;
+    }
+
+    if (ch === '[' && (dialect === 'sqlserver' || dialect === 'sqlite')) {
+      const end = scanQuoted(sql, i, ']', false);
+      push('identifier', i, end);
+      i = end;
+      continue;
+    }
+
+    if (ch === '$' && dialect === 'postgres') {
+      const dollarTag = /^\$(?:[A-Za-z_][A-Za-z0-9_]*)?\$/.exec(sql.slice(i));
+      if (dollarTag) {
+        const tag = dollarTag[0];
+        const close = sql.indexOf(tag, i + tag.length);
+        const end = close < 0 ? sql.length : close + tag.length;
+        push('string', i, end);
+        i = end;
+        continue;
+      }
+      const positional = /^\$[0-9]+/.exec(sql.slice(i));
+      if (positional) {
+        push('parameter', i, i + positional[0].length);
+        i += positional[0].length;
+        continue;
+      }
+    }
+
+    if (WORD_START.test(ch)) {
+      let j = i + 1;
+      while (j < sql.length && WORD_CHAR.test(sql[j])) j++;
+      const word = sql.slice(i, j).toUpperCase();
+
+      // Prefixos de string: N'...', E'...', X'...', B'...'
+      if (sql[j] === "'" && ['N', 'E', 'X', 'B'].includes(word)) {
+        const backslashEscapes = isMySQL || (dialect === 'postgres' && word === 'E');
+        const end = scanQuoted(sql, j, "'", backslashEscapes);
+        push('string', i, end);
+        i = end;
+        continue;
+      }
+
+      push('word', i, j);
+      i = j;
+      continue;
+    }
+
+    if (/[0-9]/.test(ch) || (ch === '.' && /[0-9]/.test(next ?? ''))) {
+      let j = i + 1;
+      while (j < sql.length && /[0-9A-Za-z_.]/.test(sql[j])) j++;
+      push('number', i, j);
+      i = j;
+      continue;
+    }
+
+    // Variáveis (@x, @@x), parâmetros nomeados (:x) e tabelas temporárias do SQL Server (#x)
+    if (
+      (ch === '@' && dialect !== 'postgres') ||
+      (ch === ':' && WORD_START.test(next ?? '') && sql[i - 1] !== ':') ||
+      (ch === '#' && dialect === 'sqlserver')
+    ) {
+      let j = i + 1;
+      while (j < sql.length && (WORD_CHAR.test(sql[j]) || sql[j] === ch)) j++;
+      push(ch === '#' ? 'identifier' : 'parameter', i, j);
+      i = j;
+      continue;
+    }
+
+    if (ch === '?') {
+      push('parameter', i, i + 1);
+      i++;
+      continue;
+    }
+
+    push('symbol', i, i + 1);
+    i++;
+  }
+
+  return tokens;
+}
+
+function isSymbol(token: Token | undefined, symbol: string): boolean {
+  return token?.type === 'symbol' && token.value === symbol;
+}
+
+function isWord(token: Token | undefined, ...words: string[]): boolean {
+  return token?.type === 'word' && words.includes(token.value);
+}
+
+function splitStatements(tokens: Token[]): Token[][] {
+  const statements: Token[][] = [];
+  let current: Token[] = [];
+
+  for (const token of tokens) {
+    if (isSymbol(token, ';')) {
+      if (current.length > 0) statements.push(current);
+      current = [];
+    } else {
+      current.push(token);
+    }
+  }
+  if (current.length > 0) statements.push(current);
+
+  return statements;
+}
+
+const WRITE_KEYWORDS = new Set(['INSERT', 'UPDATE', 'DELETE', 'REPLACE', 'MERGE']);
+
+// DML aninhado (CTE de escrita, DELETE t FROM t JOIN ..., DELETE IGNORE FROM ... do MySQL): qualquer uma
+// destas palavras conta como escrita, seja qual for o token seguinte. Só ficam de fora as funções de texto
+// INSERT(...) e REPLACE(...) do MySQL e colunas qualificadas (t.update)
+function isWriteClause(tokens: Token[], j: number): boolean {
+  const token = tokens[j];
+  if (!WRITE_KEYWORDS.has(token.value) || isSymbol(tokens[j - 1], '.')) return false;
+  return !((token.value === 'INSERT' || token.value === 'REPLACE') && isSymbol(tokens[j + 1], '('));
+}
+
+function findWriteClause(tokens: Token[], dialect: SqlDialect): string | undefined {
+  for (let j = 0; j < tokens.length; j++) {
+    const token = tokens[j];
+    if (token.type !== 'word') continue;
+
+    const prev = tokens[j - 1];
+    const next = tokens[j + 1];
+
+    if (token.value === 'INTO') {
+      return 'SELECT ... INTO grava dados no servidor';
+    }
+    if (token.value === 'UPDATE' && isWord(prev, 'FOR', 'KEY')) {
+      return 'FOR UPDATE bloqueia as linhas para escrita';
+    }
+    if (dialect === 'sqlserver' && TSQL_STATEMENT_KEYWORDS.has(token.value)) {
+      // OPTION (USE HINT(...)) / OPTION (USE PLAN ...) são dicas de consulta
+      if (token.value === 'USE' && isWord(next, 'HINT', 'PLAN')) continue;
+      return `${token.value} não é permitido em uma consulta de leitura`;
+    }
+    if (isWriteClause(tokens, j)) {
+      return `${token.value} dentro da consulta altera dados`;
+    }
+    if (isSymbol(next, '(') && SIDE_EFFECT_FUNCTIONS[dialect].has(token.value)) {
+      return `A função ${token.value.toLowerCase()} tem efeitos colaterais`;
+    }
+  }
+
+  return undefined;
+}
+
+function classifyTokens(tokens: Token[], dialect: SqlDialect): { verb: string; reason?: string } {
+  let i = 0;
+  while (isSymbol(tokens[i], '(')) i++;
+
+  const first = tokens[i];
+  if (!first || first.type !== 'word') {
+    return { verb: first?.value ?? '', reason: 'Instrução não reconhecida' };
+  }
+
+  const verb = first.value;
+  if (!READ_VERBS[dialect].has(verb)) {
+    return { verb, reason: `${verb} não é uma instrução de leitura` };
+  }
+
+  if (verb === 'EXPLAIN') {
+    // EXPLAIN ANALYZE executa a instrução, então ela também precisa ser uma leitura
+    const inner = tokens.findIndex((t, idx) => idx > i && t.type === 'word' && STATEMENT_VERBS.has(t.value));
+    return inner < 0 ? { verb } : { verb, reason: classifyTokens(tokens.slice(inner), dialect).reason };
+  }
+
+  if (verb === 'PRAGMA') {
+    if (tokens.some((t) => isSymbol(t, '='))) {
+      return { verb, reason: 'PRAGMA com atribuição altera a configuração do banco' };
+    }
+    const nameIndex = tokens.findIndex((t) => isSymbol(t, '('));
+    const name = tokens[(nameIndex < 0 ? tokens.length : nameIndex) - 1];
+    if (!name || !READ_PRAGMAS.has(name.value.toUpperCase())) {
+      return { verb, reason: `PRAGMA ${name?.value.toLowerCase() ?? ''} pode alterar o banco` };
+    }
+    return { verb };
+  }
+
+  return { verb, reason: findWriteClause(tokens.slice(i + 1), dialect) };
+}
+
+/**
+ * Divide o SQL em instruções e classifica cada uma como leitura ou não
+ */
+export function classifySQL(sql: string, dialect: SqlDialect): ClassifiedStatement[] {
+  return splitStatements(tokenize(sql, dialect)).map((tokens) => {
+    const { verb, reason } = classifyTokens(tokens, dialect);
+    return {
+      text: sql.slice(tokens[0].start, tokens[tokens.length - 1].end),
+      verb,
+      readOnly: !reason,
+      reason,
+    };
+  });
+}
+
+/**
+ * Valida que o SQL é uma única instrução de leitura.
+ * Retorna o erro a ser enviado ao cliente, ou null se a query pode ser executada.
+ */
+export function checkReadOnly(sql: string, dialect: SqlDialect, logPrefix: string): ReadOnlyViolation | null {
+  const statements = classifySQL(sql, dialect);
+
+  if (statements.length === 0) {
+    return {
+      error: 'Query contém apenas comentários ou está vazia',
+      details: 'Corrija os erros antes de executar.',
+    };
+  }
+
+  const blockedIndex = statements.findIndex((statement) => !statement.readOnly);
+  if (blockedIndex >= 0) {
+    const blocked = statements[blockedIndex];
+    console.error(`❌ [${logPrefix}] Query bloqueada por segurança!`);
+    console.error(`   - Instrução ${blockedIndex + 1} de ${statements.length} (${blocked.verb}): ${blocked.reason}`);
+    console.error(`   - SQL (primeiros 200 chars): ${blocked.text.substring(0, 200)}`);
+    return {
+      error: 'Apenas consultas de leitura são permitidas por segurança',
+      details: statements.length > 1
+        ? `Instrução ${blockedIndex + 1}: ${blocked.reason}`
+        : blocked.reason,
+    };
+  }
+
+  if (statements.length > 1) {
+    console.error(`❌ [${logPrefix}] Query com ${statements.length} instruções bloqueada`);
+    return {
+      error: 'Execute uma instrução por vez',
+      details: `A query contém ${statements.length} instruções separadas por ";"`,
+    };
+  }
+
+  return null;
+}
@@ -0,0 +1,132 @@
+import { tokenize } from './sql-classifier.js';
+import type { QueryParams, QueryParamValue, SqlDialect } from '../types/index.js';
+
+/**
+ * Parâmetros nomeados em SQL: ":start_date" ou "@customerId" (o "@" não vale no PostgreSQL,
+ * onde é operador). O SQL chega com os nomes e cada driver troca pelo placeholder nativo,
+ * então os valores vão ao banco como parâmetros do driver e nunca entram no texto da query.
+ *
+ * Os parâmetros são encontrados pelo tokenizador do classificador: ocorrências dentro de
+ * strings, comentários e identificadores entre aspas são ignoradas, assim como "::" (cast),
+ * variáveis de sistema ("@@version") e, no MySQL, variáveis de usuário atribuídas com ":=".
+ */
+
+// positional: "?" por ocorrência (mysql2, better-sqlite3)
+// numbered: "$n" por nome (pg)
+// named: "@nome" por nome (mssql, com request.input)
+export type PlaceholderStyle = 'positional' | 'numbered' | 'named';
+
+export interface NamedParameter {
+  name: string; // Sem o prefixo
+  start: number;
+  end: number;
+}
+
+export interface BoundSql {
+  sql: string;
+  // Em positional, um valor por ocorrência; nos demais, um por nome, na ordem da primeira ocorrência
+  names: string[];
+  values: QueryParamValue[];
+}
+
+export class QueryParameterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QueryParameterError';
+  }
+}
+
+const NAMED_PARAMETER = /^[:@]([A-Za-z_][A-Za-z0-9_]*)$/;
+
+export function findNamedParameters(sql: string, dialect: SqlDialect): NamedParameter[] {
+  const tokens = tokenize(sql, dialect);
+  const found: NamedParameter[] = [];
+  const assigned = new Set<string>();
+
+  tokens.forEach((token, i) => {
+    if (token.type !== 'parameter') return;
+    const match = NAMED_PARAMETER.exec(token.value);
+    if (!match) return;
+    // No MySQL "@rn := @rn + 1" é uma variável de usuário atribuída na própria query, não um parâmetro
+    const next = tokens[i + 1];
+    if (dialect === 'mysql' && token.value.startsWith('@') && next?.value === ':' && tokens[i + 2]?.value === '=' && next.end === tokens[i + 2].start) {
+      assigned.add(match[1].toLowerCase());
+    }
+    found.push({ name: match[1], start: token.start, end: token.end });
+  });
+
+  // Variáveis de usuário não diferenciam maiúsculas; todas as ocorrências de uma atribuída ficam de fora
+  return found.filter(param => !(assigned.has(param.name.toLowerCase()) && sql[param.start] === '@'));
+}
+
+// Valida o corpo da requisição: objeto de nome -> string, número, booleano ou null
+export function parseQueryParams(value: unknown): QueryParams | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new QueryParameterError('params deve ser um objeto de nome para valor');
+  }
+
+  for (const [name, paramValue] of Object.entries(value)) {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+      throw new QueryParameterError(`Nome de parâmetro inválido: ${name}`);
+    }
+    if (paramValue !== null && !['string', 'number', 'boolean'].includes(typeof paramValue)) {
+      throw new QueryParameterError(`Valor inválido para o parâmetro ${name}: use texto, número, booleano ou null`);
+    }
+  }
+  return value as QueryParams;
+}
+
+/**
+ * Confere se todo parâmetro nomeado do SQL tem valor. Sem params o SQL é executado como veio,
+ * como antes da existência dos parâmetros.
+ */
+export function validateParameters(sql: string, dialect: SqlDialect, params: QueryParams | undefined): void {
+  if (!params) return;
+
+  const tokens = tokenize(sql, dialect).filter(token => token.type === 'parameter');
+  if (tokens.some(token => token.value === '?' || /^\$[0-9]+$/.test(token.value))) {
+    throw new QueryParameterError('Com parâmetros, use apenas parâmetros nomeados (:nome) no SQL, não ? ou $1');
+  }
+
+  const missing = findNamedParameters(sql, dialect)
+    .map(param => param.name)
+    .filter((name, index, names) => !(name in params) && names.indexOf(name) === index);
+  if (missing.length > 0) {
+    throw new QueryParameterError(`Parâmetro(s) sem valor: ${missing.join(', ')}`);
+  }
+}
+
+// Troca os parâmetros nomeados pelos placeholders do driver
+export function bindParameters(
+  sql: string,
+  dialect: SqlDialect,
+  params: QueryParams | undefined,
+  style: PlaceholderStyle
+): BoundSql {
+  if (!params) return { sql, names: [], values: [] };
+  validateParameters(sql, dialect, params);
+
+  const names: string[] = [];
+  let bound = '';
+  let last = 0;
+
+  for (const param of findNamedParameters(sql, dialect)) {
+    let placeholder: string;
+    if (style === 'positional') {
+      names.push(param.name);
+      placeholder = '?';
+    } else {
+      if (!names.includes(param.name)) names.push(param.name);
+      placeholder = style === 'numbered' ? `$${names.indexOf(param.name) + 1}` : `@${param.name}`;
+    }
+    bound += sql.slice(last, param.start) + placeholder;
+    last = param.end;
+  }
+
+  return {
+    sql: bound + sql.slice(last),
+    names,
+    values: names.map(name => params[name]),
+  };
+}
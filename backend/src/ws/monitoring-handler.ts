@@ -1,8 +1,8 @@
 import { WebSocket } from 'ws';
 import { ConnectionManager } from '../db/connection-manager.js';
-import { MySQLIntrospector } from '../db/mysql-introspector.js';
-import { SQLServerIntrospector } from '../db/sqlserver-introspector.js';
-import type { DatabaseConnection } from '../types/index.js';
+import { metricsHistory } from '../db/metrics-history.js';
+import { canAccessConnection } from '../auth/permissions.js';
+import type { AuthUser, DatabaseConnection } from '../types/index.js';
 
 interface MonitoringMessage {
   type: 'subscribe' | 'unsubscribe';
@@ -11,9 +11,15 @@ interface MonitoringMessage {
 
 const activeSubscriptions = new Map<string, Set<WebSocket>>();
 const intervals = new Map<string, NodeJS.Timeout>();
+const samplerReleases = new Map<string, () => void>();
 
-export function handleMonitoring(ws: WebSocket, message: MonitoringMessage) {
+export function handleMonitoring(ws: WebSocket, message: MonitoringMessage, user: AuthUser | undefined) {
   if (message.type === 'subscribe') {
+    if (!canAccessConnection(user, message.connId)) {
+      ws.send(JSON.stringify({ error: 'Sem acesso a esta conexão' }));
+      return;
+    }
+
     if (!activeSubscriptions.has(message.connId)) {
       activeSubscriptions.set(message.connId, new Set());
     }
@@ -53,18 +59,12 @@ async function startPolling(connId: string) {
     return;
   }
 
+  // O histórico continua sendo coletado depois que o último cliente sai, até o sampler ficar ocioso
+  samplerReleases.set(connId, metricsHistory.watch(connId));
+
   const interval = setInterval(async () => {
     try {
-      let queries;
-      if (conn.type === 'mysql') {
-        const pool = await ConnectionManager.getMySQLPool(conn);
-        const introspector = new MySQLIntrospector(pool);
-        queries = await introspector.getActiveQueries();
-      } else {
-        const pool = await ConnectionManager.getSQLServerPool(conn);
-        const introspector = new SQLServerIntrospector(pool);
-        queries = await introspector.getActiveQueries();
-      }
+      const queries = await ConnectionManager.getDriver(conn).getActiveQueries(conn);
 
       const subs = activeSubscriptions.get(connId);
       if (subs) {
@@ -95,6 +95,8 @@ function stopPolling(connId: string) {
     clearInterval(interval);
     intervals.delete(connId);
   }
+  samplerReleases.get(connId)?.();
+  samplerReleases.delete(connId);
   activeSubscriptions.delete(connId);
 }
 
@@ -102,7 +104,11 @@ export function cleanupMonitoring() {
   for (const interval of intervals.values()) {
     clearInterval(interval);
   }
+  for (const release of samplerReleases.values()) {
+    release();
+  }
   intervals.clear();
+  samplerReleases.clear();
   activeSubscriptions.clear();
 }
 
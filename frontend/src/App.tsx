@@ -14,6 +14,7 @@ import QueryBuilder from './pages/QueryBuilder';
 import AIQuery from './pages/AIQuery';
 import Settings from './pages/Settings';
 import Monitoring from './pages/Monitoring';
+import Audit from './pages/Audit';
 import Wiki from './pages/Wiki';
 
 function App() {
@@ -38,6 +39,7 @@ function App() {
                     <Route path="/schema/:connId/ai-query" element={<AIQuery />} />
                     <Route path="/settings" element={<Settings />} />
                     <Route path="/monitoring/:connId" element={<Monitoring />} />
+                    <Route path="/audit" element={<Audit />} />
                     <Route path="/wiki" element={<Wiki />} />
                     <Route path="*" element={<Navigate to="/" replace />} />
                   </Routes>
@@ -1,4 +1,6 @@
 import axios from 'axios';
+import { auth } from '../config/firebase';
+import type { QueryAST } from '../types/query-builder';
 
 // Obter URL da API da configuração, removendo /api se já estiver presente
 const getApiUrl = () => {
@@ -16,7 +18,21 @@ export const api = axios.create({
   timeout: 65000, // 65 segundos (um pouco mais que o backend para evitar cortes)
 });
 
-export type DatabaseType = 'mysql' | 'sqlserver';
+// ID token do usuário logado; o Firebase renova automaticamente quando está perto de expirar
+export async function getAuthToken(): Promise<string | null> {
+  return auth.currentUser ? auth.currentUser.getIdToken() : null;
+}
+
+// Todas as rotas /api do backend exigem o token
+api.interceptors.request.use(async (config) => {
+  const token = await getAuthToken();
+  if (token) {
+    config.headers.Authorization = `Bearer ${token}`;
+  }
+  return config;
+});
+
+export type DatabaseType = 'mysql' | 'sqlserver' | 'postgres' | 'sqlite';
 
 export interface DatabaseConnection {
   id: string;
@@ -27,6 +43,7 @@ export interface DatabaseConnection {
   user: string;
   database: string;
   ssl?: boolean;
+  filePath?: string;
   createdAt: string;
 }
 
@@ -73,7 +90,37 @@ export interface ActiveQuery {
   startTime: string;
   elapsedTime: number;
   sqlText: string;
-  blocking?: number[];
+  blocking?: number[]; // Sessões que bloqueiam esta
+  waitType?: string;
+  waitTime?: number; // ms
+  waitResource?: string;
+}
+
+// Tempos em ms, agregados desde o último reset das estatísticas no banco
+export interface QueryStats {
+  sqlText: string;
+  executionCount: number;
+  totalElapsedTime: number;
+  avgElapsedTime: number;
+  minElapsedTime: number;
+  maxElapsedTime: number;
+}
+
+export type QueryStatsOrder = 'total' | 'avg' | 'executions';
+
+export interface MetricsSample {
+  timestamp: number; // epoch ms
+  activeSessions: number;
+  blockedSessions: number;
+  longestQuerySeconds: number;
+  connections: number | null;
+  qps: number | null; // Transações por segundo no PostgreSQL
+}
+
+export interface MetricsHistory {
+  intervalMs: number;
+  retentionMs: number;
+  samples: MetricsSample[];
 }
 
 export const connectionsApi = {
@@ -130,8 +177,15 @@ export const schemaApi = {
 export const monitoringApi = {
   getActiveQueries: (connId: string) =>
     api.get<ActiveQuery[]>(`/monitoring/${connId}/active-queries`),
-  getQueryStats: (connId: string) =>
-    api.get(`/monitoring/${connId}/query-stats`),
+  getQueryStats: (connId: string, orderBy: QueryStatsOrder = 'total', limit = 50) =>
+    api.get<QueryStats[]>(`/monitoring/${connId}/query-stats`, { params: { orderBy, limit } }),
+  getHistory: (connId: string, from: Date, to?: Date) =>
+    api.get<MetricsHistory>(`/monitoring/${connId}/history`, {
+      params: { from: from.toISOString(), to: to?.toISOString() },
+    }),
+  // O backend registra na auditoria o usuário do token
+  killSession: (connId: string, sessionId: number) =>
+    api.post<{ success: boolean }>(`/monitoring/${connId}/sessions/${sessionId}/kill`),
 };
 
 export interface OpenAIConfig {
@@ -163,6 +217,7 @@ export interface GenerateSQLResponse {
 export interface ExecuteSQLRequest {
   sql: string;
   connId: string;
+  execId?: string; // Permite cancelar a execução via queryApi.cancel
 }
 
 export interface ExecuteSQLResponse {
@@ -173,6 +228,22 @@ export interface ExecuteSQLResponse {
   hasMore: boolean;
 }
 
+export interface QueryResultPage {
+  handle: string;
+  rows: any[];
+  columns: string[];
+  offset: number;
+  totalRows: number | null; // null enquanto o resultado ainda não foi lido até o fim
+  hasMore: boolean;
+  execId?: string;
+  executionTime?: number;
+  totalTime?: number;
+}
+
+// Valores dos parâmetros nomeados (:nome, @nome), ligados pelo driver no backend
+export type QueryParamValue = string | number | boolean | null;
+export type QueryParams = Record<string, QueryParamValue>;
+
 export interface AnalyzeSQLRequest {
   sql: string;
   connId: string;
@@ -195,7 +266,15 @@ export const openaiApi = {
 };
 
 export const queryApi = {
-  execute: (connId: string, sql: string, limit?: number) => api.post<ExecuteSQLResponse>(`/query/${connId}/execute`, { sql, limit }),
+  execute: (connId: string, sql: string, limit?: number, execId?: string, params?: QueryParams) =>
+    api.post<QueryResultPage>(`/query/${connId}/execute`, { sql, limit, execId, params }),
+  cancel: (connId: string, execId: string) =>
+    api.post<{ success: boolean; elapsed: number }>(`/query/${connId}/cancel/${execId}`),
+  getResults: (connId: string, handle: string, offset: number, size: number) =>
+    api.get<QueryResultPage>(`/query/${connId}/results/${handle}`, { params: { offset, size } }),
+  closeResults: (connId: string, handle: string) => api.delete(`/query/${connId}/results/${handle}`),
+  explain: (connId: string, sql: string, params?: QueryParams) =>
+    api.post<ExecuteSQLResponse>(`/query/${connId}/explain`, { sql, params }),
 };
 
 export interface UIConfig {
@@ -217,4 +296,120 @@ export const uiApi = {
   },
 };
 
+// Perfis de acesso: reader navega no schema, editor executa queries, admin gerencia tudo
+export type Role = 'admin' | 'editor' | 'reader';
+
+export interface AccessProfile {
+  uid: string;
+  email?: string;
+  name?: string;
+  role: Role;
+}
+
+export interface AccessUser {
+  user: string;
+  role: Role; // Efetivo: o atribuído ou, sem um, o perfil padrão
+  explicitRole: boolean;
+  connections: string[];
+}
+
+export const accessApi = {
+  me: () => api.get<AccessProfile>('/access/me'),
+  listUsers: () => api.get<AccessUser[]>('/access/users'),
+  setUserRole: (user: string, role: Role) =>
+    api.put<{ success: boolean }>(`/access/users/${encodeURIComponent(user)}`, { role }),
+  removeUser: (user: string) => api.delete(`/access/users/${encodeURIComponent(user)}`),
+  getGrants: (connId: string) => api.get<{ users: string[] }>(`/access/connections/${connId}/grants`),
+  setGrants: (connId: string, users: string[]) =>
+    api.put<{ users: string[] }>(`/access/connections/${connId}/grants`, { users }),
+};
+
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  user: string;
+  action: string;
+  connId?: string;
+  connectionName?: string;
+  target?: string;
+  sql?: string;
+  rowCount?: number;
+  durationMs?: number;
+  success: boolean;
+  error?: string;
+  details?: Record<string, unknown>;
+}
+
+export interface AuditFilters {
+  user?: string;
+  connId?: string;
+  action?: string; // Ação exata ou prefixo terminado em '.'
+  status?: 'success' | 'failure';
+  search?: string;
+  from?: string; // ISO 8601
+  to?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface AuditPage {
+  entries: AuditEntry[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+export const auditApi = {
+  list: (filters: AuditFilters) => api.get<AuditPage>('/audit', { params: filters }),
+};
+
+export interface SavedQuery {
+  id: string;
+  connId: string;
+  owner: string;
+  authorName?: string;
+  name: string;
+  description?: string;
+  folder?: string; // Subpastas separadas por '/'; ausente = raiz
+  tags: string[];
+  shared: boolean; // Visível para todos com acesso à conexão
+  sql: string;
+  ast: QueryAST;
+  createdAt: string;
+  updatedAt: string;
+  lastRunAt?: string;
+  lastRunBy?: string;
+  editable: boolean; // O usuário atual pode alterar ou excluir
+}
 
+export type SavedQueryInput = Pick<SavedQuery, 'name' | 'description' | 'folder' | 'tags' | 'shared' | 'sql' | 'ast'>;
+
+export interface QueryHistoryEntry {
+  id: string;
+  connId: string;
+  owner: string;
+  sql: string;
+  ast?: QueryAST; // Ausente quando o SQL foi importado em vez de montado no builder
+  savedQueryId?: string;
+  executedAt: string;
+  rowCount?: number;
+  durationMs?: number;
+}
+
+export const savedQueriesApi = {
+  list: (connId: string) => api.get<SavedQuery[]>('/saved-queries', { params: { connId } }),
+  get: (id: string) => api.get<SavedQuery>(`/saved-queries/${id}`),
+  create: (connId: string, query: SavedQueryInput) => api.post<SavedQuery>('/saved-queries', { connId, ...query }),
+  update: (id: string, changes: Partial<SavedQueryInput>) => api.put<SavedQuery>(`/saved-queries/${id}`, changes),
+  delete: (id: string) => api.delete(`/saved-queries/${id}`),
+  import: (connId: string, queries: Array<SavedQueryInput & { createdAt?: string; updatedAt?: string }>) =>
+    api.post<{ imported: number; skipped: number }>('/saved-queries/import', { connId, queries }),
+};
+
+export const historyApi = {
+  list: (connId: string, limit?: number) => api.get<QueryHistoryEntry[]>('/history', { params: { connId, limit } }),
+  record: (connId: string, entry: Pick<QueryHistoryEntry, 'sql' | 'ast' | 'savedQueryId' | 'rowCount' | 'durationMs'>) =>
+    api.post<QueryHistoryEntry>('/history', { connId, ...entry }),
+  delete: (id: string) => api.delete(`/history/${id}`),
+  clear: (connId: string) => api.delete<{ removed: number }>('/history', { params: { connId } }),
+};
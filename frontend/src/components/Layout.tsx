@@ -28,9 +28,17 @@ import {
   Visibility as VisibilityIcon,
   List as ListIcon,
   Build as BuildIcon,
+  FactCheck as AuditIcon,
 } from '@mui/icons-material';
 import { useAuth } from '../contexts/AuthContext';
 import { useThemeMode } from '../contexts/ThemeContext';
+import type { Role } from '../api/client';
+
+const ROLE_LABELS: Record<Role, string> = {
+  admin: 'Administrador',
+  editor: 'Editor',
+  reader: 'Leitor',
+};
 
 interface LayoutProps {
   children: ReactNode;
@@ -40,7 +48,7 @@ export default function Layout({ children }: LayoutProps) {
   const theme = useTheme();
   const location = useLocation();
   const navigate = useNavigate();
-  const { currentUser, logout } = useAuth();
+  const { currentUser, logout, role, hasRole } = useAuth();
   const { mode, toggleColorMode } = useThemeMode();
   // Ocultar barra lateral no Query Builder
   const isQueryBuilder = location.pathname.includes('/query-builder');
@@ -141,22 +149,43 @@ export default function Layout({ children }: LayoutProps) {
             >
               Conexões
             </Button>
-            <Button
-              component={Link}
-              to="/settings"
-              startIcon={<SettingsIcon />}
-              sx={{
-                color: location.pathname === '/settings' ? theme.palette.primary.main : theme.palette.text.secondary,
-                textTransform: 'none',
-                fontWeight: location.pathname === '/settings' ? 600 : 400,
-                fontSize: '0.875rem',
-                '&:hover': {
-                  backgroundColor: alpha(theme.palette.primary.main, 0.08),
-                },
-              }}
-            >
-              Configurações
-            </Button>
+            {hasRole('admin') && (
+              <Button
+                component={Link}
+                to="/audit"
+                startIcon={<AuditIcon />}
+                sx={{
+                  color: location.pathname === '/audit' ? theme.palette.primary.main : theme.palette.text.secondary,
+                  textTransform: 'none',
+                  fontWeight: location.pathname === '/audit' ? 600 : 400,
+                  fontSize: '0.875rem',
+                  '&:hover': {
+                    backgroundColor: alpha(theme.palette.primary.main, 0.08),
+                  },
+                }}
+              >
+                Auditoria
+              </Button>
+            )}
+            {/* Configurações (OpenAI, background do login, usuários) são exclusivas do admin */}
+            {hasRole('admin') && (
+              <Button
+                component={Link}
+                to="/settings"
+                startIcon={<SettingsIcon />}
+                sx={{
+                  color: location.pathname === '/settings' ? theme.palette.primary.main : theme.palette.text.secondary,
+                  textTransform: 'none',
+                  fontWeight: location.pathname === '/settings' ? 600 : 400,
+                  fontSize: '0.875rem',
+                  '&:hover': {
+                    backgroundColor: alpha(theme.palette.primary.main, 0.08),
+                  },
+                }}
+              >
+                Configurações
+              </Button>
+            )}
           </Box>
           
           <Box sx={{ flexGrow: 1 }} />
@@ -233,18 +262,21 @@ export default function Layout({ children }: LayoutProps) {
                   </ListItemIcon>
                   <ListItemText>Tabela</ListItemText>
                 </MenuItem>
-                <MenuItem
-                  onClick={() => {
-                    navigate(`/schema/${connId}/query-builder`);
-                    handleViewMenuClose();
-                  }}
-                  selected={getCurrentView() === 'query-builder'}
-                >
-                  <ListItemIcon>
-                    <BuildIcon fontSize="small" />
-                  </ListItemIcon>
-                  <ListItemText>Query Builder</ListItemText>
-                </MenuItem>
+                {/* O Query Builder executa queries: requer perfil editor */}
+                {hasRole('editor') && (
+                  <MenuItem
+                    onClick={() => {
+                      navigate(`/schema/${connId}/query-builder`);
+                      handleViewMenuClose();
+                    }}
+                    selected={getCurrentView() === 'query-builder'}
+                  >
+                    <ListItemIcon>
+                      <BuildIcon fontSize="small" />
+                    </ListItemIcon>
+                    <ListItemText>Query Builder</ListItemText>
+                  </MenuItem>
+                )}
               </>
             ) : (
               <MenuItem disabled>
@@ -300,9 +332,22 @@ export default function Layout({ children }: LayoutProps) {
             transformOrigin={{ vertical: 'top', horizontal: 'right' }}
           >
             <MenuItem disabled>
-              <Typography variant="body2" color="text.secondary">
-                {currentUser?.email}
-              </Typography>
+              <Box>
+                <Typography variant="body2" color="text.secondary">
+                  {currentUser?.email}
+                </Typography>
+                {role && (
+                  <Typography variant="caption" color="text.secondary">
+                    Perfil: {ROLE_LABELS[role]}
+                  </Typography>
+                )}
+                {/* Sem e-mail verificado, perfis e acessos são concedidos pelo uid */}
+                {currentUser && !currentUser.emailVerified && (
+                  <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+                    E-mail não verificado · uid: {currentUser.uid}
+                  </Typography>
+                )}
+              </Box>
             </MenuItem>
             <Divider />
             <MenuItem onClick={handleLogout}>
@@ -0,0 +1,207 @@
+/**
+ * Árvore de bloqueios do monitoramento
+ * Cada raiz é um head blocker (bloqueia outras sessões sem estar bloqueada);
+ * os filhos são as sessões que esperam por ela, com tipo e duração da espera
+ */
+
+import { useMemo } from 'react';
+import {
+  Box,
+  Typography,
+  Chip,
+  IconButton,
+  Tooltip,
+  Paper,
+  useTheme,
+  alpha,
+} from '@mui/material';
+import {
+  Block as KillIcon,
+  SubdirectoryArrowRight as ChildIcon,
+  LockOutlined as LockIcon,
+} from '@mui/icons-material';
+import type { ActiveQuery } from '../../api/client';
+
+interface BlockingTreeProps {
+  queries: ActiveQuery[];
+  onKill?: (query: ActiveQuery) => void;
+}
+
+interface BlockingNode {
+  query: ActiveQuery;
+  children: BlockingNode[];
+  totalBlocked: number; // Sessões bloqueadas direta ou indiretamente
+}
+
+// Sessões bloqueadas por alguém fora da lista também aparecem como raiz
+function buildBlockingForest(queries: ActiveQuery[]): BlockingNode[] {
+  const bySession = new Map(queries.map((q) => [q.sessionId, q]));
+  const waitersOf = new Map<number, ActiveQuery[]>();
+
+  for (const query of queries) {
+    for (const blocker of query.blocking ?? []) {
+      if (blocker === query.sessionId) continue;
+      if (!waitersOf.has(blocker)) waitersOf.set(blocker, []);
+      waitersOf.get(blocker)!.push(query);
+    }
+  }
+
+  // visited evita laço infinito em deadlocks (A espera B que espera A)
+  const build = (query: ActiveQuery, visited: Set<number>): BlockingNode => {
+    visited.add(query.sessionId);
+    const children = (waitersOf.get(query.sessionId) ?? [])
+      .filter((waiter) => !visited.has(waiter.sessionId))
+      .map((waiter) => build(waiter, visited));
+    return {
+      query,
+      children,
+      totalBlocked: children.reduce((acc, child) => acc + 1 + child.totalBlocked, 0),
+    };
+  };
+
+  const isRoot = (query: ActiveQuery) =>
+    waitersOf.has(query.sessionId) &&
+    !(query.blocking ?? []).some((blocker) => bySession.has(blocker) && blocker !== query.sessionId);
+
+  const roots = queries.filter(isRoot).map((query) => build(query, new Set()));
+
+  // Deadlock puro: todas as sessões do ciclo estão bloqueadas, nenhuma é raiz
+  const covered = new Set<number>();
+  const collect = (node: BlockingNode) => {
+    covered.add(node.query.sessionId);
+    node.children.forEach(collect);
+  };
+  roots.forEach(collect);
+  for (const query of queries) {
+    if (waitersOf.has(query.sessionId) && !covered.has(query.sessionId)) {
+      const node = build(query, new Set());
+      collect(node);
+      roots.push(node);
+    }
+  }
+
+  return roots.sort((a, b) => b.totalBlocked - a.totalBlocked);
+}
+
+function formatWait(ms?: number): string {
+  if (ms === undefined || ms === null) return '';
+  const seconds = Math.floor(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+function BlockingTreeNode({ node, depth, onKill }: { node: BlockingNode; depth: number; onKill?: (query: ActiveQuery) => void }) {
+  const theme = useTheme();
+  const { query } = node;
+  const isHead = depth === 0;
+
+  return (
+    <Box>
+      <Box
+        sx={{
+          display: 'flex',
+          alignItems: 'flex-start',
+          gap: 1,
+          py: 1,
+          pl: depth * 3,
+          pr: 1,
+          borderBottom: 1,
+          borderColor: 'divider',
+          bgcolor: isHead ? alpha(theme.palette.error.main, 0.06) : 'transparent',
+        }}
+      >
+        {isHead ? (
+          <LockIcon sx={{ fontSize: 18, color: 'error.main', mt: 0.25 }} />
+        ) : (
+          <ChildIcon sx={{ fontSize: 18, color: 'text.disabled', mt: 0.25 }} />
+        )}
+        <Box sx={{ flex: 1, minWidth: 0 }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+            <Typography variant="body2" sx={{ fontFamily: 'monospace', fontWeight: 600 }}>
+              {query.sessionId}
+            </Typography>
+            <Typography variant="caption" color="text.secondary">
+              {query.user}@{query.host}
+            </Typography>
+            <Chip label={query.status} size="small" sx={{ fontSize: '0.6875rem', height: 20 }} />
+            {isHead && (
+              <Chip
+                label={`Head blocker · ${node.totalBlocked} bloqueada${node.totalBlocked === 1 ? '' : 's'}`}
+                size="small"
+                color="error"
+                sx={{ fontSize: '0.6875rem', height: 20 }}
+              />
+            )}
+            {query.waitType && (
+              <Chip
+                label={`${query.waitType}${query.waitTime !== undefined ? ` · ${formatWait(query.waitTime)}` : ''}`}
+                size="small"
+                color="warning"
+                variant="outlined"
+                sx={{ fontSize: '0.6875rem', height: 20 }}
+              />
+            )}
+            {query.waitResource && (
+              <Typography variant="caption" color="text.secondary" sx={{ fontFamily: 'monospace' }}>
+                {query.waitResource}
+              </Typography>
+            )}
+          </Box>
+          <Typography
+            variant="caption"
+            component="div"
+            sx={{
+              fontFamily: 'monospace',
+              color: query.sqlText ? 'text.primary' : 'text.disabled',
+              whiteSpace: 'nowrap',
+              overflow: 'hidden',
+              textOverflow: 'ellipsis',
+              mt: 0.5,
+            }}
+          >
+            {query.sqlText || '(sem query em execução — transação aberta)'}
+          </Typography>
+        </Box>
+        {onKill && (
+          <Tooltip title="Encerrar sessão">
+            <IconButton size="small" color="error" onClick={() => onKill(query)}>
+              <KillIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+        )}
+      </Box>
+      {node.children.map((child) => (
+        <BlockingTreeNode key={child.query.id} node={child} depth={depth + 1} onKill={onKill} />
+      ))}
+    </Box>
+  );
+}
+
+export default function BlockingTree({ queries, onKill }: BlockingTreeProps) {
+  const forest = useMemo(() => buildBlockingForest(queries), [queries]);
+
+  if (forest.length === 0) {
+    return (
+      <Box sx={{ textAlign: 'center', py: 6 }}>
+        <LockIcon sx={{ fontSize: 48, color: 'text.secondary', mb: 2, opacity: 0.5 }} />
+        <Typography variant="body1" color="text.secondary">
+          Nenhuma sessão bloqueada no momento
+        </Typography>
+      </Box>
+    );
+  }
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+      {forest.map((root) => (
+        <Paper key={root.query.id} variant="outlined" sx={{ overflow: 'hidden' }}>
+          <BlockingTreeNode node={root} depth={0} onKill={onKill} />
+        </Paper>
+      ))}
+    </Box>
+  );
+}
+
+export function countBlockedSessions(queries: ActiveQuery[]): number {
+  return queries.filter((q) => (q.blocking ?? []).some((id) => id !== q.sessionId)).length;
+}
@@ -0,0 +1,141 @@
+/**
+ * Gráfico de linha simples em SVG para séries temporais do monitoramento
+ * Pontos null ou intervalos maiores que maxGapMs interrompem a linha (coleta falhou, backend reiniciou...)
+ */
+
+import { useState, useMemo, useRef } from 'react';
+import { Box, Typography, Paper, useTheme } from '@mui/material';
+
+export interface MetricPoint {
+  timestamp: number;
+  value: number | null;
+}
+
+interface MetricChartProps {
+  title: string;
+  points: MetricPoint[];
+  from: number;
+  to: number;
+  maxGapMs?: number;
+  color?: string;
+  formatValue?: (value: number) => string;
+}
+
+const WIDTH = 600;
+const HEIGHT = 120;
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' });
+}
+
+export default function MetricChart({
+  title,
+  points,
+  from,
+  to,
+  maxGapMs = Infinity,
+  color,
+  formatValue = (value) => value.toLocaleString('pt-BR'),
+}: MetricChartProps) {
+  const theme = useTheme();
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [hovered, setHovered] = useState<MetricPoint | null>(null);
+  const stroke = color ?? theme.palette.primary.main;
+
+  const values = points.filter((p) => p.value !== null).map((p) => p.value as number);
+  const max = values.length > 0 ? Math.max(...values) : 0;
+  const yMax = max > 0 ? max * 1.1 : 1;
+  const latest = [...points].reverse().find((p) => p.value !== null);
+
+  const x = (timestamp: number) => ((timestamp - from) / Math.max(to - from, 1)) * WIDTH;
+  const y = (value: number) => HEIGHT - (value / yMax) * HEIGHT;
+
+  const path = useMemo(() => {
+    let d = '';
+    let previous: number | null = null;
+    for (const point of points) {
+      if (point.value === null) {
+        previous = null;
+        continue;
+      }
+      const continues = previous !== null && point.timestamp - previous <= maxGapMs;
+      d += `${continues ? 'L' : 'M'}${x(point.timestamp).toFixed(1)},${y(point.value).toFixed(1)} `;
+      previous = point.timestamp;
+    }
+    return d;
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [points, from, to, yMax, maxGapMs]);
+
+  const handleMouseMove = (event: React.MouseEvent<SVGSVGElement>) => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect || points.length === 0) return;
+    const timestamp = from + ((event.clientX - rect.left) / rect.width) * (to - from);
+    const nearest = points.reduce((best, p) =>
+      Math.abs(p.timestamp - timestamp) < Math.abs(best.timestamp - timestamp) ? p : best
+    );
+    setHovered(nearest);
+  };
+
+  const shown = hovered ?? latest;
+
+  return (
+    <Paper variant="outlined" sx={{ p: 1.5 }}>
+      <Box sx={{ display: 'flex', alignItems: 'baseline', justifyContent: 'space-between', mb: 1 }}>
+        <Typography variant="caption" color="text.secondary" sx={{ fontWeight: 600, textTransform: 'uppercase' }}>
+          {title}
+        </Typography>
+        <Box sx={{ textAlign: 'right' }}>
+          <Typography variant="body2" sx={{ fontWeight: 700, fontFamily: 'monospace' }}>
+            {shown && shown.value !== null ? formatValue(shown.value) : '-'}
+          </Typography>
+          {hovered && (
+            <Typography variant="caption" color="text.secondary">
+              {new Date(hovered.timestamp).toLocaleTimeString('pt-BR')}
+            </Typography>
+          )}
+        </Box>
+      </Box>
+      <Box sx={{ position: 'relative' }}>
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          preserveAspectRatio="none"
+          width="100%"
+          height={HEIGHT}
+          onMouseMove={handleMouseMove}
+          onMouseLeave={() => setHovered(null)}
+          style={{ display: 'block' }}
+        >
+          <line x1={0} y1={HEIGHT - 0.5} x2={WIDTH} y2={HEIGHT - 0.5} stroke={theme.palette.divider} />
+          <line x1={0} y1={0.5} x2={WIDTH} y2={0.5} stroke={theme.palette.divider} strokeDasharray="4 4" />
+          <path d={path} fill="none" stroke={stroke} strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+          {hovered && hovered.value !== null && (
+            <line
+              x1={x(hovered.timestamp)}
+              y1={0}
+              x2={x(hovered.timestamp)}
+              y2={HEIGHT}
+              stroke={theme.palette.text.disabled}
+              vectorEffect="non-scaling-stroke"
+            />
+          )}
+        </svg>
+        <Typography
+          variant="caption"
+          color="text.secondary"
+          sx={{ position: 'absolute', top: 2, left: 4, fontSize: '0.625rem' }}
+        >
+          {formatValue(Math.round(yMax * 10) / 10)}
+        </Typography>
+      </Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', mt: 0.5 }}>
+        <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.625rem' }}>
+          {formatTime(from)}
+        </Typography>
+        <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.625rem' }}>
+          {formatTime(to)}
+        </Typography>
+      </Box>
+    </Paper>
+  );
+}
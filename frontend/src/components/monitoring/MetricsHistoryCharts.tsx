@@ -0,0 +1,172 @@
+/**
+ * Histórico de métricas da conexão, coletado pelo backend em intervalos fixos
+ */
+
+import { useEffect, useState, useCallback } from 'react';
+import {
+  Box,
+  Typography,
+  Grid,
+  Alert,
+  CircularProgress,
+  ToggleButton,
+  ToggleButtonGroup,
+  useTheme,
+} from '@mui/material';
+import { ShowChart as ChartIcon } from '@mui/icons-material';
+import { monitoringApi, type MetricsHistory, type MetricsSample } from '../../api/client';
+import MetricChart from './MetricChart';
+
+interface MetricsHistoryChartsProps {
+  connId: string;
+}
+
+const RANGES = [
+  { label: '15 min', ms: 15 * 60 * 1000 },
+  { label: '1 h', ms: 60 * 60 * 1000 },
+  { label: '6 h', ms: 6 * 60 * 60 * 1000 },
+  { label: '24 h', ms: 24 * 60 * 60 * 1000 },
+];
+
+function formatSeconds(seconds: number): string {
+  if (seconds < 60) return `${Math.round(seconds)}s`;
+  return `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s`;
+}
+
+export default function MetricsHistoryCharts({ connId }: MetricsHistoryChartsProps) {
+  const theme = useTheme();
+  const [rangeMs, setRangeMs] = useState(RANGES[1].ms);
+  const [history, setHistory] = useState<MetricsHistory | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [error, setError] = useState<string | null>(null);
+
+  const loadHistory = useCallback(async () => {
+    const to = Date.now();
+    try {
+      const response = await monitoringApi.getHistory(connId, new Date(to - rangeMs), new Date(to));
+      setHistory(response.data);
+      setNow(to);
+      setError(null);
+    } catch (err: any) {
+      console.error('Erro ao carregar histórico:', err);
+      setError(err.response?.data?.error || err.message || 'Erro ao carregar histórico');
+    }
+  }, [connId, rangeMs]);
+
+  // Recarrega no mesmo ritmo da coleta do backend
+  const intervalMs = history?.intervalMs ?? 10000;
+  useEffect(() => {
+    loadHistory();
+    const timer = setInterval(loadHistory, intervalMs);
+    return () => clearInterval(timer);
+  }, [loadHistory, intervalMs]);
+
+  if (error && !history) {
+    return <Alert severity="error">{error}</Alert>;
+  }
+
+  if (!history) {
+    return (
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'center', height: 256 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  const from = now - rangeMs;
+  const series = (pick: (sample: MetricsSample) => number | null) =>
+    history.samples.map((sample) => ({ timestamp: sample.timestamp, value: pick(sample) }));
+  // Mais de dois intervalos sem amostra: a coleta parou nesse trecho
+  const maxGapMs = history.intervalMs * 2.5;
+  const hasServerStatus = history.samples.some((s) => s.connections !== null);
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2 }}>
+        <ToggleButtonGroup
+          value={rangeMs}
+          exclusive
+          size="small"
+          onChange={(_, value: number | null) => value && setRangeMs(value)}
+        >
+          {RANGES.filter((range) => range.ms <= history.retentionMs).map((range) => (
+            <ToggleButton key={range.ms} value={range.ms} sx={{ textTransform: 'none', px: 1.5, py: 0.25 }}>
+              {range.label}
+            </ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+        <Typography variant="caption" color="text.secondary">
+          Amostra a cada {Math.round(history.intervalMs / 1000)}s · mantido em memória no backend por{' '}
+          {Math.round(history.retentionMs / (60 * 60 * 1000))}h
+        </Typography>
+      </Box>
+
+      {history.samples.length === 0 ? (
+        <Box sx={{ textAlign: 'center', py: 6 }}>
+          <ChartIcon sx={{ fontSize: 48, color: 'text.secondary', mb: 2, opacity: 0.5 }} />
+          <Typography variant="body1" color="text.secondary">
+            Coleta iniciada; as primeiras amostras aparecem em alguns segundos
+          </Typography>
+        </Box>
+      ) : (
+        <Grid container spacing={2}>
+          <Grid size={{ xs: 12, md: 6 }}>
+            <MetricChart
+              title="Sessões ativas"
+              points={series((s) => s.activeSessions)}
+              from={from}
+              to={now}
+              maxGapMs={maxGapMs}
+            />
+          </Grid>
+          <Grid size={{ xs: 12, md: 6 }}>
+            <MetricChart
+              title="Sessões bloqueadas"
+              points={series((s) => s.blockedSessions)}
+              from={from}
+              to={now}
+              maxGapMs={maxGapMs}
+              color={theme.palette.error.main}
+            />
+          </Grid>
+          <Grid size={{ xs: 12, md: 6 }}>
+            <MetricChart
+              title="Query mais longa"
+              points={series((s) => s.longestQuerySeconds)}
+              from={from}
+              to={now}
+              maxGapMs={maxGapMs}
+              color={theme.palette.warning.main}
+              formatValue={formatSeconds}
+            />
+          </Grid>
+          {hasServerStatus && (
+            <>
+              <Grid size={{ xs: 12, md: 6 }}>
+                <MetricChart
+                  title="Conexões"
+                  points={series((s) => s.connections)}
+                  from={from}
+                  to={now}
+                  maxGapMs={maxGapMs}
+                  color={theme.palette.info.main}
+                />
+              </Grid>
+              <Grid size={{ xs: 12, md: 6 }}>
+                <MetricChart
+                  title="Queries por segundo"
+                  points={series((s) => s.qps)}
+                  from={from}
+                  to={now}
+                  maxGapMs={maxGapMs}
+                  color={theme.palette.success.main}
+                  formatValue={(value) => value.toLocaleString('pt-BR', { maximumFractionDigits: 1 })}
+                />
+              </Grid>
+            </>
+          )}
+        </Grid>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,207 @@
+/**
+ * Top-N de queries pelas estatísticas acumuladas do banco
+ * (sys.dm_exec_query_stats no SQL Server, performance_schema no MySQL)
+ */
+
+import { useEffect, useState, useCallback } from 'react';
+import {
+  Box,
+  Typography,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  CircularProgress,
+  Alert,
+  FormControl,
+  Select,
+  MenuItem,
+  ToggleButton,
+  ToggleButtonGroup,
+  IconButton,
+  Tooltip,
+  LinearProgress,
+} from '@mui/material';
+import {
+  Refresh as RefreshIcon,
+  Insights as StatsIcon,
+} from '@mui/icons-material';
+import { monitoringApi, type QueryStats, type QueryStatsOrder } from '../../api/client';
+
+interface QueryStatsTableProps {
+  connId: string;
+}
+
+const LIMIT_OPTIONS = [10, 25, 50, 100];
+
+const ORDER_LABELS: Record<QueryStatsOrder, string> = {
+  total: 'Tempo total',
+  avg: 'Tempo médio',
+  executions: 'Execuções',
+};
+
+const headerSx = { fontWeight: 600, fontSize: '0.75rem', textTransform: 'uppercase' } as const;
+
+function formatMs(ms: number): string {
+  if (ms < 1) return `${ms.toFixed(2)} ms`;
+  if (ms < 1000) return `${Math.round(ms)} ms`;
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)} s`;
+  const minutes = Math.floor(ms / 60_000);
+  return `${minutes}m ${Math.round((ms % 60_000) / 1000)}s`;
+}
+
+function metricOf(stat: QueryStats, orderBy: QueryStatsOrder): number {
+  if (orderBy === 'avg') return stat.avgElapsedTime;
+  if (orderBy === 'executions') return stat.executionCount;
+  return stat.totalElapsedTime;
+}
+
+export default function QueryStatsTable({ connId }: QueryStatsTableProps) {
+  const [stats, setStats] = useState<QueryStats[]>([]);
+  const [orderBy, setOrderBy] = useState<QueryStatsOrder>('total');
+  const [limit, setLimit] = useState(25);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadStats = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await monitoringApi.getQueryStats(connId, orderBy, limit);
+      setStats(response.data);
+      setError(null);
+    } catch (err: any) {
+      console.error('Erro ao carregar estatísticas:', err);
+      setStats([]);
+      setError(err.response?.data?.error || err.message || 'Erro ao carregar estatísticas');
+    } finally {
+      setLoading(false);
+    }
+  }, [connId, orderBy, limit]);
+
+  useEffect(() => {
+    loadStats();
+  }, [loadStats]);
+
+  // Barra relativa à primeira linha, que é a maior no critério escolhido
+  const topMetric = stats.length > 0 ? metricOf(stats[0], orderBy) : 0;
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2, flexWrap: 'wrap' }}>
+        <ToggleButtonGroup
+          value={orderBy}
+          exclusive
+          size="small"
+          onChange={(_, value: QueryStatsOrder | null) => value && setOrderBy(value)}
+        >
+          {(Object.keys(ORDER_LABELS) as QueryStatsOrder[]).map((key) => (
+            <ToggleButton key={key} value={key} sx={{ textTransform: 'none', px: 1.5, py: 0.25 }}>
+              {ORDER_LABELS[key]}
+            </ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+        <FormControl size="small">
+          <Select
+            value={limit}
+            onChange={(e) => setLimit(Number(e.target.value))}
+            sx={{ fontSize: '0.8125rem' }}
+          >
+            {LIMIT_OPTIONS.map((option) => (
+              <MenuItem key={option} value={option}>
+                Top {option}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <Box sx={{ flex: 1 }} />
+        <Tooltip title="Atualizar estatísticas">
+          <span>
+            <IconButton size="small" onClick={loadStats} disabled={loading}>
+              <RefreshIcon fontSize="small" />
+            </IconButton>
+          </span>
+        </Tooltip>
+      </Box>
+
+      {loading && stats.length === 0 ? (
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'center', height: 256 }}>
+          <CircularProgress />
+        </Box>
+      ) : error ? (
+        <Alert severity="info">{error}</Alert>
+      ) : stats.length === 0 ? (
+        <Box sx={{ textAlign: 'center', py: 6 }}>
+          <StatsIcon sx={{ fontSize: 48, color: 'text.secondary', mb: 2, opacity: 0.5 }} />
+          <Typography variant="body1" color="text.secondary">
+            Nenhuma estatística coletada pelo banco ainda
+          </Typography>
+        </Box>
+      ) : (
+        <TableContainer sx={{ opacity: loading ? 0.6 : 1 }}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell sx={headerSx}>#</TableCell>
+                <TableCell sx={headerSx}>SQL</TableCell>
+                <TableCell align="right" sx={headerSx}>Execuções</TableCell>
+                <TableCell align="right" sx={headerSx}>Total</TableCell>
+                <TableCell align="right" sx={headerSx}>Médio</TableCell>
+                <TableCell align="right" sx={headerSx}>Mín / Máx</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {stats.map((stat, index) => (
+                <TableRow key={`${index}-${stat.sqlText}`}>
+                  <TableCell sx={{ color: 'text.secondary', width: 32 }}>{index + 1}</TableCell>
+                  <TableCell sx={{ maxWidth: 420 }}>
+                    <Tooltip
+                      title={<Box component="pre" sx={{ m: 0, whiteSpace: 'pre-wrap', fontSize: '0.75rem' }}>{stat.sqlText}</Box>}
+                      placement="bottom-start"
+                    >
+                      <Box
+                        component="code"
+                        sx={{
+                          bgcolor: 'action.hover',
+                          px: 1,
+                          py: 0.5,
+                          borderRadius: 0.5,
+                          fontSize: '0.75rem',
+                          fontFamily: 'monospace',
+                          display: 'block',
+                          whiteSpace: 'nowrap',
+                          overflow: 'hidden',
+                          textOverflow: 'ellipsis',
+                        }}
+                      >
+                        {stat.sqlText}
+                      </Box>
+                    </Tooltip>
+                    <LinearProgress
+                      variant="determinate"
+                      value={topMetric > 0 ? (metricOf(stat, orderBy) / topMetric) * 100 : 0}
+                      sx={{ mt: 0.5, height: 3, borderRadius: 1 }}
+                    />
+                  </TableCell>
+                  <TableCell align="right" sx={{ fontFamily: 'monospace', fontWeight: orderBy === 'executions' ? 600 : 400 }}>
+                    {stat.executionCount.toLocaleString('pt-BR')}
+                  </TableCell>
+                  <TableCell align="right" sx={{ fontFamily: 'monospace', fontWeight: orderBy === 'total' ? 600 : 400 }}>
+                    {formatMs(stat.totalElapsedTime)}
+                  </TableCell>
+                  <TableCell align="right" sx={{ fontFamily: 'monospace', fontWeight: orderBy === 'avg' ? 600 : 400 }}>
+                    {formatMs(stat.avgElapsedTime)}
+                  </TableCell>
+                  <TableCell align="right" sx={{ fontFamily: 'monospace', color: 'text.secondary', whiteSpace: 'nowrap' }}>
+                    {formatMs(stat.minElapsedTime)} / {formatMs(stat.maxElapsedTime)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+    </Box>
+  );
+}
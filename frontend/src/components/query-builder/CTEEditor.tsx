@@ -22,6 +22,7 @@ import {
 } from '@mui/icons-material';
 import type { CTEDefinition, QueryAST } from '../../types/query-builder';
 import type { GraphNode, GraphEdge } from '../../api/client';
+import type { DatabaseDialect } from '../../utils/query-builder/sql-generator';
 import SubqueryBuilder from './SubqueryBuilder';
 
 interface CTEEditorProps {
@@ -31,7 +32,7 @@ interface CTEEditorProps {
   onRemove: (index: number) => void;
   nodes: GraphNode[];
   edges: GraphEdge[];
-  dbType?: 'mysql' | 'sqlserver';
+  dbType?: DatabaseDialect;
 }
 
 export default function CTEEditor({
@@ -0,0 +1,406 @@
+/**
+ * Diálogo do CASE WHEN estruturado (faixas, categorias, rótulos)
+ * Cada WHEN tem condições no formato do WHERE, unidas por AND, e um resultado; o ELSE é opcional
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  TextField,
+  Select,
+  MenuItem,
+  FormControl,
+  IconButton,
+  Tooltip,
+  Paper,
+  Alert,
+} from '@mui/material';
+import {
+  Close as CloseIcon,
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  ArrowUpward as ArrowUpwardIcon,
+  ArrowDownward as ArrowDownwardIcon,
+  AccountTree as AccountTreeIcon,
+} from '@mui/icons-material';
+import type { GraphNode } from '../../api/client';
+import type {
+  CaseBranch,
+  CaseExpression,
+  CaseValue,
+  ColumnRef,
+  SelectField,
+  WhereCondition,
+  WhereOperator,
+} from '../../types/query-builder';
+import { generateCaseExpression, type DatabaseDialect } from '../../utils/query-builder/sql-generator';
+import { validateCase } from '../../utils/query-builder/query-validator';
+
+interface CaseExpressionDialogProps {
+  isOpen: boolean;
+  field?: SelectField; // Campo em edição; sem ele, cria um novo
+  nodes: GraphNode[];
+  availableTables: Set<string>; // Tabelas disponíveis (FROM + JOINs)
+  tableAliases: Map<string, string>; // Mapa de tableId -> alias
+  dbType: DatabaseDialect;
+  onSave: (caseExpression: CaseExpression, alias?: string) => void;
+  onCancel: () => void;
+}
+
+// Os mesmos operadores do WHERE, menos EXISTS, que não compara a coluna
+const CASE_OPERATORS: WhereOperator[] = ['=', '!=', '<>', '>', '>=', '<', '<=', 'LIKE', 'NOT LIKE', 'IN', 'NOT IN', 'IS NULL', 'IS NOT NULL', 'BETWEEN', 'NOT BETWEEN'];
+
+const needsValue = (operator: WhereOperator) => operator !== 'IS NULL' && operator !== 'IS NOT NULL';
+const needsMultipleValues = (operator: WhereOperator) => ['IN', 'NOT IN', 'BETWEEN', 'NOT BETWEEN'].includes(operator);
+
+// Valor de seletor para o ELSE ausente
+const NO_ELSE = 'none';
+
+const refKey = (ref: ColumnRef) => `${ref.tableId}|${ref.column}`;
+
+const newId = (prefix: string) => `${prefix}-${Date.now()}-${Math.random()}`;
+
+const emptyCondition = (): WhereCondition => ({ id: newId('case-cond'), tableId: '', column: '', operator: '=', value: '' });
+
+const emptyBranch = (): CaseBranch => ({
+  id: newId('case-branch'),
+  conditions: [emptyCondition()],
+  result: { kind: 'value', value: '' },
+});
+
+// Número digitado vira número; o resto (inclusive :parametro) fica texto
+function toLiteral(text: string): string | number {
+  const num = Number(text);
+  return text.trim() !== '' && !isNaN(num) ? num : text;
+}
+
+function formatConditionValue(value: WhereCondition['value']): string {
+  if (value === undefined || value === null) return '';
+  return Array.isArray(value) ? value.join(', ') : String(value);
+}
+
+function parseConditionValue(text: string, operator: WhereOperator): WhereCondition['value'] {
+  if (!needsValue(operator)) return undefined;
+  if (needsMultipleValues(operator)) {
+    const items = text.split(',').map(v => v.trim()).filter(v => v);
+    return items.every(v => !isNaN(Number(v))) ? items.map(Number) : items;
+  }
+  return toLiteral(text);
+}
+
+// No rascunho, valores ficam como o texto digitado; a conversão acontece ao salvar
+function toDraft(expr: CaseExpression): CaseExpression {
+  return {
+    ...expr,
+    branches: expr.branches.map(branch => ({
+      ...branch,
+      conditions: branch.conditions.map(cond => ({ ...cond, value: formatConditionValue(cond.value) })),
+    })),
+  };
+}
+
+function fromDraft(draft: CaseExpression): CaseExpression {
+  const literal = (value: CaseValue): CaseValue =>
+    value.kind === 'value' ? { kind: 'value', value: toLiteral(String(value.value)) } : value;
+  return {
+    branches: draft.branches.map(branch => ({
+      ...branch,
+      conditions: branch.conditions.map(cond => ({
+        ...cond,
+        value: parseConditionValue(String(cond.value ?? ''), cond.operator),
+      })),
+      result: literal(branch.result),
+    })),
+    ...(draft.else && { else: literal(draft.else) }),
+  };
+}
+
+export default function CaseExpressionDialog({
+  isOpen,
+  field,
+  nodes,
+  availableTables,
+  tableAliases,
+  dbType,
+  onSave,
+  onCancel,
+}: CaseExpressionDialogProps) {
+  const [draft, setDraft] = useState<CaseExpression>({ branches: [] });
+  const [alias, setAlias] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(field?.caseExpression ? toDraft(field.caseExpression) : { branches: [emptyBranch()] });
+      setAlias(field?.alias ?? '');
+    }
+  }, [isOpen, field]);
+
+  const getTableAlias = (tableId: string): string => {
+    return tableAliases.get(tableId) || (tableId.includes('.') ? tableId.split('.').pop()! : tableId);
+  };
+
+  const columnOptions = useMemo(
+    () =>
+      Array.from(availableTables).flatMap(tableId =>
+        (nodes.find(n => n.id === tableId)?.columns || []).map(c => ({ tableId, column: c.name }))
+      ),
+    [availableTables, nodes]
+  );
+
+  const findColumn = (key: string): ColumnRef => columnOptions.find(ref => refKey(ref) === key) ?? { tableId: '', column: '' };
+
+  const renderColumnSelect = (value: ColumnRef, onChange: (ref: ColumnRef) => void, width: number | string = 200) => (
+    <FormControl size="small" sx={{ width }}>
+      <Select
+        value={value.tableId && value.column ? refKey(value) : ''}
+        displayEmpty
+        onChange={(e) => onChange(findColumn(e.target.value))}
+      >
+        <MenuItem value="">
+          <em>Coluna...</em>
+        </MenuItem>
+        {columnOptions.map(ref => (
+          <MenuItem key={refKey(ref)} value={refKey(ref)}>
+            {getTableAlias(ref.tableId)}.{ref.column}
+          </MenuItem>
+        ))}
+      </Select>
+    </FormControl>
+  );
+
+  const updateBranch = (branchId: string, update: (branch: CaseBranch) => CaseBranch) => {
+    setDraft(prev => ({ ...prev, branches: prev.branches.map(b => (b.id === branchId ? update(b) : b)) }));
+  };
+
+  const updateCondition = (branchId: string, condId: string, updates: Partial<WhereCondition>) => {
+    updateBranch(branchId, branch => ({
+      ...branch,
+      conditions: branch.conditions.map(c => (c.id === condId ? { ...c, ...updates } : c)),
+    }));
+  };
+
+  const moveBranch = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= draft.branches.length) return;
+    const branches = [...draft.branches];
+    [branches[index], branches[target]] = [branches[target], branches[index]];
+    setDraft({ ...draft, branches });
+  };
+
+  // THEN e ELSE: valor digitado, coluna ou NULL; o ELSE ainda pode ser omitido
+  const renderValueEditor = (value: CaseValue | undefined, onChange: (value: CaseValue | undefined) => void, allowNone: boolean) => (
+    <Box sx={{ display: 'flex', gap: 1, flex: 1 }}>
+      <FormControl size="small" sx={{ width: 120 }}>
+        <Select
+          value={value?.kind ?? NO_ELSE}
+          onChange={(e) => {
+            const kind = e.target.value;
+            if (kind === NO_ELSE) onChange(undefined);
+            else if (kind === 'null') onChange({ kind: 'null' });
+            else if (kind === 'column') onChange({ kind: 'column', tableId: '', column: '' });
+            else onChange({ kind: 'value', value: '' });
+          }}
+        >
+          {allowNone && <MenuItem value={NO_ELSE}>Sem ELSE</MenuItem>}
+          <MenuItem value="value">Valor</MenuItem>
+          <MenuItem value="column">Coluna</MenuItem>
+          <MenuItem value="null">NULL</MenuItem>
+        </Select>
+      </FormControl>
+      {value?.kind === 'value' && (
+        <TextField
+          size="small"
+          value={value.value}
+          onChange={(e) => onChange({ kind: 'value', value: e.target.value })}
+          placeholder="valor ou :parametro"
+          sx={{ flex: 1 }}
+        />
+      )}
+      {value?.kind === 'column' && renderColumnSelect(value, (ref) => onChange({ kind: 'column', ...ref }), '100%')}
+    </Box>
+  );
+
+  const result = fromDraft(draft);
+  const errors = validateCase({ id: field?.id ?? '', tableId: '', column: '', order: 0, caseExpression: result });
+
+  const handleSave = () => {
+    if (errors.length > 0) return;
+    onSave(result, alias.trim() || undefined);
+  };
+
+  return (
+    <Dialog open={isOpen} onClose={onCancel} maxWidth="md" fullWidth>
+      <DialogTitle>
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <AccountTreeIcon sx={{ color: 'success.main', fontSize: 20 }} />
+            <Typography variant="h6" component="span">
+              {field ? 'Editar CASE' : 'Adicionar CASE'}
+            </Typography>
+          </Box>
+          <IconButton onClick={onCancel} size="small" sx={{ color: 'text.secondary' }}>
+            <CloseIcon />
+          </IconButton>
+        </Box>
+      </DialogTitle>
+
+      <DialogContent dividers>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.5, pt: 1 }}>
+          {draft.branches.map((branch, index) => (
+            <Paper key={branch.id} variant="outlined" sx={{ p: 1.5 }}>
+              <Box sx={{ display: 'flex', alignItems: 'center', mb: 1 }}>
+                <Typography variant="caption" sx={{ fontWeight: 600, color: 'text.secondary', flex: 1 }}>
+                  WHEN {index + 1}
+                </Typography>
+                <Tooltip title="Mover para cima">
+                  <span>
+                    <IconButton size="small" disabled={index === 0} onClick={() => moveBranch(index, -1)} sx={{ p: 0.5 }}>
+                      <ArrowUpwardIcon sx={{ fontSize: 14 }} />
+                    </IconButton>
+                  </span>
+                </Tooltip>
+                <Tooltip title="Mover para baixo">
+                  <span>
+                    <IconButton
+                      size="small"
+                      disabled={index === draft.branches.length - 1}
+                      onClick={() => moveBranch(index, 1)}
+                      sx={{ p: 0.5 }}
+                    >
+                      <ArrowDownwardIcon sx={{ fontSize: 14 }} />
+                    </IconButton>
+                  </span>
+                </Tooltip>
+                <Tooltip title="Remover WHEN">
+                  <IconButton
+                    size="small"
+                    onClick={() => setDraft({ ...draft, branches: draft.branches.filter(b => b.id !== branch.id) })}
+                    sx={{ p: 0.5, color: 'text.secondary', '&:hover': { color: 'error.main' } }}
+                  >
+                    <DeleteIcon sx={{ fontSize: 14 }} />
+                  </IconButton>
+                </Tooltip>
+              </Box>
+
+              {branch.conditions.map((cond, condIndex) => (
+                <Box key={cond.id} sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+                  <Typography variant="caption" sx={{ width: 32, color: 'text.secondary', fontFamily: 'monospace' }}>
+                    {condIndex > 0 ? 'AND' : ''}
+                  </Typography>
+                  {renderColumnSelect(cond, (ref) => updateCondition(branch.id, cond.id, ref))}
+                  <FormControl size="small" sx={{ width: 130 }}>
+                    <Select
+                      value={cond.operator}
+                      onChange={(e) => updateCondition(branch.id, cond.id, { operator: e.target.value as WhereOperator })}
+                    >
+                      {CASE_OPERATORS.map(op => (
+                        <MenuItem key={op} value={op}>
+                          {op}
+                        </MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+                  {needsValue(cond.operator) ? (
+                    <TextField
+                      size="small"
+                      value={cond.value ?? ''}
+                      onChange={(e) => updateCondition(branch.id, cond.id, { value: e.target.value })}
+                      placeholder={needsMultipleValues(cond.operator) ? 'valor1, valor2, ...' : 'valor ou :parametro'}
+                      sx={{ flex: 1 }}
+                    />
+                  ) : (
+                    <Box sx={{ flex: 1 }} />
+                  )}
+                  <Tooltip title="Remover condição">
+                    <IconButton
+                      size="small"
+                      onClick={() =>
+                        updateBranch(branch.id, b => ({ ...b, conditions: b.conditions.filter(c => c.id !== cond.id) }))
+                      }
+                      sx={{ p: 0.5, color: 'text.secondary', '&:hover': { color: 'error.main' } }}
+                    >
+                      <CloseIcon sx={{ fontSize: 14 }} />
+                    </IconButton>
+                  </Tooltip>
+                </Box>
+              ))}
+              <Button
+                size="small"
+                startIcon={<AddIcon sx={{ fontSize: 14 }} />}
+                onClick={() => updateBranch(branch.id, b => ({ ...b, conditions: [...b.conditions, emptyCondition()] }))}
+                sx={{ fontSize: '0.75rem', mb: 1 }}
+              >
+                Condição (AND)
+              </Button>
+
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                <Typography variant="caption" sx={{ width: 32, fontWeight: 600, color: 'text.secondary', fontFamily: 'monospace' }}>
+                  THEN
+                </Typography>
+                {renderValueEditor(branch.result, (value) => updateBranch(branch.id, b => ({ ...b, result: value ?? { kind: 'null' } })), false)}
+              </Box>
+            </Paper>
+          ))}
+
+          <Button
+            size="small"
+            variant="outlined"
+            startIcon={<AddIcon />}
+            onClick={() => setDraft({ ...draft, branches: [...draft.branches, emptyBranch()] })}
+            sx={{ alignSelf: 'flex-start' }}
+          >
+            WHEN
+          </Button>
+
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <Typography variant="caption" sx={{ width: 32, fontWeight: 600, color: 'text.secondary', fontFamily: 'monospace' }}>
+              ELSE
+            </Typography>
+            {renderValueEditor(draft.else, (value) => setDraft({ ...draft, else: value }), true)}
+          </Box>
+
+          <TextField
+            size="small"
+            label="Alias (opcional)"
+            value={alias}
+            onChange={(e) => setAlias(e.target.value)}
+            placeholder="Ex: faixa_etaria, categoria"
+            fullWidth
+          />
+
+          {errors.length > 0 ? (
+            <Alert severity="error">{errors.map(e => e.message).join('; ')}</Alert>
+          ) : (
+            <Box
+              sx={{
+                p: 1,
+                borderRadius: 1,
+                bgcolor: 'action.hover',
+                fontFamily: 'monospace',
+                fontSize: '0.75rem',
+                wordBreak: 'break-word',
+              }}
+            >
+              {generateCaseExpression(result, tableAliases, dbType)}
+            </Box>
+          )}
+        </Box>
+      </DialogContent>
+
+      <DialogActions sx={{ px: 2, py: 1.5 }}>
+        <Button onClick={onCancel} variant="outlined" size="small">
+          Cancelar
+        </Button>
+        <Button onClick={handleSave} variant="contained" size="small" disabled={errors.length > 0}>
+          {field ? 'Salvar' : 'Adicionar'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,114 @@
+/**
+ * Botões de desfazer/refazer e linha do tempo dos passos de edição do AST
+ * Clicar em um passo volta a query para aquele ponto; os passos seguintes continuam disponíveis até a próxima edição
+ */
+
+import { useState } from 'react';
+import {
+  Box,
+  Typography,
+  IconButton,
+  Tooltip,
+  Popover,
+  List,
+  ListItemButton,
+  ListItemText,
+} from '@mui/material';
+import {
+  Undo as UndoIcon,
+  Redo as RedoIcon,
+  Timeline as TimelineIcon,
+} from '@mui/icons-material';
+import type { ASTHistoryStep } from '../../hooks/useASTHistory';
+
+interface EditHistoryControlsProps {
+  steps: ASTHistoryStep[];
+  currentIndex: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJumpTo: (index: number) => void;
+}
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+const MOD = isMac ? '⌘' : 'Ctrl';
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+}
+
+export default function EditHistoryControls({
+  steps,
+  currentIndex,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  onJumpTo,
+}: EditHistoryControlsProps) {
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+
+  const iconSx = { p: 0.5, color: 'text.secondary', '&:hover': { color: 'text.primary', bgcolor: 'action.hover' } };
+
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'center' }}>
+      <Tooltip title={canUndo ? `Desfazer: ${steps[currentIndex].label} (${MOD}+Z)` : 'Nada para desfazer'}>
+        <span>
+          <IconButton size="small" onClick={onUndo} disabled={!canUndo} sx={iconSx}>
+            <UndoIcon sx={{ fontSize: 14 }} />
+          </IconButton>
+        </span>
+      </Tooltip>
+      <Tooltip title={canRedo ? `Refazer: ${steps[currentIndex + 1].label} (${isMac ? '⌘+Shift+Z' : 'Ctrl+Y'})` : 'Nada para refazer'}>
+        <span>
+          <IconButton size="small" onClick={onRedo} disabled={!canRedo} sx={iconSx}>
+            <RedoIcon sx={{ fontSize: 14 }} />
+          </IconButton>
+        </span>
+      </Tooltip>
+      <Tooltip title="Histórico de edições">
+        <IconButton size="small" onClick={(e) => setAnchorEl(e.currentTarget)} sx={iconSx}>
+          <TimelineIcon sx={{ fontSize: 14 }} />
+        </IconButton>
+      </Tooltip>
+
+      <Popover
+        open={!!anchorEl}
+        anchorEl={anchorEl}
+        onClose={() => setAnchorEl(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'left' }}
+        transformOrigin={{ vertical: 'top', horizontal: 'left' }}
+      >
+        <Box sx={{ width: 320, maxHeight: 400, display: 'flex', flexDirection: 'column' }}>
+          <Typography sx={{ px: 1.5, py: 1, fontSize: '0.75rem', fontWeight: 600, borderBottom: 1, borderColor: 'divider' }}>
+            Histórico de edições
+          </Typography>
+          {/* Mais recente primeiro */}
+          <List dense disablePadding sx={{ overflow: 'auto' }}>
+            {steps.map((step, index) => ({ step, index })).reverse().map(({ step, index }) => (
+              <ListItemButton
+                key={step.id}
+                selected={index === currentIndex}
+                onClick={() => onJumpTo(index)}
+                sx={{
+                  py: 0.25,
+                  borderLeft: 2,
+                  borderColor: index === currentIndex ? 'primary.main' : 'transparent',
+                  opacity: index > currentIndex ? 0.5 : 1,
+                }}
+              >
+                <ListItemText
+                  primary={step.label}
+                  secondary={index > currentIndex ? `${formatTime(step.timestamp)} · desfeito` : formatTime(step.timestamp)}
+                  primaryTypographyProps={{ fontSize: '0.75rem', noWrap: true, title: step.label }}
+                  secondaryTypographyProps={{ fontSize: '0.625rem' }}
+                />
+              </ListItemButton>
+            ))}
+          </List>
+        </Box>
+      </Popover>
+    </Box>
+  );
+}
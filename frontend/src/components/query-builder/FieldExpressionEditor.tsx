@@ -28,13 +28,14 @@ import {
   Calculate as CalculateIcon,
 } from '@mui/icons-material';
 import type { SelectField } from '../../types/query-builder';
+import type { DatabaseDialect } from '../../utils/query-builder/sql-generator';
 
 interface FieldExpressionEditorProps {
   field: SelectField;
   tableAlias: string;
   onSave: (expression: string, alias: string) => void;
   onCancel: () => void;
-  dbType?: 'mysql' | 'sqlserver';
+  dbType?: DatabaseDialect;
 }
 
 const SQL_FUNCTIONS = [
@@ -67,6 +68,11 @@ const SQL_FUNCTIONS = [
   { name: 'AVG', description: 'Média', example: 'AVG(col)' },
   { name: 'MAX', description: 'Valor máximo', example: 'MAX(col)' },
   { name: 'MIN', description: 'Valor mínimo', example: 'MIN(col)' },
+  { name: 'ROW_NUMBER', description: 'Numeração das linhas (janela)', example: 'ROW_NUMBER() OVER (ORDER BY col)' },
+  { name: 'RANK', description: 'Posição com empates (janela)', example: 'RANK() OVER (ORDER BY col DESC)' },
+  { name: 'DENSE_RANK', description: 'Posição sem saltos (janela)', example: 'DENSE_RANK() OVER (ORDER BY col DESC)' },
+  { name: 'LAG', description: 'Valor da linha anterior (janela)', example: 'LAG(col, 1) OVER (ORDER BY col)' },
+  { name: 'LEAD', description: 'Valor da linha seguinte (janela)', example: 'LEAD(col, 1) OVER (ORDER BY col)' },
 ];
 
 const OPERATORS = [
@@ -78,8 +84,15 @@ const OPERATORS = [
   { symbol: '()', description: 'Parênteses', example: '(col1 + col2) * 2' },
 ];
 
+const DIALECT_LABELS: Record<DatabaseDialect, string> = {
+  mysql: 'MySQL',
+  sqlserver: 'SQL Server',
+  postgres: 'PostgreSQL',
+  sqlite: 'SQLite',
+};
+
 // Formatações de dados por tipo de banco
-const getFormatFunctions = (dbType: 'mysql' | 'sqlserver' = 'mysql') => {
+const getFormatFunctions = (dbType: DatabaseDialect = 'mysql') => {
   const baseFormats = [
     { name: 'COALESCE (NULL → "")', description: 'Substitui NULL por string vazia', example: "COALESCE(col, '')", template: "COALESCE({col}, '')" },
     { name: 'COALESCE (NULL → 0)', description: 'Substitui NULL por zero', example: "COALESCE(col, 0)", template: "COALESCE({col}, 0)" },
@@ -102,6 +115,38 @@ const getFormatFunctions = (dbType: 'mysql' | 'sqlserver' = 'mysql') => {
       { name: 'Texto (maiúsculas)', description: 'Converte para maiúsculas', example: "UPPER(CAST(col AS VARCHAR))", template: "UPPER(CAST({col} AS VARCHAR))" },
       { name: 'Texto (minúsculas)', description: 'Converte para minúsculas', example: "LOWER(CAST(col AS VARCHAR))", template: "LOWER(CAST({col} AS VARCHAR))" },
     ];
+  } else if (dbType === 'postgres') {
+    return [
+      ...baseFormats,
+      { name: 'Dinheiro (R$)', description: 'Formata como moeda com 2 decimais', example: "'R$ ' || TO_CHAR(col, 'FM999G999G990D00')", template: "'R$ ' || TO_CHAR({col}, 'FM999G999G990D00')" },
+      { name: 'Dinheiro (US$)', description: 'Formata como moeda americana', example: "'$' || TO_CHAR(col, 'FM999,999,990.00')", template: "'$' || TO_CHAR({col}, 'FM999,999,990.00')" },
+      { name: 'Data (DD/MM/YYYY)', description: 'Formata data brasileira', example: "TO_CHAR(col, 'DD/MM/YYYY')", template: "TO_CHAR({col}, 'DD/MM/YYYY')" },
+      { name: 'Data (YYYY-MM-DD)', description: 'Formata data ISO', example: "TO_CHAR(col, 'YYYY-MM-DD')", template: "TO_CHAR({col}, 'YYYY-MM-DD')" },
+      { name: 'Data e Hora', description: 'Data e hora completa', example: "TO_CHAR(col, 'DD/MM/YYYY HH24:MI:SS')", template: "TO_CHAR({col}, 'DD/MM/YYYY HH24:MI:SS')" },
+      { name: 'Data e Hora (curta)', description: 'Data e hora sem segundos', example: "TO_CHAR(col, 'DD/MM/YYYY HH24:MI')", template: "TO_CHAR({col}, 'DD/MM/YYYY HH24:MI')" },
+      { name: 'Hora (HH:mm:ss)', description: 'Apenas hora', example: "TO_CHAR(col, 'HH24:MI:SS')", template: "TO_CHAR({col}, 'HH24:MI:SS')" },
+      { name: 'Número (2 decimais)', description: 'Número com 2 casas decimais', example: "ROUND(col::numeric, 2)", template: "ROUND({col}::numeric, 2)" },
+      { name: 'Número (sem decimais)', description: 'Número inteiro', example: "CAST(col AS BIGINT)", template: "CAST({col} AS BIGINT)" },
+      { name: 'Percentual', description: 'Formata como percentual', example: "ROUND(col * 100, 2) || '%'", template: "ROUND({col} * 100, 2) || '%'" },
+      { name: 'Texto (maiúsculas)', description: 'Converte para maiúsculas', example: "UPPER(CAST(col AS TEXT))", template: "UPPER(CAST({col} AS TEXT))" },
+      { name: 'Texto (minúsculas)', description: 'Converte para minúsculas', example: "LOWER(CAST(col AS TEXT))", template: "LOWER(CAST({col} AS TEXT))" },
+    ];
+  } else if (dbType === 'sqlite') {
+    return [
+      ...baseFormats,
+      { name: 'Dinheiro (R$)', description: 'Formata como moeda com 2 decimais', example: "'R$ ' || printf('%.2f', col)", template: "'R$ ' || printf('%.2f', {col})" },
+      { name: 'Dinheiro (US$)', description: 'Formata como moeda americana', example: "'$' || printf('%.2f', col)", template: "'$' || printf('%.2f', {col})" },
+      { name: 'Data (DD/MM/YYYY)', description: 'Formata data brasileira', example: "strftime('%d/%m/%Y', col)", template: "strftime('%d/%m/%Y', {col})" },
+      { name: 'Data (YYYY-MM-DD)', description: 'Formata data ISO', example: "date(col)", template: "date({col})" },
+      { name: 'Data e Hora', description: 'Data e hora completa', example: "strftime('%d/%m/%Y %H:%M:%S', col)", template: "strftime('%d/%m/%Y %H:%M:%S', {col})" },
+      { name: 'Data e Hora (curta)', description: 'Data e hora sem segundos', example: "strftime('%d/%m/%Y %H:%M', col)", template: "strftime('%d/%m/%Y %H:%M', {col})" },
+      { name: 'Hora (HH:mm:ss)', description: 'Apenas hora', example: "time(col)", template: "time({col})" },
+      { name: 'Número (2 decimais)', description: 'Número com 2 casas decimais', example: "ROUND(col, 2)", template: "ROUND({col}, 2)" },
+      { name: 'Número (sem decimais)', description: 'Número inteiro', example: "CAST(col AS INTEGER)", template: "CAST({col} AS INTEGER)" },
+      { name: 'Percentual', description: 'Formata como percentual', example: "printf('%.2f%%', col * 100)", template: "printf('%.2f%%', {col} * 100)" },
+      { name: 'Texto (maiúsculas)', description: 'Converte para maiúsculas', example: "UPPER(CAST(col AS TEXT))", template: "UPPER(CAST({col} AS TEXT))" },
+      { name: 'Texto (minúsculas)', description: 'Converte para minúsculas', example: "LOWER(CAST(col AS TEXT))", template: "LOWER(CAST({col} AS TEXT))" },
+    ];
   } else {
     // MySQL
     return [
@@ -481,7 +526,7 @@ export default function FieldExpressionEditor({
               }}
             >
               <Typography variant="subtitle2" fontWeight={600} sx={{ mb: 1 }}>
-                Formatações de Dados ({dbType === 'sqlserver' ? 'SQL Server' : 'MySQL'})
+                Formatações de Dados ({DIALECT_LABELS[dbType]})
               </Typography>
               <Grid container spacing={1}>
                 {formatFunctions.map(format => (
@@ -15,6 +15,7 @@ import {
   Paper,
   Tooltip,
   TextField,
+  Alert,
   useTheme,
   alpha,
 } from '@mui/material';
@@ -41,7 +42,8 @@ import {
 } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
 import type { GraphNode } from '../../api/client';
-import type { SelectField, GroupByField } from '../../types/query-builder';
+import type { SelectField, GroupByField, ValidationError } from '../../types/query-builder';
+import { isFatal } from '../../utils/query-builder/query-validator';
 
 interface GroupByEditorProps {
   fields: GroupByField[];
@@ -53,6 +55,7 @@ interface GroupByEditorProps {
   availableFields: SelectField[]; // Campos disponíveis do SELECT
   tableAliases: Map<string, string>; // Mapeamento tableId -> alias
   onAddAggregate?: (tableId: string, column: string, aggregateFunction: 'COUNT' | 'SUM' | 'AVG' | 'MIN' | 'MAX', alias?: string) => void; // Callback para adicionar agregação
+  errors?: ValidationError[]; // Campos do GROUP BY fora da query e colunas do SELECT que faltam agrupar
 }
 
 function GroupByItem({
@@ -61,12 +64,14 @@ function GroupByItem({
   nodes,
   availableFields,
   tableAliases,
+  error,
 }: {
   field: GroupByField;
   onRemove: (id: string) => void;
   nodes: GraphNode[];
   availableFields: SelectField[];
   tableAliases: Map<string, string>;
+  error?: ValidationError;
 }) {
   const {
     attributes,
@@ -102,10 +107,11 @@ function GroupByItem({
       sx={{
         display: 'flex',
         alignItems: 'center',
+        flexWrap: 'wrap',
         gap: 1,
         p: 1,
         border: 1,
-        borderColor: 'divider',
+        borderColor: error ? (isFatal(error) ? 'error.main' : 'warning.main') : 'divider',
         borderRadius: 1,
         bgcolor: 'action.hover',
       }}
@@ -153,6 +159,11 @@ function GroupByItem({
           <CloseIcon sx={{ fontSize: 16 }} />
         </IconButton>
       </Tooltip>
+      {error && (
+        <Typography variant="caption" color={isFatal(error) ? 'error.main' : 'warning.main'} sx={{ width: '100%', pl: 4.5 }}>
+          {error.message}
+        </Typography>
+      )}
     </Paper>
   );
 }
@@ -167,6 +178,7 @@ export default function GroupByEditor({
   availableFields,
   tableAliases,
   onAddAggregate,
+  errors = [],
 }: GroupByEditorProps) {
   const theme = useTheme();
   const [isAdding, setIsAdding] = useState(false);
@@ -428,6 +440,13 @@ export default function GroupByEditor({
           </Paper>
         )}
 
+        {/* Colunas do SELECT que precisam entrar no GROUP BY */}
+        {errors.filter(e => e.type === 'missing_group_by').map(error => (
+          <Alert key={error.field} severity={isFatal(error) ? 'error' : 'warning'} sx={{ fontSize: '0.75rem', mb: 1 }}>
+            {error.message}
+          </Alert>
+        ))}
+
         {/* Lista de campos */}
         {fields.length === 0 && !isAdding ? (
           <Box
@@ -462,6 +481,7 @@ export default function GroupByEditor({
                       nodes={nodes}
                       availableFields={availableFields}
                       tableAliases={tableAliases}
+                      error={errors.find(e => e.field === field.id)}
                     />
                   ))}
               </Box>
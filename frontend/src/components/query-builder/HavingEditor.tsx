@@ -0,0 +1,446 @@
+/**
+ * Editor de HAVING
+ * Condições sobre agregações (COUNT, SUM, AVG, MIN, MAX), exibido ao lado do GROUP BY
+ */
+
+import { useState } from 'react';
+import {
+  Box,
+  Typography,
+  IconButton,
+  Button,
+  Select,
+  MenuItem,
+  FormControl,
+  TextField,
+  Paper,
+  Tooltip,
+  Alert,
+  Chip,
+  useTheme,
+  alpha,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  Edit as EditIcon,
+} from '@mui/icons-material';
+import type { GraphNode } from '../../api/client';
+import type {
+  AggregateFunction,
+  HavingCondition,
+  HavingOperator,
+  SelectField,
+  ValidationError,
+  WhereLogicalOperator,
+} from '../../types/query-builder';
+import { havingAggregate, type DatabaseDialect } from '../../utils/query-builder/sql-generator';
+
+interface HavingEditorProps {
+  conditions: HavingCondition[];
+  operator: WhereLogicalOperator;
+  onAdd: (condition: Omit<HavingCondition, 'id'>) => void;
+  onUpdate: (conditionId: string, updates: Partial<HavingCondition>) => void;
+  onRemove: (conditionId: string) => void;
+  onSetOperator: (operator: WhereLogicalOperator) => void;
+  nodes: GraphNode[];
+  availableTables: Set<string>; // Tabelas disponíveis (FROM + JOINs)
+  tableAliases: Map<string, string>; // Mapa de tableId -> alias
+  selectFields: SelectField[]; // Agregações do SELECT viram atalhos
+  errors: ValidationError[]; // Erros de validação do HAVING
+  dbType: DatabaseDialect;
+}
+
+const AGGREGATE_FUNCTIONS: AggregateFunction[] = ['COUNT', 'SUM', 'AVG', 'MIN', 'MAX'];
+const HAVING_OPERATORS: HavingOperator[] = ['=', '!=', '<>', '>', '>=', '<', '<=', 'BETWEEN', 'NOT BETWEEN', 'IN', 'NOT IN', 'IS NULL', 'IS NOT NULL'];
+const LOGICAL_OPERATORS: WhereLogicalOperator[] = ['AND', 'OR'];
+
+// Valor especial do seletor de função: agregação digitada como expressão
+const EXPRESSION = 'EXPRESSION';
+
+const EMPTY_CONDITION: Omit<HavingCondition, 'id'> = {
+  aggregateFunction: 'COUNT',
+  tableId: '',
+  column: '*',
+  operator: '>',
+  value: '',
+};
+
+const needsValue = (operator: HavingOperator) => operator !== 'IS NULL' && operator !== 'IS NOT NULL';
+const needsMultipleValues = (operator: HavingOperator) => ['IN', 'NOT IN', 'BETWEEN', 'NOT BETWEEN'].includes(operator);
+
+function formatValue(value: HavingCondition['value']): string {
+  if (value === undefined || value === null) return '';
+  return Array.isArray(value) ? value.join(', ') : String(value);
+}
+
+function parseValue(value: string, operator: HavingOperator): HavingCondition['value'] {
+  if (needsMultipleValues(operator)) {
+    const items = value.split(',').map(v => v.trim()).filter(v => v);
+    return items.every(v => !isNaN(Number(v))) ? items.map(Number) : items;
+  }
+  const numValue = Number(value);
+  return !isNaN(numValue) && value.trim() !== '' ? numValue : value;
+}
+
+export default function HavingEditor({
+  conditions,
+  operator,
+  onAdd,
+  onUpdate,
+  onRemove,
+  onSetOperator,
+  nodes,
+  availableTables,
+  tableAliases,
+  selectFields,
+  errors,
+  dbType,
+}: HavingEditorProps) {
+  const theme = useTheme();
+  // null: formulário fechado; 'new': nova condição; id: condição em edição
+  const [formId, setFormId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Omit<HavingCondition, 'id'>>(EMPTY_CONDITION);
+  const [valueText, setValueText] = useState('');
+
+  const selectAggregates = selectFields.filter(f => f.aggregateFunction && !f.expression && !f.subquery);
+  const generalErrors = errors.filter(e => !e.field);
+  const isExpression = draft.expression !== undefined;
+
+  const getTableAlias = (tableId: string): string => {
+    return tableAliases.get(tableId) || (tableId.includes('.') ? tableId.split('.').pop()! : tableId);
+  };
+
+  const getColumnsForTable = (tableId: string): string[] => {
+    return nodes.find(n => n.id === tableId)?.columns.map(c => c.name) || [];
+  };
+
+  const openForm = (id: string, condition: Omit<HavingCondition, 'id'>) => {
+    setFormId(id);
+    setDraft(condition);
+    setValueText(formatValue(condition.value));
+  };
+
+  const closeForm = () => {
+    setFormId(null);
+    setDraft(EMPTY_CONDITION);
+    setValueText('');
+  };
+
+  const handleSave = () => {
+    const condition = {
+      ...draft,
+      value: needsValue(draft.operator) ? parseValue(valueText, draft.operator) : undefined,
+    };
+    if (formId === 'new') {
+      onAdd(condition);
+    } else if (formId) {
+      onUpdate(formId, condition);
+    }
+    closeForm();
+  };
+
+  const canSave = isExpression
+    ? !!draft.expression?.trim()
+    : !!draft.column && (draft.column === '*' || !!draft.tableId);
+
+  const renderForm = () => (
+    <Paper
+      elevation={0}
+      sx={{
+        p: 1.5,
+        border: 1,
+        borderColor: 'primary.main',
+        borderRadius: 1,
+        bgcolor: alpha(theme.palette.primary.main, 0.04),
+      }}
+    >
+      <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+        {formId === 'new' && selectAggregates.length > 0 && (
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5, flexWrap: 'wrap' }}>
+            <Typography variant="caption" color="text.secondary" sx={{ mr: 0.5 }}>
+              Do SELECT:
+            </Typography>
+            {selectAggregates.map(field => (
+              <Chip
+                key={field.id}
+                label={field.alias || `${field.aggregateFunction}(${field.column === '*' ? '*' : `${getTableAlias(field.tableId)}.${field.column}`})`}
+                size="small"
+                variant="outlined"
+                onClick={() => setDraft({
+                  ...draft,
+                  aggregateFunction: field.aggregateFunction!,
+                  tableId: field.column === '*' ? '' : field.tableId,
+                  column: field.column,
+                  expression: undefined,
+                })}
+                sx={{ fontSize: '0.7rem', fontFamily: 'monospace' }}
+              />
+            ))}
+          </Box>
+        )}
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+          <FormControl size="small" sx={{ minWidth: 110 }}>
+            <Select
+              value={isExpression ? EXPRESSION : draft.aggregateFunction}
+              onChange={e => {
+                const value = e.target.value;
+                if (value === EXPRESSION) {
+                  setDraft({ ...draft, expression: '' });
+                } else {
+                  const fn = value as AggregateFunction;
+                  // "*" só vale para COUNT, que sem tabela conta todas as linhas
+                  const column = !draft.tableId ? (fn === 'COUNT' ? '*' : '') : draft.column;
+                  setDraft({ ...draft, aggregateFunction: fn, column, expression: undefined });
+                }
+              }}
+              sx={{ fontSize: '0.75rem', height: 32 }}
+            >
+              {AGGREGATE_FUNCTIONS.map(fn => (
+                <MenuItem key={fn} value={fn} sx={{ fontSize: '0.75rem' }}>
+                  {fn}
+                </MenuItem>
+              ))}
+              <MenuItem value={EXPRESSION} sx={{ fontSize: '0.75rem' }}>
+                Expressão
+              </MenuItem>
+            </Select>
+          </FormControl>
+          {isExpression ? (
+            <TextField
+              size="small"
+              value={draft.expression}
+              onChange={e => setDraft({ ...draft, expression: e.target.value })}
+              placeholder="SUM(o.qty * o.price)"
+              sx={{
+                flex: 2,
+                minWidth: 200,
+                '& .MuiInputBase-root': { fontSize: '0.75rem', fontFamily: 'monospace', height: 32 },
+              }}
+            />
+          ) : (
+            <>
+              <FormControl size="small" sx={{ flex: 1, minWidth: 120 }}>
+                <Select
+                  value={draft.tableId}
+                  onChange={e => {
+                    const tableId = e.target.value;
+                    // Sem tabela, COUNT volta a contar todas as linhas
+                    const column = !tableId && draft.aggregateFunction === 'COUNT' ? '*' : '';
+                    setDraft({ ...draft, tableId, column });
+                  }}
+                  displayEmpty
+                  sx={{ fontSize: '0.75rem', height: 32 }}
+                >
+                  <MenuItem value="" sx={{ fontSize: '0.75rem' }}>
+                    {draft.aggregateFunction === 'COUNT' ? 'Todas as linhas (*)' : 'Selecione tabela'}
+                  </MenuItem>
+                  {Array.from(availableTables).map(tableId => (
+                    <MenuItem key={tableId} value={tableId} sx={{ fontSize: '0.75rem' }}>
+                      {tableId.includes('.') ? tableId.split('.').pop() : tableId} AS {getTableAlias(tableId)}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              <FormControl size="small" sx={{ flex: 1, minWidth: 120 }} disabled={!draft.tableId}>
+                <Select
+                  value={draft.tableId ? draft.column : ''}
+                  onChange={e => setDraft({ ...draft, column: e.target.value })}
+                  displayEmpty
+                  sx={{ fontSize: '0.75rem', height: 32 }}
+                >
+                  <MenuItem value="" sx={{ fontSize: '0.75rem' }}>Selecione coluna</MenuItem>
+                  {draft.tableId && getColumnsForTable(draft.tableId).map(col => (
+                    <MenuItem key={col} value={col} sx={{ fontSize: '0.75rem' }}>
+                      {col}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </>
+          )}
+          <FormControl size="small" sx={{ minWidth: 120 }}>
+            <Select
+              value={draft.operator}
+              onChange={e => setDraft({ ...draft, operator: e.target.value as HavingOperator })}
+              sx={{ fontSize: '0.75rem', height: 32 }}
+            >
+              {HAVING_OPERATORS.map(op => (
+                <MenuItem key={op} value={op} sx={{ fontSize: '0.75rem' }}>
+                  {op}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </Box>
+        {needsValue(draft.operator) && (
+          <TextField
+            size="small"
+            fullWidth
+            value={valueText}
+            onChange={e => setValueText(e.target.value)}
+            placeholder={needsMultipleValues(draft.operator) ? 'valor1, valor2, ...' : 'valor ou :parametro'}
+            sx={{
+              '& .MuiInputBase-root': {
+                fontSize: '0.75rem',
+                fontFamily: 'monospace',
+                height: 32,
+              },
+            }}
+          />
+        )}
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, justifyContent: 'flex-end' }}>
+          <Button onClick={closeForm} size="small" sx={{ fontSize: '0.75rem', minHeight: 'auto' }}>
+            Cancelar
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={!canSave}
+            size="small"
+            variant="contained"
+            sx={{ fontSize: '0.75rem', minHeight: 'auto' }}
+          >
+            {formId === 'new' ? 'Adicionar' : 'Salvar'}
+          </Button>
+        </Box>
+      </Box>
+    </Paper>
+  );
+
+  return (
+    <Box
+      sx={{
+        height: '100%',
+        display: 'flex',
+        flexDirection: 'column',
+        bgcolor: 'background.paper',
+      }}
+    >
+      <Box
+        sx={{
+          p: 1.5,
+          borderBottom: 1,
+          borderColor: 'divider',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+        }}
+      >
+        <Typography variant="subtitle2" fontWeight={600}>
+          HAVING ({conditions.length})
+        </Typography>
+        <Tooltip title="Adicionar condição">
+          <IconButton
+            onClick={() => openForm('new', EMPTY_CONDITION)}
+            size="small"
+            sx={{
+              color: 'primary.main',
+              '&:hover': {
+                bgcolor: alpha(theme.palette.primary.main, 0.08),
+              },
+            }}
+          >
+            <AddIcon sx={{ fontSize: 16 }} />
+          </IconButton>
+        </Tooltip>
+      </Box>
+
+      <Box sx={{ flex: 1, overflow: 'auto', p: 1.5, display: 'flex', flexDirection: 'column', gap: 1 }}>
+        {generalErrors.map(error => (
+          <Alert key={error.message} severity="error" sx={{ fontSize: '0.75rem' }}>
+            {error.message}
+          </Alert>
+        ))}
+
+        {conditions.length > 1 && (
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <FormControl size="small" sx={{ minWidth: 80 }}>
+              <Select
+                value={operator}
+                onChange={e => onSetOperator(e.target.value as WhereLogicalOperator)}
+                sx={{ fontSize: '0.75rem', height: 28 }}
+              >
+                {LOGICAL_OPERATORS.map(op => (
+                  <MenuItem key={op} value={op} sx={{ fontSize: '0.75rem' }}>
+                    {op}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <Typography variant="caption" color="text.secondary">
+              {operator === 'AND' ? 'todas as condições' : 'qualquer condição'}
+            </Typography>
+          </Box>
+        )}
+
+        {conditions.length === 0 && formId === null && (
+          <Box sx={{ textAlign: 'center', py: 4, color: 'text.secondary' }}>
+            <Typography variant="body2">Nenhuma condição HAVING</Typography>
+            <Typography variant="caption" sx={{ mt: 0.5, display: 'block' }}>
+              Filtra os grupos pelo resultado de uma agregação, ex.: COUNT(*) &gt; 5
+            </Typography>
+          </Box>
+        )}
+
+        {conditions.map((condition, index) => {
+          if (formId === condition.id) {
+            return <Box key={condition.id}>{renderForm()}</Box>;
+          }
+          const error = errors.find(e => e.field === condition.id);
+          return (
+            <Paper
+              key={condition.id}
+              elevation={0}
+              sx={{
+                p: 1.5,
+                border: 1,
+                borderColor: error ? 'error.main' : 'divider',
+                borderRadius: 1,
+                bgcolor: 'action.hover',
+              }}
+            >
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                {index > 0 && (
+                  <Typography variant="caption" sx={{ fontWeight: 600, color: 'text.secondary', px: 0.5 }}>
+                    {operator}
+                  </Typography>
+                )}
+                <Box sx={{ flex: 1 }}>
+                  <Typography variant="body2" sx={{ fontFamily: 'monospace', fontSize: '0.75rem' }}>
+                    {havingAggregate(condition, tableAliases, dbType)} {condition.operator}
+                    {needsValue(condition.operator) ? ` ${formatValue(condition.value)}` : ''}
+                  </Typography>
+                  {error && (
+                    <Typography variant="caption" color="error.main">
+                      {error.message}
+                    </Typography>
+                  )}
+                </Box>
+                <Tooltip title="Editar">
+                  <IconButton
+                    onClick={() => openForm(condition.id, condition)}
+                    size="small"
+                    sx={{ color: 'text.secondary', '&:hover': { color: 'primary.main' } }}
+                  >
+                    <EditIcon sx={{ fontSize: 14 }} />
+                  </IconButton>
+                </Tooltip>
+                <Tooltip title="Remover">
+                  <IconButton
+                    onClick={() => onRemove(condition.id)}
+                    size="small"
+                    sx={{ color: 'text.secondary', '&:hover': { color: 'error.main' } }}
+                  >
+                    <DeleteIcon sx={{ fontSize: 14 }} />
+                  </IconButton>
+                </Tooltip>
+              </Box>
+            </Paper>
+          );
+        })}
+
+        {formId === 'new' && renderForm()}
+      </Box>
+    </Box>
+  );
+}
@@ -22,8 +22,9 @@ import {
   Code as CodeIcon,
   Add as AddIcon,
 } from '@mui/icons-material';
-import type { QueryJoin, JoinType, QueryAST } from '../../types/query-builder';
+import type { QueryJoin, JoinType, QueryAST, ValidationError } from '../../types/query-builder';
 import type { GraphNode, GraphEdge } from '../../api/client';
+import { escapeIdentifier, type DatabaseDialect } from '../../utils/query-builder/sql-generator';
 import SubqueryBuilder from './SubqueryBuilder';
 import ManualJoinCreator from './ManualJoinCreator';
 
@@ -46,9 +47,10 @@ interface JoinEditorProps {
   onClearFromSubquery?: (tableId: string) => void;
   nodes?: GraphNode[];
   edges?: GraphEdge[];
-  dbType?: 'mysql' | 'sqlserver';
+  dbType?: DatabaseDialect;
   preselectedViewTableId?: string | null; // VIEW pré-selecionada quando arrastada
   onJoinCreated?: (targetTableId: string) => void; // Callback quando um JOIN é criado
+  errors?: ValidationError[]; // JOINs que partem de tabelas fora da query ou repetem uma tabela
 }
 
 const JOIN_TYPES: JoinType[] = ['INNER', 'LEFT', 'RIGHT', 'FULL'];
@@ -68,6 +70,7 @@ export default function JoinEditor({
   dbType = 'mysql',
   preselectedViewTableId = null,
   onJoinCreated,
+  errors = [],
 }: JoinEditorProps) {
   const theme = useTheme();
   const [expandedJoins, setExpandedJoins] = useState<Set<string>>(new Set(joins.map(j => j.id))); // Todos expandidos por padrão
@@ -133,13 +136,8 @@ export default function JoinEditor({
       return join.customCondition.trim();
     }
     // Se não há customCondition, usar sourceColumn e targetColumn
-    // Para SQL Server, usar colchetes; para MySQL, usar backticks
-    const escapeCol = (col: string) => {
-      if (dbType === 'sqlserver') {
-        return `[${col.replace(/\]/g, ']]')}]`;
-      }
-      return `\`${col.replace(/`/g, '``')}\``;
-    };
+    // Escapar conforme o dialeto (colchetes, backticks ou aspas duplas)
+    const escapeCol = (col: string) => escapeIdentifier(col, dbType);
     return `${join.sourceAlias}.${escapeCol(join.sourceColumn)} = ${join.targetAlias}.${escapeCol(join.targetColumn)}`;
   };
 
@@ -241,6 +239,7 @@ export default function JoinEditor({
           const targetName = getTableDisplayName(join.targetTableId);
           const isFirstJoin = index === 0;
           const showBaseTable = isFirstJoin && !isExpanded;
+          const joinErrors = errors.filter(e => e.field === join.id);
 
           return (
             <Box key={join.id} sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
@@ -360,7 +359,7 @@ export default function JoinEditor({
                 sx={{
                   bgcolor: theme.palette.mode === 'dark' ? 'grey.800' : 'grey.50',
                   border: 1,
-                  borderColor: 'divider',
+                  borderColor: joinErrors.length > 0 ? 'error.main' : 'divider',
                   borderRadius: 1,
                 }}
               >
@@ -464,6 +463,12 @@ export default function JoinEditor({
                     </IconButton>
                   </Box>
                 </Box>
+
+                {joinErrors.map(error => (
+                  <Typography key={error.type} variant="caption" color="error.main" sx={{ display: 'block', px: 1.5, pb: 1 }}>
+                    {error.message}
+                  </Typography>
+                ))}
                 
                 {/* Conteúdo expandido do JOIN */}
                 {isExpanded && (
@@ -533,12 +538,7 @@ export default function JoinEditor({
               // Criar customCondition se houver múltiplas condições
               let customCondition: string | undefined;
               if (conditions.length > 1) {
-                const escapeCol = (col: string) => {
-                  if (dbType === 'sqlserver') {
-                    return `[${col.replace(/\]/g, ']]')}]`;
-                  }
-                  return `\`${col.replace(/`/g, '``')}\``;
-                };
+                const escapeCol = (col: string) => escapeIdentifier(col, dbType);
                 const conditionParts = conditions.map(c => {
                   const sourceColEscaped = escapeCol(c.sourceColumn);
                   const targetColEscaped = escapeCol(c.targetColumn);
@@ -31,6 +31,7 @@ import {
   Delete as DeleteIcon,
 } from '@mui/icons-material';
 import type { GraphNode, Column, GraphEdge } from '../../api/client';
+import type { DatabaseDialect } from '../../utils/query-builder/sql-generator';
 import type { JoinType, QueryJoin, QueryAST } from '../../types/query-builder';
 import SubqueryBuilder from './SubqueryBuilder';
 
@@ -46,7 +47,7 @@ interface ManualJoinCreatorProps {
   preselectedSourceTableId?: string; // Tabela pré-selecionada como origem (quando editando)
   preselectedTargetTableId?: string; // VIEW/tabela pré-selecionada como destino (quando arrastada)
   editingJoin?: QueryJoin | null; // JOIN sendo editado (null = modo criação)
-  dbType?: 'mysql' | 'sqlserver'; // Tipo de banco para escape de colunas
+  dbType?: DatabaseDialect; // Tipo de banco para escape de colunas
   edges?: GraphEdge[]; // Arestas para subselects
   onSave: (
     targetTableId: string,
@@ -40,7 +40,8 @@ import {
 } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
 import type { GraphNode } from '../../api/client';
-import type { SelectField, OrderByField } from '../../types/query-builder';
+import type { SelectField, OrderByField, ValidationError } from '../../types/query-builder';
+import { isFatal } from '../../utils/query-builder/query-validator';
 
 interface OrderByEditorProps {
   fields: OrderByField[];
@@ -51,6 +52,7 @@ interface OrderByEditorProps {
   nodes: GraphNode[];
   availableFields: SelectField[]; // Campos disponíveis do SELECT
   tableAliases: Map<string, string>; // Mapeamento tableId -> alias
+  errors?: ValidationError[]; // Campos fora da query ou, com UNION, fora do SELECT
 }
 
 function OrderByItem({
@@ -60,6 +62,7 @@ function OrderByItem({
   nodes,
   availableFields,
   tableAliases,
+  error,
 }: {
   field: OrderByField;
   onUpdate: (id: string, updates: Partial<OrderByField>) => void;
@@ -67,6 +70,7 @@ function OrderByItem({
   nodes: GraphNode[];
   availableFields: SelectField[];
   tableAliases: Map<string, string>;
+  error?: ValidationError;
 }) {
   const {
     attributes,
@@ -102,10 +106,11 @@ function OrderByItem({
       sx={{
         display: 'flex',
         alignItems: 'center',
+        flexWrap: 'wrap',
         gap: 1,
         p: 1,
         border: 1,
-        borderColor: 'divider',
+        borderColor: error ? (isFatal(error) ? 'error.main' : 'warning.main') : 'divider',
         borderRadius: 1,
         bgcolor: 'action.hover',
       }}
@@ -165,6 +170,11 @@ function OrderByItem({
           <CloseIcon sx={{ fontSize: 16 }} />
         </IconButton>
       </Tooltip>
+      {error && (
+        <Typography variant="caption" color={isFatal(error) ? 'error.main' : 'warning.main'} sx={{ width: '100%', pl: 4.5 }}>
+          {error.message}
+        </Typography>
+      )}
     </Paper>
   );
 }
@@ -178,6 +188,7 @@ export default function OrderByEditor({
   nodes,
   availableFields,
   tableAliases,
+  errors = [],
 }: OrderByEditorProps) {
   const theme = useTheme();
   const [isAdding, setIsAdding] = useState(false);
@@ -434,6 +445,7 @@ export default function OrderByEditor({
                       nodes={nodes}
                       availableFields={availableFields}
                       tableAliases={tableAliases}
+                      error={errors.find(e => e.field === field.id)}
                     />
                   ))}
               </Box>
@@ -26,19 +26,12 @@ import {
   AccessTime as AccessTimeIcon,
 } from '@mui/icons-material';
 import type { QueryAST } from '../../types/query-builder';
-
-interface QueryHistoryItem {
-  id: string;
-  sql: string;
-  ast: QueryAST;
-  timestamp: Date;
-  name?: string;
-}
+import type { QueryHistoryEntry } from '../../api/client';
 
 interface QueryHistoryDialogProps {
   isOpen: boolean;
   onClose: () => void;
-  history: QueryHistoryItem[];
+  history: QueryHistoryEntry[];
   onLoad: (ast: QueryAST) => void;
   onDelete: (id: string) => void;
   onClearAll: () => void;
@@ -61,7 +54,8 @@ export default function QueryHistoryDialog({
     setTimeout(() => setCopiedId(null), 2000);
   };
 
-  const formatDate = (date: Date) => {
+  const formatDate = (executedAt: string) => {
+    const date = new Date(executedAt);
     const now = new Date();
     const diff = now.getTime() - date.getTime();
     const minutes = Math.floor(diff / 60000);
@@ -181,9 +175,21 @@ export default function QueryHistoryDialog({
                     bgcolor: 'action.hover',
                   }}
                 >
-                  <Typography variant="caption" color="text.secondary">
-                    {formatDate(item.timestamp)}
-                  </Typography>
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                    <Typography variant="caption" color="text.secondary">
+                      {formatDate(item.executedAt)}
+                    </Typography>
+                    {item.rowCount !== undefined && (
+                      <Typography variant="caption" color="text.secondary">
+                        • {item.rowCount} linha(s)
+                      </Typography>
+                    )}
+                    {item.durationMs !== undefined && (
+                      <Typography variant="caption" color="text.secondary">
+                        • {item.durationMs}ms
+                      </Typography>
+                    )}
+                  </Box>
                   <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
                     <Tooltip title="Copiar SQL">
                       <IconButton
@@ -204,19 +210,23 @@ export default function QueryHistoryDialog({
                         )}
                       </IconButton>
                     </Tooltip>
-                    <Tooltip title="Carregar query">
-                      <IconButton
-                        onClick={() => onLoad(item.ast)}
-                        size="small"
-                        sx={{
-                          color: 'primary.main',
-                          '&:hover': {
-                            bgcolor: alpha(theme.palette.primary.main, 0.08),
-                          },
-                        }}
-                      >
-                        <PlayIcon sx={{ fontSize: 16 }} />
-                      </IconButton>
+                    {/* SQL importado não tem AST para carregar no builder */}
+                    <Tooltip title={item.ast ? 'Carregar query' : 'SQL importado: use Copiar SQL'}>
+                      <span>
+                        <IconButton
+                          onClick={() => item.ast && onLoad(item.ast)}
+                          disabled={!item.ast}
+                          size="small"
+                          sx={{
+                            color: 'primary.main',
+                            '&:hover': {
+                              bgcolor: alpha(theme.palette.primary.main, 0.08),
+                            },
+                          }}
+                        >
+                          <PlayIcon sx={{ fontSize: 16 }} />
+                        </IconButton>
+                      </span>
                     </Tooltip>
                     <Tooltip title="Remover">
                       <IconButton
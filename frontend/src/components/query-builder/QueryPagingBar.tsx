@@ -0,0 +1,138 @@
+/**
+ * Barra de DISTINCT e paginação da query (LIMIT/OFFSET no AST)
+ * Trocar de página altera o offset e executa de novo; no SQL Server isso vira OFFSET ... FETCH
+ */
+
+import {
+  Box,
+  Typography,
+  IconButton,
+  Select,
+  MenuItem,
+  FormControlLabel,
+  Checkbox,
+  Tooltip,
+} from '@mui/material';
+import {
+  ChevronLeft as ChevronLeftIcon,
+  ChevronRight as ChevronRightIcon,
+  WarningAmber as WarningIcon,
+} from '@mui/icons-material';
+import type { LimitClause } from '../../types/query-builder';
+import type { DatabaseDialect } from '../../utils/query-builder/sql-generator';
+
+interface QueryPagingBarProps {
+  distinct: boolean;
+  limit?: LimitClause;
+  hasOrderBy: boolean;
+  dbType: DatabaseDialect;
+  lastPageRowCount?: number; // Linhas da última execução, quando já se sabe o total
+  disabled?: boolean;
+  onDistinctChange: (distinct: boolean) => void;
+  onLimitChange: (limit: number | null, offset?: number) => void;
+  onPageChange: (offset: number) => void;
+}
+
+const PAGE_SIZES = [10, 50, 100, 500, 1000];
+
+export default function QueryPagingBar({
+  distinct,
+  limit,
+  hasOrderBy,
+  dbType,
+  lastPageRowCount,
+  disabled,
+  onDistinctChange,
+  onLimitChange,
+  onPageChange,
+}: QueryPagingBarProps) {
+  const offset = limit?.offset ?? 0;
+  const page = limit ? Math.floor(offset / limit.limit) + 1 : 1;
+  const isLastPage = !!limit && lastPageRowCount !== undefined && lastPageRowCount < limit.limit;
+  const pageSizes = limit && !PAGE_SIZES.includes(limit.limit) ? [...PAGE_SIZES, limit.limit].sort((a, b) => a - b) : PAGE_SIZES;
+
+  return (
+    <Box
+      sx={{
+        flexShrink: 0,
+        px: 1,
+        py: 0.25,
+        borderTop: 1,
+        borderColor: 'divider',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        gap: 1,
+      }}
+    >
+      <FormControlLabel
+        control={
+          <Checkbox size="small" checked={distinct} onChange={(e) => onDistinctChange(e.target.checked)} sx={{ p: 0.5 }} />
+        }
+        label={<Typography sx={{ fontSize: '0.6875rem', fontWeight: 500 }}>DISTINCT</Typography>}
+        sx={{ m: 0 }}
+      />
+
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+        <Select
+          value={limit ? String(limit.limit) : ''}
+          displayEmpty
+          variant="standard"
+          disableUnderline
+          onChange={(e) => (e.target.value ? onLimitChange(Number(e.target.value), 0) : onLimitChange(null))}
+          sx={{ fontSize: '0.6875rem' }}
+        >
+          <MenuItem value="" sx={{ fontSize: '0.75rem' }}>
+            Sem limite
+          </MenuItem>
+          {pageSizes.map(size => (
+            <MenuItem key={size} value={String(size)} sx={{ fontSize: '0.75rem' }}>
+              {size} linhas
+            </MenuItem>
+          ))}
+        </Select>
+
+        {limit && (
+          <>
+            <Tooltip title="Página anterior">
+              <span>
+                <IconButton
+                  size="small"
+                  disabled={disabled || page <= 1}
+                  onClick={() => onPageChange(Math.max(0, offset - limit.limit))}
+                  sx={{ p: 0.25 }}
+                >
+                  <ChevronLeftIcon sx={{ fontSize: 16 }} />
+                </IconButton>
+              </span>
+            </Tooltip>
+            <Typography sx={{ fontSize: '0.6875rem', minWidth: 44, textAlign: 'center' }}>Pág. {page}</Typography>
+            <Tooltip title="Próxima página">
+              <span>
+                <IconButton
+                  size="small"
+                  disabled={disabled || isLastPage}
+                  onClick={() => onPageChange(offset + limit.limit)}
+                  sx={{ p: 0.25 }}
+                >
+                  <ChevronRightIcon sx={{ fontSize: 16 }} />
+                </IconButton>
+              </span>
+            </Tooltip>
+            {!hasOrderBy && limit.offset !== undefined && (
+              <Tooltip
+                title={
+                  dbType === 'sqlserver'
+                    ? 'Sem ORDER BY a ordem das páginas não é garantida; o SQL Server exige ordenação para OFFSET ... FETCH e o builder usa uma genérica'
+                    : 'Sem ORDER BY a ordem das páginas não é garantida'
+                }
+              >
+                <WarningIcon sx={{ fontSize: 14, color: 'warning.main' }} />
+              </Tooltip>
+            )}
+          </>
+        )}
+      </Box>
+    </Box>
+  );
+}
@@ -0,0 +1,138 @@
+/**
+ * Formulário com os valores dos parâmetros nomeados (:nome, @nome) antes de executar a query
+ * O tipo de cada campo vem da coluna comparada com o parâmetro (ver utils/query-builder/sql-parameters)
+ */
+
+import { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  TextField,
+  MenuItem,
+  Alert,
+} from '@mui/material';
+import { Tune as TuneIcon } from '@mui/icons-material';
+import type { QueryParams } from '../../api/client';
+import { toParamValue, type ParameterKind, type QueryParameter } from '../../utils/query-builder/sql-parameters';
+
+interface QueryParametersDialogProps {
+  isOpen: boolean;
+  parameters: QueryParameter[];
+  initialValues: Record<string, string>; // Texto digitado na última execução
+  submitLabel?: string;
+  onCancel: () => void;
+  onSubmit: (params: QueryParams, rawValues: Record<string, string>) => void;
+}
+
+const INPUT_TYPES: Record<ParameterKind, string> = {
+  text: 'text',
+  number: 'number',
+  date: 'date',
+  datetime: 'datetime-local',
+  boolean: 'text',
+};
+
+const KIND_LABELS: Record<ParameterKind, string> = {
+  text: 'texto',
+  number: 'número',
+  date: 'data',
+  datetime: 'data e hora',
+  boolean: 'booleano',
+};
+
+export default function QueryParametersDialog({
+  isOpen,
+  parameters,
+  initialValues,
+  submitLabel = 'Executar',
+  onCancel,
+  onSubmit,
+}: QueryParametersDialogProps) {
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setValues(Object.fromEntries(parameters.map((p) => [p.name, initialValues[p.name] ?? ''])));
+      setError(null);
+    }
+  }, [isOpen, parameters, initialValues]);
+
+  const handleSubmit = () => {
+    const params: QueryParams = {};
+    for (const param of parameters) {
+      try {
+        params[param.name] = toParamValue(values[param.name] ?? '', param.kind);
+      } catch (err: any) {
+        setError(`${param.name}: ${err.message}`);
+        return;
+      }
+    }
+    onSubmit(params, values);
+  };
+
+  return (
+    <Dialog open={isOpen} onClose={onCancel} maxWidth="xs" fullWidth>
+      <DialogTitle sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <TuneIcon sx={{ color: 'text.secondary', fontSize: 20 }} />
+        <Typography variant="h6" component="span">
+          Parâmetros da Query
+        </Typography>
+      </DialogTitle>
+
+      <DialogContent dividers>
+        <Box
+          component="form"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleSubmit();
+          }}
+          sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}
+        >
+          {error && <Alert severity="error">{error}</Alert>}
+          {parameters.map((param, index) => (
+            <TextField
+              key={param.name}
+              label={param.name}
+              helperText={param.column ? `${KIND_LABELS[param.kind]} · ${param.column}` : KIND_LABELS[param.kind]}
+              type={INPUT_TYPES[param.kind]}
+              select={param.kind === 'boolean'}
+              value={values[param.name] ?? ''}
+              onChange={(e) => setValues({ ...values, [param.name]: e.target.value })}
+              size="small"
+              fullWidth
+              autoFocus={index === 0}
+              slotProps={{ inputLabel: { shrink: true } }}
+            >
+              {param.kind === 'boolean' && [
+                <MenuItem key="" value="">
+                  <em>NULL</em>
+                </MenuItem>,
+                <MenuItem key="true" value="true">
+                  verdadeiro
+                </MenuItem>,
+                <MenuItem key="false" value="false">
+                  falso
+                </MenuItem>,
+              ]}
+            </TextField>
+          ))}
+          {/* Enter em qualquer campo executa */}
+          <button type="submit" hidden />
+        </Box>
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onCancel}>Cancelar</Button>
+        <Button variant="contained" onClick={handleSubmit}>
+          {submitLabel}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
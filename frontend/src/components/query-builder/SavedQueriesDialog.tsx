@@ -1,8 +1,9 @@
 /**
  * Dialog para gerenciar queries salvas
+ * Biblioteca da conexão: queries próprias e compartilhadas, organizadas em pastas e tags
  */
 
-import { useState } from 'react';
+import { useState, useMemo } from 'react';
 import {
   Dialog,
   DialogTitle,
@@ -15,7 +16,10 @@ import {
   Paper,
   Tooltip,
   Chip,
-  Divider,
+  Autocomplete,
+  FormControlLabel,
+  Switch,
+  InputAdornment,
   useTheme,
   alpha,
 } from '@mui/material';
@@ -23,23 +27,22 @@ import {
   Close as CloseIcon,
   Save as SaveIcon,
   Delete as DeleteIcon,
+  Edit as EditIcon,
   ContentCopy as CopyIcon,
   Check as CheckIcon,
   PlayArrow as PlayIcon,
   FolderOpen as FolderOpenIcon,
+  Folder as FolderIcon,
+  Link as LinkIcon,
+  People as PeopleIcon,
+  Search as SearchIcon,
   Add as AddIcon,
 } from '@mui/icons-material';
 import type { QueryAST } from '../../types/query-builder';
+import type { SavedQuery, SavedQueryInput } from '../../api/client';
 
-interface SavedQuery {
-  id: string;
-  name: string;
-  description?: string;
-  sql: string;
-  ast: QueryAST;
-  createdAt: Date;
-  updatedAt: Date;
-}
+// Campos editáveis no formulário; SQL e AST vêm da query atual do builder
+export type SavedQueryMetadata = Pick<SavedQueryInput, 'name' | 'description' | 'folder' | 'tags' | 'shared'>;
 
 interface SavedQueriesDialogProps {
   isOpen: boolean;
@@ -47,10 +50,17 @@ interface SavedQueriesDialogProps {
   savedQueries: SavedQuery[];
   currentSQL: string;
   currentAST: QueryAST;
-  onLoad: (ast: QueryAST) => void;
-  onSave: (name: string, description?: string) => void;
+  onLoad: (query: SavedQuery) => void;
+  onSave: (metadata: SavedQueryMetadata) => void;
   onDelete: (id: string) => void;
-  onUpdate: (id: string, name: string, description?: string) => void;
+  onUpdate: (id: string, metadata: SavedQueryMetadata) => void;
+}
+
+const ROOT_FOLDER = '';
+
+// Link que abre a query direto no Query Builder
+export function savedQueryPermalink(query: Pick<SavedQuery, 'id' | 'connId'>): string {
+  return `${window.location.origin}/schema/${query.connId}/query-builder?saved=${query.id}`;
 }
 
 export default function SavedQueriesDialog({
@@ -58,7 +68,6 @@ export default function SavedQueriesDialog({
   onClose,
   savedQueries,
   currentSQL,
-  currentAST,
   onLoad,
   onSave,
   onDelete,
@@ -66,26 +75,92 @@ export default function SavedQueriesDialog({
 }: SavedQueriesDialogProps) {
   const theme = useTheme();
   const [showSaveForm, setShowSaveForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
   const [saveName, setSaveName] = useState('');
   const [saveDescription, setSaveDescription] = useState('');
+  const [saveFolder, setSaveFolder] = useState('');
+  const [saveTags, setSaveTags] = useState<string[]>([]);
+  const [saveShared, setSaveShared] = useState(false);
   const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
 
-  const handleSave = () => {
-    if (!saveName.trim()) return;
-    onSave(saveName.trim(), saveDescription.trim() || undefined);
+  // Tags e pastas já usadas na biblioteca, sugeridas no formulário
+  const knownTags = useMemo(
+    () => Array.from(new Set(savedQueries.flatMap((query) => query.tags))).sort(),
+    [savedQueries]
+  );
+  const knownFolders = useMemo(
+    () => Array.from(new Set(savedQueries.map((query) => query.folder).filter((f): f is string => !!f))).sort(),
+    [savedQueries]
+  );
+
+  // Queries filtradas e agrupadas por pasta, com a raiz primeiro
+  const folders = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    const filtered = savedQueries.filter((query) => {
+      if (tagFilter.some((tag) => !query.tags.includes(tag))) return false;
+      if (!term) return true;
+      return [query.name, query.description ?? '', query.sql].some((text) => text.toLowerCase().includes(term));
+    });
+
+    const groups = new Map<string, SavedQuery[]>();
+    for (const query of filtered) {
+      const folder = query.folder ?? ROOT_FOLDER;
+      groups.set(folder, [...(groups.get(folder) ?? []), query]);
+    }
+    return Array.from(groups.entries()).sort(([a], [b]) => a.localeCompare(b));
+  }, [savedQueries, search, tagFilter]);
+
+  const resetForm = () => {
     setSaveName('');
     setSaveDescription('');
+    setSaveFolder('');
+    setSaveTags([]);
+    setSaveShared(false);
+    setEditingId(null);
     setShowSaveForm(false);
   };
 
-  const handleCopy = async (sql: string, id: string) => {
-    await navigator.clipboard.writeText(sql);
+  const handleStartEdit = (query: SavedQuery) => {
+    setEditingId(query.id);
+    setSaveName(query.name);
+    setSaveDescription(query.description ?? '');
+    setSaveFolder(query.folder ?? '');
+    setSaveTags(query.tags);
+    setSaveShared(query.shared);
+    setShowSaveForm(true);
+  };
+
+  const handleSave = () => {
+    if (!saveName.trim()) return;
+    const metadata: SavedQueryMetadata = {
+      name: saveName.trim(),
+      description: saveDescription.trim() || undefined,
+      folder: saveFolder.trim() || undefined,
+      tags: saveTags,
+      shared: saveShared,
+    };
+    if (editingId) {
+      onUpdate(editingId, metadata);
+    } else {
+      onSave(metadata);
+    }
+    resetForm();
+  };
+
+  const handleCopy = async (text: string, id: string) => {
+    await navigator.clipboard.writeText(text);
     setCopiedId(id);
     setTimeout(() => setCopiedId(null), 2000);
   };
 
-  const formatDate = (date: Date) => {
-    return date.toLocaleDateString('pt-BR', {
+  const toggleTagFilter = (tag: string) => {
+    setTagFilter((current) => (current.includes(tag) ? current.filter((t) => t !== tag) : [...current, tag]));
+  };
+
+  const formatDate = (date: string) => {
+    return new Date(date).toLocaleDateString('pt-BR', {
       day: '2-digit',
       month: '2-digit',
       year: 'numeric',
@@ -94,6 +169,14 @@ export default function SavedQueriesDialog({
     });
   };
 
+  const actionSx = {
+    color: 'text.secondary',
+    '&:hover': {
+      color: 'text.primary',
+      bgcolor: 'action.hover',
+    },
+  };
+
   return (
     <Dialog
       open={isOpen}
@@ -117,14 +200,17 @@ export default function SavedQueriesDialog({
         <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
           <FolderOpenIcon sx={{ color: 'text.secondary', fontSize: 20 }} />
           <Typography variant="h6" component="span">
-            Queries Salvas
+            Biblioteca de Queries
           </Typography>
           <Chip label={savedQueries.length} size="small" />
         </Box>
         <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
           {currentSQL && (
             <Button
-              onClick={() => setShowSaveForm(true)}
+              onClick={() => {
+                resetForm();
+                setShowSaveForm(true);
+              }}
               variant="contained"
               size="small"
               startIcon={<AddIcon />}
@@ -180,29 +266,99 @@ export default function SavedQueriesDialog({
               multiline
               rows={2}
             />
-            <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1 }}>
-              <Button
-                onClick={() => setShowSaveForm(false)}
+            <Box sx={{ display: 'flex', gap: 1.5 }}>
+              <Autocomplete
+                freeSolo
                 size="small"
-                sx={{ fontSize: '0.8125rem' }}
-              >
-                Cancelar
-              </Button>
-              <Button
-                onClick={handleSave}
-                disabled={!saveName.trim()}
-                variant="contained"
+                options={knownFolders}
+                inputValue={saveFolder}
+                onInputChange={(_, value) => setSaveFolder(value)}
+                renderInput={(params) => (
+                  <TextField {...params} label="Pasta (opcional)" placeholder="Ex: Financeiro/Mensal" />
+                )}
+                sx={{ flex: 1 }}
+              />
+              <Autocomplete
+                multiple
+                freeSolo
                 size="small"
-                startIcon={<SaveIcon />}
-                sx={{ fontSize: '0.8125rem' }}
-              >
-                Salvar
-              </Button>
+                options={knownTags}
+                value={saveTags}
+                onChange={(_, value) => setSaveTags(Array.from(new Set(value.map((tag) => tag.trim()).filter(Boolean))))}
+                renderInput={(params) => (
+                  <TextField {...params} label="Tags (opcional)" placeholder="Digite e pressione Enter" />
+                )}
+                sx={{ flex: 1 }}
+              />
+            </Box>
+            <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 1 }}>
+              <FormControlLabel
+                control={<Switch size="small" checked={saveShared} onChange={(e) => setSaveShared(e.target.checked)} />}
+                label={
+                  <Typography variant="body2">
+                    Compartilhar com quem tem acesso à conexão
+                  </Typography>
+                }
+              />
+              <Box sx={{ display: 'flex', gap: 1 }}>
+                <Button
+                  onClick={resetForm}
+                  size="small"
+                  sx={{ fontSize: '0.8125rem' }}
+                >
+                  Cancelar
+                </Button>
+                <Button
+                  onClick={handleSave}
+                  disabled={!saveName.trim()}
+                  variant="contained"
+                  size="small"
+                  startIcon={<SaveIcon />}
+                  sx={{ fontSize: '0.8125rem' }}
+                >
+                  {editingId ? 'Atualizar' : 'Salvar'}
+                </Button>
+              </Box>
             </Box>
           </Box>
         </Box>
       )}
 
+      {/* Filtros */}
+      {savedQueries.length > 0 && (
+        <Box sx={{ px: 2, py: 1.5, display: 'flex', flexDirection: 'column', gap: 1 }}>
+          <TextField
+            fullWidth
+            size="small"
+            placeholder="Buscar por nome, descrição ou SQL..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            InputProps={{
+              startAdornment: (
+                <InputAdornment position="start">
+                  <SearchIcon sx={{ fontSize: 18 }} />
+                </InputAdornment>
+              ),
+            }}
+          />
+          {knownTags.length > 0 && (
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+              {knownTags.map((tag) => (
+                <Chip
+                  key={tag}
+                  label={tag}
+                  size="small"
+                  color={tagFilter.includes(tag) ? 'primary' : 'default'}
+                  variant={tagFilter.includes(tag) ? 'filled' : 'outlined'}
+                  onClick={() => toggleTagFilter(tag)}
+                  sx={{ height: 22, fontSize: '0.7rem' }}
+                />
+              ))}
+            </Box>
+          )}
+        </Box>
+      )}
+
       <DialogContent dividers sx={{ overflow: 'auto', p: 2 }}>
         {savedQueries.length === 0 ? (
           <Box
@@ -227,111 +383,172 @@ export default function SavedQueriesDialog({
               Salve suas queries frequentes para reutilizá-las depois
             </Typography>
           </Box>
+        ) : folders.length === 0 ? (
+          <Typography variant="body2" color="text.secondary" sx={{ textAlign: 'center', py: 4 }}>
+            Nenhuma query encontrada com esses filtros
+          </Typography>
         ) : (
-          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.5 }}>
-            {savedQueries.map((query) => (
-              <Paper
-                key={query.id}
-                elevation={0}
-                sx={{
-                  border: 1,
-                  borderColor: 'divider',
-                  borderRadius: 1,
-                  overflow: 'hidden',
-                }}
-              >
-                <Box
-                  sx={{
-                    display: 'flex',
-                    alignItems: 'center',
-                    justifyContent: 'space-between',
-                    px: 1.5,
-                    py: 1,
-                    bgcolor: 'action.hover',
-                  }}
-                >
-                  <Box>
-                    <Typography variant="subtitle2" fontWeight={500}>
-                      {query.name}
-                    </Typography>
-                    {query.description && (
-                      <Typography variant="caption" color="text.secondary" sx={{ mt: 0.25, display: 'block' }}>
-                        {query.description}
-                      </Typography>
-                    )}
-                  </Box>
-                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
-                    <Typography variant="caption" color="text.secondary" sx={{ mr: 1 }}>
-                      {formatDate(query.updatedAt)}
-                    </Typography>
-                    <Tooltip title="Copiar SQL">
-                      <IconButton
-                        onClick={() => handleCopy(query.sql, query.id)}
-                        size="small"
-                        sx={{
-                          color: 'text.secondary',
-                          '&:hover': {
-                            color: copiedId === query.id ? 'success.main' : 'text.primary',
-                            bgcolor: 'action.hover',
-                          },
-                        }}
-                      >
-                        {copiedId === query.id ? (
-                          <CheckIcon sx={{ fontSize: 16, color: 'success.main' }} />
-                        ) : (
-                          <CopyIcon sx={{ fontSize: 16 }} />
-                        )}
-                      </IconButton>
-                    </Tooltip>
-                    <Tooltip title="Carregar query">
-                      <IconButton
-                        onClick={() => onLoad(query.ast)}
-                        size="small"
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+            {folders.map(([folder, queries]) => (
+              <Box key={folder || 'root'}>
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.75, mb: 1 }}>
+                  <FolderIcon sx={{ fontSize: 16, color: 'text.secondary' }} />
+                  <Typography variant="caption" sx={{ fontWeight: 600, textTransform: 'uppercase', color: 'text.secondary' }}>
+                    {folder ? folder.split('/').join(' / ') : 'Sem pasta'}
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    ({queries.length})
+                  </Typography>
+                </Box>
+                <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+                  {queries.map((query) => (
+                    <Paper
+                      key={query.id}
+                      elevation={0}
+                      sx={{
+                        border: 1,
+                        borderColor: 'divider',
+                        borderRadius: 1,
+                        overflow: 'hidden',
+                      }}
+                    >
+                      <Box
                         sx={{
-                          color: 'primary.main',
-                          '&:hover': {
-                            bgcolor: alpha(theme.palette.primary.main, 0.08),
-                          },
+                          display: 'flex',
+                          alignItems: 'flex-start',
+                          justifyContent: 'space-between',
+                          px: 1.5,
+                          py: 1,
+                          bgcolor: 'action.hover',
                         }}
                       >
-                        <PlayIcon sx={{ fontSize: 16 }} />
-                      </IconButton>
-                    </Tooltip>
-                    <Tooltip title="Remover">
-                      <IconButton
-                        onClick={() => onDelete(query.id)}
-                        size="small"
+                        <Box sx={{ minWidth: 0 }}>
+                          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                            <Typography variant="subtitle2" fontWeight={500}>
+                              {query.name}
+                            </Typography>
+                            {query.shared && (
+                              <Chip
+                                icon={<PeopleIcon sx={{ fontSize: 14 }} />}
+                                label="Compartilhada"
+                                size="small"
+                                color="primary"
+                                variant="outlined"
+                                sx={{ height: 20, fontSize: '0.7rem' }}
+                              />
+                            )}
+                          </Box>
+                          {query.description && (
+                            <Typography variant="caption" color="text.secondary" sx={{ mt: 0.25, display: 'block' }}>
+                              {query.description}
+                            </Typography>
+                          )}
+                          {query.tags.length > 0 && (
+                            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, mt: 0.5 }}>
+                              {query.tags.map((tag) => (
+                                <Chip key={tag} label={tag} size="small" sx={{ height: 20, fontSize: '0.7rem' }} />
+                              ))}
+                            </Box>
+                          )}
+                          <Typography variant="caption" color="text.secondary" sx={{ mt: 0.5, display: 'block' }}>
+                            Por {query.authorName || query.owner} • Atualizada em {formatDate(query.updatedAt)} •{' '}
+                            {query.lastRunAt
+                              ? `Última execução em ${formatDate(query.lastRunAt)}${query.lastRunBy ? ` por ${query.lastRunBy}` : ''}`
+                              : 'Nunca executada'}
+                          </Typography>
+                        </Box>
+                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5, flexShrink: 0 }}>
+                          <Tooltip title="Copiar SQL">
+                            <IconButton
+                              onClick={() => handleCopy(query.sql, query.id)}
+                              size="small"
+                              sx={actionSx}
+                            >
+                              {copiedId === query.id ? (
+                                <CheckIcon sx={{ fontSize: 16, color: 'success.main' }} />
+                              ) : (
+                                <CopyIcon sx={{ fontSize: 16 }} />
+                              )}
+                            </IconButton>
+                          </Tooltip>
+                          <Tooltip title="Copiar link">
+                            <IconButton
+                              onClick={() => handleCopy(savedQueryPermalink(query), `${query.id}:link`)}
+                              size="small"
+                              sx={actionSx}
+                            >
+                              {copiedId === `${query.id}:link` ? (
+                                <CheckIcon sx={{ fontSize: 16, color: 'success.main' }} />
+                              ) : (
+                                <LinkIcon sx={{ fontSize: 16 }} />
+                              )}
+                            </IconButton>
+                          </Tooltip>
+                          <Tooltip title="Carregar query">
+                            <IconButton
+                              onClick={() => onLoad(query)}
+                              size="small"
+                              sx={{
+                                color: 'primary.main',
+                                '&:hover': {
+                                  bgcolor: alpha(theme.palette.primary.main, 0.08),
+                                },
+                              }}
+                            >
+                              <PlayIcon sx={{ fontSize: 16 }} />
+                            </IconButton>
+                          </Tooltip>
+                          {query.editable && (
+                            <>
+                              <Tooltip title="Editar">
+                                <IconButton
+                                  onClick={() => handleStartEdit(query)}
+                                  size="small"
+                                  sx={actionSx}
+                                >
+                                  <EditIcon sx={{ fontSize: 16 }} />
+                                </IconButton>
+                              </Tooltip>
+                              <Tooltip title="Remover">
+                                <IconButton
+                                  onClick={() => onDelete(query.id)}
+                                  size="small"
+                                  sx={{
+                                    color: 'text.secondary',
+                                    '&:hover': {
+                                      color: 'error.main',
+                                      bgcolor: alpha(theme.palette.error.main, 0.08),
+                                    },
+                                  }}
+                                >
+                                  <DeleteIcon sx={{ fontSize: 16 }} />
+                                </IconButton>
+                              </Tooltip>
+                            </>
+                          )}
+                        </Box>
+                      </Box>
+                      <Box
+                        component="pre"
                         sx={{
-                          color: 'text.secondary',
-                          '&:hover': {
-                            color: 'error.main',
-                            bgcolor: alpha(theme.palette.error.main, 0.08),
-                          },
+                          p: 1.5,
+                          fontSize: '0.75rem',
+                          fontFamily: 'monospace',
+                          color: 'text.primary',
+                          overflowX: 'auto',
+                          whiteSpace: 'pre-wrap',
+                          maxHeight: 128,
+                          overflowY: 'auto',
+                          m: 0,
+                          bgcolor: 'background.paper',
                         }}
                       >
-                        <DeleteIcon sx={{ fontSize: 16 }} />
-                      </IconButton>
-                    </Tooltip>
-                  </Box>
-                </Box>
-                <Box
-                  component="pre"
-                  sx={{
-                    p: 1.5,
-                    fontSize: '0.75rem',
-                    fontFamily: 'monospace',
-                    color: 'text.primary',
-                    overflowX: 'auto',
-                    whiteSpace: 'pre-wrap',
-                    maxHeight: 128,
-                    overflowY: 'auto',
-                    m: 0,
-                    bgcolor: 'background.paper',
-                  }}
-                >
-                  {query.sql}
+                        {query.sql}
+                      </Box>
+                    </Paper>
+                  ))}
                 </Box>
-              </Paper>
+              </Box>
             ))}
           </Box>
         )}
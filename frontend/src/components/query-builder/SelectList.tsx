@@ -24,11 +24,15 @@ import {
   Link as LinkIcon,
   Code as CodeIcon,
   Layers as LayersIcon,
+  Functions as FunctionsIcon,
+  AccountTree as AccountTreeIcon,
 } from '@mui/icons-material';
 import { DndContext, closestCenter, KeyboardSensor, PointerSensor, useSensor, useSensors, DragEndEvent } from '@dnd-kit/core';
 import { arrayMove, SortableContext, sortableKeyboardCoordinates, verticalListSortingStrategy, useSortable } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
-import type { SelectField } from '../../types/query-builder';
+import type { SelectField, ValidationError } from '../../types/query-builder';
+import { describeWindow } from '../../utils/query-builder/window-functions';
+import { isFatal } from '../../utils/query-builder/query-validator';
 
 interface SelectListProps {
   fields: SelectField[];
@@ -36,7 +40,10 @@ interface SelectListProps {
   onRemove: (fieldId: string) => void;
   onEditAlias: (fieldId: string, alias: string) => void;
   onEditSubquery?: (fieldId: string) => void;
+  onEditWindow?: (fieldId: string) => void;
+  onEditCase?: (fieldId: string) => void;
   tableAliases: Map<string, string>;
+  errors?: ValidationError[]; // Erros ligados a campos do SELECT (GROUP BY, nomes repetidos, tabela fora da query)
 }
 
 interface SortableItemProps {
@@ -45,9 +52,13 @@ interface SortableItemProps {
   onRemove: () => void;
   onEditAlias: (alias: string) => void;
   onEditSubquery?: () => void;
+  windowDescription?: string; // Resumo da função de janela, com os aliases das tabelas
+  onEditWindow?: () => void;
+  onEditCase?: () => void;
+  errors: ValidationError[];
 }
 
-function SortableItem({ field, tableAlias, onRemove, onEditAlias, onEditSubquery }: SortableItemProps) {
+function SortableItem({ field, tableAlias, onRemove, onEditAlias, onEditSubquery, windowDescription, onEditWindow, onEditCase, errors }: SortableItemProps) {
   const theme = useTheme();
   const [isEditing, setIsEditing] = useState(false);
   const [editValue, setEditValue] = useState(field.alias || '');
@@ -97,7 +108,7 @@ function SortableItem({ field, tableAlias, onRemove, onEditAlias, onEditSubquery
         px: 1.5,
         py: 1,
         border: 1,
-        borderColor: 'divider',
+        borderColor: errors.length > 0 ? (errors.some(isFatal) ? 'error.main' : 'warning.main') : 'divider',
         borderRadius: 1,
         transition: 'box-shadow 0.2s',
         '&:hover': {
@@ -164,6 +175,51 @@ function SortableItem({ field, tableAlias, onRemove, onEditAlias, onEditSubquery
               )}
             </Typography>
           </Box>
+        ) : field.window ? (
+          // Função de janela
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+            <FunctionsIcon sx={{ fontSize: 14, color: 'info.main', flexShrink: 0 }} />
+            <Tooltip title={windowDescription}>
+              <Typography
+                variant="body2"
+                noWrap
+                sx={{
+                  fontFamily: 'monospace',
+                  fontSize: '0.8125rem',
+                }}
+              >
+                {windowDescription}
+                {field.alias && (
+                  <Box component="span" sx={{ color: 'primary.main' }}>
+                    {' AS '}
+                    {field.alias}
+                  </Box>
+                )}
+              </Typography>
+            </Tooltip>
+          </Box>
+        ) : field.caseExpression ? (
+          // CASE WHEN estruturado
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+            <AccountTreeIcon sx={{ fontSize: 14, color: 'success.main', flexShrink: 0 }} />
+            <Typography
+              variant="body2"
+              noWrap
+              sx={{
+                fontFamily: 'monospace',
+                fontSize: '0.8125rem',
+              }}
+            >
+              CASE ({field.caseExpression.branches.length} WHEN{field.caseExpression.branches.length === 1 ? '' : 's'}
+              {field.caseExpression.else ? ' + ELSE' : ''})
+              {field.alias && (
+                <Box component="span" sx={{ color: 'primary.main' }}>
+                  {' AS '}
+                  {field.alias}
+                </Box>
+              )}
+            </Typography>
+          </Box>
         ) : field.type === 'aggregate' || field.aggregateFunction ? (
           // Função de agregação
           <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
@@ -177,6 +233,7 @@ function SortableItem({ field, tableAlias, onRemove, onEditAlias, onEditSubquery
               }}
             >
               {field.aggregateFunction}(
+              {field.distinct && field.column !== '*' && 'DISTINCT '}
               {field.column === '*' ? '*' : `${tableAlias}.${field.column}`}
               )
               {field.alias && (
@@ -227,6 +284,16 @@ function SortableItem({ field, tableAlias, onRemove, onEditAlias, onEditSubquery
             )}
           </Typography>
         )}
+        {errors.map(error => (
+          <Typography
+            key={error.type}
+            variant="caption"
+            color={isFatal(error) ? 'error.main' : 'warning.main'}
+            sx={{ display: 'block', lineHeight: 1.3 }}
+          >
+            {error.message}
+          </Typography>
+        ))}
       </Box>
 
       {/* Botões de ação */}
@@ -299,7 +366,41 @@ function SortableItem({ field, tableAlias, onRemove, onEditAlias, onEditSubquery
                 </IconButton>
               </Tooltip>
             )}
-            {!(field.type === 'subquery' || field.subquery) && (
+            {field.window && onEditWindow && (
+              <Tooltip title="Editar função de janela">
+                <IconButton
+                  onClick={onEditWindow}
+                  size="small"
+                  sx={{
+                    color: 'text.secondary',
+                    p: 0.5,
+                    '&:hover': {
+                      color: 'info.main',
+                    },
+                  }}
+                >
+                  <FunctionsIcon sx={{ fontSize: 14 }} />
+                </IconButton>
+              </Tooltip>
+            )}
+            {field.caseExpression && onEditCase && (
+              <Tooltip title="Editar CASE">
+                <IconButton
+                  onClick={onEditCase}
+                  size="small"
+                  sx={{
+                    color: 'text.secondary',
+                    p: 0.5,
+                    '&:hover': {
+                      color: 'success.main',
+                    },
+                  }}
+                >
+                  <AccountTreeIcon sx={{ fontSize: 14 }} />
+                </IconButton>
+              </Tooltip>
+            )}
+            {!(field.type === 'subquery' || field.subquery || field.window || field.caseExpression) && (
               <Tooltip title="Ver relacionamentos">
                 <IconButton
                   onClick={() => {
@@ -362,7 +463,10 @@ export default function SelectList({
   onRemove,
   onEditAlias,
   onEditSubquery,
+  onEditWindow,
+  onEditCase,
   tableAliases,
+  errors = [],
 }: SelectListProps) {
   const sensors = useSensors(
     useSensor(PointerSensor),
@@ -447,6 +551,10 @@ export default function SelectList({
                   onRemove={() => onRemove(field.id)}
                   onEditAlias={(alias) => onEditAlias(field.id, alias)}
                   onEditSubquery={onEditSubquery ? () => onEditSubquery(field.id) : undefined}
+                  windowDescription={field.window ? describeWindow(field.window, getTableAlias) : undefined}
+                  onEditWindow={onEditWindow ? () => onEditWindow(field.id) : undefined}
+                  onEditCase={onEditCase ? () => onEditCase(field.id) : undefined}
+                  errors={errors.filter(e => e.field === field.id)}
                 />
               ))}
             </Box>
@@ -35,6 +35,7 @@ import {
 } from '@mui/icons-material';
 import type { QueryAST } from '../../types/query-builder';
 import type { GraphNode, GraphEdge } from '../../api/client';
+import type { DatabaseDialect } from '../../utils/query-builder/sql-generator';
 import { useQueryBuilder } from '../../hooks/useQueryBuilder';
 import TableExplorer from './TableExplorer';
 import SelectList from './SelectList';
@@ -70,7 +71,7 @@ interface SubqueryBuilderProps {
   /** Arestas do grafo (relacionamentos) */
   edges: GraphEdge[];
   /** Tipo do banco */
-  dbType: 'mysql' | 'sqlserver';
+  dbType: DatabaseDialect;
   /** Título do modal */
   title?: string;
   /** FieldId do subselect sendo editado (para atualização) */
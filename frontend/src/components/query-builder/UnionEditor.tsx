@@ -27,6 +27,7 @@ import {
 } from '@mui/icons-material';
 import type { UnionClause, QueryAST } from '../../types/query-builder';
 import type { GraphNode, GraphEdge } from '../../api/client';
+import type { DatabaseDialect } from '../../utils/query-builder/sql-generator';
 import SubqueryBuilder from './SubqueryBuilder';
 
 interface UnionEditorProps {
@@ -37,7 +38,7 @@ interface UnionEditorProps {
   onReorder: (unions: UnionClause[]) => void;
   nodes: GraphNode[];
   edges: GraphEdge[];
-  dbType?: 'mysql' | 'sqlserver';
+  dbType?: DatabaseDialect;
 }
 
 export default function UnionEditor({
@@ -24,50 +24,67 @@ import {
   Check as CheckIcon,
   Close as CloseIcon,
   Storage as StorageIcon,
+  AccountTree as GroupIcon,
+  ArrowUpward as ArrowUpIcon,
+  ArrowDownward as ArrowDownIcon,
 } from '@mui/icons-material';
-import type { WhereCondition, WhereOperator, WhereLogicalOperator, QueryAST } from '../../types/query-builder';
+import type { WhereCondition, WhereGroup, WhereOperator, WhereLogicalOperator, ValidationError } from '../../types/query-builder';
 import type { GraphNode, GraphEdge } from '../../api/client';
+import type { DatabaseDialect } from '../../utils/query-builder/sql-generator';
+import { findWhereItem, flattenWhereConditions, isWhereGroup } from '../../utils/query-builder/where-tree';
+import { isFatal } from '../../utils/query-builder/query-validator';
 import SubqueryBuilder from './SubqueryBuilder';
 
 interface WhereEditorProps {
-  conditions: WhereCondition[];
-  onAdd: (condition: WhereCondition) => void;
+  root?: WhereGroup; // Grupo raiz do WHERE; ausente enquanto não há condições
+  onAdd: (condition: WhereCondition, groupId?: string) => void;
+  onAddGroup: (operator: WhereLogicalOperator, groupId?: string) => void;
   onUpdate: (conditionId: string, updates: Partial<WhereCondition>) => void;
-  onRemove: (conditionId: string) => void;
-  onReorder: (conditions: WhereCondition[]) => void;
+  onSetGroupOperator: (groupId: string, operator: WhereLogicalOperator) => void;
+  onRemove: (itemId: string) => void; // Condição ou grupo inteiro
+  onMove: (itemId: string, offset: -1 | 1) => void;
   nodes: GraphNode[];
   edges: GraphEdge[]; // Arestas para subselects
-  dbType: 'mysql' | 'sqlserver'; // Tipo do banco para subselects
+  dbType: DatabaseDialect; // Tipo do banco para subselects
   availableTables: Set<string>; // Tabelas disponíveis (FROM + JOINs)
   tableAliases: Map<string, string>; // Mapa de tableId -> alias
+  errors?: ValidationError[]; // Erros de validação das condições (tipo do valor, tabela fora da query)
 }
 
 const WHERE_OPERATORS: WhereOperator[] = ['=', '!=', '<>', '>', '>=', '<', '<=', 'LIKE', 'NOT LIKE', 'IN', 'NOT IN', 'IS NULL', 'IS NOT NULL', 'BETWEEN', 'NOT BETWEEN', 'EXISTS', 'NOT EXISTS'];
 const LOGICAL_OPERATORS: WhereLogicalOperator[] = ['AND', 'OR'];
 
+const EMPTY_CONDITION: Partial<WhereCondition> = {
+  tableId: '',
+  column: '',
+  operator: '=',
+  value: '',
+};
+
+// Raiz usada antes da primeira condição; o hook cria a raiz de verdade ao adicionar
+const EMPTY_ROOT: WhereGroup = { id: '', kind: 'group', operator: 'AND', items: [] };
+
 export default function WhereEditor({
-  conditions,
+  root = EMPTY_ROOT,
   onAdd,
+  onAddGroup,
   onUpdate,
+  onSetGroupOperator,
   onRemove,
-  onReorder,
+  onMove,
   nodes,
   edges,
   dbType,
   availableTables,
   tableAliases,
+  errors = [],
 }: WhereEditorProps) {
   const theme = useTheme();
   const [editingId, setEditingId] = useState<string | null>(null);
-  const [isAdding, setIsAdding] = useState(false);
+  const [addingToGroupId, setAddingToGroupId] = useState<string | null>(null); // Grupo que recebe a nova condição
   const [editingSubqueryId, setEditingSubqueryId] = useState<string | null>(null);
-  const [newCondition, setNewCondition] = useState<Partial<WhereCondition>>({
-    tableId: '',
-    column: '',
-    operator: '=',
-    value: '',
-    logicalOperator: 'AND',
-  });
+  const [newCondition, setNewCondition] = useState<Partial<WhereCondition>>(EMPTY_CONDITION);
+  const conditionCount = flattenWhereConditions(root).length;
 
   // Obter colunas disponíveis de uma tabela
   const getColumnsForTable = (tableId: string): string[] => {
@@ -95,19 +112,11 @@ export default function WhereEditor({
       operator: newCondition.operator || '=',
       value: newCondition.value,
       subquery: newCondition.subquery,
-      logicalOperator: newCondition.logicalOperator || 'AND',
-      order: conditions.length,
     };
 
-    onAdd(condition);
-    setIsAdding(false);
-    setNewCondition({
-      tableId: '',
-      column: '',
-      operator: '=',
-      value: '',
-      logicalOperator: 'AND',
-    });
+    onAdd(condition, addingToGroupId || undefined);
+    setAddingToGroupId(null);
+    setNewCondition(EMPTY_CONDITION);
   };
 
   const handleUpdate = (id: string, updates: Partial<WhereCondition>) => {
@@ -154,7 +163,499 @@ export default function WhereEditor({
     return value;
   };
 
-  const sortedConditions = [...conditions].sort((a, b) => a.order - b.order);
+  const startAdding = (groupId: string) => {
+    setNewCondition(EMPTY_CONDITION);
+    setAddingToGroupId(groupId);
+  };
+
+  const renderCondition = (condition: WhereCondition, index: number, siblingCount: number) => {
+    const isEditing = editingId === condition.id;
+    const alias = getTableAlias(condition.tableId);
+    const columns = getColumnsForTable(condition.tableId);
+    const error = errors.find(e => e.field === condition.id);
+
+    return (
+      <Paper
+        key={condition.id}
+        elevation={0}
+        sx={{
+          p: 1.5,
+          border: 1,
+          borderColor: error ? (isFatal(error) ? 'error.main' : 'warning.main') : 'divider',
+          borderRadius: 1,
+          bgcolor: 'action.hover',
+        }}
+      >
+        {isEditing ? (
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+              <FormControl size="small" sx={{ flex: 1, minWidth: 120 }}>
+                <Select
+                  value={condition.tableId}
+                  onChange={e => {
+                    const newTableId = e.target.value;
+                    handleUpdate(condition.id, { 
+                      tableId: newTableId,
+                      column: '', // Resetar coluna ao mudar tabela
+                    });
+                  }}
+                  sx={{ fontSize: '0.75rem', height: 32 }}
+                >
+                  <MenuItem value="" sx={{ fontSize: '0.75rem' }}>Selecione tabela</MenuItem>
+                  {Array.from(availableTables).map(tableId => {
+                    const tableName = tableId.includes('.') 
+                      ? tableId.split('.').pop() || tableId
+                      : tableId;
+                    return (
+                      <MenuItem key={tableId} value={tableId} sx={{ fontSize: '0.75rem' }}>
+                        {tableName} AS {getTableAlias(tableId)}
+                      </MenuItem>
+                    );
+                  })}
+                </Select>
+              </FormControl>
+              <FormControl size="small" sx={{ flex: 1, minWidth: 120 }} disabled={!condition.tableId}>
+                <Select
+                  value={condition.column}
+                  onChange={e => handleUpdate(condition.id, { column: e.target.value })}
+                  sx={{ fontSize: '0.75rem', height: 32 }}
+                >
+                  <MenuItem value="" sx={{ fontSize: '0.75rem' }}>Selecione coluna</MenuItem>
+                  {columns.map(col => (
+                    <MenuItem key={col} value={col} sx={{ fontSize: '0.75rem' }}>
+                      {col}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              <FormControl size="small" sx={{ minWidth: 120 }}>
+                <Select
+                  value={condition.operator}
+                  onChange={e => handleUpdate(condition.id, { operator: e.target.value as WhereOperator })}
+                  sx={{ fontSize: '0.75rem', height: 32 }}
+                >
+                  {WHERE_OPERATORS.map(op => (
+                    <MenuItem key={op} value={op} sx={{ fontSize: '0.75rem' }}>
+                      {op}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Box>
+            {needsValue(condition.operator) && !needsSubquery(condition.operator) && (
+              <TextField
+                size="small"
+                fullWidth
+                value={formatValue(condition.value, condition.operator)}
+                onChange={e => {
+                  const parsed = parseValue(e.target.value, condition.operator);
+                  handleUpdate(condition.id, { value: parsed });
+                }}
+                placeholder={needsMultipleValues(condition.operator) ? 'valor1, valor2, ...' : 'valor ou :parametro'}
+                sx={{
+                  '& .MuiInputBase-root': {
+                    fontSize: '0.75rem',
+                    fontFamily: 'monospace',
+                    height: 32,
+                  },
+                }}
+              />
+            )}
+            {needsSubquery(condition.operator) && (
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                <Paper
+                  elevation={0}
+                  sx={{
+                    flex: 1,
+                    px: 1,
+                    py: 0.5,
+                    border: 1,
+                    borderColor: condition.subquery ? 'success.main' : 'divider',
+                    bgcolor: condition.subquery ? alpha(theme.palette.success.main, 0.08) : 'action.hover',
+                    borderRadius: 0.5,
+                  }}
+                >
+                  <Typography
+                    variant="caption"
+                    sx={{
+                      fontFamily: 'monospace',
+                      fontSize: '0.75rem',
+                      color: condition.subquery ? 'success.main' : 'text.secondary',
+                    }}
+                  >
+                    {condition.subquery ? 'Subselect configurado' : 'Nenhum subselect configurado'}
+                  </Typography>
+                </Paper>
+                <Button
+                  onClick={() => setEditingSubqueryId(condition.id)}
+                  size="small"
+                  variant="contained"
+                  startIcon={<StorageIcon sx={{ fontSize: 14 }} />}
+                  sx={{
+                    fontSize: '0.75rem',
+                    px: 1,
+                    py: 0.5,
+                    minHeight: 'auto',
+                  }}
+                >
+                  {condition.subquery ? 'Editar' : 'Criar'} Subselect
+                </Button>
+              </Box>
+            )}
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, justifyContent: 'flex-end' }}>
+              <Button
+                onClick={() => setEditingId(null)}
+                size="small"
+                sx={{ fontSize: '0.75rem', minHeight: 'auto' }}
+              >
+                Cancelar
+              </Button>
+              <Button
+                onClick={() => setEditingId(null)}
+                size="small"
+                variant="contained"
+                sx={{ fontSize: '0.75rem', minHeight: 'auto' }}
+              >
+                Salvar
+              </Button>
+            </Box>
+          </Box>
+        ) : (
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <Typography
+              variant="body2"
+              sx={{
+                fontFamily: 'monospace',
+                fontSize: '0.75rem',
+                flex: 1,
+              }}
+            >
+              {condition.operator === 'EXISTS' || condition.operator === 'NOT EXISTS' 
+                ? `${condition.operator} (subselect)`
+                : `${alias}.${condition.column} ${condition.operator} ${condition.subquery ? '(subselect)' : needsValue(condition.operator) ? formatValue(condition.value, condition.operator) : ''}`
+              }
+            </Typography>
+            <Tooltip title="Mover para cima">
+              <span>
+                <IconButton
+                  onClick={() => onMove(condition.id, -1)}
+                  disabled={index === 0}
+                  size="small"
+                  sx={{ color: 'text.secondary' }}
+                >
+                  <ArrowUpIcon sx={{ fontSize: 14 }} />
+                </IconButton>
+              </span>
+            </Tooltip>
+            <Tooltip title="Mover para baixo">
+              <span>
+                <IconButton
+                  onClick={() => onMove(condition.id, 1)}
+                  disabled={index === siblingCount - 1}
+                  size="small"
+                  sx={{ color: 'text.secondary' }}
+                >
+                  <ArrowDownIcon sx={{ fontSize: 14 }} />
+                </IconButton>
+              </span>
+            </Tooltip>
+            <Tooltip title="Editar">
+              <IconButton
+                onClick={() => setEditingId(condition.id)}
+                size="small"
+                sx={{
+                  color: 'text.secondary',
+                  '&:hover': {
+                    color: 'primary.main',
+                  },
+                }}
+              >
+                <EditIcon sx={{ fontSize: 14 }} />
+              </IconButton>
+            </Tooltip>
+            <Tooltip title="Remover">
+              <IconButton
+                onClick={() => onRemove(condition.id)}
+                size="small"
+                sx={{
+                  color: 'text.secondary',
+                  '&:hover': {
+                    color: 'error.main',
+                  },
+                }}
+              >
+                <DeleteIcon sx={{ fontSize: 14 }} />
+              </IconButton>
+            </Tooltip>
+          </Box>
+        )}
+        {error && (
+          <Typography variant="caption" color={isFatal(error) ? 'error.main' : 'warning.main'}>
+            {error.message}
+          </Typography>
+        )}
+      </Paper>
+    );
+  };
+
+  const renderAddForm = () => (
+      <Paper
+        elevation={0}
+        sx={{
+          p: 1.5,
+          border: 1,
+          borderColor: 'primary.main',
+          borderRadius: 1,
+          bgcolor: alpha(theme.palette.primary.main, 0.04),
+        }}
+      >
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+            <FormControl size="small" sx={{ flex: 1, minWidth: 120 }}>
+              <Select
+                value={newCondition.tableId || ''}
+                onChange={e => setNewCondition({ ...newCondition, tableId: e.target.value, column: '' })}
+                sx={{ fontSize: '0.75rem', height: 32 }}
+              >
+                <MenuItem value="" sx={{ fontSize: '0.75rem' }}>Selecione tabela</MenuItem>
+                {Array.from(availableTables).map(tableId => {
+                  const tableName = tableId.includes('.') 
+                    ? tableId.split('.').pop() || tableId
+                    : tableId;
+                  return (
+                    <MenuItem key={tableId} value={tableId} sx={{ fontSize: '0.75rem' }}>
+                      {tableName} AS {getTableAlias(tableId)}
+                    </MenuItem>
+                  );
+                })}
+              </Select>
+            </FormControl>
+            <FormControl size="small" sx={{ flex: 1, minWidth: 120 }} disabled={!newCondition.tableId}>
+              <Select
+                value={newCondition.column || ''}
+                onChange={e => setNewCondition({ ...newCondition, column: e.target.value })}
+                sx={{ fontSize: '0.75rem', height: 32 }}
+              >
+                <MenuItem value="" sx={{ fontSize: '0.75rem' }}>Selecione coluna</MenuItem>
+                {newCondition.tableId && getColumnsForTable(newCondition.tableId).map(col => (
+                  <MenuItem key={col} value={col} sx={{ fontSize: '0.75rem' }}>
+                    {col}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <FormControl size="small" sx={{ minWidth: 120 }}>
+              <Select
+                value={newCondition.operator || '='}
+                onChange={e => setNewCondition({ ...newCondition, operator: e.target.value as WhereOperator })}
+                sx={{ fontSize: '0.75rem', height: 32 }}
+              >
+                {WHERE_OPERATORS.map(op => (
+                  <MenuItem key={op} value={op} sx={{ fontSize: '0.75rem' }}>
+                    {op}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Box>
+          {needsValue(newCondition.operator || '=') && !needsSubquery(newCondition.operator || '=') && (
+            <TextField
+              size="small"
+              fullWidth
+              value={formatValue(newCondition.value, newCondition.operator || '=')}
+              onChange={e => {
+                const parsed = parseValue(e.target.value, newCondition.operator || '=');
+                setNewCondition({ ...newCondition, value: parsed });
+              }}
+              placeholder={needsMultipleValues(newCondition.operator || '=') ? 'valor1, valor2, ...' : 'valor ou :parametro'}
+              sx={{
+                '& .MuiInputBase-root': {
+                  fontSize: '0.75rem',
+                  fontFamily: 'monospace',
+                  height: 32,
+                },
+              }}
+            />
+          )}
+          {needsSubquery(newCondition.operator || '=') && (
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+              <Paper
+                elevation={0}
+                sx={{
+                  flex: 1,
+                  px: 1,
+                  py: 0.5,
+                  border: 1,
+                  borderColor: newCondition.subquery ? 'success.main' : 'divider',
+                  bgcolor: newCondition.subquery ? alpha(theme.palette.success.main, 0.08) : 'action.hover',
+                  borderRadius: 0.5,
+                }}
+              >
+                <Typography
+                  variant="caption"
+                  sx={{
+                    fontFamily: 'monospace',
+                    fontSize: '0.75rem',
+                    color: newCondition.subquery ? 'success.main' : 'text.secondary',
+                  }}
+                >
+                  {newCondition.subquery ? 'Subselect configurado' : 'Nenhum subselect configurado'}
+                </Typography>
+              </Paper>
+              <Button
+                onClick={() => setEditingSubqueryId('new')}
+                size="small"
+                variant="contained"
+                startIcon={<StorageIcon sx={{ fontSize: 14 }} />}
+                sx={{
+                  fontSize: '0.75rem',
+                  px: 1,
+                  py: 0.5,
+                  minHeight: 'auto',
+                }}
+              >
+                {newCondition.subquery ? 'Editar' : 'Criar'} Subselect
+              </Button>
+            </Box>
+          )}
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, justifyContent: 'flex-end' }}>
+            <Button
+              onClick={() => {
+                setAddingToGroupId(null);
+                setNewCondition(EMPTY_CONDITION);
+              }}
+              size="small"
+              sx={{ fontSize: '0.75rem', minHeight: 'auto' }}
+            >
+              Cancelar
+            </Button>
+            <Button
+              onClick={handleAdd}
+              disabled={!newCondition.tableId || !newCondition.column || !newCondition.operator}
+              size="small"
+              variant="contained"
+              sx={{ fontSize: '0.75rem', minHeight: 'auto' }}
+            >
+              Adicionar
+            </Button>
+          </Box>
+        </Box>
+      </Paper>
+  );
+
+  // Grupo com seu operador; a raiz fica sem borda e sem botão de remover
+  const renderGroup = (group: WhereGroup, depth: number, index = 0, siblingCount = 1) => {
+    const isRoot = depth === 0;
+
+    return (
+      <Box
+        key={group.id || 'root'}
+        sx={{
+          display: 'flex',
+          flexDirection: 'column',
+          gap: 1,
+          ...(!isRoot && {
+            p: 1,
+            pl: 1.5,
+            border: 1,
+            borderColor: 'divider',
+            borderLeft: 3,
+            borderLeftColor: group.operator === 'OR' ? 'warning.main' : 'primary.main',
+            borderRadius: 1,
+          }),
+        }}
+      >
+        {(!isRoot || group.items.length > 1) && (
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <FormControl size="small" sx={{ minWidth: 80 }}>
+              <Select
+                value={group.operator}
+                onChange={e => onSetGroupOperator(group.id, e.target.value as WhereLogicalOperator)}
+                sx={{ fontSize: '0.75rem', height: 28 }}
+              >
+                {LOGICAL_OPERATORS.map(op => (
+                  <MenuItem key={op} value={op} sx={{ fontSize: '0.75rem' }}>
+                    {op}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <Typography variant="caption" color="text.secondary" sx={{ flex: 1 }}>
+              {group.operator === 'AND' ? 'todas as condições' : 'qualquer condição'}
+              {isRoot ? '' : ' do grupo'}
+            </Typography>
+            {!isRoot && (
+              <>
+                <Tooltip title="Mover grupo para cima">
+                  <span>
+                    <IconButton onClick={() => onMove(group.id, -1)} disabled={index === 0} size="small" sx={{ color: 'text.secondary' }}>
+                      <ArrowUpIcon sx={{ fontSize: 14 }} />
+                    </IconButton>
+                  </span>
+                </Tooltip>
+                <Tooltip title="Mover grupo para baixo">
+                  <span>
+                    <IconButton onClick={() => onMove(group.id, 1)} disabled={index === siblingCount - 1} size="small" sx={{ color: 'text.secondary' }}>
+                      <ArrowDownIcon sx={{ fontSize: 14 }} />
+                    </IconButton>
+                  </span>
+                </Tooltip>
+                <Tooltip title="Remover grupo e suas condições">
+                  <IconButton
+                    onClick={() => onRemove(group.id)}
+                    size="small"
+                    sx={{ color: 'text.secondary', '&:hover': { color: 'error.main' } }}
+                  >
+                    <DeleteIcon sx={{ fontSize: 14 }} />
+                  </IconButton>
+                </Tooltip>
+              </>
+            )}
+          </Box>
+        )}
+
+        {group.items.map((item, itemIndex) => (
+          <Box key={item.id} sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+            {itemIndex > 0 && (
+              <Typography variant="caption" sx={{ fontWeight: 600, color: 'text.secondary', px: 0.5 }}>
+                {group.operator}
+              </Typography>
+            )}
+            {isWhereGroup(item)
+              ? renderGroup(item, depth + 1, itemIndex, group.items.length)
+              : renderCondition(item, itemIndex, group.items.length)}
+          </Box>
+        ))}
+
+        {addingToGroupId === group.id && renderAddForm()}
+
+        {!isRoot && addingToGroupId !== group.id && (
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            <Button
+              onClick={() => startAdding(group.id)}
+              size="small"
+              startIcon={<AddIcon sx={{ fontSize: 14 }} />}
+              sx={{ fontSize: '0.75rem', minHeight: 'auto' }}
+            >
+              Condição
+            </Button>
+            <Button
+              onClick={() => onAddGroup(group.operator === 'AND' ? 'OR' : 'AND', group.id)}
+              size="small"
+              startIcon={<GroupIcon sx={{ fontSize: 14 }} />}
+              sx={{ fontSize: '0.75rem', minHeight: 'auto' }}
+            >
+              Grupo
+            </Button>
+          </Box>
+        )}
+      </Box>
+    );
+  };
+
+  const editingSubqueryCondition = editingSubqueryId && editingSubqueryId !== 'new'
+    ? findWhereItem(root, editingSubqueryId)
+    : undefined;
 
   return (
     <Box
@@ -176,22 +677,38 @@ export default function WhereEditor({
         }}
       >
         <Typography variant="subtitle2" fontWeight={600}>
-          WHERE ({conditions.length})
+          WHERE ({conditionCount})
         </Typography>
-        <Tooltip title="Adicionar condição">
-          <IconButton
-            onClick={() => setIsAdding(true)}
-            size="small"
-            sx={{
-              color: 'primary.main',
-              '&:hover': {
-                bgcolor: alpha(theme.palette.primary.main, 0.08),
-              },
-            }}
-          >
-            <AddIcon sx={{ fontSize: 16 }} />
-          </IconButton>
-        </Tooltip>
+        <Box sx={{ display: 'flex', gap: 0.5 }}>
+          <Tooltip title="Adicionar grupo de condições">
+            <IconButton
+              onClick={() => onAddGroup(root.operator === 'AND' ? 'OR' : 'AND', root.id || undefined)}
+              size="small"
+              sx={{
+                color: 'primary.main',
+                '&:hover': {
+                  bgcolor: alpha(theme.palette.primary.main, 0.08),
+                },
+              }}
+            >
+              <GroupIcon sx={{ fontSize: 16 }} />
+            </IconButton>
+          </Tooltip>
+          <Tooltip title="Adicionar condição">
+            <IconButton
+              onClick={() => startAdding(root.id)}
+              size="small"
+              sx={{
+                color: 'primary.main',
+                '&:hover': {
+                  bgcolor: alpha(theme.palette.primary.main, 0.08),
+                },
+              }}
+            >
+              <AddIcon sx={{ fontSize: 16 }} />
+            </IconButton>
+          </Tooltip>
+        </Box>
       </Box>
       <Box
         sx={{
@@ -200,7 +717,7 @@ export default function WhereEditor({
           p: 1.5,
         }}
       >
-        {sortedConditions.length === 0 && !isAdding ? (
+        {root.items.length === 0 && addingToGroupId === null ? (
           <Box
             sx={{
               textAlign: 'center',
@@ -214,401 +731,7 @@ export default function WhereEditor({
             </Typography>
           </Box>
         ) : (
-          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
-            {sortedConditions.map((condition, index) => {
-              const isEditing = editingId === condition.id;
-              const tableName = condition.tableId.includes('.') 
-                ? condition.tableId.split('.').pop() || condition.tableId
-                : condition.tableId;
-              const alias = getTableAlias(condition.tableId);
-              const columns = getColumnsForTable(condition.tableId);
-
-              return (
-                <Paper
-                  key={condition.id}
-                  elevation={0}
-                  sx={{
-                    p: 1.5,
-                    border: 1,
-                    borderColor: 'divider',
-                    borderRadius: 1,
-                    bgcolor: 'action.hover',
-                  }}
-                >
-                  {isEditing ? (
-                    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
-                      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
-                        {index > 0 && (
-                          <FormControl size="small" sx={{ minWidth: 80 }}>
-                            <Select
-                              value={condition.logicalOperator || 'AND'}
-                              onChange={e => handleUpdate(condition.id, { logicalOperator: e.target.value as WhereLogicalOperator })}
-                              sx={{ fontSize: '0.75rem', height: 32 }}
-                            >
-                              {LOGICAL_OPERATORS.map(op => (
-                                <MenuItem key={op} value={op} sx={{ fontSize: '0.75rem' }}>
-                                  {op}
-                                </MenuItem>
-                              ))}
-                            </Select>
-                          </FormControl>
-                        )}
-                        <FormControl size="small" sx={{ flex: 1, minWidth: 120 }}>
-                          <Select
-                            value={condition.tableId}
-                            onChange={e => {
-                              const newTableId = e.target.value;
-                              handleUpdate(condition.id, { 
-                                tableId: newTableId,
-                                column: '', // Resetar coluna ao mudar tabela
-                              });
-                            }}
-                            sx={{ fontSize: '0.75rem', height: 32 }}
-                          >
-                            <MenuItem value="" sx={{ fontSize: '0.75rem' }}>Selecione tabela</MenuItem>
-                            {Array.from(availableTables).map(tableId => {
-                              const tableName = tableId.includes('.') 
-                                ? tableId.split('.').pop() || tableId
-                                : tableId;
-                              return (
-                                <MenuItem key={tableId} value={tableId} sx={{ fontSize: '0.75rem' }}>
-                                  {tableName} AS {getTableAlias(tableId)}
-                                </MenuItem>
-                              );
-                            })}
-                          </Select>
-                        </FormControl>
-                        <FormControl size="small" sx={{ flex: 1, minWidth: 120 }} disabled={!condition.tableId}>
-                          <Select
-                            value={condition.column}
-                            onChange={e => handleUpdate(condition.id, { column: e.target.value })}
-                            sx={{ fontSize: '0.75rem', height: 32 }}
-                          >
-                            <MenuItem value="" sx={{ fontSize: '0.75rem' }}>Selecione coluna</MenuItem>
-                            {columns.map(col => (
-                              <MenuItem key={col} value={col} sx={{ fontSize: '0.75rem' }}>
-                                {col}
-                              </MenuItem>
-                            ))}
-                          </Select>
-                        </FormControl>
-                        <FormControl size="small" sx={{ minWidth: 120 }}>
-                          <Select
-                            value={condition.operator}
-                            onChange={e => handleUpdate(condition.id, { operator: e.target.value as WhereOperator })}
-                            sx={{ fontSize: '0.75rem', height: 32 }}
-                          >
-                            {WHERE_OPERATORS.map(op => (
-                              <MenuItem key={op} value={op} sx={{ fontSize: '0.75rem' }}>
-                                {op}
-                              </MenuItem>
-                            ))}
-                          </Select>
-                        </FormControl>
-                      </Box>
-                      {needsValue(condition.operator) && !needsSubquery(condition.operator) && (
-                        <TextField
-                          size="small"
-                          fullWidth
-                          value={formatValue(condition.value, condition.operator)}
-                          onChange={e => {
-                            const parsed = parseValue(e.target.value, condition.operator);
-                            handleUpdate(condition.id, { value: parsed });
-                          }}
-                          placeholder={needsMultipleValues(condition.operator) ? 'valor1, valor2, ...' : 'valor'}
-                          sx={{
-                            '& .MuiInputBase-root': {
-                              fontSize: '0.75rem',
-                              fontFamily: 'monospace',
-                              height: 32,
-                            },
-                          }}
-                        />
-                      )}
-                      {needsSubquery(condition.operator) && (
-                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
-                          <Paper
-                            elevation={0}
-                            sx={{
-                              flex: 1,
-                              px: 1,
-                              py: 0.5,
-                              border: 1,
-                              borderColor: condition.subquery ? 'success.main' : 'divider',
-                              bgcolor: condition.subquery ? alpha(theme.palette.success.main, 0.08) : 'action.hover',
-                              borderRadius: 0.5,
-                            }}
-                          >
-                            <Typography
-                              variant="caption"
-                              sx={{
-                                fontFamily: 'monospace',
-                                fontSize: '0.75rem',
-                                color: condition.subquery ? 'success.main' : 'text.secondary',
-                              }}
-                            >
-                              {condition.subquery ? 'Subselect configurado' : 'Nenhum subselect configurado'}
-                            </Typography>
-                          </Paper>
-                          <Button
-                            onClick={() => setEditingSubqueryId(condition.id)}
-                            size="small"
-                            variant="contained"
-                            startIcon={<StorageIcon sx={{ fontSize: 14 }} />}
-                            sx={{
-                              fontSize: '0.75rem',
-                              px: 1,
-                              py: 0.5,
-                              minHeight: 'auto',
-                            }}
-                          >
-                            {condition.subquery ? 'Editar' : 'Criar'} Subselect
-                          </Button>
-                        </Box>
-                      )}
-                      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, justifyContent: 'flex-end' }}>
-                        <Button
-                          onClick={() => setEditingId(null)}
-                          size="small"
-                          sx={{ fontSize: '0.75rem', minHeight: 'auto' }}
-                        >
-                          Cancelar
-                        </Button>
-                        <Button
-                          onClick={() => setEditingId(null)}
-                          size="small"
-                          variant="contained"
-                          sx={{ fontSize: '0.75rem', minHeight: 'auto' }}
-                        >
-                          Salvar
-                        </Button>
-                      </Box>
-                    </Box>
-                  ) : (
-                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
-                      {index > 0 && (
-                        <Typography
-                          variant="caption"
-                          sx={{
-                            fontWeight: 600,
-                            color: 'text.secondary',
-                            px: 0.5,
-                          }}
-                        >
-                          {condition.logicalOperator || 'AND'}
-                        </Typography>
-                      )}
-                      <Typography
-                        variant="body2"
-                        sx={{
-                          fontFamily: 'monospace',
-                          fontSize: '0.75rem',
-                          flex: 1,
-                        }}
-                      >
-                        {condition.operator === 'EXISTS' || condition.operator === 'NOT EXISTS' 
-                          ? `${condition.operator} (subselect)`
-                          : `${alias}.${condition.column} ${condition.operator} ${condition.subquery ? '(subselect)' : needsValue(condition.operator) ? formatValue(condition.value, condition.operator) : ''}`
-                        }
-                      </Typography>
-                      <Tooltip title="Editar">
-                        <IconButton
-                          onClick={() => setEditingId(condition.id)}
-                          size="small"
-                          sx={{
-                            color: 'text.secondary',
-                            '&:hover': {
-                              color: 'primary.main',
-                            },
-                          }}
-                        >
-                          <EditIcon sx={{ fontSize: 14 }} />
-                        </IconButton>
-                      </Tooltip>
-                      <Tooltip title="Remover">
-                        <IconButton
-                          onClick={() => onRemove(condition.id)}
-                          size="small"
-                          sx={{
-                            color: 'text.secondary',
-                            '&:hover': {
-                              color: 'error.main',
-                            },
-                          }}
-                        >
-                          <DeleteIcon sx={{ fontSize: 14 }} />
-                        </IconButton>
-                      </Tooltip>
-                    </Box>
-                  )}
-                </Paper>
-              );
-            })}
-
-            {isAdding && (
-              <Paper
-                elevation={0}
-                sx={{
-                  p: 1.5,
-                  border: 1,
-                  borderColor: 'primary.main',
-                  borderRadius: 1,
-                  bgcolor: alpha(theme.palette.primary.main, 0.04),
-                }}
-              >
-                <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
-                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
-                    <FormControl size="small" sx={{ minWidth: 80 }}>
-                      <Select
-                        value={newCondition.logicalOperator || 'AND'}
-                        onChange={e => setNewCondition({ ...newCondition, logicalOperator: e.target.value as WhereLogicalOperator })}
-                        sx={{ fontSize: '0.75rem', height: 32 }}
-                      >
-                        {LOGICAL_OPERATORS.map(op => (
-                          <MenuItem key={op} value={op} sx={{ fontSize: '0.75rem' }}>
-                            {op}
-                          </MenuItem>
-                        ))}
-                      </Select>
-                    </FormControl>
-                    <FormControl size="small" sx={{ flex: 1, minWidth: 120 }}>
-                      <Select
-                        value={newCondition.tableId || ''}
-                        onChange={e => setNewCondition({ ...newCondition, tableId: e.target.value, column: '' })}
-                        sx={{ fontSize: '0.75rem', height: 32 }}
-                      >
-                        <MenuItem value="" sx={{ fontSize: '0.75rem' }}>Selecione tabela</MenuItem>
-                        {Array.from(availableTables).map(tableId => {
-                          const tableName = tableId.includes('.') 
-                            ? tableId.split('.').pop() || tableId
-                            : tableId;
-                          return (
-                            <MenuItem key={tableId} value={tableId} sx={{ fontSize: '0.75rem' }}>
-                              {tableName} AS {getTableAlias(tableId)}
-                            </MenuItem>
-                          );
-                        })}
-                      </Select>
-                    </FormControl>
-                    <FormControl size="small" sx={{ flex: 1, minWidth: 120 }} disabled={!newCondition.tableId}>
-                      <Select
-                        value={newCondition.column || ''}
-                        onChange={e => setNewCondition({ ...newCondition, column: e.target.value })}
-                        sx={{ fontSize: '0.75rem', height: 32 }}
-                      >
-                        <MenuItem value="" sx={{ fontSize: '0.75rem' }}>Selecione coluna</MenuItem>
-                        {newCondition.tableId && getColumnsForTable(newCondition.tableId).map(col => (
-                          <MenuItem key={col} value={col} sx={{ fontSize: '0.75rem' }}>
-                            {col}
-                          </MenuItem>
-                        ))}
-                      </Select>
-                    </FormControl>
-                    <FormControl size="small" sx={{ minWidth: 120 }}>
-                      <Select
-                        value={newCondition.operator || '='}
-                        onChange={e => setNewCondition({ ...newCondition, operator: e.target.value as WhereOperator })}
-                        sx={{ fontSize: '0.75rem', height: 32 }}
-                      >
-                        {WHERE_OPERATORS.map(op => (
-                          <MenuItem key={op} value={op} sx={{ fontSize: '0.75rem' }}>
-                            {op}
-                          </MenuItem>
-                        ))}
-                      </Select>
-                    </FormControl>
-                  </Box>
-                  {needsValue(newCondition.operator || '=') && !needsSubquery(newCondition.operator || '=') && (
-                    <TextField
-                      size="small"
-                      fullWidth
-                      value={formatValue(newCondition.value, newCondition.operator || '=')}
-                      onChange={e => {
-                        const parsed = parseValue(e.target.value, newCondition.operator || '=');
-                        setNewCondition({ ...newCondition, value: parsed });
-                      }}
-                      placeholder={needsMultipleValues(newCondition.operator || '=') ? 'valor1, valor2, ...' : 'valor'}
-                      sx={{
-                        '& .MuiInputBase-root': {
-                          fontSize: '0.75rem',
-                          fontFamily: 'monospace',
-                          height: 32,
-                        },
-                      }}
-                    />
-                  )}
-                  {needsSubquery(newCondition.operator || '=') && (
-                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
-                      <Paper
-                        elevation={0}
-                        sx={{
-                          flex: 1,
-                          px: 1,
-                          py: 0.5,
-                          border: 1,
-                          borderColor: newCondition.subquery ? 'success.main' : 'divider',
-                          bgcolor: newCondition.subquery ? alpha(theme.palette.success.main, 0.08) : 'action.hover',
-                          borderRadius: 0.5,
-                        }}
-                      >
-                        <Typography
-                          variant="caption"
-                          sx={{
-                            fontFamily: 'monospace',
-                            fontSize: '0.75rem',
-                            color: newCondition.subquery ? 'success.main' : 'text.secondary',
-                          }}
-                        >
-                          {newCondition.subquery ? 'Subselect configurado' : 'Nenhum subselect configurado'}
-                        </Typography>
-                      </Paper>
-                      <Button
-                        onClick={() => setEditingSubqueryId('new')}
-                        size="small"
-                        variant="contained"
-                        startIcon={<StorageIcon sx={{ fontSize: 14 }} />}
-                        sx={{
-                          fontSize: '0.75rem',
-                          px: 1,
-                          py: 0.5,
-                          minHeight: 'auto',
-                        }}
-                      >
-                        {newCondition.subquery ? 'Editar' : 'Criar'} Subselect
-                      </Button>
-                    </Box>
-                  )}
-                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, justifyContent: 'flex-end' }}>
-                    <Button
-                      onClick={() => {
-                        setIsAdding(false);
-                        setNewCondition({
-                          tableId: '',
-                          column: '',
-                          operator: '=',
-                          value: '',
-                          logicalOperator: 'AND',
-                        });
-                      }}
-                      size="small"
-                      sx={{ fontSize: '0.75rem', minHeight: 'auto' }}
-                    >
-                      Cancelar
-                    </Button>
-                    <Button
-                      onClick={handleAdd}
-                      disabled={!newCondition.tableId || !newCondition.column || !newCondition.operator}
-                      size="small"
-                      variant="contained"
-                      sx={{ fontSize: '0.75rem', minHeight: 'auto' }}
-                    >
-                      Adicionar
-                    </Button>
-                  </Box>
-                </Box>
-              </Paper>
-            )}
-          </Box>
+          renderGroup(root, 0)
         )}
       </Box>
 
@@ -618,7 +741,7 @@ export default function WhereEditor({
           initialAST={
             editingSubqueryId === 'new'
               ? newCondition.subquery || null
-              : conditions.find(c => c.id === editingSubqueryId)?.subquery || null
+              : (editingSubqueryCondition && !isWhereGroup(editingSubqueryCondition) && editingSubqueryCondition.subquery) || null
           }
           onSave={(subqueryAST) => {
             if (editingSubqueryId === 'new') {
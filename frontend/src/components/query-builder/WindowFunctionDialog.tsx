@@ -0,0 +1,442 @@
+/**
+ * Diálogo de funções de janela (ROW_NUMBER, RANK, LAG/LEAD, SUM(...) OVER ...)
+ * Argumento, PARTITION BY e ORDER BY são escolhidos entre as colunas das tabelas da query
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  TextField,
+  Select,
+  MenuItem,
+  FormControl,
+  InputLabel,
+  FormControlLabel,
+  Checkbox,
+  Chip,
+  IconButton,
+  Tooltip,
+  Alert,
+} from '@mui/material';
+import {
+  Close as CloseIcon,
+  Functions as FunctionsIcon,
+  Delete as DeleteIcon,
+  SwapVert as SwapVertIcon,
+} from '@mui/icons-material';
+import type { GraphNode } from '../../api/client';
+import type {
+  ColumnRef,
+  SelectField,
+  WindowFrame,
+  WindowFrameBound,
+  WindowFrameBoundType,
+  WindowFunction,
+  WindowSpec,
+} from '../../types/query-builder';
+import { generateWindowFunction, type DatabaseDialect } from '../../utils/query-builder/sql-generator';
+import {
+  WINDOW_FUNCTIONS,
+  acceptsFrame,
+  frameError,
+  isOffsetFunction,
+  isRankingFunction,
+  requiresArgument,
+  requiresOrderBy,
+} from '../../utils/query-builder/window-functions';
+
+interface WindowFunctionDialogProps {
+  isOpen: boolean;
+  field?: SelectField; // Campo em edição; sem ele, cria um novo
+  nodes: GraphNode[];
+  availableTables: Set<string>; // Tabelas disponíveis (FROM + JOINs)
+  tableAliases: Map<string, string>; // Mapa de tableId -> alias
+  dbType: DatabaseDialect;
+  onSave: (spec: WindowSpec, alias?: string) => void;
+  onCancel: () => void;
+}
+
+const EMPTY_SPEC: WindowSpec = {
+  function: 'ROW_NUMBER',
+  partitionBy: [],
+  orderBy: [],
+};
+
+// Total acumulado: do início da partição até a linha atual
+const DEFAULT_FRAME: WindowFrame = {
+  unit: 'ROWS',
+  start: { type: 'UNBOUNDED PRECEDING' },
+  end: { type: 'CURRENT ROW' },
+};
+
+const BOUND_TYPES: WindowFrameBoundType[] = ['UNBOUNDED PRECEDING', 'PRECEDING', 'CURRENT ROW', 'FOLLOWING', 'UNBOUNDED FOLLOWING'];
+
+const hasOffset = (bound: WindowFrameBound) => bound.type === 'PRECEDING' || bound.type === 'FOLLOWING';
+
+// Valor dos seletores de coluna; tableId pode conter pontos (schema.tabela)
+const refKey = (ref: ColumnRef) => `${ref.tableId}|${ref.column}`;
+
+export default function WindowFunctionDialog({
+  isOpen,
+  field,
+  nodes,
+  availableTables,
+  tableAliases,
+  dbType,
+  onSave,
+  onCancel,
+}: WindowFunctionDialogProps) {
+  const [spec, setSpec] = useState<WindowSpec>(EMPTY_SPEC);
+  const [alias, setAlias] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setSpec(field?.window ?? EMPTY_SPEC);
+      setAlias(field?.alias ?? '');
+    }
+  }, [isOpen, field]);
+
+  const getTableAlias = (tableId: string): string => {
+    return tableAliases.get(tableId) || (tableId.includes('.') ? tableId.split('.').pop()! : tableId);
+  };
+
+  const columnOptions = useMemo(
+    () =>
+      Array.from(availableTables).flatMap(tableId =>
+        (nodes.find(n => n.id === tableId)?.columns || []).map(c => ({ tableId, column: c.name }))
+      ),
+    [availableTables, nodes]
+  );
+
+  const findColumn = (key: string): ColumnRef | undefined => columnOptions.find(ref => refKey(ref) === key);
+
+  const renderColumnOptions = (exclude: ColumnRef[] = []) =>
+    columnOptions
+      .filter(ref => !exclude.some(e => refKey(e) === refKey(ref)))
+      .map(ref => (
+        <MenuItem key={refKey(ref)} value={refKey(ref)}>
+          {getTableAlias(ref.tableId)}.{ref.column}
+        </MenuItem>
+      ));
+
+  const setFunction = (fn: WindowFunction) => {
+    setSpec(prev => ({
+      ...prev,
+      function: fn,
+      argument: isRankingFunction(fn) ? undefined : prev.argument,
+      offset: isOffsetFunction(fn) ? prev.offset : undefined,
+      defaultValue: isOffsetFunction(fn) ? prev.defaultValue : undefined,
+      frame: acceptsFrame(fn) ? prev.frame : undefined,
+    }));
+  };
+
+  const updateBound = (side: 'start' | 'end', bound: WindowFrameBound) => {
+    setSpec(prev => (prev.frame ? { ...prev, frame: { ...prev.frame, [side]: bound } } : prev));
+  };
+
+  const errors: string[] = [];
+  if (requiresArgument(spec.function) && !spec.argument) {
+    errors.push(`Selecione a coluna de ${spec.function}`);
+  }
+  if (spec.offset !== undefined && (!Number.isInteger(spec.offset) || spec.offset < 0)) {
+    errors.push('O deslocamento deve ser um inteiro não negativo');
+  }
+  const frameProblem = spec.frame && acceptsFrame(spec.function) ? frameError(spec.frame, dbType) : null;
+  if (frameProblem) errors.push(frameProblem);
+
+  const handleSave = () => {
+    if (errors.length > 0) return;
+    onSave(spec, alias.trim() || undefined);
+  };
+
+  const renderBound = (side: 'start' | 'end') => {
+    const bound = spec.frame![side];
+    return (
+      <Box sx={{ display: 'flex', gap: 1, flex: 1 }}>
+        <FormControl size="small" sx={{ flex: 1 }}>
+          <InputLabel>{side === 'start' ? 'Início' : 'Fim'}</InputLabel>
+          <Select
+            value={bound.type}
+            label={side === 'start' ? 'Início' : 'Fim'}
+            onChange={(e) => {
+              const type = e.target.value as WindowFrameBoundType;
+              updateBound(side, hasOffset({ type }) ? { type, offset: bound.offset ?? 1 } : { type });
+            }}
+          >
+            {BOUND_TYPES.map(type => (
+              <MenuItem key={type} value={type}>
+                {type}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        {hasOffset(bound) && (
+          <TextField
+            size="small"
+            type="number"
+            label="Linhas"
+            value={bound.offset ?? 1}
+            onChange={(e) => updateBound(side, { ...bound, offset: Math.max(0, Number(e.target.value) || 0) })}
+            sx={{ width: 88 }}
+            slotProps={{ htmlInput: { min: 0 } }}
+          />
+        )}
+      </Box>
+    );
+  };
+
+  return (
+    <Dialog open={isOpen} onClose={onCancel} maxWidth="sm" fullWidth>
+      <DialogTitle>
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <FunctionsIcon sx={{ color: 'info.main', fontSize: 20 }} />
+            <Typography variant="h6" component="span">
+              {field ? 'Editar Função de Janela' : 'Adicionar Função de Janela'}
+            </Typography>
+          </Box>
+          <IconButton onClick={onCancel} size="small" sx={{ color: 'text.secondary' }}>
+            <CloseIcon />
+          </IconButton>
+        </Box>
+      </DialogTitle>
+
+      <DialogContent dividers>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 1 }}>
+          <FormControl fullWidth size="small">
+            <InputLabel>Função</InputLabel>
+            <Select
+              value={spec.function}
+              label="Função"
+              onChange={(e) => setFunction(e.target.value as WindowFunction)}
+            >
+              {WINDOW_FUNCTIONS.map(fn => (
+                <MenuItem key={fn.name} value={fn.name}>
+                  {fn.name} - {fn.description}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          {!isRankingFunction(spec.function) && (
+            <FormControl fullWidth size="small">
+              <InputLabel>Coluna</InputLabel>
+              <Select
+                value={spec.argument ? refKey(spec.argument) : ''}
+                label="Coluna"
+                onChange={(e) => setSpec({ ...spec, argument: findColumn(e.target.value) })}
+              >
+                <MenuItem value="">
+                  <em>{spec.function === 'COUNT' ? '* (todas as linhas)' : 'Selecione uma coluna...'}</em>
+                </MenuItem>
+                {renderColumnOptions()}
+              </Select>
+            </FormControl>
+          )}
+
+          {isOffsetFunction(spec.function) && (
+            <Box sx={{ display: 'flex', gap: 1 }}>
+              <TextField
+                size="small"
+                type="number"
+                label="Deslocamento"
+                value={spec.offset ?? 1}
+                onChange={(e) => setSpec({ ...spec, offset: Number(e.target.value) })}
+                helperText="Quantas linhas antes/depois"
+                sx={{ width: 160 }}
+                slotProps={{ htmlInput: { min: 0 } }}
+              />
+              <TextField
+                size="small"
+                label="Valor padrão (opcional)"
+                value={spec.defaultValue ?? ''}
+                onChange={(e) => {
+                  const text = e.target.value;
+                  const num = Number(text);
+                  setSpec({ ...spec, defaultValue: text === '' ? undefined : !isNaN(num) && text.trim() !== '' ? num : text });
+                }}
+                helperText="Usado quando não existe a linha"
+                sx={{ flex: 1 }}
+              />
+            </Box>
+          )}
+
+          <Box>
+            <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 0.5, fontWeight: 600 }}>
+              PARTITION BY
+            </Typography>
+            {spec.partitionBy.length > 0 && (
+              <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, mb: 1 }}>
+                {spec.partitionBy.map(ref => (
+                  <Chip
+                    key={refKey(ref)}
+                    size="small"
+                    label={`${getTableAlias(ref.tableId)}.${ref.column}`}
+                    onDelete={() =>
+                      setSpec({ ...spec, partitionBy: spec.partitionBy.filter(p => refKey(p) !== refKey(ref)) })
+                    }
+                    sx={{ fontFamily: 'monospace' }}
+                  />
+                ))}
+              </Box>
+            )}
+            <FormControl fullWidth size="small">
+              <Select
+                value=""
+                displayEmpty
+                onChange={(e) => {
+                  const ref = findColumn(e.target.value);
+                  if (ref) setSpec({ ...spec, partitionBy: [...spec.partitionBy, ref] });
+                }}
+              >
+                <MenuItem value="">
+                  <em>Adicionar coluna de partição...</em>
+                </MenuItem>
+                {renderColumnOptions(spec.partitionBy)}
+              </Select>
+            </FormControl>
+          </Box>
+
+          <Box>
+            <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 0.5, fontWeight: 600 }}>
+              ORDER BY
+            </Typography>
+            {spec.orderBy.map((order, index) => (
+              <Box key={refKey(order)} sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 0.5 }}>
+                <Typography variant="body2" sx={{ flex: 1, fontFamily: 'monospace', fontSize: '0.8125rem' }}>
+                  {getTableAlias(order.tableId)}.{order.column}
+                </Typography>
+                <Tooltip title="Inverter direção">
+                  <Button
+                    size="small"
+                    startIcon={<SwapVertIcon sx={{ fontSize: 14 }} />}
+                    onClick={() =>
+                      setSpec({
+                        ...spec,
+                        orderBy: spec.orderBy.map((o, i) =>
+                          i === index ? { ...o, direction: o.direction === 'ASC' ? 'DESC' : 'ASC' } : o
+                        ),
+                      })
+                    }
+                    sx={{ minWidth: 72, fontSize: '0.75rem' }}
+                  >
+                    {order.direction}
+                  </Button>
+                </Tooltip>
+                <Tooltip title="Remover">
+                  <IconButton
+                    size="small"
+                    onClick={() => setSpec({ ...spec, orderBy: spec.orderBy.filter((_, i) => i !== index) })}
+                    sx={{ color: 'text.secondary', p: 0.5, '&:hover': { color: 'error.main' } }}
+                  >
+                    <DeleteIcon sx={{ fontSize: 14 }} />
+                  </IconButton>
+                </Tooltip>
+              </Box>
+            ))}
+            <FormControl fullWidth size="small">
+              <Select
+                value=""
+                displayEmpty
+                onChange={(e) => {
+                  const ref = findColumn(e.target.value);
+                  if (ref) setSpec({ ...spec, orderBy: [...spec.orderBy, { ...ref, direction: 'ASC' }] });
+                }}
+              >
+                <MenuItem value="">
+                  <em>Adicionar coluna de ordenação...</em>
+                </MenuItem>
+                {renderColumnOptions(spec.orderBy)}
+              </Select>
+            </FormControl>
+            {requiresOrderBy(spec.function) && spec.orderBy.length === 0 && (
+              <Typography variant="caption" sx={{ display: 'block', mt: 0.5, color: 'warning.main' }}>
+                Sem ORDER BY, {spec.function} segue uma ordem arbitrária das linhas
+              </Typography>
+            )}
+          </Box>
+
+          {acceptsFrame(spec.function) && (
+            <Box>
+              <FormControlLabel
+                control={
+                  <Checkbox
+                    size="small"
+                    checked={!!spec.frame}
+                    onChange={(e) => setSpec({ ...spec, frame: e.target.checked ? DEFAULT_FRAME : undefined })}
+                  />
+                }
+                label={<Typography variant="body2">Definir frame (total acumulado, média móvel)</Typography>}
+              />
+              {spec.frame && (
+                <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1, mt: 1 }}>
+                  <FormControl size="small" sx={{ width: 140 }}>
+                    <InputLabel>Unidade</InputLabel>
+                    <Select
+                      value={spec.frame.unit}
+                      label="Unidade"
+                      onChange={(e) => setSpec({ ...spec, frame: { ...spec.frame!, unit: e.target.value as WindowFrame['unit'] } })}
+                    >
+                      <MenuItem value="ROWS">ROWS</MenuItem>
+                      <MenuItem value="RANGE">RANGE</MenuItem>
+                    </Select>
+                  </FormControl>
+                  <Box sx={{ display: 'flex', gap: 1 }}>
+                    {renderBound('start')}
+                    {renderBound('end')}
+                  </Box>
+                  {spec.orderBy.length === 0 && (
+                    <Typography variant="caption" sx={{ color: 'warning.main' }}>
+                      O frame só tem efeito com ORDER BY
+                    </Typography>
+                  )}
+                </Box>
+              )}
+            </Box>
+          )}
+
+          <TextField
+            size="small"
+            label="Alias (opcional)"
+            value={alias}
+            onChange={(e) => setAlias(e.target.value)}
+            placeholder="Ex: posicao, total_acumulado"
+            fullWidth
+          />
+
+          {errors.length > 0 ? (
+            <Alert severity="error">{errors.join('; ')}</Alert>
+          ) : (
+            <Box
+              sx={{
+                p: 1,
+                borderRadius: 1,
+                bgcolor: 'action.hover',
+                fontFamily: 'monospace',
+                fontSize: '0.75rem',
+                wordBreak: 'break-word',
+              }}
+            >
+              {generateWindowFunction(spec, tableAliases, dbType)}
+            </Box>
+          )}
+        </Box>
+      </DialogContent>
+
+      <DialogActions sx={{ px: 2, py: 1.5 }}>
+        <Button onClick={onCancel} variant="outlined" size="small">
+          Cancelar
+        </Button>
+        <Button onClick={handleSave} variant="contained" size="small" disabled={errors.length > 0}>
+          {field ? 'Salvar' : 'Adicionar'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
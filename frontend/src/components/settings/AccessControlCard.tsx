@@ -0,0 +1,305 @@
+/**
+ * Perfis dos usuários e acesso por conexão (apenas admin).
+ * Usuários sem perfil atribuído recebem o perfil padrão do backend (AUTH_DEFAULT_ROLE).
+ */
+
+import { useEffect, useState, useCallback } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Button,
+  Alert,
+  Chip,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  IconButton,
+  Autocomplete,
+  CircularProgress,
+} from '@mui/material';
+import {
+  PersonAdd as PersonAddIcon,
+  Delete as DeleteIcon,
+  Save as SaveIcon,
+} from '@mui/icons-material';
+import { accessApi, connectionsApi, type AccessUser, type DatabaseConnection, type Role } from '../../api/client';
+
+const ROLE_OPTIONS: Array<{ value: Role; label: string }> = [
+  { value: 'reader', label: 'Leitor' },
+  { value: 'editor', label: 'Editor' },
+  { value: 'admin', label: 'Administrador' },
+];
+
+const headerSx = { fontWeight: 600, fontSize: '0.75rem', textTransform: 'uppercase' } as const;
+
+export default function AccessControlCard() {
+  const [users, setUsers] = useState<AccessUser[]>([]);
+  const [connections, setConnections] = useState<DatabaseConnection[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [message, setMessage] = useState<{ severity: 'success' | 'error'; text: string } | null>(null);
+
+  const [newUser, setNewUser] = useState('');
+  const [newRole, setNewRole] = useState<Role>('reader');
+
+  const [selectedConnId, setSelectedConnId] = useState('');
+  const [grants, setGrants] = useState<string[]>([]);
+  const [savingGrants, setSavingGrants] = useState(false);
+
+  const showError = (error: any, fallback: string) => {
+    setMessage({ severity: 'error', text: error.response?.data?.error || fallback });
+  };
+
+  const loadUsers = useCallback(async () => {
+    try {
+      const response = await accessApi.listUsers();
+      setUsers(response.data);
+    } catch (error: any) {
+      console.error('Erro ao carregar usuários:', error);
+      showError(error, 'Erro ao carregar usuários');
+    }
+  }, []);
+
+  useEffect(() => {
+    Promise.all([loadUsers(), connectionsApi.getAll().then((response) => setConnections(response.data))])
+      .catch((error) => console.error('Erro ao carregar conexões:', error))
+      .finally(() => setLoading(false));
+  }, [loadUsers]);
+
+  useEffect(() => {
+    if (!selectedConnId) {
+      setGrants([]);
+      return;
+    }
+    accessApi.getGrants(selectedConnId)
+      .then((response) => setGrants(response.data.users))
+      .catch((error) => showError(error, 'Erro ao carregar acessos da conexão'));
+  }, [selectedConnId]);
+
+  const handleSetRole = async (user: string, role: Role) => {
+    try {
+      await accessApi.setUserRole(user, role);
+      await loadUsers();
+      setMessage(null);
+    } catch (error: any) {
+      showError(error, 'Erro ao salvar perfil');
+    }
+  };
+
+  const handleAddUser = async () => {
+    const user = newUser.trim();
+    if (!user) return;
+    await handleSetRole(user, newRole);
+    setNewUser('');
+  };
+
+  const handleRemoveUser = async (user: string) => {
+    if (!confirm(`Remover ${user}? O usuário volta ao perfil padrão e perde o acesso às conexões.`)) return;
+    try {
+      await accessApi.removeUser(user);
+      await loadUsers();
+      if (selectedConnId) {
+        setGrants((current) => current.filter((u) => u !== user));
+      }
+    } catch (error: any) {
+      showError(error, 'Erro ao remover usuário');
+    }
+  };
+
+  const handleSaveGrants = async () => {
+    setSavingGrants(true);
+    try {
+      const response = await accessApi.setGrants(selectedConnId, grants);
+      setGrants(response.data.users);
+      await loadUsers();
+      setMessage({ severity: 'success', text: 'Acessos da conexão salvos' });
+    } catch (error: any) {
+      showError(error, 'Erro ao salvar acessos');
+    } finally {
+      setSavingGrants(false);
+    }
+  };
+
+  const connectionName = (connId: string) => connections.find((c) => c.id === connId)?.name ?? connId;
+
+  return (
+    <Card sx={{ mt: 3 }}>
+      <CardContent sx={{ p: 3 }}>
+        <Typography variant="h6" sx={{ fontWeight: 600, mb: 2 }}>
+          Usuários e Permissões
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+          Leitores navegam no schema, editores também executam queries e administradores gerenciam conexões e
+          configurações. Quem não é administrador só vê as conexões liberadas abaixo.
+        </Typography>
+
+        {message && (
+          <Alert severity={message.severity} sx={{ mb: 2 }} onClose={() => setMessage(null)}>
+            {message.text}
+          </Alert>
+        )}
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress size={28} />
+          </Box>
+        ) : (
+          <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', md: '3fr 2fr' }, gap: 3 }}>
+            {/* Perfis */}
+            <Box>
+              <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 1, mb: 2 }}>
+                <TextField
+                  size="small"
+                  label="E-mail ou uid do usuário"
+                  helperText="Contas com e-mail não verificado são identificadas pelo uid"
+                  value={newUser}
+                  onChange={(e) => setNewUser(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleAddUser()}
+                  sx={{ flexGrow: 1 }}
+                />
+                <FormControl size="small" sx={{ minWidth: 150 }}>
+                  <InputLabel>Perfil</InputLabel>
+                  <Select value={newRole} label="Perfil" onChange={(e) => setNewRole(e.target.value as Role)}>
+                    {ROLE_OPTIONS.map((option) => (
+                      <MenuItem key={option.value} value={option.value}>
+                        {option.label}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+                <Button
+                  variant="contained"
+                  size="small"
+                  startIcon={<PersonAddIcon />}
+                  onClick={handleAddUser}
+                  disabled={!newUser.trim()}
+                  sx={{ textTransform: 'none' }}
+                >
+                  Adicionar
+                </Button>
+              </Box>
+
+              <TableContainer>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell sx={headerSx}>Usuário</TableCell>
+                      <TableCell sx={headerSx}>Perfil</TableCell>
+                      <TableCell sx={headerSx}>Conexões</TableCell>
+                      <TableCell sx={headerSx} />
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {users.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={4}>
+                          <Typography variant="body2" color="text.secondary" sx={{ py: 1 }}>
+                            Nenhum usuário com perfil ou acesso atribuído
+                          </Typography>
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      users.map((user) => (
+                        <TableRow key={user.user}>
+                          <TableCell>
+                            <Typography variant="body2">{user.user}</Typography>
+                          </TableCell>
+                          <TableCell>
+                            <Select
+                              size="small"
+                              variant="standard"
+                              value={user.role}
+                              onChange={(e) => handleSetRole(user.user, e.target.value as Role)}
+                              sx={{ fontSize: '0.875rem' }}
+                            >
+                              {ROLE_OPTIONS.map((option) => (
+                                <MenuItem key={option.value} value={option.value}>
+                                  {option.label}
+                                </MenuItem>
+                              ))}
+                            </Select>
+                            {!user.explicitRole && (
+                              <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+                                padrão
+                              </Typography>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {user.role === 'admin' ? (
+                              <Typography variant="caption" color="text.secondary">Todas</Typography>
+                            ) : (
+                              <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+                                {user.connections.map((connId) => (
+                                  <Chip key={connId} label={connectionName(connId)} size="small" sx={{ height: 20, fontSize: '0.7rem' }} />
+                                ))}
+                              </Box>
+                            )}
+                          </TableCell>
+                          <TableCell align="right">
+                            <IconButton size="small" onClick={() => handleRemoveUser(user.user)} title="Remover usuário">
+                              <DeleteIcon fontSize="small" />
+                            </IconButton>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            </Box>
+
+            {/* Acesso por conexão */}
+            <Box>
+              <FormControl fullWidth size="small" sx={{ mb: 2 }}>
+                <InputLabel>Conexão</InputLabel>
+                <Select value={selectedConnId} label="Conexão" onChange={(e) => setSelectedConnId(e.target.value)}>
+                  {connections.map((conn) => (
+                    <MenuItem key={conn.id} value={conn.id}>
+                      {conn.name}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+
+              {selectedConnId && (
+                <>
+                  <Autocomplete
+                    multiple
+                    freeSolo
+                    size="small"
+                    options={users.filter((u) => u.role !== 'admin').map((u) => u.user)}
+                    value={grants}
+                    onChange={(_, value) => setGrants(value.map((v) => v.trim().toLowerCase()).filter(Boolean))}
+                    renderInput={(params) => (
+                      <TextField {...params} label="Usuários com acesso" placeholder="E-mail ou uid" />
+                    )}
+                    sx={{ mb: 2 }}
+                  />
+                  <Button
+                    variant="contained"
+                    size="small"
+                    startIcon={savingGrants ? <CircularProgress size={16} /> : <SaveIcon />}
+                    onClick={handleSaveGrants}
+                    disabled={savingGrants}
+                    sx={{ textTransform: 'none' }}
+                  >
+                    Salvar acessos
+                  </Button>
+                </>
+              )}
+            </Box>
+          </Box>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
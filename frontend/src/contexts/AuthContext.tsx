@@ -9,10 +9,15 @@ import {
   UserCredential,
 } from 'firebase/auth';
 import { auth } from '../config/firebase';
+import { accessApi, type Role } from '../api/client';
+
+const ROLE_RANK: Record<Role, number> = { reader: 0, editor: 1, admin: 2 };
 
 interface AuthContextType {
   currentUser: User | null;
   loading: boolean;
+  role: Role | null; // Perfil no backend; null enquanto carrega ou se falhar
+  hasRole: (minRole: Role) => boolean;
   login: (email: string, password: string) => Promise<UserCredential>;
   logout: () => Promise<void>;
   register: (email: string, password: string) => Promise<UserCredential>;
@@ -36,6 +41,7 @@ interface AuthProviderProps {
 export function AuthProvider({ children }: AuthProviderProps) {
   const [currentUser, setCurrentUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
+  const [role, setRole] = useState<Role | null>(null);
 
   function login(email: string, password: string): Promise<UserCredential> {
     return signInWithEmailAndPassword(auth, email, password);
@@ -62,9 +68,36 @@ export function AuthProvider({ children }: AuthProviderProps) {
     return unsubscribe;
   }, []);
 
+  // O perfil é definido pelo backend (AUTH_ADMINS e permissões salvas)
+  useEffect(() => {
+    if (!currentUser) {
+      setRole(null);
+      return;
+    }
+
+    let cancelled = false;
+    accessApi.me()
+      .then((response) => {
+        if (!cancelled) setRole(response.data.role);
+      })
+      .catch((error) => {
+        console.error('Erro ao carregar perfil de acesso:', error);
+        if (!cancelled) setRole(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [currentUser]);
+
+  function hasRole(minRole: Role): boolean {
+    return role !== null && ROLE_RANK[role] >= ROLE_RANK[minRole];
+  }
+
   const value: AuthContextType = {
     currentUser,
     loading,
+    role,
+    hasRole,
     login,
     logout,
     register,
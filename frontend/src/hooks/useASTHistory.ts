@@ -0,0 +1,100 @@
+/**
+ * Histórico de alterações do AST do Query Builder (desfazer/refazer)
+ * Cada alteração vira um passo nomeado; voltar a um passo e alterar de novo descarta os passos à frente
+ */
+
+import { useState, useCallback, useRef } from 'react';
+import type { QueryAST } from '../types/query-builder';
+
+export interface ASTHistoryStep {
+  id: number;
+  label: string; // Ex.: "JOIN orders → customers"
+  timestamp: number;
+  ast: QueryAST;
+  gesture: number; // Alterações do mesmo evento (ex.: JOINs + coluna de um drop) viram um passo só
+  mergeKey?: string; // Edições seguidas do mesmo item (ex.: digitar um valor) também
+}
+
+interface HistoryState {
+  steps: ASTHistoryStep[];
+  index: number;
+}
+
+// Passos mais antigos são descartados além deste limite
+const MAX_STEPS = 100;
+
+export function useASTHistory(initialAST: () => QueryAST, initialLabel = 'Query vazia') {
+  const nextIdRef = useRef(1);
+  const gestureRef = useRef<number | null>(null);
+  const nextGestureRef = useRef(1);
+  const [history, setHistory] = useState<HistoryState>(() => ({
+    steps: [{ id: 0, label: initialLabel, timestamp: Date.now(), ast: initialAST(), gesture: 0 }],
+    index: 0,
+  }));
+
+  // O rótulo pode depender do AST anterior (ex.: nome do campo removido)
+  const commit = useCallback((
+    label: string | ((prev: QueryAST) => string),
+    update: (prev: QueryAST) => QueryAST,
+    mergeKey?: string
+  ) => {
+    // Tudo o que roda no mesmo evento pertence ao mesmo gesto; o gesto termina na próxima microtask
+    if (gestureRef.current === null) {
+      gestureRef.current = nextGestureRef.current++;
+      queueMicrotask(() => {
+        gestureRef.current = null;
+      });
+    }
+    const gesture = gestureRef.current;
+    const id = nextIdRef.current++;
+
+    setHistory(prev => {
+      const current = prev.steps[prev.index];
+      const ast = update(current.ast);
+      if (ast === current.ast) return prev;
+      const stepLabel = typeof label === 'function' ? label(current.ast) : label;
+
+      const isLast = prev.index === prev.steps.length - 1;
+      const merge = prev.index > 0 && isLast && (current.gesture === gesture || (!!mergeKey && current.mergeKey === mergeKey));
+      if (merge) {
+        // Mesmo gesto acumula os rótulos; mesma mergeKey fica com o rótulo mais recente
+        const mergedLabel = current.gesture !== gesture
+          ? stepLabel
+          : current.label.split(', ').includes(stepLabel) ? current.label : `${current.label}, ${stepLabel}`;
+        const steps = [...prev.steps];
+        steps[prev.index] = { ...current, ast, label: mergedLabel, timestamp: Date.now() };
+        return { steps, index: prev.index };
+      }
+
+      const steps = [
+        ...prev.steps.slice(0, prev.index + 1),
+        { id, label: stepLabel, timestamp: Date.now(), ast, gesture, mergeKey },
+      ].slice(-MAX_STEPS);
+      return { steps, index: steps.length - 1 };
+    });
+  }, []);
+
+  const jumpTo = useCallback((index: number) => {
+    setHistory(prev => (index >= 0 && index < prev.steps.length ? { ...prev, index } : prev));
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory(prev => (prev.index > 0 ? { ...prev, index: prev.index - 1 } : prev));
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(prev => (prev.index < prev.steps.length - 1 ? { ...prev, index: prev.index + 1 } : prev));
+  }, []);
+
+  return {
+    ast: history.steps[history.index].ast,
+    steps: history.steps,
+    currentIndex: history.index,
+    canUndo: history.index > 0,
+    canRedo: history.index < history.steps.length - 1,
+    commit,
+    undo,
+    redo,
+    jumpTo,
+  };
+}
@@ -3,12 +3,17 @@
  * Gerencia o estado do AST e todas as operações de construção de queries
  */
 
-import { useState, useCallback, useMemo } from 'react';
+import { useCallback, useMemo } from 'react';
 import type { 
   QueryAST, 
   SelectField, 
   QueryJoin, 
   WhereCondition, 
+  WhereLogicalOperator,
+  WhereClause,
+  HavingCondition,
+  WindowSpec,
+  CaseExpression,
   GroupByField, 
   OrderByField,
   JoinType,
@@ -16,8 +21,18 @@ import type {
   UnionClause,
 } from '../types/query-builder';
 import type { GraphNode, GraphEdge } from '../api/client';
-import { generateSQL, generateAlias, createEmptyAST, type DatabaseDialect } from '../utils/query-builder/sql-generator';
+import { generateSQL, generateAlias, createEmptyAST, escapeIdentifier, type DatabaseDialect } from '../utils/query-builder/sql-generator';
 import { findBestPath, findAllDirectRelationships } from '../utils/query-builder/graph-path-finder';
+import { useASTHistory, type ASTHistoryStep } from './useASTHistory';
+import {
+  createWhereGroup,
+  isWhereGroup,
+  insertWhereItem,
+  updateWhereItem,
+  removeWhereItem as removeFromWhereTree,
+  moveWhereItem as moveInWhereTree,
+  migrateAST,
+} from '../utils/query-builder/where-tree';
 
 interface UseQueryBuilderOptions {
   nodes: GraphNode[];
@@ -46,7 +61,12 @@ interface UseQueryBuilderReturn {
   addExpression: (expression: string, alias?: string) => void;
   addSubquery: (subqueryAST: QueryAST, alias?: string) => void;
   updateSubquery: (fieldId: string, subqueryAST: QueryAST) => void;
-  addAggregate: (tableId: string, column: string, aggregateFunction: 'COUNT' | 'SUM' | 'AVG' | 'MIN' | 'MAX', alias?: string) => void;
+  addAggregate: (tableId: string, column: string, aggregateFunction: 'COUNT' | 'SUM' | 'AVG' | 'MIN' | 'MAX', alias?: string, distinct?: boolean) => void;
+  addWindowFunction: (spec: WindowSpec, alias?: string) => void;
+  updateWindowFunction: (fieldId: string, spec: WindowSpec, alias?: string) => void;
+  addCaseExpression: (caseExpression: CaseExpression, alias?: string) => void;
+  updateCaseExpression: (fieldId: string, caseExpression: CaseExpression, alias?: string) => void;
+  setDistinct: (distinct: boolean) => void;
   
   // Ações de JOIN
   addJoin: (targetTableId: string, sourceTableId?: string) => void;
@@ -61,17 +81,25 @@ interface UseQueryBuilderReturn {
   updateJoin: (joinId: string, updates: Partial<QueryJoin>) => void;
   removeJoin: (joinId: string) => void;
   
-  // Ações de WHERE
-  addWhereCondition: (condition: WhereCondition) => void;
+  // Ações de WHERE (sem groupId, o item vai para o grupo raiz)
+  addWhereCondition: (condition: WhereCondition, groupId?: string) => void;
+  addWhereGroup: (operator: WhereLogicalOperator, groupId?: string) => void;
   updateWhereCondition: (conditionId: string, updates: Partial<WhereCondition>) => void;
-  removeWhereCondition: (conditionId: string) => void;
-  reorderWhereConditions: (conditions: WhereCondition[]) => void;
+  setWhereGroupOperator: (groupId: string, operator: WhereLogicalOperator) => void;
+  removeWhereItem: (itemId: string) => void;
+  moveWhereItem: (itemId: string, offset: -1 | 1) => void;
   
   // Ações de GROUP BY
   addGroupBy: (tableId: string, column: string) => void;
   removeGroupBy: (fieldId: string) => void;
   reorderGroupBy: (fields: GroupByField[]) => void;
   
+  // Ações de HAVING
+  addHavingCondition: (condition: Omit<HavingCondition, 'id'>) => void;
+  updateHavingCondition: (conditionId: string, updates: Partial<HavingCondition>) => void;
+  removeHavingCondition: (conditionId: string) => void;
+  setHavingOperator: (operator: WhereLogicalOperator) => void;
+  
   // Ações de ORDER BY
   addOrderBy: (tableId: string, column: string, direction?: 'ASC' | 'DESC') => void;
   removeOrderBy: (fieldId: string) => void;
@@ -92,16 +120,44 @@ interface UseQueryBuilderReturn {
   // Ações de LIMIT
   setLimit: (limit: number | null, offset?: number) => void;
   
+  // Histórico de alterações (desfazer/refazer)
+  undo: () => void;
+  redo: () => void;
+  jumpTo: (index: number) => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  historySteps: ASTHistoryStep[];
+  historyIndex: number;
+  
   // Utilidades
   reset: () => void;
-  loadAST: (ast: QueryAST) => void;
+  loadAST: (ast: QueryAST, label?: string) => void;
   getTableAlias: (tableId: string) => string;
 }
 
+// Nome curto da tabela nos passos do histórico ("dbo.orders" → "orders")
+function shortName(tableId: string): string {
+  return tableId.split('.').pop() || tableId;
+}
+
+function fieldLabel(ast: QueryAST, fieldId: string): string {
+  const field = ast.select.fields.find(f => f.id === fieldId);
+  if (!field) return 'campo';
+  if (field.column) return `${shortName(field.tableId)}.${field.column}`;
+  return field.alias || field.type || 'campo';
+}
+
+function joinLabel(ast: QueryAST, joinId: string): string {
+  const join = ast.joins.find(j => j.id === joinId);
+  if (!join) return 'JOIN';
+  return `JOIN ${shortName(join.sourceTableId)} → ${join.targetSubqueryAlias || shortName(join.targetTableId)}`;
+}
+
 export function useQueryBuilder(options: UseQueryBuilderOptions): UseQueryBuilderReturn {
   const { nodes, edges, dbType, onJoinCreated, onMissingJoin } = options;
   
-  const [ast, setAST] = useState<QueryAST>(createEmptyAST());
+  const history = useASTHistory(createEmptyAST);
+  const { ast, commit } = history;
   
   // Mapa de tableId -> alias
   const tableAliases = useMemo(() => {
@@ -172,17 +228,17 @@ export function useQueryBuilder(options: UseQueryBuilderOptions): UseQueryBuilde
   const setBaseTable = useCallback((tableId: string) => {
     const alias = generateAlias(tableId, new Set());
     
-    setAST({
+    commit(`Tabela base ${shortName(tableId)}`, () => ({
       ...createEmptyAST(),
       from: {
         table: tableId,
         alias,
       },
-    });
+    }));
   }, []);
   
   const setFromSubquery = useCallback((subqueryAST: QueryAST, alias: string) => {
-    setAST(prev => ({
+    commit(`Subselect ${alias} no FROM`, prev => ({
       ...prev,
       from: {
         ...prev.from,
@@ -193,7 +249,7 @@ export function useQueryBuilder(options: UseQueryBuilderOptions): UseQueryBuilde
   }, []);
   
   const clearFromSubquery = useCallback(() => {
-    setAST(prev => {
+    commit('Subselect removido do FROM', prev => {
       const { subquery, ...fromWithoutSubquery } = prev.from;
       return {
         ...prev,
@@ -273,7 +329,7 @@ export function useQueryBuilder(options: UseQueryBuilderOptions): UseQueryBuilde
               };
             }
             
-            setAST(prev => ({
+            commit(`JOIN ${shortName(currentSourceId)} → ${shortName(targetTableId)}`, prev => ({
               ...prev,
               joins: [...prev.joins, newJoin],
             }));
@@ -301,16 +357,17 @@ export function useQueryBuilder(options: UseQueryBuilderOptions): UseQueryBuilde
       order: ast.select.fields.length,
     };
     
-    setAST(prev => ({
+    commit(`Coluna ${shortName(tableId)}.${column}`, prev => ({
       ...prev,
       select: {
+        ...prev.select,
         fields: [...prev.select.fields, newField],
       },
     }));
   }, [ast, includedTables, nodes, edges, getTableAlias, getUniqueAlias]);
   
   const removeColumn = useCallback((fieldId: string) => {
-    setAST(prev => {
+    commit(prev => `Campo removido: ${fieldLabel(prev, fieldId)}`, prev => {
       const newFields = prev.select.fields.filter(f => f.id !== fieldId);
       
       // Se não há mais colunas selecionadas, limpar tabela base e JOINs
@@ -321,6 +378,7 @@ export function useQueryBuilder(options: UseQueryBuilderOptions): UseQueryBuilde
       return {
         ...prev,
         select: {
+          ...prev.select,
           fields: newFields,
         },
       };
@@ -328,9 +386,10 @@ export function useQueryBuilder(options: UseQueryBuilderOptions): UseQueryBuilde
   }, []);
   
   const updateColumnAlias = useCallback((fieldId: string, alias: string) => {
-    setAST(prev => ({
+    commit(prev => (alias ? `Alias ${alias} em ${fieldLabel(prev, fieldId)}` : `Alias removido de ${fieldLabel(prev, fieldId)}`), prev => ({
       ...prev,
       select: {
+        ...prev.select,
         fields: prev.select.fields.map(f =>
           f.id === fieldId ? { ...f, alias: alias || undefined } : f
         ),
@@ -339,9 +398,10 @@ export function useQueryBuilder(options: UseQueryBuilderOptions): UseQueryBuilde
   }, []);
   
   const reorderColumns = useCallback((fields: SelectField[]) => {
-    setAST(prev => ({
+    commit('Campos reordenados', prev => ({
       ...prev,
       select: {
+        ...prev.select,
         fields: fields.map((f, idx) => ({ ...f, order: idx })),
       },
     }));
@@ -358,9 +418,10 @@ export function useQueryBuilder(options: UseQueryBuilderOptions): UseQueryBuilde
       type: 'expression',
     };
     
-    setAST(prev => ({
+    commit(alias ? `Expressão ${alias}` : 'Expressão', prev => ({
       ...prev,
       select: {
+        ...prev.select,
         fields: [...prev.select.fields, newField],
       },
     }));
@@ -377,18 +438,20 @@ export function useQueryBuilder(options: UseQueryBuilderOptions): UseQueryBuilde
       subquery: subqueryAST,
     };
     
-    setAST(prev => ({
+    commit(alias ? `Subselect ${alias}` : 'Subselect', prev => ({
       ...prev,
       select: {
+        ...prev.select,
         fields: [...prev.select.fields, newField],
       },
     }));
   }, [ast.select.fields.length]);
   
   const updateSubquery = useCallback((fieldId: string, subqueryAST: QueryAST) => {
-    setAST(prev => ({
+    commit(prev => `Subselect editado: ${fieldLabel(prev, fieldId)}`, prev => ({
       ...prev,
       select: {
+        ...prev.select,
         fields: prev.select.fields.map(f =>
           f.id === fieldId ? { ...f, subquery: subqueryAST } : f
         ),
@@ -400,7 +463,8 @@ export function useQueryBuilder(options: UseQueryBuilderOptions): UseQueryBuilde
     tableId: string,
     column: string,
     aggregateFunction: 'COUNT' | 'SUM' | 'AVG' | 'MIN' | 'MAX',
-    alias?: string
+    alias?: string,
+    distinct?: boolean
   ) => {
     const newField: SelectField = {
       id: `agg-${Date.now()}-${Math.random()}`,
@@ -410,16 +474,92 @@ export function useQueryBuilder(options: UseQueryBuilderOptions): UseQueryBuilde
       order: ast.select.fields.length,
       type: 'aggregate',
       aggregateFunction,
+      ...(distinct && { distinct }),
+    };
+    
+    commit(`${aggregateFunction}(${column === '*' ? '*' : `${shortName(tableId)}.${column}`})`, prev => ({
+      ...prev,
+      select: {
+        ...prev.select,
+        fields: [...prev.select.fields, newField],
+      },
+    }));
+  }, [ast.select.fields.length]);
+  
+  const addWindowFunction = useCallback((spec: WindowSpec, alias?: string) => {
+    const newField: SelectField = {
+      id: `window-${Date.now()}-${Math.random()}`,
+      tableId: '',
+      column: '',
+      alias,
+      order: ast.select.fields.length,
+      type: 'window',
+      window: spec,
+    };
+    
+    commit(`Janela ${spec.function}`, prev => ({
+      ...prev,
+      select: {
+        ...prev.select,
+        fields: [...prev.select.fields, newField],
+      },
+    }));
+  }, [ast.select.fields.length]);
+  
+  const updateWindowFunction = useCallback((fieldId: string, spec: WindowSpec, alias?: string) => {
+    commit(`Janela ${spec.function} editada`, prev => ({
+      ...prev,
+      select: {
+        ...prev.select,
+        fields: prev.select.fields.map(f =>
+          f.id === fieldId ? { ...f, window: spec, alias } : f
+        ),
+      },
+    }));
+  }, []);
+  
+  const addCaseExpression = useCallback((caseExpression: CaseExpression, alias?: string) => {
+    const newField: SelectField = {
+      id: `case-${Date.now()}-${Math.random()}`,
+      tableId: '',
+      column: '',
+      alias,
+      order: ast.select.fields.length,
+      type: 'case',
+      caseExpression,
     };
     
-    setAST(prev => ({
+    commit(alias ? `CASE ${alias}` : 'CASE', prev => ({
       ...prev,
       select: {
+        ...prev.select,
         fields: [...prev.select.fields, newField],
       },
     }));
   }, [ast.select.fields.length]);
   
+  const updateCaseExpression = useCallback((fieldId: string, caseExpression: CaseExpression, alias?: string) => {
+    commit(alias ? `CASE ${alias} editado` : 'CASE editado', prev => ({
+      ...prev,
+      select: {
+        ...prev.select,
+        fields: prev.select.fields.map(f =>
+          f.id === fieldId ? { ...f, caseExpression, alias } : f
+        ),
+      },
+    }));
+  }, []);
+  
+  const setDistinct = useCallback((distinct: boolean) => {
+    commit(distinct ? 'DISTINCT ligado' : 'DISTINCT desligado', prev => ({
+      ...prev,
+      select: {
+        ...prev.select,
+        distinct: distinct || undefined,
+      },
+    }));
+  }, []);
+  
   // ===== AÇÕES DE JOIN =====
   
   const addJoin = useCallback((targetTableId: string, sourceTableId?: string) => {
@@ -462,7 +602,7 @@ export function useQueryBuilder(options: UseQueryBuilderOptions): UseQueryBuilde
             edgeId: edge.edgeId,
           };
           
-          setAST(prev => ({
+          commit(`JOIN ${shortName(currentSourceId)} → ${shortName(intermediate)}`, prev => ({
             ...prev,
             joins: [...prev.joins, newJoin],
           }));
@@ -505,7 +645,7 @@ export function useQueryBuilder(options: UseQueryBuilderOptions): UseQueryBuilde
       customCondition: conditions.length > 1 ? conditions.join(' AND ') : undefined,
     };
     
-    setAST(prev => ({
+    commit(`JOIN ${shortName(source)} → ${shortName(targetTableId)}`, prev => ({
       ...prev,
       joins: [...prev.joins, newJoin],
     }));
@@ -539,12 +679,7 @@ export function useQueryBuilder(options: UseQueryBuilderOptions): UseQueryBuilde
     // Criar condição customizada se múltiplas condições
     let customCondition: string | undefined;
     if (conditions.length > 1) {
-      const escapeCol = (col: string) => {
-        if (dbType === 'sqlserver') {
-          return `[${col.replace(/\]/g, ']]')}]`;
-        }
-        return `\`${col.replace(/`/g, '``')}\``;
-      };
+      const escapeCol = (col: string) => escapeIdentifier(col, dbType);
       
       customCondition = conditions.map(c => {
         return `${sourceAlias}.${escapeCol(c.sourceColumn)} = ${targetAlias}.${escapeCol(c.targetColumn)}`;
@@ -565,7 +700,7 @@ export function useQueryBuilder(options: UseQueryBuilderOptions): UseQueryBuilde
       targetSubqueryAlias,
     };
     
-    setAST(prev => ({
+    commit(`JOIN ${shortName(sourceTableId)} → ${targetSubqueryAlias || shortName(targetTableId)}`, prev => ({
       ...prev,
       joins: [...prev.joins, newJoin],
     }));
@@ -576,16 +711,16 @@ export function useQueryBuilder(options: UseQueryBuilderOptions): UseQueryBuilde
   }, [ast.from.table, ast.from.alias, ast.joins, dbType, getUniqueAlias, onJoinCreated]);
   
   const updateJoin = useCallback((joinId: string, updates: Partial<QueryJoin>) => {
-    setAST(prev => ({
+    commit(prev => `${joinLabel(prev, joinId)} editado`, prev => ({
       ...prev,
       joins: prev.joins.map(j =>
         j.id === joinId ? { ...j, ...updates } : j
       ),
-    }));
+    }), `join:${joinId}`);
   }, []);
   
   const removeJoin = useCallback((joinId: string) => {
-    setAST(prev => ({
+    commit(prev => `${joinLabel(prev, joinId)} removido`, prev => ({
       ...prev,
       joins: prev.joins.filter(j => j.id !== joinId),
     }));
@@ -593,43 +728,46 @@ export function useQueryBuilder(options: UseQueryBuilderOptions): UseQueryBuilde
   
   // ===== AÇÕES DE WHERE =====
   
-  const addWhereCondition = useCallback((condition: WhereCondition) => {
-    setAST(prev => ({
+  // Aplica uma alteração na árvore do WHERE, criando o grupo raiz quando ainda não existe
+  const updateWhereTree = useCallback((label: string, update: (where: WhereClause) => WhereClause, mergeKey?: string) => {
+    commit(label, prev => ({
       ...prev,
-      where: {
-        conditions: [...(prev.where?.conditions || []), condition],
-      },
-    }));
+      where: update(prev.where || { root: createWhereGroup() }),
+    }), mergeKey);
   }, []);
   
-  const updateWhereCondition = useCallback((conditionId: string, updates: Partial<WhereCondition>) => {
-    setAST(prev => ({
-      ...prev,
-      where: {
-        conditions: (prev.where?.conditions || []).map(c =>
-          c.id === conditionId ? { ...c, ...updates } : c
-        ),
-      },
+  const addWhereCondition = useCallback((condition: WhereCondition, groupId?: string) => {
+    const target = condition.column ? ` em ${shortName(condition.tableId)}.${condition.column}` : '';
+    updateWhereTree(`Condição WHERE${target}`, where => ({
+      root: insertWhereItem(where.root, groupId || where.root.id, condition),
     }));
-  }, []);
+  }, [updateWhereTree]);
   
-  const removeWhereCondition = useCallback((conditionId: string) => {
-    setAST(prev => ({
-      ...prev,
-      where: {
-        conditions: (prev.where?.conditions || []).filter(c => c.id !== conditionId),
-      },
+  const addWhereGroup = useCallback((operator: WhereLogicalOperator, groupId?: string) => {
+    updateWhereTree(`Grupo WHERE ${operator}`, where => ({
+      root: insertWhereItem(where.root, groupId || where.root.id, createWhereGroup(operator)),
     }));
-  }, []);
+  }, [updateWhereTree]);
   
-  const reorderWhereConditions = useCallback((conditions: WhereCondition[]) => {
-    setAST(prev => ({
-      ...prev,
-      where: {
-        conditions: conditions.map((c, idx) => ({ ...c, order: idx })),
-      },
+  const updateWhereCondition = useCallback((conditionId: string, updates: Partial<WhereCondition>) => {
+    updateWhereTree('Condição WHERE editada', where => ({
+      root: updateWhereItem(where.root, conditionId, item => ({ ...item, ...updates } as WhereCondition)),
+    }), `where:${conditionId}`);
+  }, [updateWhereTree]);
+  
+  const setWhereGroupOperator = useCallback((groupId: string, operator: WhereLogicalOperator) => {
+    updateWhereTree(`Grupo WHERE com ${operator}`, where => ({
+      root: updateWhereItem(where.root, groupId, item => (isWhereGroup(item) ? { ...item, operator } : item)),
     }));
-  }, []);
+  }, [updateWhereTree]);
+  
+  const removeWhereItem = useCallback((itemId: string) => {
+    updateWhereTree('Condição WHERE removida', where => ({ root: removeFromWhereTree(where.root, itemId) }));
+  }, [updateWhereTree]);
+  
+  const moveWhereItem = useCallback((itemId: string, offset: -1 | 1) => {
+    updateWhereTree('Condição WHERE movida', where => ({ root: moveInWhereTree(where.root, itemId, offset) }));
+  }, [updateWhereTree]);
   
   // ===== AÇÕES DE GROUP BY =====
   
@@ -647,7 +785,7 @@ export function useQueryBuilder(options: UseQueryBuilderOptions): UseQueryBuilde
       order: ast.groupBy?.fields.length || 0,
     };
     
-    setAST(prev => ({
+    commit(`GROUP BY ${shortName(tableId)}.${column}`, prev => ({
       ...prev,
       groupBy: {
         fields: [...(prev.groupBy?.fields || []), newField],
@@ -656,7 +794,7 @@ export function useQueryBuilder(options: UseQueryBuilderOptions): UseQueryBuilde
   }, [ast.groupBy]);
   
   const removeGroupBy = useCallback((fieldId: string) => {
-    setAST(prev => ({
+    commit('GROUP BY removido', prev => ({
       ...prev,
       groupBy: {
         fields: (prev.groupBy?.fields || []).filter(f => f.id !== fieldId),
@@ -665,7 +803,7 @@ export function useQueryBuilder(options: UseQueryBuilderOptions): UseQueryBuilde
   }, []);
   
   const reorderGroupBy = useCallback((fields: GroupByField[]) => {
-    setAST(prev => ({
+    commit('GROUP BY reordenado', prev => ({
       ...prev,
       groupBy: {
         fields: fields.map((f, idx) => ({ ...f, order: idx })),
@@ -673,6 +811,48 @@ export function useQueryBuilder(options: UseQueryBuilderOptions): UseQueryBuilde
     }));
   }, []);
   
+  // ===== AÇÕES DE HAVING =====
+  
+  const addHavingCondition = useCallback((condition: Omit<HavingCondition, 'id'>) => {
+    commit('Condição HAVING', prev => ({
+      ...prev,
+      having: {
+        operator: prev.having?.operator || 'AND',
+        conditions: [
+          ...(prev.having?.conditions || []),
+          { ...condition, id: `having-${Date.now()}-${Math.random()}` },
+        ],
+      },
+    }));
+  }, []);
+  
+  const updateHavingCondition = useCallback((conditionId: string, updates: Partial<HavingCondition>) => {
+    commit('Condição HAVING editada', prev => ({
+      ...prev,
+      having: prev.having && {
+        ...prev.having,
+        conditions: prev.having.conditions.map(c => (c.id === conditionId ? { ...c, ...updates } : c)),
+      },
+    }), `having:${conditionId}`);
+  }, []);
+  
+  const removeHavingCondition = useCallback((conditionId: string) => {
+    commit('Condição HAVING removida', prev => ({
+      ...prev,
+      having: prev.having && {
+        ...prev.having,
+        conditions: prev.having.conditions.filter(c => c.id !== conditionId),
+      },
+    }));
+  }, []);
+  
+  const setHavingOperator = useCallback((operator: WhereLogicalOperator) => {
+    commit(`HAVING com ${operator}`, prev => ({
+      ...prev,
+      having: { operator, conditions: prev.having?.conditions || [] },
+    }));
+  }, []);
+  
   // ===== AÇÕES DE ORDER BY =====
   
   const addOrderBy = useCallback((tableId: string, column: string, direction: 'ASC' | 'DESC' = 'ASC') => {
@@ -690,7 +870,7 @@ export function useQueryBuilder(options: UseQueryBuilderOptions): UseQueryBuilde
       order: ast.orderBy?.fields.length || 0,
     };
     
-    setAST(prev => ({
+    commit(`ORDER BY ${shortName(tableId)}.${column} ${direction}`, prev => ({
       ...prev,
       orderBy: {
         fields: [...(prev.orderBy?.fields || []), newField],
@@ -699,7 +879,7 @@ export function useQueryBuilder(options: UseQueryBuilderOptions): UseQueryBuilde
   }, [ast.orderBy]);
   
   const removeOrderBy = useCallback((fieldId: string) => {
-    setAST(prev => ({
+    commit('ORDER BY removido', prev => ({
       ...prev,
       orderBy: {
         fields: (prev.orderBy?.fields || []).filter(f => f.id !== fieldId),
@@ -708,18 +888,18 @@ export function useQueryBuilder(options: UseQueryBuilderOptions): UseQueryBuilde
   }, []);
   
   const updateOrderBy = useCallback((fieldId: string, updates: Partial<OrderByField>) => {
-    setAST(prev => ({
+    commit('ORDER BY editado', prev => ({
       ...prev,
       orderBy: {
         fields: (prev.orderBy?.fields || []).map(f =>
           f.id === fieldId ? { ...f, ...updates } : f
         ),
       },
-    }));
+    }), `orderBy:${fieldId}`);
   }, []);
   
   const reorderOrderBy = useCallback((fields: OrderByField[]) => {
-    setAST(prev => ({
+    commit('ORDER BY reordenado', prev => ({
       ...prev,
       orderBy: {
         fields: fields.map((f, idx) => ({ ...f, order: idx })),
@@ -730,23 +910,23 @@ export function useQueryBuilder(options: UseQueryBuilderOptions): UseQueryBuilde
   // ===== AÇÕES DE CTE =====
   
   const addCTE = useCallback((cte: CTEClause) => {
-    setAST(prev => ({
+    commit(`CTE ${cte.name}`, prev => ({
       ...prev,
       ctes: [...(prev.ctes || []), cte],
     }));
   }, []);
   
   const updateCTE = useCallback((cteId: string, updates: Partial<CTEClause>) => {
-    setAST(prev => ({
+    commit('CTE editada', prev => ({
       ...prev,
       ctes: (prev.ctes || []).map(c =>
         c.id === cteId ? { ...c, ...updates } : c
       ),
-    }));
+    }), `cte:${cteId}`);
   }, []);
   
   const removeCTE = useCallback((cteId: string) => {
-    setAST(prev => ({
+    commit('CTE removida', prev => ({
       ...prev,
       ctes: (prev.ctes || []).filter(c => c.id !== cteId),
     }));
@@ -755,30 +935,30 @@ export function useQueryBuilder(options: UseQueryBuilderOptions): UseQueryBuilde
   // ===== AÇÕES DE UNION =====
   
   const addUnion = useCallback((union: UnionClause) => {
-    setAST(prev => ({
+    commit(union.type, prev => ({
       ...prev,
       unions: [...(prev.unions || []), union],
     }));
   }, []);
   
   const updateUnion = useCallback((unionId: string, updates: Partial<UnionClause>) => {
-    setAST(prev => ({
+    commit('UNION editado', prev => ({
       ...prev,
       unions: (prev.unions || []).map(u =>
         u.id === unionId ? { ...u, ...updates } : u
       ),
-    }));
+    }), `union:${unionId}`);
   }, []);
   
   const removeUnion = useCallback((unionId: string) => {
-    setAST(prev => ({
+    commit('UNION removido', prev => ({
       ...prev,
       unions: (prev.unions || []).filter(u => u.id !== unionId),
     }));
   }, []);
   
   const reorderUnions = useCallback((unions: UnionClause[]) => {
-    setAST(prev => ({
+    commit('UNIONs reordenados', prev => ({
       ...prev,
       unions: unions.map((u, idx) => ({ ...u, order: idx })),
     }));
@@ -787,20 +967,23 @@ export function useQueryBuilder(options: UseQueryBuilderOptions): UseQueryBuilde
   // ===== AÇÕES DE LIMIT =====
   
   const setLimit = useCallback((limit: number | null, offset?: number) => {
-    setAST(prev => ({
+    // Trocas seguidas de página ou de limite ficam em um passo só
+    const label = !limit ? 'Sem limite' : offset ? `Página ${Math.floor(offset / limit) + 1} de ${limit} linhas` : `Limite de ${limit} linhas`;
+    commit(label, prev => ({
       ...prev,
       limit: limit ? { limit, offset } : undefined,
-    }));
+    }), 'limit');
   }, []);
   
   // ===== UTILIDADES =====
   
   const reset = useCallback(() => {
-    setAST(createEmptyAST());
+    commit('Query limpa', () => createEmptyAST());
   }, []);
   
-  const loadAST = useCallback((newAST: QueryAST) => {
-    setAST(newAST);
+  const loadAST = useCallback((newAST: QueryAST, label = 'Query carregada') => {
+    // ASTs salvos antes dos grupos de condições trazem o WHERE em lista plana
+    commit(label, () => migrateAST(newAST));
   }, []);
   
   return {
@@ -821,6 +1004,11 @@ export function useQueryBuilder(options: UseQueryBuilderOptions): UseQueryBuilde
     addSubquery,
     updateSubquery,
     addAggregate,
+    addWindowFunction,
+    updateWindowFunction,
+    addCaseExpression,
+    updateCaseExpression,
+    setDistinct,
     
     addJoin,
     addManualJoin,
@@ -828,14 +1016,21 @@ export function useQueryBuilder(options: UseQueryBuilderOptions): UseQueryBuilde
     removeJoin,
     
     addWhereCondition,
+    addWhereGroup,
     updateWhereCondition,
-    removeWhereCondition,
-    reorderWhereConditions,
+    setWhereGroupOperator,
+    removeWhereItem,
+    moveWhereItem,
     
     addGroupBy,
     removeGroupBy,
     reorderGroupBy,
     
+    addHavingCondition,
+    updateHavingCondition,
+    removeHavingCondition,
+    setHavingOperator,
+    
     addOrderBy,
     removeOrderBy,
     updateOrderBy,
@@ -852,6 +1047,13 @@ export function useQueryBuilder(options: UseQueryBuilderOptions): UseQueryBuilde
     
     setLimit,
     
+    undo: history.undo,
+    redo: history.redo,
+    jumpTo: history.jumpTo,
+    canUndo: history.canUndo,
+    canRedo: history.canRedo,
+    historySteps: history.steps,
+    historyIndex: history.currentIndex,
     reset,
     loadAST,
     getTableAlias,
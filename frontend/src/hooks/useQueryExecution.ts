@@ -0,0 +1,68 @@
+/**
+ * Controle de uma execução de query cancelável
+ * Gera o execId enviado ao backend, conta o tempo decorrido e cancela a execução em andamento
+ */
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { queryApi } from '../api/client';
+
+// crypto.randomUUID só existe em contexto seguro (https/localhost)
+function createExecId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `exec-${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+export function formatElapsed(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  if (totalSeconds < 60) return `${totalSeconds}s`;
+  const minutes = Math.floor(totalSeconds / 60);
+  return `${minutes}m ${String(totalSeconds % 60).padStart(2, '0')}s`;
+}
+
+export function useQueryExecution(connId: string | undefined) {
+  const [startedAt, setStartedAt] = useState<number | null>(null);
+  const [elapsed, setElapsed] = useState(0);
+  const [cancelling, setCancelling] = useState(false);
+  const execIdRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (startedAt === null) return;
+    setElapsed(Date.now() - startedAt);
+    const timer = setInterval(() => setElapsed(Date.now() - startedAt), 1000);
+    return () => clearInterval(timer);
+  }, [startedAt]);
+
+  // Inicia a contagem e retorna o execId a ser enviado junto com a query
+  const begin = useCallback(() => {
+    const execId = createExecId();
+    execIdRef.current = execId;
+    setCancelling(false);
+    setStartedAt(Date.now());
+    return execId;
+  }, []);
+
+  const end = useCallback(() => {
+    execIdRef.current = null;
+    setStartedAt(null);
+    setCancelling(false);
+  }, []);
+
+  const cancel = useCallback(async () => {
+    const execId = execIdRef.current;
+    if (!execId || !connId) return;
+
+    setCancelling(true);
+    try {
+      await queryApi.cancel(connId, execId);
+    } catch (err: any) {
+      // 404: a execução terminou antes do cancelamento chegar
+      if (err.response?.status !== 404) {
+        console.error('Erro ao cancelar query:', err);
+        setCancelling(false);
+      }
+    }
+  }, [connId]);
+
+  return { running: startedAt !== null, elapsed, cancelling, begin, end, cancel };
+}
@@ -0,0 +1,48 @@
+/**
+ * Histórico de execuções do usuário em uma conexão, guardado no backend (/api/history)
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { historyApi, type QueryHistoryEntry } from '../api/client';
+
+export function useQueryHistory(connId: string | undefined) {
+  const [history, setHistory] = useState<QueryHistoryEntry[]>([]);
+
+  const reload = useCallback(async () => {
+    if (!connId) return;
+    const response = await historyApi.list(connId);
+    setHistory(response.data);
+  }, [connId]);
+
+  useEffect(() => {
+    if (!connId) {
+      setHistory([]);
+      return;
+    }
+    reload().catch((err) => console.error('Erro ao carregar histórico de queries:', err));
+  }, [connId, reload]);
+
+  // Falhas ao registrar não devem atrapalhar a execução que acabou de dar certo: a promise sempre resolve
+  const record = useCallback(async (entry: Pick<QueryHistoryEntry, 'sql' | 'ast' | 'savedQueryId' | 'rowCount' | 'durationMs'>) => {
+    if (!connId) return;
+    try {
+      const response = await historyApi.record(connId, entry);
+      setHistory((current) => [response.data, ...current]);
+    } catch (err) {
+      console.error('Erro ao registrar histórico de queries:', err);
+    }
+  }, [connId]);
+
+  const remove = useCallback(async (id: string) => {
+    await historyApi.delete(id);
+    setHistory((current) => current.filter((e) => e.id !== id));
+  }, []);
+
+  const clear = useCallback(async () => {
+    if (!connId) return;
+    await historyApi.clear(connId);
+    setHistory([]);
+  }, [connId]);
+
+  return { history, record, remove, clear, reload };
+}
@@ -0,0 +1,90 @@
+/**
+ * Queries salvas do usuário em uma conexão, guardadas no backend (/api/saved-queries)
+ * Na primeira carga, move para o backend as queries que versões anteriores guardavam no localStorage
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { savedQueriesApi, type SavedQuery, type SavedQueryInput } from '../api/client';
+
+const legacyStorageKey = (connId: string) => `saved_queries_${connId}`;
+
+// Importação única: a chave só é removida depois que o backend confirmar
+async function importLegacyQueries(connId: string): Promise<number> {
+  const stored = localStorage.getItem(legacyStorageKey(connId));
+  if (!stored) return 0;
+
+  let legacy: any[];
+  try {
+    legacy = JSON.parse(stored);
+  } catch (e) {
+    console.error('Queries salvas no localStorage ilegíveis, descartando:', e);
+    localStorage.removeItem(legacyStorageKey(connId));
+    return 0;
+  }
+
+  const queries = (Array.isArray(legacy) ? legacy : [])
+    .filter((q) => q && typeof q.name === 'string' && typeof q.sql === 'string' && q.ast)
+    .map((q) => ({
+      name: q.name,
+      description: q.description || undefined,
+      tags: [],
+      shared: false,
+      sql: q.sql,
+      ast: q.ast,
+      createdAt: q.createdAt,
+      updatedAt: q.updatedAt,
+    }));
+
+  const response = await savedQueriesApi.import(connId, queries);
+  localStorage.removeItem(legacyStorageKey(connId));
+  return response.data.imported;
+}
+
+export function useSavedQueries(connId: string | undefined) {
+  const [savedQueries, setSavedQueries] = useState<SavedQuery[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const reload = useCallback(async () => {
+    if (!connId) return;
+    const response = await savedQueriesApi.list(connId);
+    setSavedQueries(response.data);
+  }, [connId]);
+
+  useEffect(() => {
+    if (!connId) {
+      setSavedQueries([]);
+      return;
+    }
+
+    setLoading(true);
+    importLegacyQueries(connId)
+      .then((imported) => {
+        if (imported > 0) {
+          console.log(`📥 [SavedQueries] ${imported} query(ies) do localStorage importada(s)`);
+        }
+      })
+      // Falha na importação não impede listar o que já está no backend; tenta de novo na próxima carga
+      .catch((err) => console.error('Erro ao importar queries do localStorage:', err))
+      .then(reload)
+      .catch((err) => console.error('Erro ao carregar queries salvas:', err))
+      .finally(() => setLoading(false));
+  }, [connId, reload]);
+
+  const save = useCallback(async (input: SavedQueryInput) => {
+    if (!connId) return;
+    const response = await savedQueriesApi.create(connId, input);
+    setSavedQueries((current) => [response.data, ...current]);
+  }, [connId]);
+
+  const update = useCallback(async (id: string, changes: Partial<SavedQueryInput>) => {
+    const response = await savedQueriesApi.update(id, changes);
+    setSavedQueries((current) => current.map((q) => (q.id === id ? response.data : q)));
+  }, []);
+
+  const remove = useCallback(async (id: string) => {
+    await savedQueriesApi.delete(id);
+    setSavedQueries((current) => current.filter((q) => q.id !== id));
+  }, []);
+
+  return { savedQueries, loading, save, update, remove, reload };
+}
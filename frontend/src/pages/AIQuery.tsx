@@ -30,9 +30,11 @@ import {
   ErrorOutline as AlertCircleIcon,
   Settings as SettingsIcon,
   Storage as DatabaseIcon,
+  Stop as StopIcon,
 } from '@mui/icons-material';
 import { openaiApi, connectionsApi, type ExecuteSQLResponse } from '../api/client';
 import ViewSwitcher from '../components/ViewSwitcher';
+import { useQueryExecution, formatElapsed } from '../hooks/useQueryExecution';
 
 export default function AIQuery() {
   const theme = useTheme();
@@ -48,6 +50,7 @@ export default function AIQuery() {
   const [executionError, setExecutionError] = useState<string | null>(null);
   const [queryResults, setQueryResults] = useState<ExecuteSQLResponse | null>(null);
   const [configStatus, setConfigStatus] = useState<{ configured: boolean } | null>(null);
+  const queryExecution = useQueryExecution(connId);
 
   useEffect(() => {
     if (connId) {
@@ -184,6 +187,7 @@ export default function AIQuery() {
       const response = await openaiApi.executeSQL({
         sql: generatedSQL,
         connId: connId,
+        execId: queryExecution.begin(),
       });
       setQueryResults(response.data);
     } catch (error: any) {
@@ -194,6 +198,7 @@ export default function AIQuery() {
         'Erro ao executar query SQL'
       );
     } finally {
+      queryExecution.end();
       setExecuting(false);
     }
   };
@@ -364,6 +369,19 @@ export default function AIQuery() {
                   >
                     {executing ? 'Executando...' : 'Executar Query'}
                   </Button>
+                  {queryExecution.running && (
+                    <Button
+                      onClick={queryExecution.cancel}
+                      disabled={queryExecution.cancelling}
+                      variant="outlined"
+                      size="small"
+                      color="error"
+                      startIcon={<StopIcon />}
+                      sx={{ fontSize: '0.8125rem', fontVariantNumeric: 'tabular-nums' }}
+                    >
+                      {queryExecution.cancelling ? 'Cancelando...' : 'Cancelar'} · {formatElapsed(queryExecution.elapsed)}
+                    </Button>
+                  )}
                 </Box>
               </Box>
               <Paper
@@ -0,0 +1,367 @@
+/**
+ * Auditoria: SQL executado e ações administrativas registradas pelo backend (apenas admin)
+ */
+
+import { Fragment, useEffect, useState, useCallback } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TablePagination,
+  TextField,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Chip,
+  IconButton,
+  Tooltip,
+  Alert,
+  Collapse,
+  LinearProgress,
+  useTheme,
+  alpha,
+} from '@mui/material';
+import {
+  Refresh as RefreshIcon,
+  KeyboardArrowDown as ExpandIcon,
+  KeyboardArrowUp as CollapseIcon,
+  FactCheck as AuditIcon,
+} from '@mui/icons-material';
+import {
+  auditApi,
+  connectionsApi,
+  type AuditEntry,
+  type AuditFilters,
+  type DatabaseConnection,
+} from '../api/client';
+
+// Ações registradas pelo backend; prefixos terminados em '.' agrupam uma família
+const ACTION_OPTIONS: Array<{ value: string; label: string }> = [
+  { value: '', label: 'Todas' },
+  { value: 'query.execute', label: 'Execução de query' },
+  { value: 'query.explain', label: 'Plano de execução' },
+  { value: 'ai.', label: 'IA (geração e execução)' },
+  { value: 'connection.', label: 'Conexões' },
+  { value: 'session.kill', label: 'Encerramento de sessão' },
+  { value: 'access.', label: 'Perfis e permissões' },
+];
+
+const headerSx = { fontWeight: 600, fontSize: '0.75rem', textTransform: 'uppercase' } as const;
+
+function formatDuration(ms: number): string {
+  if (ms < 1000) return `${ms} ms`;
+  return `${(ms / 1000).toFixed(1)} s`;
+}
+
+function AuditRow({ entry }: { entry: AuditEntry }) {
+  const theme = useTheme();
+  const [open, setOpen] = useState(false);
+  const hasDetails = !!(entry.sql || entry.error || entry.details);
+
+  return (
+    <Fragment>
+      <TableRow
+        hover
+        onClick={() => hasDetails && setOpen(!open)}
+        sx={{ cursor: hasDetails ? 'pointer' : 'default', '& > td': { borderBottom: open ? 'none' : undefined } }}
+      >
+        <TableCell sx={{ width: 40, px: 1 }}>
+          {hasDetails && (
+            <IconButton size="small">
+              {open ? <CollapseIcon fontSize="small" /> : <ExpandIcon fontSize="small" />}
+            </IconButton>
+          )}
+        </TableCell>
+        <TableCell sx={{ whiteSpace: 'nowrap' }}>
+          <Typography variant="body2">{new Date(entry.timestamp).toLocaleString('pt-BR')}</Typography>
+        </TableCell>
+        <TableCell>
+          <Typography variant="body2">{entry.user}</Typography>
+        </TableCell>
+        <TableCell>
+          <Chip label={entry.action} size="small" variant="outlined" sx={{ fontFamily: 'monospace', fontSize: '0.7rem', height: 22 }} />
+        </TableCell>
+        <TableCell>
+          <Typography variant="body2" color="text.secondary">
+            {entry.connectionName ?? '—'}
+          </Typography>
+        </TableCell>
+        <TableCell sx={{ maxWidth: 360 }}>
+          <Typography
+            variant="body2"
+            noWrap
+            sx={{ fontFamily: entry.sql ? 'monospace' : undefined, fontSize: entry.sql ? '0.75rem' : undefined }}
+          >
+            {entry.sql ?? entry.target ?? '—'}
+          </Typography>
+        </TableCell>
+        <TableCell align="right">
+          <Typography variant="body2" color="text.secondary">
+            {entry.rowCount ?? '—'}
+          </Typography>
+        </TableCell>
+        <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+          <Typography variant="body2" color="text.secondary">
+            {entry.durationMs !== undefined ? formatDuration(entry.durationMs) : '—'}
+          </Typography>
+        </TableCell>
+        <TableCell>
+          <Chip
+            label={entry.success ? 'Sucesso' : 'Falha'}
+            size="small"
+            color={entry.success ? 'success' : 'error'}
+            sx={{ fontSize: '0.7rem', height: 22 }}
+          />
+        </TableCell>
+      </TableRow>
+      {hasDetails && (
+        <TableRow>
+          <TableCell colSpan={9} sx={{ py: 0 }}>
+            <Collapse in={open} timeout="auto" unmountOnExit>
+              <Box sx={{ py: 2, display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+                {entry.error && (
+                  <Alert severity="error" sx={{ py: 0 }}>
+                    {entry.error}
+                  </Alert>
+                )}
+                {entry.sql && (
+                  <Box
+                    component="pre"
+                    sx={{
+                      m: 0,
+                      p: 1.5,
+                      fontFamily: 'monospace',
+                      fontSize: '0.75rem',
+                      whiteSpace: 'pre-wrap',
+                      wordBreak: 'break-word',
+                      backgroundColor: alpha(theme.palette.text.primary, 0.04),
+                      border: `1px solid ${theme.palette.divider}`,
+                    }}
+                  >
+                    {entry.sql}
+                  </Box>
+                )}
+                {entry.details && (
+                  <Typography variant="caption" color="text.secondary" sx={{ fontFamily: 'monospace' }}>
+                    {JSON.stringify(entry.details)}
+                  </Typography>
+                )}
+              </Box>
+            </Collapse>
+          </TableCell>
+        </TableRow>
+      )}
+    </Fragment>
+  );
+}
+
+export default function Audit() {
+  const [connections, setConnections] = useState<DatabaseConnection[]>([]);
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [user, setUser] = useState('');
+  const [search, setSearch] = useState('');
+  const [connId, setConnId] = useState('');
+  const [action, setAction] = useState('');
+  const [status, setStatus] = useState<'' | 'success' | 'failure'>('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(50);
+
+  useEffect(() => {
+    connectionsApi.getAll()
+      .then((response) => setConnections(response.data))
+      .catch((err) => console.error('Erro ao carregar conexões:', err));
+  }, []);
+
+  const loadEntries = useCallback(async () => {
+    setLoading(true);
+    const filters: AuditFilters = {
+      user: user.trim() || undefined,
+      search: search.trim() || undefined,
+      connId: connId || undefined,
+      action: action || undefined,
+      status: status || undefined,
+      // datetime-local vem sem fuso: interpretar no horário local
+      from: from ? new Date(from).toISOString() : undefined,
+      to: to ? new Date(to).toISOString() : undefined,
+      limit: rowsPerPage,
+      offset: page * rowsPerPage,
+    };
+
+    try {
+      const response = await auditApi.list(filters);
+      setEntries(response.data.entries);
+      setTotal(response.data.total);
+      setError(null);
+    } catch (err: any) {
+      console.error('Erro ao carregar auditoria:', err);
+      setError(err.response?.data?.error || err.message || 'Erro ao carregar auditoria');
+    } finally {
+      setLoading(false);
+    }
+  }, [user, search, connId, action, status, from, to, page, rowsPerPage]);
+
+  // Campos de texto disparam a busca depois de uma pausa na digitação
+  useEffect(() => {
+    const timer = setTimeout(loadEntries, 300);
+    return () => clearTimeout(timer);
+  }, [loadEntries]);
+
+  // Qualquer mudança de filtro volta para a primeira página
+  const withPageReset = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPage(0);
+  };
+
+  return (
+    <Box sx={{ height: '100%', display: 'flex', flexDirection: 'column', overflow: 'hidden' }}>
+      <Box sx={{ flexGrow: 1, overflow: 'auto', p: 2 }}>
+        <Box sx={{ mb: 3, display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 2 }}>
+          <Typography variant="body2" color="text.secondary">
+            Queries executadas e ações administrativas, por usuário e conexão
+          </Typography>
+          <Tooltip title="Atualizar">
+            <IconButton size="small" onClick={loadEntries}>
+              <RefreshIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+        </Box>
+
+        <Card>
+          <CardContent sx={{ p: 3 }}>
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1.5, mb: 2 }}>
+              <TextField
+                size="small"
+                label="Usuário"
+                value={user}
+                onChange={(e) => withPageReset(setUser)(e.target.value)}
+                sx={{ minWidth: 180 }}
+              />
+              <TextField
+                size="small"
+                label="Buscar no SQL ou erro"
+                value={search}
+                onChange={(e) => withPageReset(setSearch)(e.target.value)}
+                sx={{ minWidth: 220, flexGrow: 1 }}
+              />
+              <FormControl size="small" sx={{ minWidth: 180 }}>
+                <InputLabel>Conexão</InputLabel>
+                <Select value={connId} label="Conexão" onChange={(e) => withPageReset(setConnId)(e.target.value)}>
+                  <MenuItem value="">Todas</MenuItem>
+                  {connections.map((conn) => (
+                    <MenuItem key={conn.id} value={conn.id}>
+                      {conn.name}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              <FormControl size="small" sx={{ minWidth: 200 }}>
+                <InputLabel>Ação</InputLabel>
+                <Select value={action} label="Ação" onChange={(e) => withPageReset(setAction)(e.target.value)}>
+                  {ACTION_OPTIONS.map((option) => (
+                    <MenuItem key={option.value} value={option.value}>
+                      {option.label}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              <FormControl size="small" sx={{ minWidth: 130 }}>
+                <InputLabel>Status</InputLabel>
+                <Select
+                  value={status}
+                  label="Status"
+                  onChange={(e) => withPageReset(setStatus)(e.target.value as '' | 'success' | 'failure')}
+                >
+                  <MenuItem value="">Todos</MenuItem>
+                  <MenuItem value="success">Sucesso</MenuItem>
+                  <MenuItem value="failure">Falha</MenuItem>
+                </Select>
+              </FormControl>
+              <TextField
+                size="small"
+                type="datetime-local"
+                label="De"
+                value={from}
+                onChange={(e) => withPageReset(setFrom)(e.target.value)}
+                slotProps={{ inputLabel: { shrink: true } }}
+              />
+              <TextField
+                size="small"
+                type="datetime-local"
+                label="Até"
+                value={to}
+                onChange={(e) => withPageReset(setTo)(e.target.value)}
+                slotProps={{ inputLabel: { shrink: true } }}
+              />
+            </Box>
+
+            {error && (
+              <Alert severity="error" sx={{ mb: 2 }}>
+                {error}
+              </Alert>
+            )}
+
+            <Box sx={{ height: 4 }}>{loading && <LinearProgress />}</Box>
+
+            {!loading && entries.length === 0 && !error ? (
+              <Box sx={{ textAlign: 'center', py: 6 }}>
+                <AuditIcon sx={{ fontSize: 48, color: 'text.secondary', mb: 2, opacity: 0.5 }} />
+                <Typography variant="body1" color="text.secondary">
+                  Nenhum registro encontrado
+                </Typography>
+              </Box>
+            ) : (
+              <TableContainer>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell />
+                      <TableCell sx={headerSx}>Data</TableCell>
+                      <TableCell sx={headerSx}>Usuário</TableCell>
+                      <TableCell sx={headerSx}>Ação</TableCell>
+                      <TableCell sx={headerSx}>Conexão</TableCell>
+                      <TableCell sx={headerSx}>SQL / Alvo</TableCell>
+                      <TableCell sx={headerSx} align="right">Linhas</TableCell>
+                      <TableCell sx={headerSx} align="right">Duração</TableCell>
+                      <TableCell sx={headerSx}>Status</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {entries.map((entry) => (
+                      <AuditRow key={entry.id} entry={entry} />
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            )}
+
+            <TablePagination
+              component="div"
+              count={total}
+              page={page}
+              onPageChange={(_, value) => setPage(value)}
+              rowsPerPage={rowsPerPage}
+              onRowsPerPageChange={(e) => withPageReset(setRowsPerPage)(Number(e.target.value))}
+              rowsPerPageOptions={[25, 50, 100, 200]}
+              labelRowsPerPage="Por página"
+              labelDisplayedRows={({ from, to, count }) => `${from}-${to} de ${count}`}
+            />
+          </CardContent>
+        </Card>
+      </Box>
+    </Box>
+  );
+}
@@ -36,12 +36,25 @@ import {
 import {
   connectionsApi,
   type DatabaseConnection,
+  type DatabaseType,
 } from '../api/client';
 import PageLayout from '../components/PageLayout';
+import { useAuth } from '../contexts/AuthContext';
+
+// Porta padrão de cada tipo de banco
+const DEFAULT_PORTS: Record<DatabaseType, number> = {
+  mysql: 3306,
+  sqlserver: 1433,
+  postgres: 5432,
+  sqlite: 0, // Arquivo local, sem porta
+};
 
 export default function Connections() {
   const navigate = useNavigate();
   const theme = useTheme();
+  // Criar, editar e excluir conexões é exclusivo do admin
+  const { hasRole } = useAuth();
+  const isAdmin = hasRole('admin');
   const [connections, setConnections] = useState<DatabaseConnection[]>([]);
   const [loading, setLoading] = useState(true);
   const [showForm, setShowForm] = useState(false);
@@ -49,13 +62,14 @@ export default function Connections() {
   const [testing, setTesting] = useState(false);
   const [formData, setFormData] = useState({
     name: '',
-    type: 'mysql' as 'mysql' | 'sqlserver',
+    type: 'mysql' as DatabaseType,
     host: 'localhost',
     port: 3306,
     user: '',
     password: '',
     database: '',
     ssl: false,
+    filePath: '',
   });
 
   useEffect(() => {
@@ -85,6 +99,7 @@ export default function Connections() {
       password: '',
       database: '',
       ssl: false,
+      filePath: '',
     });
     setEditingId(null);
     setShowForm(false);
@@ -100,6 +115,7 @@ export default function Connections() {
       password: '', // Não carregar senha por segurança
       database: conn.database,
       ssl: conn.ssl || false,
+      filePath: conn.filePath || '',
     });
     setEditingId(conn.id);
     setShowForm(true);
@@ -171,21 +187,23 @@ export default function Connections() {
         <Typography variant="body2" color="text.secondary">
           Gerencie suas conexões de banco de dados
         </Typography>
-        <Button
-          variant="contained"
-          size="small"
-          startIcon={<AddIcon />}
-          onClick={() => setShowForm(!showForm)}
-          sx={{
-            textTransform: 'none',
-            borderRadius: 2,
-          }}
-        >
-          Nova Conexão
-        </Button>
+        {isAdmin && (
+          <Button
+            variant="contained"
+            size="small"
+            startIcon={<AddIcon />}
+            onClick={() => setShowForm(!showForm)}
+            sx={{
+              textTransform: 'none',
+              borderRadius: 2,
+            }}
+          >
+            Nova Conexão
+          </Button>
+        )}
       </Box>
 
-      {showForm && (
+      {showForm && isAdmin && (
         <Card sx={{ mb: 3 }}>
           <CardContent sx={{ p: 3 }}>
             <Typography variant="h6" sx={{ fontWeight: 600, mb: 3 }}>
@@ -209,71 +227,89 @@ export default function Connections() {
                     onChange={(e) =>
                       setFormData({
                         ...formData,
-                        type: e.target.value as 'mysql' | 'sqlserver',
-                        port: e.target.value === 'mysql' ? 3306 : 1433,
+                        type: e.target.value as DatabaseType,
+                        port: DEFAULT_PORTS[e.target.value as DatabaseType],
                       })
                     }
                   >
                     <MenuItem value="mysql">MySQL</MenuItem>
                     <MenuItem value="sqlserver">SQL Server</MenuItem>
+                    <MenuItem value="postgres">PostgreSQL</MenuItem>
+                    <MenuItem value="sqlite">SQLite (arquivo)</MenuItem>
                   </Select>
                 </FormControl>
-                <TextField
-                  label="Host"
-                  required
-                  fullWidth
-                  size="small"
-                  value={formData.host}
-                  onChange={(e) => setFormData({ ...formData, host: e.target.value })}
-                />
-                <TextField
-                  label="Porta"
-                  type="number"
-                  required
-                  fullWidth
-                  size="small"
-                  value={formData.port}
-                  onChange={(e) =>
-                    setFormData({ ...formData, port: parseInt(e.target.value) })
-                  }
-                />
-                <TextField
-                  label="Usuário"
-                  required
-                  fullWidth
-                  size="small"
-                  value={formData.user}
-                  onChange={(e) => setFormData({ ...formData, user: e.target.value })}
-                />
-                <TextField
-                  label="Senha"
-                  type="password"
-                  fullWidth
-                  size="small"
-                  value={formData.password}
-                  onChange={(e) =>
-                    setFormData({ ...formData, password: e.target.value })
-                  }
-                />
-                <TextField
-                  label="Database"
-                  required
-                  fullWidth
-                  size="small"
-                  value={formData.database}
-                  onChange={(e) =>
-                    setFormData({ ...formData, database: e.target.value })
-                  }
-                />
-                <FormControlLabel
-                  control={
-                    <Checkbox
-                      checked={formData.ssl}
-                      onChange={(e) => setFormData({ ...formData, ssl: e.target.checked })}
+                {formData.type === 'sqlite' ? (
+                  <TextField
+                    label="Arquivo"
+                    required
+                    fullWidth
+                    size="small"
+                    placeholder="/caminho/para/banco.sqlite"
+                    helperText="Caminho do arquivo na máquina do backend"
+                    value={formData.filePath}
+                    onChange={(e) => setFormData({ ...formData, filePath: e.target.value })}
+                    sx={{ gridColumn: { md: 'span 2' } }}
+                  />
+                ) : (
+                  <>
+                    <TextField
+                      label="Host"
+                      required
+                      fullWidth
+                      size="small"
+                      value={formData.host}
+                      onChange={(e) => setFormData({ ...formData, host: e.target.value })}
                     />
-                  }
-                  label="SSL"
-                />
+                    <TextField
+                      label="Porta"
+                      type="number"
+                      required
+                      fullWidth
+                      size="small"
+                      value={formData.port}
+                      onChange={(e) =>
+                        setFormData({ ...formData, port: parseInt(e.target.value) })
+                      }
+                    />
+                    <TextField
+                      label="Usuário"
+                      required
+                      fullWidth
+                      size="small"
+                      value={formData.user}
+                      onChange={(e) => setFormData({ ...formData, user: e.target.value })}
+                    />
+                    <TextField
+                      label="Senha"
+                      type="password"
+                      fullWidth
+                      size="small"
+                      value={formData.password}
+                      onChange={(e) =>
+                        setFormData({ ...formData, password: e.target.value })
+                      }
+                    />
+                    <TextField
+                      label="Database"
+                      required
+                      fullWidth
+                      size="small"
+                      value={formData.database}
+                      onChange={(e) =>
+                        setFormData({ ...formData, database: e.target.value })
+                      }
+                    />
+                    <FormControlLabel
+                      control={
+                        <Checkbox
+                          checked={formData.ssl}
+                          onChange={(e) => setFormData({ ...formData, ssl: e.target.checked })}
+                        />
+                      }
+                      label="SSL"
+                    />
+                  </>
+                )}
               </Box>
               <Box sx={{ display: 'flex', gap: 1.5 }}>
                 <Button
@@ -348,13 +384,13 @@ export default function Connections() {
                         <Chip
                           label={conn.type.toUpperCase()}
                           size="small"
-                          color={conn.type === 'mysql' ? 'primary' : 'secondary'}
+                          color={conn.type === 'mysql' ? 'primary' : conn.type === 'postgres' ? 'info' : conn.type === 'sqlite' ? 'success' : 'secondary'}
                           sx={{ fontSize: '0.7rem', height: 22 }}
                         />
                       </TableCell>
                       <TableCell>
                         <Typography variant="body2" color="text.secondary">
-                          {conn.host}:{conn.port}
+                          {conn.type === 'sqlite' ? conn.filePath : `${conn.host}:${conn.port}`}
                         </Typography>
                       </TableCell>
                       <TableCell>
@@ -375,32 +411,36 @@ export default function Connections() {
                           >
                             Ver Schema
                           </Button>
-                          <IconButton
-                            size="small"
-                            onClick={() => handleEdit(conn)}
-                            sx={{
-                              color: theme.palette.primary.main,
-                              '&:hover': {
-                                backgroundColor: alpha(theme.palette.primary.main, 0.1),
-                              },
-                            }}
-                            title="Editar conexão"
-                          >
-                            <EditIcon fontSize="small" />
-                          </IconButton>
-                          <IconButton
-                            size="small"
-                            onClick={() => handleDelete(conn.id)}
-                            sx={{
-                              color: theme.palette.error.main,
-                              '&:hover': {
-                                backgroundColor: alpha(theme.palette.error.main, 0.1),
-                              },
-                            }}
-                            title="Deletar conexão"
-                          >
-                            <DeleteIcon fontSize="small" />
-                          </IconButton>
+                          {isAdmin && (
+                            <>
+                              <IconButton
+                                size="small"
+                                onClick={() => handleEdit(conn)}
+                                sx={{
+                                  color: theme.palette.primary.main,
+                                  '&:hover': {
+                                    backgroundColor: alpha(theme.palette.primary.main, 0.1),
+                                  },
+                                }}
+                                title="Editar conexão"
+                              >
+                                <EditIcon fontSize="small" />
+                              </IconButton>
+                              <IconButton
+                                size="small"
+                                onClick={() => handleDelete(conn.id)}
+                                sx={{
+                                  color: theme.palette.error.main,
+                                  '&:hover': {
+                                    backgroundColor: alpha(theme.palette.error.main, 0.1),
+                                  },
+                                }}
+                                title="Deletar conexão"
+                              >
+                                <DeleteIcon fontSize="small" />
+                              </IconButton>
+                            </>
+                          )}
                         </Box>
                       </TableCell>
                     </TableRow>
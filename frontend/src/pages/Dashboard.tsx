@@ -286,11 +286,11 @@ export default function Dashboard() {
                         <Chip
                           label={conn.type.toUpperCase()}
                           size="small"
-                          color={conn.type === 'mysql' ? 'primary' : 'secondary'}
+                          color={conn.type === 'mysql' ? 'primary' : conn.type === 'postgres' ? 'info' : conn.type === 'sqlite' ? 'success' : 'secondary'}
                           sx={{ fontSize: '0.7rem', height: 22 }}
                         />
                         <Typography variant="caption" color="text.secondary">
-                          {conn.host}:{conn.port}
+                          {conn.type === 'sqlite' ? conn.filePath : `${conn.host}:${conn.port}`}
                         </Typography>
                       </Box>
                     </Box>
@@ -21,13 +21,26 @@ import {
   useTheme,
   alpha,
   Grid,
+  Alert,
+  Tooltip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  Tabs,
+  Tab,
 } from '@mui/material';
 import {
   Timeline as ActivityIcon,
   Refresh as RefreshIcon,
   ArrowBack as ArrowBackIcon,
+  Block as KillIcon,
 } from '@mui/icons-material';
-import { monitoringApi, connectionsApi, type ActiveQuery } from '../api/client';
+import { monitoringApi, connectionsApi, getAuthToken, type ActiveQuery } from '../api/client';
+import BlockingTree, { countBlockedSessions } from '../components/monitoring/BlockingTree';
+import QueryStatsTable from '../components/monitoring/QueryStatsTable';
+import MetricsHistoryCharts from '../components/monitoring/MetricsHistoryCharts';
 
 export default function Monitoring() {
   const theme = useTheme();
@@ -39,6 +52,10 @@ export default function Monitoring() {
   const [autoRefresh, setAutoRefresh] = useState(true);
   const wsRef = useRef<WebSocket | null>(null);
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
+  const [sessionToKill, setSessionToKill] = useState<ActiveQuery | null>(null);
+  const [killing, setKilling] = useState(false);
+  const [killMessage, setKillMessage] = useState<{ severity: 'success' | 'error'; text: string } | null>(null);
+  const [view, setView] = useState<'queries' | 'blocking' | 'stats' | 'history'>('queries');
 
   useEffect(() => {
     if (connId) {
@@ -110,9 +127,11 @@ export default function Monitoring() {
     let reconnectAttempts = 0;
     const maxReconnectAttempts = 5;
 
-    const connect = () => {
+    const connect = async () => {
       try {
-        const ws = new WebSocket(wsUrl);
+        // O navegador não envia Authorization no handshake; o backend aceita o token na URL
+        const token = await getAuthToken();
+        const ws = new WebSocket(token ? `${wsUrl}?token=${encodeURIComponent(token)}` : wsUrl);
 
         ws.onopen = () => {
           console.log('WebSocket conectado');
@@ -166,6 +185,26 @@ export default function Monitoring() {
     connect();
   };
 
+  const handleKillSession = async () => {
+    if (!sessionToKill || !connId) return;
+
+    setKilling(true);
+    try {
+      await monitoringApi.killSession(connId, sessionToKill.sessionId);
+      setKillMessage({ severity: 'success', text: `Sessão ${sessionToKill.sessionId} encerrada` });
+      loadQueries();
+    } catch (error: any) {
+      console.error('Erro ao encerrar sessão:', error);
+      setKillMessage({
+        severity: 'error',
+        text: error.response?.data?.error || error.message || 'Erro ao encerrar sessão',
+      });
+    } finally {
+      setKilling(false);
+      setSessionToKill(null);
+    }
+  };
+
   const formatDuration = (seconds: number) => {
     if (seconds < 60) {
       return `${seconds}s`;
@@ -192,6 +231,8 @@ export default function Monitoring() {
     ? Math.max(...queries.map((q) => q.elapsedTime))
     : 0;
 
+  const blockedCount = countBlockedSessions(queries);
+
   return (
     <Box sx={{ height: '100%', display: 'flex', flexDirection: 'column', overflow: 'hidden' }}>
       {/* Barra superior com controles */}
@@ -326,12 +367,45 @@ export default function Monitoring() {
         </Grid>
       </Grid>
 
+      {killMessage && (
+        <Alert severity={killMessage.severity} onClose={() => setKillMessage(null)} sx={{ mb: 2 }}>
+          {killMessage.text}
+        </Alert>
+      )}
+
       <Card>
+        <Tabs
+          value={view}
+          onChange={(_, value) => setView(value)}
+          sx={{ px: 2, borderBottom: 1, borderColor: 'divider' }}
+        >
+          <Tab label="Queries ativas" value="queries" sx={{ textTransform: 'none' }} />
+          <Tab
+            value="blocking"
+            sx={{ textTransform: 'none' }}
+            label={
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                Bloqueios
+                {blockedCount > 0 && (
+                  <Chip label={blockedCount} size="small" color="error" sx={{ height: 18, fontSize: '0.6875rem' }} />
+                )}
+              </Box>
+            }
+          />
+          <Tab label="Top queries" value="stats" sx={{ textTransform: 'none' }} />
+          <Tab label="Histórico" value="history" sx={{ textTransform: 'none' }} />
+        </Tabs>
         <CardContent>
-          {loading ? (
+          {view === 'stats' ? (
+            <QueryStatsTable connId={connId!} />
+          ) : view === 'history' ? (
+            <MetricsHistoryCharts connId={connId!} />
+          ) : loading ? (
             <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'center', height: 256 }}>
               <CircularProgress />
             </Box>
+          ) : view === 'blocking' ? (
+            <BlockingTree queries={queries} onKill={setSessionToKill} />
           ) : queries.length === 0 ? (
             <Box sx={{ textAlign: 'center', py: 6 }}>
               <ActivityIcon sx={{ fontSize: 48, color: 'text.secondary', mb: 2, opacity: 0.5 }} />
@@ -365,6 +439,9 @@ export default function Monitoring() {
                     <TableCell sx={{ fontWeight: 600, fontSize: '0.75rem', textTransform: 'uppercase' }}>
                       SQL
                     </TableCell>
+                    <TableCell align="right" sx={{ fontWeight: 600, fontSize: '0.75rem', textTransform: 'uppercase' }}>
+                      Ações
+                    </TableCell>
                   </TableRow>
                 </TableHead>
                 <TableBody>
@@ -405,6 +482,17 @@ export default function Monitoring() {
                           {formatSQL(query.sqlText)}
                         </Box>
                       </TableCell>
+                      <TableCell align="right">
+                        <Tooltip title="Encerrar sessão">
+                          <IconButton
+                            size="small"
+                            color="error"
+                            onClick={() => setSessionToKill(query)}
+                          >
+                            <KillIcon fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                      </TableCell>
                     </TableRow>
                   ))}
                 </TableBody>
@@ -414,6 +502,50 @@ export default function Monitoring() {
         </CardContent>
       </Card>
       </Box>
+
+      <Dialog open={sessionToKill !== null} onClose={() => !killing && setSessionToKill(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>Encerrar sessão {sessionToKill?.sessionId}?</DialogTitle>
+        <DialogContent>
+          <DialogContentText sx={{ mb: 2 }}>
+            A sessão de <strong>{sessionToKill?.user}</strong> ({sessionToKill?.host}) será encerrada e
+            a query em andamento será interrompida. Transações abertas serão desfeitas.
+            Esta ação fica registrada no log de auditoria.
+          </DialogContentText>
+          {sessionToKill?.sqlText && (
+            <Box
+              component="pre"
+              sx={{
+                bgcolor: 'action.hover',
+                p: 1.5,
+                borderRadius: 1,
+                fontSize: '0.75rem',
+                fontFamily: 'monospace',
+                whiteSpace: 'pre-wrap',
+                wordBreak: 'break-word',
+                maxHeight: 200,
+                overflow: 'auto',
+                m: 0,
+              }}
+            >
+              {sessionToKill.sqlText}
+            </Box>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setSessionToKill(null)} disabled={killing}>
+            Cancelar
+          </Button>
+          <Button
+            onClick={handleKillSession}
+            color="error"
+            variant="contained"
+            disabled={killing}
+            startIcon={killing ? <CircularProgress size={16} color="inherit" /> : <KillIcon />}
+          >
+            Encerrar sessão
+          </Button>
+        </DialogActions>
+      </Dialog>
     </Box>
   );
 }
@@ -4,7 +4,7 @@
  */
 
 import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { 
   Button, 
   Box, 
@@ -22,6 +22,7 @@ import {
   TableContainer,
   TableHead,
   TableRow,
+  TablePagination,
   Select,
   MenuItem,
   FormControl,
@@ -35,6 +36,8 @@ import {
   TextField,
   Menu,
   Tooltip,
+  FormControlLabel,
+  Checkbox,
 } from '@mui/material';
 import {
   Check as CheckIcon,
@@ -50,34 +53,53 @@ import {
   Link as LinkIcon,
   FilterList as FilterIcon,
   Layers as LayersIcon,
+  Functions as FunctionsIcon,
+  AccountTree as AccountTreeIcon,
   SwapVert as ArrowUpDownIcon,
   Visibility as EyeIcon,
   AccountTree as GitBranchIcon,
   Description as FileCodeIcon,
   KeyboardArrowDown as ChevronDownIcon,
   Star as StarIcon,
+  History as HistoryIcon,
   Refresh as RefreshIcon,
   Close as CloseIcon,
+  Stop as StopIcon,
+  Edit as EditIcon,
 } from '@mui/icons-material';
 import * as XLSX from 'xlsx';
-import { schemaApi, connectionsApi, queryApi, type GraphNode, type GraphEdge, type Column } from '../api/client';
+import { schemaApi, connectionsApi, queryApi, type GraphNode, type GraphEdge, type Column, type DatabaseType, type QueryResultPage, type QueryParams, savedQueriesApi, type SavedQuery } from '../api/client';
 import { useQueryBuilder } from '../hooks/useQueryBuilder';
+import { useQueryExecution, formatElapsed } from '../hooks/useQueryExecution';
+import { useSavedQueries } from '../hooks/useSavedQueries';
+import { useQueryHistory } from '../hooks/useQueryHistory';
 import { formatSQL } from '../utils/query-builder/sql-formatter';
+import { extractParameterNames, inferParameters, type QueryParameter } from '../utils/query-builder/sql-parameters';
+import { parseSQLToAST } from '../utils/query-builder/sql-parser';
+import { countWhereConditions } from '../utils/query-builder/where-tree';
+import { validateQuery, isFatal } from '../utils/query-builder/query-validator';
 import TableExplorer from '../components/query-builder/TableExplorer';
 import SelectList from '../components/query-builder/SelectList';
 import JoinEditor from '../components/query-builder/JoinEditor';
 import WhereEditor from '../components/query-builder/WhereEditor';
 import GroupByEditor from '../components/query-builder/GroupByEditor';
+import HavingEditor from '../components/query-builder/HavingEditor';
+import WindowFunctionDialog from '../components/query-builder/WindowFunctionDialog';
+import CaseExpressionDialog from '../components/query-builder/CaseExpressionDialog';
+import QueryPagingBar from '../components/query-builder/QueryPagingBar';
+import EditHistoryControls from '../components/query-builder/EditHistoryControls';
 import OrderByEditor from '../components/query-builder/OrderByEditor';
 import CTEEditor from '../components/query-builder/CTEEditor';
 import UnionEditor from '../components/query-builder/UnionEditor';
 import QueryClauseDialog from '../components/query-builder/QueryClauseDialog';
-import SavedQueriesDialog from '../components/query-builder/SavedQueriesDialog';
+import SavedQueriesDialog, { type SavedQueryMetadata } from '../components/query-builder/SavedQueriesDialog';
+import QueryHistoryDialog from '../components/query-builder/QueryHistoryDialog';
+import QueryParametersDialog from '../components/query-builder/QueryParametersDialog';
 import QueryGraphViewer from '../components/query-builder/QueryGraphViewer';
 import SubqueryBuilder from '../components/query-builder/SubqueryBuilder';
 import ViewSwitcher from '../components/ViewSwitcher';
 import InformativeLoading from '../components/InformativeLoading';
-import type { JoinType, QueryAST, WhereCondition, CTEClause, UnionClause } from '../types/query-builder';
+import type { JoinType, QueryAST, WhereCondition, CTEClause, UnionClause, ValidationError } from '../types/query-builder';
 
 type ActiveDialog = 'none' | 'joins' | 'where' | 'groupBy' | 'orderBy' | 'sql' | 'cte' | 'union';
 type ResultTab = 'resultados' | 'grafo' | 'explain';
@@ -85,13 +107,14 @@ type ResultTab = 'resultados' | 'grafo' | 'explain';
 export default function QueryBuilder() {
   const { connId } = useParams<{ connId: string }>();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
   const theme = useTheme();
   
   // Estados de carregamento e erro
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [connectionName, setConnectionName] = useState('');
-  const [dbType, setDbType] = useState<'mysql' | 'sqlserver'>('mysql');
+  const [dbType, setDbType] = useState<DatabaseType>('mysql');
   
   // Dados do grafo
   const [nodes, setNodes] = useState<GraphNode[]>([]);
@@ -105,12 +128,16 @@ export default function QueryBuilder() {
   const [copied, setCopied] = useState(false);
   const [executing, setExecuting] = useState(false);
   const [explaining, setExplaining] = useState(false);
-  const [executionResult, setExecutionResult] = useState<any>(null);
+  const [executionResult, setExecutionResult] = useState<QueryResultPage | null>(null);
   const [executionError, setExecutionError] = useState<string | null>(null);
   const [explainResult, setExplainResult] = useState<any>(null);
   const [explainError, setExplainError] = useState<string | null>(null);
   const [exportMenuOpen, setExportMenuOpen] = useState(false);
-  const [resultLimit, setResultLimit] = useState(100);
+  const [resultPageSize, setResultPageSize] = useState(100);
+  const [resultPage, setResultPage] = useState(0);
+  const [loadingPage, setLoadingPage] = useState(false);
+  const resultHandleRef = useRef<string | null>(null);
+  const queryExecution = useQueryExecution(connId);
   const [refreshing, setRefreshing] = useState(false);
   const [isDraggingOver, setIsDraggingOver] = useState(false);
   const [customFieldDialogOpen, setCustomFieldDialogOpen] = useState(false);
@@ -124,8 +151,14 @@ export default function QueryBuilder() {
   const [aggregateFunction, setAggregateFunction] = useState<'COUNT' | 'SUM' | 'AVG' | 'MIN' | 'MAX'>('COUNT');
   const [aggregateFieldId, setAggregateFieldId] = useState<string>(''); // ID do campo do SELECT
   const [aggregateAlias, setAggregateAlias] = useState<string>('');
+  const [aggregateDistinct, setAggregateDistinct] = useState(false);
+  const [windowDialogOpen, setWindowDialogOpen] = useState(false);
+  const [editingWindowFieldId, setEditingWindowFieldId] = useState<string | null>(null);
+  const [caseDialogOpen, setCaseDialogOpen] = useState(false);
+  const [editingCaseFieldId, setEditingCaseFieldId] = useState<string | null>(null);
   const [importSQL, setImportSQL] = useState('');
   const exportMenuRef = useRef<HTMLDivElement>(null);
+  const pendingPageRunRef = useRef(false); // Troca de página esperando o SQL novo para executar
   const [advancedMenuOpen, setAdvancedMenuOpen] = useState(false);
   const advancedMenuRef = useRef<HTMLDivElement>(null);
   
@@ -163,16 +196,27 @@ export default function QueryBuilder() {
     addSubquery,
     updateSubquery,
     addAggregate,
+    addWindowFunction,
+    updateWindowFunction,
+    addCaseExpression,
+    updateCaseExpression,
+    setDistinct,
     addManualJoin,
     updateJoin,
     removeJoin,
     addWhereCondition,
+    addWhereGroup,
     updateWhereCondition,
-    removeWhereCondition,
-    reorderWhereConditions,
+    setWhereGroupOperator,
+    removeWhereItem,
+    moveWhereItem,
     addGroupBy,
     removeGroupBy,
     reorderGroupBy,
+    addHavingCondition,
+    updateHavingCondition,
+    removeHavingCondition,
+    setHavingOperator,
     addOrderBy,
     removeOrderBy,
     updateOrderBy,
@@ -184,9 +228,23 @@ export default function QueryBuilder() {
     updateUnion,
     removeUnion,
     reorderUnions,
+    setLimit,
     reset,
     loadAST,
+    undo,
+    redo,
+    jumpTo,
+    canUndo,
+    canRedo,
+    historySteps,
+    historyIndex,
   } = queryBuilder;
+
+  // Problemas do AST que o banco recusaria (ex.: HAVING sem GROUP BY nem agregações), refeitos a cada edição;
+  // os fatais bloqueiam a execução e os avisos só aparecem nos editores
+  const validationErrors = useMemo(() => validateQuery(ast, { nodes, dialect: dbType }), [ast, nodes, dbType]);
+  const fatalErrors = useMemo(() => validationErrors.filter(isFatal), [validationErrors]);
+  const errorsOfType = (...types: ValidationError['type'][]) => validationErrors.filter(e => types.includes(e.type));
   
   // Callback quando JOIN é criado (definido após addColumn estar disponível)
   const handleJoinCreated = useCallback((targetTableId: string) => {
@@ -213,85 +271,109 @@ export default function QueryBuilder() {
     }
   }, [pendingJoinTableId, addColumn]);
 
-  // Estado para queries salvas
-  const [savedQueries, setSavedQueries] = useState<Array<{
-    id: string;
-    name: string;
-    description?: string;
-    sql: string;
-    ast: QueryAST;
-    createdAt: Date;
-    updatedAt: Date;
-  }>>([]);
+  // Queries salvas e histórico, guardados no backend por conexão e usuário
+  const savedQueryStore = useSavedQueries(connId);
+  const queryHistory = useQueryHistory(connId);
+  const [historyDialogOpen, setHistoryDialogOpen] = useState(false);
+  // Query salva aberta no builder; execuções com o mesmo SQL contam como execução dela
+  const [activeSavedQuery, setActiveSavedQuery] = useState<Pick<SavedQuery, 'id' | 'sql'> | null>(null);
 
-  // Carregar queries salvas do localStorage
-  useEffect(() => {
-    if (connId) {
-      const key = `saved_queries_${connId}`;
-      const stored = localStorage.getItem(key);
-      if (stored) {
-        try {
-          const parsed = JSON.parse(stored);
-          setSavedQueries(parsed.map((q: any) => ({
-            ...q,
-            createdAt: new Date(q.createdAt),
-            updatedAt: new Date(q.updatedAt),
-          })));
-        } catch (e) {
-          console.error('Erro ao carregar queries salvas:', e);
-        }
-      }
-    }
-  }, [connId]);
+  // Formulário de parâmetros aberto; resolve com os valores ou null se o usuário cancelar
+  const [parameterPrompt, setParameterPrompt] = useState<{
+    parameters: QueryParameter[];
+    submitLabel: string;
+    resolve: (params: QueryParams | null) => void;
+  } | null>(null);
+  // Valores digitados, reaproveitados na próxima execução
+  const [parameterValues, setParameterValues] = useState<Record<string, string>>({});
+  const savedQueryParam = searchParams.get('saved');
 
   // Funções para gerenciar queries salvas
-  const handleSaveQuery = (name: string, description?: string) => {
+  const handleSaveQuery = async (metadata: SavedQueryMetadata) => {
     if (!connId || !sql || !ast) return;
-    
-    const newQuery = {
-      id: `query_${Date.now()}_${Math.random()}`,
-      name,
-      description,
-      sql,
-      ast: JSON.parse(JSON.stringify(ast)), // Deep copy
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
-    
-    const updated = [...savedQueries, newQuery];
-    setSavedQueries(updated);
-    
-    const key = `saved_queries_${connId}`;
-    localStorage.setItem(key, JSON.stringify(updated));
+    try {
+      await savedQueryStore.save({
+        ...metadata,
+        sql,
+        ast: JSON.parse(JSON.stringify(ast)), // Deep copy
+      });
+    } catch (error: any) {
+      console.error('Erro ao salvar query:', error);
+      alert(error.response?.data?.error || 'Erro ao salvar query');
+    }
   };
 
-  const handleLoadQuery = (queryAST: QueryAST) => {
-    loadAST(queryAST);
+  // A URL passa a ser o permalink da query carregada
+  const handleLoadSavedQuery = (query: SavedQuery) => {
+    loadAST(query.ast, `Query salva "${query.name}"`);
+    setActiveSavedQuery({ id: query.id, sql: query.sql });
+    setSearchParams({ saved: query.id }, { replace: true });
     setSavedQueriesDialogOpen(false);
   };
 
-  const handleDeleteQuery = (id: string) => {
-    if (!connId) return;
-    
-    const updated = savedQueries.filter(q => q.id !== id);
-    setSavedQueries(updated);
-    
-    const key = `saved_queries_${connId}`;
-    localStorage.setItem(key, JSON.stringify(updated));
+  const handleLoadQuery = (queryAST: QueryAST) => {
+    loadAST(queryAST, 'Query do histórico de execuções');
+    setActiveSavedQuery(null);
+    setSearchParams({}, { replace: true });
+    setHistoryDialogOpen(false);
   };
 
-  const handleUpdateQuery = (id: string, name: string, description?: string) => {
-    if (!connId || !sql || !ast) return;
-    
-    const updated = savedQueries.map(q => 
-      q.id === id 
-        ? { ...q, name, description, sql, ast: JSON.parse(JSON.stringify(ast)), updatedAt: new Date() }
-        : q
-    );
-    setSavedQueries(updated);
-    
-    const key = `saved_queries_${connId}`;
-    localStorage.setItem(key, JSON.stringify(updated));
+  // Permalink: /schema/:connId/query-builder?saved=<id>
+  useEffect(() => {
+    if (!connId || !savedQueryParam || savedQueryParam === activeSavedQuery?.id) return;
+
+    savedQueriesApi.get(savedQueryParam)
+      .then((response) => {
+        const query = response.data;
+        if (query.connId !== connId) {
+          navigate(`/schema/${query.connId}/query-builder?saved=${query.id}`, { replace: true });
+          return;
+        }
+        loadAST(query.ast, `Query salva "${query.name}"`);
+        setActiveSavedQuery({ id: query.id, sql: query.sql });
+      })
+      .catch((error: any) => {
+        console.error('Erro ao abrir query salva:', error);
+        alert(error.response?.data?.error || 'Erro ao abrir query salva');
+        setSearchParams({}, { replace: true });
+      });
+  }, [connId, savedQueryParam]);
+
+  const handleDeleteQuery = async (id: string) => {
+    try {
+      await savedQueryStore.remove(id);
+    } catch (error: any) {
+      console.error('Erro ao remover query:', error);
+      alert(error.response?.data?.error || 'Erro ao remover query');
+    }
+  };
+
+  const handleUpdateQuery = async (id: string, metadata: SavedQueryMetadata) => {
+    try {
+      await savedQueryStore.update(id, metadata);
+    } catch (error: any) {
+      console.error('Erro ao atualizar query:', error);
+      alert(error.response?.data?.error || 'Erro ao atualizar query');
+    }
+  };
+
+  const handleDeleteHistoryEntry = async (id: string) => {
+    try {
+      await queryHistory.remove(id);
+    } catch (error: any) {
+      console.error('Erro ao remover do histórico:', error);
+      alert(error.response?.data?.error || 'Erro ao remover do histórico');
+    }
+  };
+
+  const handleClearHistory = async () => {
+    if (!confirm('Limpar todo o histórico desta conexão?')) return;
+    try {
+      await queryHistory.clear();
+    } catch (error: any) {
+      console.error('Erro ao limpar histórico:', error);
+      alert(error.response?.data?.error || 'Erro ao limpar histórico');
+    }
   };
   
   // Carregar dados
@@ -370,6 +452,15 @@ export default function QueryBuilder() {
       if (!sql || sql.trim().length === 0 || !connId || executing || ast.select.fields.length === 0) {
         return;
       }
+
+      // Com parâmetros a execução espera o usuário clicar em Executar e preencher o formulário
+      if (extractParameterNames(sql, dbType).length > 0) {
+        return;
+      }
+
+      if (fatalErrors.length > 0) {
+        return;
+      }
       
       console.log('🔄 [Auto-exec] Executando query após drop...', {
         sqlLength: sql.length,
@@ -382,12 +473,10 @@ export default function QueryBuilder() {
       setActiveTab('resultados');
       
       try {
-        const limit = resultLimit === -1 ? undefined : resultLimit;
-        const response = await queryApi.execute(connId, sql, limit);
-        setExecutionResult(response.data);
+        const result = await executeQuery(sql, ast);
         console.log('✅ [Auto-exec] Query executada com sucesso', {
-          rows: response.data.rows?.length || 0,
-          totalRows: response.data.totalRows || 0,
+          rows: result.rows.length,
+          hasMore: result.hasMore,
         });
       } catch (err: any) {
         console.error('❌ [Auto-exec] Erro ao executar query:', err);
@@ -399,6 +488,87 @@ export default function QueryBuilder() {
   };
 
   
+  // Fecha o resultado aberto no servidor (cursor/conexão reservada)
+  const closeOpenResult = useCallback(() => {
+    const handle = resultHandleRef.current;
+    resultHandleRef.current = null;
+    if (handle && connId) {
+      queryApi.closeResults(connId, handle).catch(() => undefined);
+    }
+  }, [connId]);
+
+  // Pede os valores dos parâmetros nomeados do SQL, tipados pelas colunas do grafo.
+  // Resolve undefined se o SQL não tem parâmetros e null se o usuário cancelar
+  const requestParameters = (sqlText: string, sourceAST: QueryAST | undefined, submitLabel: string) => {
+    const parameters = inferParameters(sqlText, dbType, nodes, sourceAST, tableAliases);
+    if (parameters.length === 0) return Promise.resolve(undefined);
+    return new Promise<QueryParams | null>((resolve) => setParameterPrompt({ parameters, submitLabel, resolve }));
+  };
+
+  const handleParametersSubmit = (params: QueryParams, rawValues: Record<string, string>) => {
+    setParameterValues((current) => ({ ...current, ...rawValues }));
+    parameterPrompt?.resolve(params);
+    setParameterPrompt(null);
+  };
+
+  const handleParametersCancel = () => {
+    parameterPrompt?.resolve(null);
+    setParameterPrompt(null);
+  };
+
+  // Executa a query e mostra a primeira página; as demais são buscadas pelo handle.
+  // A execução entra no histórico com o AST quando o SQL veio do builder
+  const executeQuery = async (sqlText: string, sourceAST?: QueryAST, params?: QueryParams): Promise<QueryResultPage> => {
+    closeOpenResult();
+    const execId = queryExecution.begin();
+    try {
+      const response = await queryApi.execute(connId!, sqlText, resultPageSize, execId, params);
+      resultHandleRef.current = response.data.handle;
+      setResultPage(0);
+      setExecutionResult(response.data);
+      const savedQueryId = activeSavedQuery && activeSavedQuery.sql === sqlText ? activeSavedQuery.id : undefined;
+      queryHistory.record({
+        sql: sqlText,
+        ast: sourceAST ? JSON.parse(JSON.stringify(sourceAST)) : undefined,
+        savedQueryId,
+        rowCount: response.data.totalRows ?? response.data.rows.length,
+        durationMs: response.data.executionTime,
+      }).then(() => {
+        // Atualiza a última execução exibida na biblioteca
+        if (savedQueryId) {
+          savedQueryStore.reload().catch((err) => console.error('Erro ao recarregar queries salvas:', err));
+        }
+      });
+      return response.data;
+    } finally {
+      queryExecution.end();
+    }
+  };
+
+  const loadResultPage = async (page: number, pageSize: number) => {
+    const handle = resultHandleRef.current;
+    if (!handle || !connId) return;
+
+    setLoadingPage(true);
+    try {
+      const response = await queryApi.getResults(connId, handle, page * pageSize, pageSize);
+      setResultPage(page);
+      setExecutionResult((prev) => (prev ? { ...prev, ...response.data } : response.data));
+    } catch (err: any) {
+      console.error('Erro ao carregar página de resultados:', err);
+      setExecutionError(err.response?.data?.details || err.response?.data?.error || err.message || 'Erro ao carregar página');
+    } finally {
+      setLoadingPage(false);
+    }
+  };
+
+  const handleResultPageSizeChange = (pageSize: number) => {
+    setResultPageSize(pageSize);
+    // Página atual reiniciada a partir da primeira linha ainda disponível
+    const firstRow = executionResult ? resultPage * resultPageSize : 0;
+    loadResultPage(Math.floor(firstRow / pageSize), pageSize);
+  };
+
   const handleCopy = async () => {
     if (!sql) return;
     await navigator.clipboard.writeText(formatSQL(sql));
@@ -406,8 +576,27 @@ export default function QueryBuilder() {
     setTimeout(() => setCopied(false), 2000);
   };
   
+  // Erros de validação do AST aparecem no lugar do resultado, sem ir ao banco
+  const reportValidationErrors = (tab: 'resultados' | 'explain') => {
+    if (fatalErrors.length === 0) return false;
+    const message = fatalErrors.map(e => e.message).join('; ');
+    if (tab === 'explain') {
+      setExplainResult(null);
+      setExplainError(message);
+    } else {
+      setExecutionResult(null);
+      setExecutionError(message);
+    }
+    setActiveTab(tab);
+    return true;
+  };
+
   const handleExecute = async () => {
     if (!sql || !connId) return;
+    if (reportValidationErrors('resultados')) return;
+
+    const params = await requestParameters(sql, ast, 'Executar');
+    if (params === null) return;
     
     setExecuting(true);
     setExecutionError(null);
@@ -415,10 +604,7 @@ export default function QueryBuilder() {
     setActiveTab('resultados');
     
     try {
-      // Se resultLimit for -1 (Todos), não passar limite (ou passar um valor muito alto)
-      const limit = resultLimit === -1 ? undefined : resultLimit;
-      const response = await queryApi.execute(connId, sql, limit);
-      setExecutionResult(response.data);
+      await executeQuery(sql, ast, params);
     } catch (err: any) {
       console.error('Erro ao executar query:', err);
       setExecutionError(err.response?.data?.error || err.message || 'Erro ao executar query');
@@ -429,6 +615,11 @@ export default function QueryBuilder() {
   
   const handleExplain = async () => {
     if (!sql || !connId) return;
+    if (reportValidationErrors('explain')) return;
+
+    // O plano também precisa dos parâmetros
+    const params = await requestParameters(sql, ast, 'Ver plano');
+    if (params === null) return;
     
     setExplaining(true);
     setExplainError(null);
@@ -436,11 +627,8 @@ export default function QueryBuilder() {
     setActiveTab('explain');
     
     try {
-      const explainSQL = dbType === 'mysql' 
-        ? `EXPLAIN ${sql}`
-        : `SET SHOWPLAN_ALL ON; ${sql}`;
-      
-      const response = await queryApi.execute(connId, explainSQL);
+      // O backend monta o comando de plano de execução de acordo com o driver
+      const response = await queryApi.explain(connId, sql, params);
       setExplainResult(response.data);
     } catch (err: any) {
       console.error('Erro ao executar EXPLAIN:', err);
@@ -453,6 +641,7 @@ export default function QueryBuilder() {
   const handleReset = () => {
     if (confirm('Tem certeza que deseja limpar a query atual?')) {
       reset();
+      closeOpenResult();
       setExecutionResult(null);
       setExecutionError(null);
       setExplainResult(null);
@@ -479,20 +668,34 @@ export default function QueryBuilder() {
     setImportSQL('');
   };
 
+  // Conversão do SQL colado para o AST, refeita a cada alteração para mostrar o que não será representado
+  const importResult = useMemo(
+    () => (importSQL.trim() ? parseSQLToAST(importSQL, { dialect: dbType, nodes, edges }) : null),
+    [importSQL, dbType, nodes, edges]
+  );
+
+  const handleOpenImportedSQL = () => {
+    if (!importResult?.ast) return;
+    loadAST(importResult.ast, 'SQL importado');
+    setActiveSavedQuery(null);
+    setSearchParams({}, { replace: true });
+    setImportSQLDialogOpen(false);
+  };
+
   const handleExecuteImportedSQL = async () => {
     if (!importSQL.trim() || !connId) return;
     
     setImportSQLDialogOpen(false);
+    const params = await requestParameters(importSQL.trim(), undefined, 'Executar');
+    if (params === null) return;
+
     setActiveTab('resultados');
     setExecuting(true);
     setExecutionError(null);
     setExecutionResult(null);
     
     try {
-      // Se resultLimit for -1 (Todos), não passar limite (ou passar um valor muito alto)
-      const limit = resultLimit === -1 ? undefined : resultLimit;
-      const response = await queryApi.execute(connId, importSQL.trim(), limit);
-      setExecutionResult(response.data);
+      await executeQuery(importSQL.trim(), undefined, params);
     } catch (err: any) {
       console.error('Erro ao executar SQL importado:', err);
       setExecutionError(err.response?.data?.error || err.message || 'Erro ao executar query');
@@ -523,12 +726,45 @@ export default function QueryBuilder() {
   // Limpar resultados quando não houver colunas selecionadas
   useEffect(() => {
     if (ast.select.fields.length === 0) {
+      closeOpenResult();
       setExecutionResult(null);
       setExecutionError(null);
       setExplainResult(null);
       setExplainError(null);
     }
-  }, [ast.select.fields.length]);
+  }, [ast.select.fields.length, closeOpenResult]);
+
+  // Troca de página na barra de paginação: executa assim que o SQL com o novo offset é gerado
+  useEffect(() => {
+    if (pendingPageRunRef.current) {
+      pendingPageRunRef.current = false;
+      handleExecute();
+    }
+  }, [sql]);
+
+  // Ctrl+Z / Ctrl+Y (ou Ctrl+Shift+Z) desfazem e refazem edições do AST; campos de texto mantêm o próprio desfazer
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      const target = event.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if (key === 'y' || (key === 'z' && event.shiftKey)) {
+        event.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  // Liberar o resultado aberto ao sair da página
+  useEffect(() => closeOpenResult, [closeOpenResult]);
 
   // Fechar menu de exportação e menu avançado ao clicar fora
   useEffect(() => {
@@ -688,6 +924,15 @@ export default function QueryBuilder() {
           <Typography variant="body2" sx={{ fontWeight: 600, fontSize: '0.8125rem', lineHeight: 1.2 }}>
             Query Builder: {connectionName}
           </Typography>
+          <EditHistoryControls
+            steps={historySteps}
+            currentIndex={historyIndex}
+            canUndo={canUndo}
+            canRedo={canRedo}
+            onUndo={undo}
+            onRedo={redo}
+            onJumpTo={jumpTo}
+          />
         </Box>
           <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
             <Button
@@ -757,6 +1002,28 @@ export default function QueryBuilder() {
             >
               Executar
             </Button>
+            {queryExecution.running && (
+              <Button
+                onClick={queryExecution.cancel}
+                disabled={queryExecution.cancelling}
+                variant="outlined"
+                size="small"
+                color="error"
+                startIcon={<StopIcon sx={{ fontSize: 12 }} />}
+                sx={{
+                  px: 1.5,
+                  py: 0.25,
+                  minHeight: 'auto',
+                  fontSize: '0.6875rem',
+                  fontWeight: 500,
+                  textTransform: 'none',
+                  borderRadius: 1.5,
+                  fontVariantNumeric: 'tabular-nums',
+                }}
+              >
+                {queryExecution.cancelling ? 'Cancelando...' : 'Cancelar'} · {formatElapsed(queryExecution.elapsed)}
+              </Button>
+            )}
             <Button
               onClick={handleExplain}
               disabled={explaining || !sql}
@@ -812,6 +1079,23 @@ export default function QueryBuilder() {
             >
               Salvas
             </Button>
+            <Button
+              onClick={() => setHistoryDialogOpen(true)}
+              variant="outlined"
+              size="small"
+              startIcon={<HistoryIcon sx={{ fontSize: 12 }} />}
+              sx={{
+                px: 1.5,
+                py: 0.25,
+                minHeight: 'auto',
+                fontSize: '0.6875rem',
+                fontWeight: 500,
+                textTransform: 'none',
+                borderRadius: 1.5,
+              }}
+            >
+              Histórico
+            </Button>
             <Button
               onClick={handleCopy}
               disabled={!sql}
@@ -1080,42 +1364,32 @@ export default function QueryBuilder() {
                   pr: 1,
                 }}
               >
-                <Typography variant="caption" sx={{ color: 'text.secondary', whiteSpace: 'nowrap' }}>
-                  Limite:
-                </Typography>
-                <TextField
-                  type="number"
-                  value={resultLimit === -1 ? '' : resultLimit}
-                  onChange={(e) => {
-                    const value = e.target.value;
-                    if (value === '') {
-                      setResultLimit(-1); // Todos
-                    } else {
-                      const num = parseInt(value, 10);
-                      if (!isNaN(num) && num > 0) {
-                        setResultLimit(Math.min(num, 10000)); // Máximo de 10000
-                      }
+                {activeTab === 'resultados' && executionResult && (
+                  <TablePagination
+                    component="div"
+                    count={executionResult.totalRows ?? -1}
+                    page={resultPage}
+                    rowsPerPage={resultPageSize}
+                    rowsPerPageOptions={[50, 100, 500, 1000]}
+                    onPageChange={(_, page) => loadResultPage(page, resultPageSize)}
+                    onRowsPerPageChange={(e) => handleResultPageSizeChange(parseInt(e.target.value, 10))}
+                    labelRowsPerPage="Linhas por página:"
+                    labelDisplayedRows={({ from, to, count }) =>
+                      `${from}-${to} de ${count !== -1 ? count : `mais de ${to}`}`
                     }
-                  }}
-                  placeholder="100"
-                  size="small"
-                  inputProps={{
-                    min: 1,
-                    max: 10000,
-                    style: { textAlign: 'center', padding: '4px 8px' },
-                  }}
-                  sx={{
-                    width: 80,
-                    '& .MuiInputBase-root': {
+                    nextIconButtonProps={{ disabled: loadingPage || !executionResult.hasMore }}
+                    backIconButtonProps={{ disabled: loadingPage || resultPage === 0 }}
+                    sx={{
                       fontSize: '0.75rem',
-                      height: 28,
-                    },
-                    '& .MuiInputBase-input': {
-                      py: 0.5,
-                      textAlign: 'center',
-                    },
-                  }}
-                />
+                      '& .MuiTablePagination-toolbar': { minHeight: 28, pl: 1 },
+                      '& .MuiTablePagination-selectLabel, & .MuiTablePagination-displayedRows': {
+                        fontSize: '0.75rem',
+                        my: 0,
+                      },
+                      '& .MuiTablePagination-input': { fontSize: '0.75rem' },
+                    }}
+                  />
+                )}
               </Box>
             </Box>
           </Box>
@@ -1131,16 +1405,14 @@ export default function QueryBuilder() {
                 ) : executionResult ? (
                   <>
                     {(() => {
-                      const limitedRows = resultLimit === -1 
-                        ? executionResult.rows 
-                        : executionResult.rows.slice(0, resultLimit);
+                      const limitedRows = executionResult.rows;
                       return (
                         <>
                           <Typography variant="body2" sx={{ mb: 2, color: 'text.secondary' }}>
-                            {resultLimit === -1 
-                              ? `${executionResult.rows.length} linhas (todas)`
-                              : `${limitedRows.length} de ${executionResult.rows.length} linhas`
-                            }
+                            {executionResult.totalRows !== null
+                              ? `${executionResult.totalRows} linhas`
+                              : `Mais de ${executionResult.offset + executionResult.rows.length} linhas`}
+                            {executionResult.executionTime !== undefined && ` · ${executionResult.executionTime}ms`}
                           </Typography>
                           {executionResult.rows.length > 0 ? (
                             <TableContainer component={Paper} variant="outlined">
@@ -1388,12 +1660,33 @@ export default function QueryBuilder() {
                       setAggregateFunction('COUNT');
                       setAggregateFieldId('');
                       setAggregateAlias('');
+                      setAggregateDistinct(false);
                       setAdvancedMenuOpen(false);
                     }}
                   >
                     <LayersIcon sx={{ fontSize: 16, mr: 1, color: 'warning.main' }} />
                     Agregação
                   </MenuItem>
+                  <MenuItem
+                    onClick={() => {
+                      setEditingWindowFieldId(null);
+                      setWindowDialogOpen(true);
+                      setAdvancedMenuOpen(false);
+                    }}
+                  >
+                    <FunctionsIcon sx={{ fontSize: 16, mr: 1, color: 'info.main' }} />
+                    Função de janela
+                  </MenuItem>
+                  <MenuItem
+                    onClick={() => {
+                      setEditingCaseFieldId(null);
+                      setCaseDialogOpen(true);
+                      setAdvancedMenuOpen(false);
+                    }}
+                  >
+                    <AccountTreeIcon sx={{ fontSize: 16, mr: 1, color: 'success.main' }} />
+                    CASE WHEN
+                  </MenuItem>
                   <MenuItem
                     onClick={() => {
                       setCustomFieldDialogOpen(true);
@@ -1472,6 +1765,15 @@ export default function QueryBuilder() {
                 setEditingSubqueryFieldId(fieldId);
                 setSubqueryDialogOpen(true);
               }}
+              onEditWindow={(fieldId) => {
+                setEditingWindowFieldId(fieldId);
+                setWindowDialogOpen(true);
+              }}
+              onEditCase={(fieldId) => {
+                setEditingCaseFieldId(fieldId);
+                setCaseDialogOpen(true);
+              }}
+              errors={errorsOfType('missing_table', 'duplicate_column', 'missing_group_by', 'invalid_case')}
               tableAliases={tableAliases}
             />
             {isDraggingOver && ast.select.fields.length === 0 && (
@@ -1503,6 +1805,25 @@ export default function QueryBuilder() {
             )}
           </Box>
           
+          <QueryPagingBar
+            distinct={!!ast.select.distinct}
+            limit={ast.limit}
+            hasOrderBy={(ast.orderBy?.fields.length || 0) > 0}
+            dbType={dbType}
+            lastPageRowCount={
+              executionResult?.totalRows ??
+              (executionResult && !executionResult.hasMore ? resultPage * resultPageSize + executionResult.rows.length : undefined)
+            }
+            disabled={executing || ast.select.fields.length === 0}
+            onDistinctChange={setDistinct}
+            onLimitChange={setLimit}
+            onPageChange={(offset) => {
+              if (!ast.limit) return;
+              pendingPageRunRef.current = true;
+              setLimit(ast.limit.limit, offset);
+            }}
+          />
+          
           {/* Bottom Bar - Clause Buttons */}
           <Box 
             sx={{ 
@@ -1579,9 +1900,9 @@ export default function QueryBuilder() {
                 <Typography variant="caption" sx={{ fontWeight: 500, fontSize: '0.5625rem', lineHeight: 1 }}>
                   WHERE
                 </Typography>
-                {(ast.where?.conditions.length || 0) > 0 && (
+                {countWhereConditions(ast.where) > 0 && (
                   <Chip
-                    label={ast.where?.conditions.length || 0}
+                    label={countWhereConditions(ast.where)}
                     size="small"
                     sx={{
                       position: 'absolute',
@@ -1616,9 +1937,9 @@ export default function QueryBuilder() {
                 <Typography variant="caption" sx={{ fontWeight: 500, fontSize: '0.5625rem', lineHeight: 1 }}>
                   GROUP BY
                 </Typography>
-                {(ast.groupBy?.fields.length || 0) > 0 && (
+                {(ast.groupBy?.fields.length || 0) + (ast.having?.conditions.length || 0) > 0 && (
                   <Chip
-                    label={ast.groupBy?.fields.length || 0}
+                    label={(ast.groupBy?.fields.length || 0) + (ast.having?.conditions.length || 0)}
                     size="small"
                     sx={{
                       position: 'absolute',
@@ -1783,6 +2104,7 @@ export default function QueryBuilder() {
           dbType={dbType}
           preselectedViewTableId={pendingJoinTableId}
           onJoinCreated={handleJoinCreated}
+          errors={errorsOfType('invalid_join', 'circular_join')}
         />
       </QueryClauseDialog>
       
@@ -1793,35 +2115,59 @@ export default function QueryBuilder() {
         width="xl"
       >
         <WhereEditor
-          conditions={ast.where?.conditions || []}
+          root={ast.where?.root}
           onAdd={addWhereCondition}
+          onAddGroup={addWhereGroup}
           onUpdate={updateWhereCondition}
-          onRemove={removeWhereCondition}
-          onReorder={reorderWhereConditions}
+          onSetGroupOperator={setWhereGroupOperator}
+          onRemove={removeWhereItem}
+          onMove={moveWhereItem}
           nodes={nodes}
           edges={edges}
           dbType={dbType}
           availableTables={includedTables}
           tableAliases={tableAliases}
+          errors={errorsOfType('missing_table', 'type_mismatch')}
         />
       </QueryClauseDialog>
       
       <QueryClauseDialog
         isOpen={activeDialog === 'groupBy'}
         onClose={() => setActiveDialog('none')}
-        title="Agrupamento (GROUP BY)"
+        title="Agrupamento (GROUP BY e HAVING)"
       >
-        <GroupByEditor
-          fields={ast.groupBy?.fields || []}
-          onAdd={(field) => addGroupBy(field.tableId, field.column)}
-          onUpdate={() => {}} // GroupBy não precisa de update individual
-          onRemove={removeGroupBy}
-          onReorder={reorderGroupBy}
-          nodes={nodes}
-          availableFields={ast.select.fields}
-          tableAliases={tableAliases}
-          onAddAggregate={addAggregate}
-        />
+        <Box sx={{ display: 'flex', height: '100%' }}>
+          <Box sx={{ flex: 1, minWidth: 0, borderRight: 1, borderColor: 'divider' }}>
+            <GroupByEditor
+              fields={ast.groupBy?.fields || []}
+              onAdd={(field) => addGroupBy(field.tableId, field.column)}
+              onUpdate={() => {}} // GroupBy não precisa de update individual
+              onRemove={removeGroupBy}
+              onReorder={reorderGroupBy}
+              nodes={nodes}
+              availableFields={ast.select.fields}
+              tableAliases={tableAliases}
+              onAddAggregate={addAggregate}
+              errors={errorsOfType('missing_table', 'missing_group_by')}
+            />
+          </Box>
+          <Box sx={{ flex: 1, minWidth: 0 }}>
+            <HavingEditor
+              conditions={ast.having?.conditions || []}
+              operator={ast.having?.operator || 'AND'}
+              onAdd={addHavingCondition}
+              onUpdate={updateHavingCondition}
+              onRemove={removeHavingCondition}
+              onSetOperator={setHavingOperator}
+              nodes={nodes}
+              availableTables={includedTables}
+              tableAliases={tableAliases}
+              selectFields={ast.select.fields}
+              errors={errorsOfType('invalid_having')}
+              dbType={dbType}
+            />
+          </Box>
+        </Box>
       </QueryClauseDialog>
       
       <QueryClauseDialog
@@ -1838,6 +2184,7 @@ export default function QueryBuilder() {
           nodes={nodes}
           availableFields={ast.select.fields}
           tableAliases={tableAliases}
+          errors={errorsOfType('missing_table', 'invalid_order_by')}
         />
       </QueryClauseDialog>
       
@@ -2105,6 +2452,7 @@ export default function QueryBuilder() {
           setAggregateFunction('COUNT');
           setAggregateFieldId('');
           setAggregateAlias('');
+          setAggregateDistinct(false);
         }}
         maxWidth="sm"
         fullWidth
@@ -2118,6 +2466,7 @@ export default function QueryBuilder() {
                 setAggregateFunction('COUNT');
                 setAggregateFieldId('');
                 setAggregateAlias('');
+                setAggregateDistinct(false);
               }}
               size="small"
               sx={{ color: 'text.secondary' }}
@@ -2203,6 +2552,22 @@ export default function QueryBuilder() {
               </FormControl>
             )}
             
+            <FormControlLabel
+              control={
+                <Checkbox
+                  size="small"
+                  checked={aggregateDistinct && !!aggregateFieldId}
+                  disabled={!aggregateFieldId}
+                  onChange={(e) => setAggregateDistinct(e.target.checked)}
+                />
+              }
+              label={
+                <Typography variant="body2">
+                  Apenas valores distintos ({aggregateFunction}(DISTINCT coluna))
+                </Typography>
+              }
+            />
+            
             <TextField
               label="Alias (opcional)"
               value={aggregateAlias}
@@ -2226,6 +2591,7 @@ export default function QueryBuilder() {
               setAggregateFunction('COUNT');
               setAggregateFieldId('');
               setAggregateAlias('');
+              setAggregateDistinct(false);
             }}
             variant="outlined"
             size="small"
@@ -2246,7 +2612,8 @@ export default function QueryBuilder() {
                     field.tableId,
                     field.column || '*',
                     aggregateFunction,
-                    aggregateAlias.trim() || undefined
+                    aggregateAlias.trim() || undefined,
+                    aggregateDistinct
                   );
                 }
               }
@@ -2254,6 +2621,7 @@ export default function QueryBuilder() {
               setAggregateFunction('COUNT');
               setAggregateFieldId('');
               setAggregateAlias('');
+              setAggregateDistinct(false);
             }}
             disabled={ast.select.fields.length === 0 || (aggregateFunction !== 'COUNT' && !aggregateFieldId)}
             variant="contained"
@@ -2264,19 +2632,85 @@ export default function QueryBuilder() {
         </DialogActions>
       </Dialog>
 
+      {/* Dialog de Função de Janela */}
+      <WindowFunctionDialog
+        isOpen={windowDialogOpen}
+        field={editingWindowFieldId ? ast.select.fields.find(f => f.id === editingWindowFieldId) : undefined}
+        nodes={nodes}
+        availableTables={includedTables}
+        tableAliases={tableAliases}
+        dbType={dbType}
+        onSave={(spec, alias) => {
+          if (editingWindowFieldId) {
+            updateWindowFunction(editingWindowFieldId, spec, alias);
+          } else {
+            addWindowFunction(spec, alias);
+          }
+          setWindowDialogOpen(false);
+          setEditingWindowFieldId(null);
+        }}
+        onCancel={() => {
+          setWindowDialogOpen(false);
+          setEditingWindowFieldId(null);
+        }}
+      />
+
+      {/* Dialog de CASE WHEN */}
+      <CaseExpressionDialog
+        isOpen={caseDialogOpen}
+        field={editingCaseFieldId ? ast.select.fields.find(f => f.id === editingCaseFieldId) : undefined}
+        nodes={nodes}
+        availableTables={includedTables}
+        tableAliases={tableAliases}
+        dbType={dbType}
+        onSave={(caseExpression, alias) => {
+          if (editingCaseFieldId) {
+            updateCaseExpression(editingCaseFieldId, caseExpression, alias);
+          } else {
+            addCaseExpression(caseExpression, alias);
+          }
+          setCaseDialogOpen(false);
+          setEditingCaseFieldId(null);
+        }}
+        onCancel={() => {
+          setCaseDialogOpen(false);
+          setEditingCaseFieldId(null);
+        }}
+      />
+
       {/* Dialog de queries salvas */}
       <SavedQueriesDialog
         isOpen={savedQueriesDialogOpen}
         onClose={() => setSavedQueriesDialogOpen(false)}
-        savedQueries={savedQueries}
+        savedQueries={savedQueryStore.savedQueries}
         currentSQL={sql || ''}
-        currentAST={ast || { select: { fields: [] }, from: { table: '', alias: '' }, joins: [], where: { conditions: [] }, groupBy: { fields: [] }, orderBy: { fields: [] }, limit: null }}
-        onLoad={handleLoadQuery}
+        currentAST={ast || { select: { fields: [] }, from: { table: '', alias: '' }, joins: [], groupBy: { fields: [] }, orderBy: { fields: [] }, limit: null }}
+        onLoad={handleLoadSavedQuery}
         onSave={handleSaveQuery}
         onDelete={handleDeleteQuery}
         onUpdate={handleUpdateQuery}
       />
 
+      {/* Dialog de histórico de execuções */}
+      <QueryHistoryDialog
+        isOpen={historyDialogOpen}
+        onClose={() => setHistoryDialogOpen(false)}
+        history={queryHistory.history}
+        onLoad={handleLoadQuery}
+        onDelete={handleDeleteHistoryEntry}
+        onClearAll={handleClearHistory}
+      />
+
+      {/* Formulário de parâmetros nomeados */}
+      <QueryParametersDialog
+        isOpen={parameterPrompt !== null}
+        parameters={parameterPrompt?.parameters ?? []}
+        initialValues={parameterValues}
+        submitLabel={parameterPrompt?.submitLabel}
+        onCancel={handleParametersCancel}
+        onSubmit={handleParametersSubmit}
+      />
+
       {/* Dialog para importar SQL */}
       <Dialog
         open={importSQLDialogOpen}
@@ -2286,7 +2720,7 @@ export default function QueryBuilder() {
       >
         <DialogTitle>
           <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
-            <Typography variant="h6">Importar e Executar SQL</Typography>
+            <Typography variant="h6">Importar SQL</Typography>
             <IconButton
               onClick={() => setImportSQLDialogOpen(false)}
               size="small"
@@ -2306,7 +2740,7 @@ export default function QueryBuilder() {
               multiline
               rows={10}
               fullWidth
-              helperText="Cole uma query SQL para executar diretamente (não será convertida para o Query Builder)"
+              helperText="Cole uma query SQL para abrir no Query Builder ou executar diretamente"
               sx={{
                 '& .MuiInputBase-root': {
                   fontFamily: 'monospace',
@@ -2314,18 +2748,48 @@ export default function QueryBuilder() {
                 },
               }}
             />
-            <Alert severity="info">
-              <Typography variant="caption">
-                <strong>Nota:</strong> Esta funcionalidade executa o SQL diretamente sem convertê-lo para o Query Builder. 
-                Os resultados serão exibidos na aba "Resultados".
-              </Typography>
-            </Alert>
+            {importResult && !importResult.ast && (
+              <Alert severity="info">
+                <Typography variant="caption">
+                  <strong>Não pode ser aberto no Query Builder:</strong> {importResult.issues[importResult.issues.length - 1]?.message}.
+                  O SQL ainda pode ser executado diretamente.
+                </Typography>
+              </Alert>
+            )}
+            {importResult?.ast && importResult.issues.length > 0 && (
+              <Alert severity="warning">
+                <Typography variant="caption" component="div" sx={{ mb: 0.5 }}>
+                  <strong>Partes que o Query Builder não representa:</strong>
+                </Typography>
+                <Box component="ul" sx={{ m: 0, pl: 2 }}>
+                  {importResult.issues.map((issue, index) => (
+                    <Typography key={index} component="li" variant="caption">
+                      <strong>{issue.clause}:</strong> {issue.message}
+                      {issue.sql && (
+                        <Box component="code" sx={{ ml: 0.5, fontSize: '0.75rem' }}>
+                          {issue.sql.length > 80 ? `${issue.sql.slice(0, 80)}...` : issue.sql}
+                        </Box>
+                      )}
+                    </Typography>
+                  ))}
+                </Box>
+              </Alert>
+            )}
           </Box>
         </DialogContent>
         <DialogActions sx={{ px: 2, py: 1.5 }}>
           <Button onClick={() => setImportSQLDialogOpen(false)} variant="outlined" size="small">
             Cancelar
           </Button>
+          <Button
+            onClick={handleOpenImportedSQL}
+            disabled={!importResult?.ast}
+            variant="outlined"
+            size="small"
+            startIcon={<EditIcon sx={{ fontSize: 16 }} />}
+          >
+            Abrir no Builder
+          </Button>
           <Button
             onClick={handleExecuteImportedSQL}
             disabled={!importSQL.trim()}
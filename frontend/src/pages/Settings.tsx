@@ -35,6 +35,7 @@ import {
   Info as InfoIcon,
 } from '@mui/icons-material';
 import { openaiApi, uiApi, type OpenAIConfig } from '../api/client';
+import AccessControlCard from '../components/settings/AccessControlCard';
 
 export default function Settings() {
   const theme = useTheme();
@@ -514,6 +515,8 @@ export default function Settings() {
         </CardContent>
       </Card>
 
+      <AccessControlCard />
+
       {/* Dialog de Informações Importantes */}
       <Dialog
         open={infoDialogOpen}
@@ -8,6 +8,8 @@ import type { GraphNode, GraphEdge } from '../api/client';
 export type JoinType = 'INNER' | 'LEFT' | 'RIGHT' | 'FULL';
 export type WhereOperator = '=' | '!=' | '<>' | '>' | '>=' | '<' | '<=' | 'LIKE' | 'NOT LIKE' | 'IN' | 'NOT IN' | 'IS NULL' | 'IS NOT NULL' | 'BETWEEN' | 'NOT BETWEEN' | 'EXISTS' | 'NOT EXISTS';
 export type WhereLogicalOperator = 'AND' | 'OR';
+export type AggregateFunction = 'COUNT' | 'SUM' | 'AVG' | 'MIN' | 'MAX';
+export type HavingOperator = '=' | '!=' | '<>' | '>' | '>=' | '<' | '<=' | 'BETWEEN' | 'NOT BETWEEN' | 'IN' | 'NOT IN' | 'IS NULL' | 'IS NOT NULL';
 export type OrderDirection = 'ASC' | 'DESC';
 
 // ===== AST STRUCTURES =====
@@ -18,6 +20,7 @@ export interface QueryAST {
   joins: QueryJoin[];
   where?: WhereClause;
   groupBy?: GroupByClause;
+  having?: HavingClause;
   orderBy?: OrderByClause;
   limit?: LimitClause;
   ctes?: CTEClause[];
@@ -33,6 +36,7 @@ export interface FromClause {
 
 export interface SelectClause {
   fields: SelectField[];
+  distinct?: boolean; // SELECT DISTINCT
 }
 
 export interface SelectField {
@@ -42,9 +46,72 @@ export interface SelectField {
   alias?: string;
   order: number;
   expression?: string;
-  type?: 'column' | 'expression' | 'subquery' | 'aggregate';
-  aggregateFunction?: 'COUNT' | 'SUM' | 'AVG' | 'MIN' | 'MAX';
+  type?: 'column' | 'expression' | 'subquery' | 'aggregate' | 'window' | 'case';
+  aggregateFunction?: AggregateFunction;
+  distinct?: boolean; // Agregação sobre valores distintos: COUNT(DISTINCT coluna)
   subquery?: QueryAST;
+  window?: WindowSpec;
+  caseExpression?: CaseExpression;
+}
+
+// ===== CASE WHEN =====
+
+// Resultado de THEN/ELSE: valor literal (ou parâmetro :nome), NULL ou coluna de uma tabela da query
+export type CaseValue =
+  | { kind: 'value'; value: string | number }
+  | { kind: 'null' }
+  | ({ kind: 'column' } & ColumnRef);
+
+// WHEN cond1 AND cond2 ... THEN resultado
+export interface CaseBranch {
+  id: string;
+  conditions: WhereCondition[];
+  result: CaseValue;
+}
+
+// CASE WHEN ... THEN ... [WHEN ...] ELSE ... END; os ramos são testados na ordem
+export interface CaseExpression {
+  branches: CaseBranch[];
+  else?: CaseValue; // Sem ELSE, linhas que não caem em nenhum ramo ficam NULL
+}
+
+// ===== WINDOW FUNCTIONS =====
+
+export type RankingWindowFunction = 'ROW_NUMBER' | 'RANK' | 'DENSE_RANK';
+export type OffsetWindowFunction = 'LAG' | 'LEAD';
+export type WindowFunction = RankingWindowFunction | OffsetWindowFunction | AggregateFunction;
+
+export interface ColumnRef {
+  tableId: string;
+  column: string;
+}
+
+export interface WindowOrderField extends ColumnRef {
+  direction: OrderDirection;
+}
+
+export type WindowFrameBoundType = 'UNBOUNDED PRECEDING' | 'PRECEDING' | 'CURRENT ROW' | 'FOLLOWING' | 'UNBOUNDED FOLLOWING';
+
+export interface WindowFrameBound {
+  type: WindowFrameBoundType;
+  offset?: number; // Número de linhas em PRECEDING/FOLLOWING
+}
+
+export interface WindowFrame {
+  unit: 'ROWS' | 'RANGE';
+  start: WindowFrameBound;
+  end: WindowFrameBound;
+}
+
+// FUNÇÃO(argumento) OVER (PARTITION BY ... ORDER BY ... frame)
+export interface WindowSpec {
+  function: WindowFunction;
+  argument?: ColumnRef; // LAG/LEAD e agregações; COUNT sem argumento é COUNT(*)
+  offset?: number; // LAG/LEAD, padrão 1
+  defaultValue?: string | number; // LAG/LEAD, quando não há linha anterior/seguinte
+  partitionBy: ColumnRef[];
+  orderBy: WindowOrderField[];
+  frame?: WindowFrame; // Só em agregações (total acumulado, média móvel)
 }
 
 export interface QueryJoin {
@@ -62,22 +129,37 @@ export interface QueryJoin {
   targetSubqueryAlias?: string;
 }
 
+// Árvore de condições: a raiz é um grupo e cada grupo une seus itens com um único operador,
+// então "(a OR b) AND (c OR d)" é um grupo AND com dois grupos OR dentro
 export interface WhereClause {
-  conditions: WhereCondition[];
-  logicalOperator?: WhereLogicalOperator;
+  root: WhereGroup;
+}
+
+export interface WhereGroup {
+  id: string;
+  kind: 'group';
+  operator: WhereLogicalOperator;
+  items: WhereItem[];
 }
 
 export interface WhereCondition {
   id: string;
+  kind?: 'condition';
   tableId: string;
   column: string;
   operator: WhereOperator;
   value?: string | number | string[] | number[];
-  logicalOperator?: WhereLogicalOperator;
-  order: number;
   subquery?: QueryAST;
 }
 
+export type WhereItem = WhereCondition | WhereGroup;
+
+// Formato antigo (lista plana com operador por condição), ainda presente em queries salvas e no histórico
+export interface LegacyWhereClause {
+  conditions: Array<WhereCondition & { logicalOperator?: WhereLogicalOperator; order?: number }>;
+  logicalOperator?: WhereLogicalOperator;
+}
+
 export interface GroupByClause {
   fields: GroupByField[];
 }
@@ -89,6 +171,22 @@ export interface GroupByField {
   order: number;
 }
 
+// Condições sobre agregações, unidas por um único operador
+export interface HavingClause {
+  operator: WhereLogicalOperator;
+  conditions: HavingCondition[];
+}
+
+export interface HavingCondition {
+  id: string;
+  aggregateFunction: AggregateFunction;
+  tableId: string; // Vazio em COUNT(*)
+  column: string; // '*' em COUNT(*)
+  expression?: string; // Agregação escrita à mão, ex.: SUM(o.qty * o.price); substitui função e coluna
+  operator: HavingOperator;
+  value?: string | number | string[] | number[];
+}
+
 export interface OrderByClause {
   fields: OrderByField[];
 }
@@ -101,6 +199,7 @@ export interface OrderByField {
   order: number;
 }
 
+// Com offset definido (mesmo 0), o SQL Server usa OFFSET ... FETCH em vez de TOP
 export interface LimitClause {
   limit: number;
   offset?: number;
@@ -147,9 +246,20 @@ export interface JoinOption {
 // ===== VALIDATION =====
 
 export interface ValidationError {
-  type: 'missing_table' | 'duplicate_column' | 'invalid_join' | 'circular_join' | 'missing_join';
+  type:
+    | 'missing_table'
+    | 'duplicate_column'
+    | 'invalid_join'
+    | 'circular_join'
+    | 'missing_join'
+    | 'invalid_having'
+    | 'invalid_case'
+    | 'missing_group_by'
+    | 'type_mismatch'
+    | 'invalid_order_by';
   message: string;
-  field?: string;
+  field?: string; // Id do item do AST (campo, condição, JOIN...) onde o erro aparece
+  severity?: 'error' | 'warning'; // Sem severity o erro é fatal e bloqueia a execução
 }
 
 // ===== COMPONENT PROPS (legacy compatibility) =====
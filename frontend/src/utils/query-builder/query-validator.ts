@@ -0,0 +1,320 @@
+/**
+ * Validação semântica do AST do Query Builder
+ * Aponta o que o gerador montaria mas o banco recusaria, antes de executar
+ */
+
+import type { GraphNode } from '../../api/client';
+import type { CaseValue, QueryAST, SelectField, ValidationError, WhereCondition } from '../../types/query-builder';
+import type { DatabaseDialect } from './sql-generator';
+import { isParameterRef } from './sql-parameters';
+import { flattenWhereConditions } from './where-tree';
+
+export interface ValidationOptions {
+  nodes?: GraphNode[]; // Tipos das colunas, para conferir os valores do WHERE
+  dialect?: DatabaseDialect;
+}
+
+// Erros sem severity (ou 'error') bloqueiam a execução; avisos só aparecem nos editores
+export function isFatal(error: ValidationError): boolean {
+  return error.severity !== 'warning';
+}
+
+export function hasAggregates(ast: QueryAST): boolean {
+  return ast.select.fields.some(f => f.type === 'aggregate' || !!f.aggregateFunction);
+}
+
+// HAVING filtra grupos: precisa de GROUP BY ou de agregações no SELECT (que agrupam tudo em uma linha)
+export function validateHaving(ast: QueryAST): ValidationError[] {
+  const conditions = ast.having?.conditions ?? [];
+  if (conditions.length === 0) return [];
+
+  const errors: ValidationError[] = [];
+  if ((ast.groupBy?.fields.length ?? 0) === 0 && !hasAggregates(ast)) {
+    errors.push({
+      type: 'invalid_having',
+      message: 'HAVING só pode ser usado com GROUP BY ou com agregações no SELECT',
+    });
+  }
+
+  for (const cond of conditions) {
+    if (cond.expression?.trim()) continue;
+    if (!cond.column) {
+      errors.push({ type: 'invalid_having', message: `Condição HAVING com ${cond.aggregateFunction} sem coluna`, field: cond.id });
+    } else if (cond.column === '*' && cond.aggregateFunction !== 'COUNT') {
+      errors.push({ type: 'invalid_having', message: `${cond.aggregateFunction}(*) não existe; use uma coluna`, field: cond.id });
+    }
+  }
+  return errors;
+}
+
+function caseConditionError(cond: WhereCondition): string | null {
+  if (cond.operator === 'EXISTS' || cond.operator === 'NOT EXISTS') {
+    return cond.subquery || cond.value ? null : `${cond.operator} sem subselect`;
+  }
+  if (!cond.tableId || !cond.column) return 'Condição WHEN sem coluna';
+  if (cond.operator === 'IS NULL' || cond.operator === 'IS NOT NULL' || cond.subquery) return null;
+  const values = Array.isArray(cond.value) ? cond.value : [cond.value];
+  if (values.length === 0 || values.some(v => v === undefined || v === '')) return `Condição WHEN em ${cond.column} sem valor`;
+  if ((cond.operator === 'BETWEEN' || cond.operator === 'NOT BETWEEN') && values.length !== 2) {
+    return `${cond.operator} em ${cond.column} precisa de dois valores`;
+  }
+  return null;
+}
+
+const invalidCaseValue = (value: CaseValue | undefined) => value?.kind === 'column' && (!value.tableId || !value.column);
+
+// Ramos do CASE precisam de condição completa; um CASE sem WHEN não é SQL válido
+export function validateCase(field: SelectField): ValidationError[] {
+  const expr = field.caseExpression;
+  if (!expr) return [];
+  const label = field.alias ? `CASE ${field.alias}` : 'CASE';
+
+  const errors: ValidationError[] = [];
+  if (expr.branches.length === 0) {
+    errors.push({ type: 'invalid_case', message: `${label} sem nenhum WHEN`, field: field.id });
+  }
+  expr.branches.forEach((branch, index) => {
+    if (branch.conditions.length === 0) {
+      errors.push({ type: 'invalid_case', message: `${label}: WHEN ${index + 1} sem condição`, field: field.id });
+    }
+    for (const cond of branch.conditions) {
+      const problem = caseConditionError(cond);
+      if (problem) errors.push({ type: 'invalid_case', message: `${label}: ${problem}`, field: field.id });
+    }
+    if (invalidCaseValue(branch.result)) {
+      errors.push({ type: 'invalid_case', message: `${label}: THEN do WHEN ${index + 1} sem coluna`, field: field.id });
+    }
+  });
+  if (invalidCaseValue(expr.else)) {
+    errors.push({ type: 'invalid_case', message: `${label}: ELSE sem coluna`, field: field.id });
+  }
+  return errors;
+}
+
+// Nome curto da tabela nas mensagens ("dbo.orders" → "orders")
+const tableName = (tableId: string) => tableId.split('.').pop() || tableId;
+
+// Tabelas que a query conhece até cada JOIN: FROM (tabela ou subselect) e alvos dos JOINs anteriores.
+// tableIds antigos podem trazer o alias no lugar do id, então os aliases também contam
+function knownTables(ast: QueryAST): Set<string> {
+  const known = new Set([ast.from.table, ast.from.alias].filter(Boolean));
+  for (const join of ast.joins) {
+    known.add(join.targetTableId);
+    known.add(join.targetAlias);
+  }
+  return known;
+}
+
+// Alias com que a tabela entra no grafo dos JOINs; tableIds antigos sem alias usam o próprio id
+const aliasKey = (alias: string | undefined, tableId: string) => (alias || tableId).toLowerCase();
+
+/**
+ * JOINs precisam partir de uma tabela que já está na query (FROM ou um JOIN anterior). O grafo dos JOINs
+ * liga aliases, então a mesma tabela pode entrar mais de uma vez com aliases diferentes (criador e aprovador
+ * na mesma tabela de usuários). O mesmo par origem → destino repetido é um JOIN por várias colunas; ciclo é
+ * só um JOIN que traz de novo um alias já presente por outro caminho, ou que liga um alias a ele mesmo
+ */
+export function validateJoins(ast: QueryAST): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const joined = new Set([ast.from.table, ast.from.alias].filter(Boolean));
+  const aliases = new Set([aliasKey(ast.from.alias, ast.from.table)]);
+  const edges = new Set<string>();
+
+  for (const join of ast.joins) {
+    const target = join.targetSubqueryAlias || tableName(join.targetTableId);
+    if (!joined.has(join.sourceTableId) && !joined.has(join.sourceAlias)) {
+      const later = ast.joins.some(j => j.targetTableId === join.sourceTableId);
+      errors.push({
+        type: 'invalid_join',
+        message: later
+          ? `JOIN com ${target} parte de ${tableName(join.sourceTableId)}, que só entra na query em um JOIN posterior`
+          : `JOIN com ${target} parte de ${tableName(join.sourceTableId)}, que não está no FROM nem nos JOINs`,
+        field: join.id,
+      });
+    }
+
+    const sourceKey = aliasKey(join.sourceAlias, join.sourceTableId);
+    const targetKey = aliasKey(join.targetAlias, join.targetTableId);
+    const edge = `${sourceKey}->${targetKey}`;
+    if (sourceKey === targetKey || (aliases.has(targetKey) && !edges.has(edge))) {
+      errors.push({
+        type: 'circular_join',
+        message: `${target} AS ${join.targetAlias} já está na query; use outro alias ou o JOIN fecha um ciclo`,
+        field: join.id,
+      });
+    }
+
+    joined.add(join.targetTableId);
+    joined.add(join.targetAlias);
+    aliases.add(targetKey);
+    edges.add(edge);
+  }
+  return errors;
+}
+
+// Colunas do SELECT, WHERE, GROUP BY e ORDER BY devem ser de tabelas do FROM ou dos JOINs
+export function validateTableReferences(ast: QueryAST): ValidationError[] {
+  const known = knownTables(ast);
+  const refs = [
+    ...ast.select.fields
+      .filter(f => !f.expression && !f.subquery && !f.window && !f.caseExpression && f.column !== '*')
+      .map(f => ({ ...f, clause: 'SELECT' })),
+    ...flattenWhereConditions(ast.where?.root)
+      .filter(c => c.operator !== 'EXISTS' && c.operator !== 'NOT EXISTS')
+      .map(c => ({ ...c, clause: 'WHERE' })),
+    ...(ast.groupBy?.fields ?? []).map(f => ({ ...f, clause: 'GROUP BY' })),
+    ...(ast.orderBy?.fields ?? []).map(f => ({ ...f, clause: 'ORDER BY' })),
+  ];
+
+  return refs
+    .filter(ref => ref.tableId && !known.has(ref.tableId))
+    .map(ref => ({
+      type: 'missing_table' as const,
+      message: `${ref.clause} usa ${tableName(ref.tableId)}.${ref.column}, mas ${tableName(ref.tableId)} não está no FROM nem nos JOINs`,
+      field: ref.id,
+    }));
+}
+
+function isPlainColumn(field: SelectField): boolean {
+  return !field.aggregateFunction && !field.expression && !field.subquery && !field.window && !field.caseExpression
+    && field.type !== 'aggregate' && field.column !== '*' && !!field.column;
+}
+
+/**
+ * Com GROUP BY ou agregações, cada coluna simples do SELECT precisa estar no GROUP BY. O SQLite aceita
+ * (devolve um valor qualquer do grupo), por isso lá é só um aviso
+ */
+export function validateGroupBy(ast: QueryAST, dialect?: DatabaseDialect): ValidationError[] {
+  const groupBy = ast.groupBy?.fields ?? [];
+  if (groupBy.length === 0 && !hasAggregates(ast)) return [];
+
+  const grouped = new Set(groupBy.map(g => `${g.tableId}|${g.column}`));
+  return ast.select.fields
+    .filter(f => isPlainColumn(f) && !grouped.has(`${f.tableId}|${f.column}`))
+    .map(f => ({
+      type: 'missing_group_by' as const,
+      message: `${tableName(f.tableId)}.${f.column} não está no GROUP BY nem dentro de uma agregação`,
+      field: f.id,
+      ...(dialect === 'sqlite' && { severity: 'warning' as const }),
+    }));
+}
+
+// Nome da coluna no resultado; agregações e expressões sem alias ficam com um nome escolhido pelo banco
+function outputName(field: SelectField): string | null {
+  if (field.alias) return field.alias;
+  return isPlainColumn(field) ? field.column : null;
+}
+
+/**
+ * O resultado guarda as linhas por nome de coluna: dois campos com o mesmo nome se sobrepõem. O mesmo alias
+ * escrito duas vezes é erro; colunas sem alias com o mesmo nome (c.id e o.id) o banco aceita, então é um aviso
+ */
+export function validateOutputNames(ast: QueryAST): ValidationError[] {
+  const seen = new Map<string, SelectField>();
+  const errors: ValidationError[] = [];
+  for (const field of [...ast.select.fields].sort((a, b) => a.order - b.order)) {
+    const name = outputName(field);
+    if (!name) continue;
+    const key = name.toLowerCase();
+    const previous = seen.get(key);
+    if (!previous) {
+      seen.set(key, field);
+    } else if (field.alias && previous.alias) {
+      errors.push({
+        type: 'duplicate_column',
+        message: `O alias "${name}" já é usado por outra coluna; defina um alias diferente`,
+        field: field.id,
+      });
+    } else {
+      errors.push({
+        type: 'duplicate_column',
+        message: `Já existe uma coluna "${name}" no resultado e só uma aparece na tabela; defina um alias para distinguir`,
+        field: field.id,
+        severity: 'warning',
+      });
+    }
+  }
+  return errors;
+}
+
+// Com UNION o ORDER BY ordena o resultado combinado, então só enxerga as colunas do primeiro SELECT
+export function validateUnionOrderBy(ast: QueryAST): ValidationError[] {
+  if (!ast.unions?.length) return [];
+  return (ast.orderBy?.fields ?? [])
+    .filter(o => !ast.select.fields.some(f => isPlainColumn(f) && f.tableId === o.tableId && f.column === o.column))
+    .map(o => ({
+      type: 'invalid_order_by' as const,
+      message: `Com UNION só é possível ordenar por colunas do SELECT; ${tableName(o.tableId)}.${o.column} não está nele`,
+      field: o.id,
+    }));
+}
+
+type ColumnKind = 'number' | 'date' | 'boolean' | 'uuid' | 'text';
+
+function columnKind(type: string): ColumnKind {
+  const t = type.toLowerCase();
+  if (/^(bool|boolean|bit)\b/.test(t)) return 'boolean';
+  if (/uuid|uniqueidentifier/.test(t)) return 'uuid';
+  if (/^((tiny|small|medium|big)?int(eger|\d)?|dec(imal)?|numeric|number|float\d?|double|real|(small)?money|(small|big)?serial)\b/.test(t)) return 'number';
+  if (/^(date|time|(small)?datetime\d?|datetimeoffset|timestamp(tz)?)\b/.test(t)) return 'date';
+  return 'text';
+}
+
+const VALUE_PATTERNS: Record<Exclude<ColumnKind, 'text'>, RegExp> = {
+  number: /^[-+]?(\d+(\.\d*)?|\.\d+)([eE][-+]?\d+)?$/,
+  date: /^(\d{4}-\d{2}-\d{2}([ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[-+]\d{2}:?\d{2})?)?|\d{2}:\d{2}(:\d{2}(\.\d+)?)?)$/,
+  boolean: /^(true|false|0|1)$/i,
+  uuid: /^\{?[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\}?$/i,
+};
+
+const KIND_LABELS: Record<Exclude<ColumnKind, 'text'>, string> = {
+  number: 'número',
+  date: 'data (AAAA-MM-DD)',
+  boolean: 'verdadeiro/falso (true, false, 0 ou 1)',
+  uuid: 'UUID',
+};
+
+/**
+ * Valores do WHERE que não combinam com o tipo da coluna no schema. PostgreSQL e SQL Server recusam a
+ * conversão; MySQL e SQLite convertem em silêncio (ex.: 'abc' vira 0), então lá é um aviso. Datas são
+ * sempre aviso: cada banco aceita formatos além do ISO (ex.: '20240101' no SQL Server)
+ */
+export function validateWhereTypes(ast: QueryAST, options: ValidationOptions = {}): ValidationError[] {
+  const { nodes = [], dialect = 'mysql' } = options;
+  const errors: ValidationError[] = [];
+
+  for (const cond of flattenWhereConditions(ast.where?.root)) {
+    if (cond.subquery || ['IS NULL', 'IS NOT NULL', 'EXISTS', 'NOT EXISTS', 'LIKE', 'NOT LIKE'].includes(cond.operator)) continue;
+    const column = nodes.find(n => n.id === cond.tableId)?.columns.find(c => c.name === cond.column);
+    if (!column) continue;
+    const kind = columnKind(column.type);
+    if (kind === 'text') continue;
+
+    const values: unknown[] = Array.isArray(cond.value) ? cond.value : [cond.value];
+    const invalid = values.find(v =>
+      typeof v === 'string' && v !== '' && !VALUE_PATTERNS[kind].test(v.trim()) && !isParameterRef(v, dialect)
+    );
+    if (invalid === undefined) continue;
+
+    errors.push({
+      type: 'type_mismatch',
+      message: `${tableName(cond.tableId)}.${cond.column} é ${column.type}; '${invalid}' não é ${KIND_LABELS[kind]}`,
+      field: cond.id,
+      ...((kind === 'date' || dialect === 'mysql' || dialect === 'sqlite') && { severity: 'warning' as const }),
+    });
+  }
+  return errors;
+}
+
+export function validateQuery(ast: QueryAST, options: ValidationOptions = {}): ValidationError[] {
+  return [
+    ...validateJoins(ast),
+    ...validateTableReferences(ast),
+    ...validateOutputNames(ast),
+    ...validateGroupBy(ast, options.dialect),
+    ...validateWhereTypes(ast, options),
+    ...ast.select.fields.flatMap(validateCase),
+    ...validateHaving(ast),
+    ...validateUnionOrderBy(ast),
+  ];
+}
@@ -1,11 +1,14 @@
 /**
  * Gerador de SQL a partir do AST do Query Builder
- * Suporta MySQL e SQL Server
+ * Suporta MySQL, SQL Server, PostgreSQL e SQLite
  */
 
-import type { QueryAST, QueryJoin, SelectField, WhereCondition, GroupByField, OrderByField, CTEClause, UnionClause } from '../../types/query-builder';
+import type { QueryAST, QueryJoin, SelectClause, SelectField, WhereCondition, WhereGroup, WhereOperator, HavingCondition, HavingOperator, WindowSpec, CaseExpression, CaseValue, GroupByField, OrderByField, CTEClause, UnionClause } from '../../types/query-builder';
+import { isParameterRef } from './sql-parameters';
+import { countWhereConditions, isWhereGroup } from './where-tree';
+import { acceptsFrame, formatFrame, isOffsetFunction, requiresOrderBy } from './window-functions';
 
-export type DatabaseDialect = 'mysql' | 'sqlserver';
+export type DatabaseDialect = 'mysql' | 'sqlserver' | 'postgres' | 'sqlite';
 
 interface GeneratorOptions {
   dialect: DatabaseDialect;
@@ -19,6 +22,9 @@ export function escapeIdentifier(name: string, dialect: DatabaseDialect): string
   if (dialect === 'sqlserver') {
     return `[${name.replace(/\]/g, ']]')}]`;
   }
+  if (dialect === 'postgres' || dialect === 'sqlite') {
+    return `"${name.replace(/"/g, '""')}"`;
+  }
   return `\`${name.replace(/`/g, '``')}\``;
 }
 
@@ -33,6 +39,9 @@ export function escapeValue(value: unknown, dialect: DatabaseDialect): string {
     return String(value);
   }
   if (typeof value === 'boolean') {
+    if (dialect === 'postgres') {
+      return value ? 'TRUE' : 'FALSE';
+    }
     return value ? '1' : '0';
   }
   if (Array.isArray(value)) {
@@ -44,16 +53,17 @@ export function escapeValue(value: unknown, dialect: DatabaseDialect): string {
 }
 
 /**
- * Consolida JOINs que têm o mesmo destino em um único JOIN com múltiplas condições AND
+ * Consolida JOINs entre o mesmo par de aliases em um único JOIN com múltiplas condições AND.
+ * A mesma tabela com aliases diferentes (autojunções, como criador e aprovador) continua em JOINs separados
  */
 export function consolidateJoins(joins: QueryJoin[]): QueryJoin[] {
   const consolidated = new Map<string, QueryJoin>();
   
   for (const join of joins) {
-    const key = `${join.sourceTableId}->${join.targetTableId}`;
+    const key = `${join.sourceAlias}->${join.targetAlias}`;
     
     if (consolidated.has(key)) {
-      // Já existe um JOIN para este par de tabelas
+      // Já existe um JOIN para este par de aliases
       // Adicionar a condição ao customCondition existente
       const existing = consolidated.get(key)!;
       const existingCondition = existing.customCondition || 
@@ -99,8 +109,8 @@ export function generateSQL(ast: QueryAST, options: GeneratorOptions): string {
   }
   
   // WHERE
-  if (ast.where && ast.where.conditions.length > 0) {
-    parts.push(generateWhere(ast.where, options));
+  if (countWhereConditions(ast.where) > 0) {
+    parts.push(generateWhere(ast.where, ast, options));
   }
   
   // GROUP BY
@@ -108,6 +118,11 @@ export function generateSQL(ast: QueryAST, options: GeneratorOptions): string {
     parts.push(generateGroupBy(ast.groupBy, ast, options));
   }
   
+  // HAVING
+  if (ast.having && ast.having.conditions.length > 0) {
+    parts.push(generateHaving(ast.having, ast, options));
+  }
+  
   // UNIONs (devem vir antes de ORDER BY e LIMIT)
   if (ast.unions && ast.unions.length > 0) {
     const sortedUnions = [...ast.unions].sort((a, b) => a.order - b.order);
@@ -119,12 +134,17 @@ export function generateSQL(ast: QueryAST, options: GeneratorOptions): string {
   // ORDER BY (aplica-se ao resultado final do UNION)
   if (ast.orderBy && ast.orderBy.fields.length > 0) {
     parts.push(generateOrderBy(ast.orderBy, ast, options));
+  } else if (usesOffsetFetch(ast, dialect)) {
+    // OFFSET ... FETCH do SQL Server não existe sem ORDER BY
+    parts.push(syntheticOrderBy(ast));
   }
   
-  // LIMIT (MySQL) / TOP (SQL Server - handled in SELECT)
-  // LIMIT aplica-se ao resultado final do UNION
-  if (ast.limit && dialect === 'mysql') {
+  // LIMIT (MySQL/PostgreSQL/SQLite), OFFSET ... FETCH (SQL Server com offset) ou TOP (SQL Server, no SELECT)
+  // aplicam-se ao resultado final do UNION
+  if (ast.limit && dialect !== 'sqlserver') {
     parts.push(generateLimit(ast.limit));
+  } else if (ast.limit && usesOffsetFetch(ast, dialect)) {
+    parts.push(`OFFSET ${ast.limit.offset} ROWS FETCH NEXT ${ast.limit.limit} ROWS ONLY`);
   }
   
   return parts.join(newline);
@@ -151,20 +171,21 @@ function generateCTEs(ctes: CTEClause[], options: GeneratorOptions): string {
   return `WITH ${recursive}${cteParts.join(newline)}`;
 }
 
-function generateSelect(select: SelectField[] | { fields: SelectField[] }, ast: QueryAST, options: GeneratorOptions): string {
+function generateSelect(select: SelectField[] | SelectClause, ast: QueryAST, options: GeneratorOptions): string {
   const { dialect, pretty } = options;
   const fields = Array.isArray(select) ? select : select.fields;
   const indent = pretty ? '  ' : '';
   const newline = pretty ? '\n' : ' ';
   
-  if (fields.length === 0) {
-    return 'SELECT *';
-  }
-  
-  // SQL Server TOP clause
-  const topClause = dialect === 'sqlserver' && ast.limit 
+  // SQL Server TOP clause (sem offset; com offset, a paginação vai em OFFSET ... FETCH)
+  const topClause = dialect === 'sqlserver' && ast.limit && !usesOffsetFetch(ast, dialect)
     ? `TOP ${ast.limit.limit} ` 
     : '';
+  const distinctClause = !Array.isArray(select) && select.distinct ? 'DISTINCT ' : '';
+  
+  if (fields.length === 0) {
+    return `SELECT ${distinctClause}${topClause}*`;
+  }
   
   // Get table aliases from AST
   const tableAliases = getTableAliases(ast);
@@ -180,6 +201,22 @@ function generateSelect(select: SelectField[] | { fields: SelectField[] }, ast:
           : `(${subquerySQL})`;
       }
       
+      if (field.window) {
+        // Função de janela: FUNÇÃO(...) OVER (...)
+        const windowSQL = generateWindowFunction(field.window, tableAliases, dialect);
+        return field.alias 
+          ? `${windowSQL} AS ${escapeIdentifier(field.alias, dialect)}`
+          : windowSQL;
+      }
+      
+      if (field.caseExpression) {
+        // CASE WHEN montado no builder
+        const caseSQL = generateCaseExpression(field.caseExpression, tableAliases, dialect);
+        return field.alias 
+          ? `${caseSQL} AS ${escapeIdentifier(field.alias, dialect)}`
+          : caseSQL;
+      }
+      
       if (field.expression) {
         // Campo com expressão customizada
         return field.alias 
@@ -196,7 +233,8 @@ function generateSelect(select: SelectField[] | { fields: SelectField[] }, ast:
       }
       
       if (field.aggregateFunction) {
-        const aggregated = `${field.aggregateFunction}(${columnRef})`;
+        const distinct = field.distinct && columnRef !== '*' ? 'DISTINCT ' : '';
+        const aggregated = `${field.aggregateFunction}(${distinct}${columnRef})`;
         return field.alias 
           ? `${aggregated} AS ${escapeIdentifier(field.alias, dialect)}`
           : aggregated;
@@ -208,10 +246,64 @@ function generateSelect(select: SelectField[] | { fields: SelectField[] }, ast:
     });
   
   if (pretty && fieldStrings.length > 1) {
-    return `SELECT ${topClause}${newline}${indent}${fieldStrings.join(`,${newline}${indent}`)}`;
+    return `SELECT ${distinctClause}${topClause}${newline}${indent}${fieldStrings.join(`,${newline}${indent}`)}`;
   }
   
-  return `SELECT ${topClause}${fieldStrings.join(', ')}`;
+  return `SELECT ${distinctClause}${topClause}${fieldStrings.join(', ')}`;
+}
+
+export function generateWindowFunction(spec: WindowSpec, tableAliases: Map<string, string>, dialect: DatabaseDialect): string {
+  const columnRef = (ref: { tableId: string; column: string }) =>
+    `${tableAliases.get(ref.tableId) || ref.tableId}.${escapeIdentifier(ref.column, dialect)}`;
+  
+  let args = spec.argument ? columnRef(spec.argument) : spec.function === 'COUNT' ? '*' : '';
+  if (isOffsetFunction(spec.function) && spec.argument) {
+    // LAG(coluna, deslocamento, padrão): o padrão exige o deslocamento antes
+    const hasDefault = spec.defaultValue !== undefined && spec.defaultValue !== '';
+    if (hasDefault || (spec.offset ?? 1) !== 1) args += `, ${spec.offset ?? 1}`;
+    if (hasDefault) args += `, ${conditionValue(spec.defaultValue, dialect)}`;
+  }
+  
+  const over: string[] = [];
+  if (spec.partitionBy.length > 0) {
+    over.push(`PARTITION BY ${spec.partitionBy.map(columnRef).join(', ')}`);
+  }
+  if (spec.orderBy.length > 0) {
+    over.push(`ORDER BY ${spec.orderBy.map(o => `${columnRef(o)} ${o.direction}`).join(', ')}`);
+  } else if (dialect === 'sqlserver' && requiresOrderBy(spec.function)) {
+    // O SQL Server exige ORDER BY em ranking e LAG/LEAD; os demais bancos aceitam sem
+    over.push('ORDER BY (SELECT NULL)');
+  }
+  if (spec.frame && acceptsFrame(spec.function)) {
+    over.push(formatFrame(spec.frame));
+  }
+  
+  return `${spec.function}(${args}) OVER (${over.join(' ')})`;
+}
+
+function generateCaseValue(value: CaseValue | undefined, tableAliases: Map<string, string>, dialect: DatabaseDialect): string {
+  if (!value || value.kind === 'null') return 'NULL';
+  if (value.kind === 'column') {
+    return `${tableAliases.get(value.tableId) || value.tableId}.${escapeIdentifier(value.column, dialect)}`;
+  }
+  return conditionValue(value.value, dialect);
+}
+
+export function generateCaseExpression(expr: CaseExpression, tableAliases: Map<string, string>, dialect: DatabaseDialect): string {
+  const options: GeneratorOptions = { dialect, pretty: false };
+  const branches = expr.branches
+    .filter(branch => branch.conditions.length > 0)
+    .map(branch => {
+      const conditions = branch.conditions.map(cond => generateWhereCondition(cond, tableAliases, options));
+      return `WHEN ${conditions.join(' AND ')} THEN ${generateCaseValue(branch.result, tableAliases, dialect)}`;
+    });
+  
+  // CASE sem WHEN não é SQL válido; sobra só o valor do ELSE
+  if (branches.length === 0) {
+    return generateCaseValue(expr.else, tableAliases, dialect);
+  }
+  const elseClause = expr.else ? ` ELSE ${generateCaseValue(expr.else, tableAliases, dialect)}` : '';
+  return `CASE ${branches.join(' ')}${elseClause} END`;
 }
 
 function generateFrom(from: QueryAST['from'], options: GeneratorOptions): string {
@@ -279,33 +371,47 @@ function generateJoin(join: QueryJoin, options: GeneratorOptions): string {
   return `${indent}${join.type} JOIN ${targetTable}${pretty ? '\n    ' : ' '}ON ${onCondition}`;
 }
 
-function generateWhere(where: QueryAST['where'], options: GeneratorOptions): string {
-  const { dialect, pretty } = options;
+function generateWhere(where: QueryAST['where'], ast: QueryAST, options: GeneratorOptions): string {
+  const { pretty } = options;
   
-  if (!where || where.conditions.length === 0) {
+  if (!where || countWhereConditions(where) === 0) {
     return '';
   }
   
   const indent = pretty ? '  ' : '';
   const newline = pretty ? '\n' : ' ';
+  const tableAliases = getTableAliases(ast);
   
-  const conditionStrings = where.conditions
-    .sort((a, b) => a.order - b.order)
-    .map((cond, index) => {
-      const condStr = generateWhereCondition(cond, options);
-      
-      if (index === 0) {
-        return condStr;
-      }
-      
-      const logicalOp = cond.logicalOperator || 'AND';
-      return `${indent}${logicalOp} ${condStr}`;
-    });
+  // Itens do grupo raiz ficam um por linha; grupos internos saem entre parênteses na mesma linha
+  const conditionStrings = where.root.items
+    .map(item => generateWhereItem(item, tableAliases, options))
+    .filter(Boolean)
+    .map((condStr, index) => (index === 0 ? condStr : `${indent}${where.root.operator} ${condStr}`));
   
   return `WHERE ${conditionStrings.join(newline)}`;
 }
 
-function generateWhereCondition(cond: WhereCondition, options: GeneratorOptions): string {
+function generateWhereItem(item: WhereCondition | WhereGroup, tableAliases: Map<string, string>, options: GeneratorOptions): string {
+  if (!isWhereGroup(item)) {
+    return generateWhereCondition(item, tableAliases, options);
+  }
+  
+  // Grupos vazios são ignorados; grupo com um item só dispensa parênteses
+  const parts = item.items
+    .map(child => generateWhereItem(child, tableAliases, options))
+    .filter(Boolean);
+  if (parts.length <= 1) {
+    return parts[0] || '';
+  }
+  return `(${parts.join(` ${item.operator} `)})`;
+}
+
+// Parâmetros (:nome, @nome) ficam no SQL para o backend ligar; o resto vira literal
+function conditionValue(value: unknown, dialect: DatabaseDialect): string {
+  return isParameterRef(value, dialect) ? value : escapeValue(value, dialect);
+}
+
+function generateWhereCondition(cond: WhereCondition, tableAliases: Map<string, string>, options: GeneratorOptions): string {
   const { dialect } = options;
   
   // EXISTS / NOT EXISTS - não precisa de coluna
@@ -317,38 +423,43 @@ function generateWhereCondition(cond: WhereCondition, options: GeneratorOptions)
     return `${cond.operator} (${cond.value || 'SELECT 1'})`;
   }
   
-  // Referência à coluna
-  const alias = cond.tableId; // Assume que tableId é o alias
+  // Referência à coluna; ASTs que já traziam o alias em tableId continuam valendo
+  const alias = tableAliases.get(cond.tableId) || cond.tableId;
   const columnRef = `${alias}.${escapeIdentifier(cond.column, dialect)}`;
   
-  // IS NULL / IS NOT NULL
-  if (cond.operator === 'IS NULL' || cond.operator === 'IS NOT NULL') {
-    return `${columnRef} ${cond.operator}`;
-  }
-  
   // IN / NOT IN com subquery
   if ((cond.operator === 'IN' || cond.operator === 'NOT IN') && cond.subquery) {
     const subquery = generateSQL(cond.subquery, { ...options, pretty: false });
     return `${columnRef} ${cond.operator} (${subquery})`;
   }
   
+  return generateComparison(columnRef, cond.operator, cond.value, dialect);
+}
+
+// Comparação de uma coluna ou agregação com valores, comum a WHERE e HAVING
+function generateComparison(left: string, operator: WhereOperator | HavingOperator, value: unknown, dialect: DatabaseDialect): string {
+  // IS NULL / IS NOT NULL
+  if (operator === 'IS NULL' || operator === 'IS NOT NULL') {
+    return `${left} ${operator}`;
+  }
+  
   // BETWEEN / NOT BETWEEN
-  if (cond.operator === 'BETWEEN' || cond.operator === 'NOT BETWEEN') {
-    if (Array.isArray(cond.value) && cond.value.length >= 2) {
-      return `${columnRef} ${cond.operator} ${escapeValue(cond.value[0], dialect)} AND ${escapeValue(cond.value[1], dialect)}`;
+  if (operator === 'BETWEEN' || operator === 'NOT BETWEEN') {
+    if (Array.isArray(value) && value.length >= 2) {
+      return `${left} ${operator} ${conditionValue(value[0], dialect)} AND ${conditionValue(value[1], dialect)}`;
     }
-    return `${columnRef} ${cond.operator} ${escapeValue(cond.value, dialect)}`;
+    return `${left} ${operator} ${conditionValue(value, dialect)}`;
   }
   
   // IN / NOT IN com lista de valores
-  if (cond.operator === 'IN' || cond.operator === 'NOT IN') {
-    const values = Array.isArray(cond.value) ? cond.value : [cond.value];
-    const valueList = values.map(v => escapeValue(v, dialect)).join(', ');
-    return `${columnRef} ${cond.operator} (${valueList})`;
+  if (operator === 'IN' || operator === 'NOT IN') {
+    const values = Array.isArray(value) ? value : [value];
+    const valueList = values.map(v => conditionValue(v, dialect)).join(', ');
+    return `${left} ${operator} (${valueList})`;
   }
   
   // Operadores padrão
-  return `${columnRef} ${cond.operator} ${escapeValue(cond.value, dialect)}`;
+  return `${left} ${operator} ${conditionValue(value, dialect)}`;
 }
 
 function generateGroupBy(groupBy: QueryAST['groupBy'], ast: QueryAST, options: GeneratorOptions): string {
@@ -370,6 +481,37 @@ function generateGroupBy(groupBy: QueryAST['groupBy'], ast: QueryAST, options: G
   return `GROUP BY ${fieldStrings.join(', ')}`;
 }
 
+// Agregação de uma condição HAVING, como no SELECT: COUNT(*) não leva alias de tabela
+export function havingAggregate(cond: HavingCondition, tableAliases: Map<string, string>, dialect: DatabaseDialect): string {
+  if (cond.expression?.trim()) {
+    return cond.expression.trim();
+  }
+  if (cond.column === '*') {
+    return `${cond.aggregateFunction}(*)`;
+  }
+  const alias = tableAliases.get(cond.tableId) || cond.tableId;
+  return `${cond.aggregateFunction}(${alias}.${escapeIdentifier(cond.column, dialect)})`;
+}
+
+function generateHaving(having: QueryAST['having'], ast: QueryAST, options: GeneratorOptions): string {
+  const { dialect, pretty } = options;
+  
+  if (!having || having.conditions.length === 0) {
+    return '';
+  }
+  
+  const indent = pretty ? '  ' : '';
+  const newline = pretty ? '\n' : ' ';
+  const tableAliases = getTableAliases(ast);
+  
+  const conditionStrings = having.conditions.map((cond, index) => {
+    const condStr = generateComparison(havingAggregate(cond, tableAliases, dialect), cond.operator, cond.value, dialect);
+    return index === 0 ? condStr : `${indent}${having.operator} ${condStr}`;
+  });
+  
+  return `HAVING ${conditionStrings.join(newline)}`;
+}
+
 function generateOrderBy(orderBy: QueryAST['orderBy'], ast: QueryAST, options: GeneratorOptions): string {
   const { dialect, pretty } = options;
   
@@ -378,10 +520,18 @@ function generateOrderBy(orderBy: QueryAST['orderBy'], ast: QueryAST, options: G
   }
   
   const tableAliases = getTableAliases(ast);
+  const hasUnions = (ast.unions?.length ?? 0) > 0;
   
   const fieldStrings = orderBy.fields
     .sort((a, b) => a.order - b.order)
     .map(field => {
+      // Depois de um UNION as tabelas saem de escopo: ordena pelo nome da coluna no resultado
+      const projected = hasUnions
+        ? ast.select.fields.find(f => f.tableId === field.tableId && f.column === field.column && !f.aggregateFunction && !f.expression)
+        : undefined;
+      if (projected) {
+        return `${escapeIdentifier(projected.alias || projected.column, dialect)} ${field.direction}`;
+      }
       const alias = tableAliases.get(field.tableId) || field.tableId;
       return `${alias}.${escapeIdentifier(field.column, dialect)} ${field.direction}`;
     });
@@ -389,6 +539,19 @@ function generateOrderBy(orderBy: QueryAST['orderBy'], ast: QueryAST, options: G
   return `ORDER BY ${fieldStrings.join(', ')}`;
 }
 
+function usesOffsetFetch(ast: QueryAST, dialect: DatabaseDialect): boolean {
+  return dialect === 'sqlserver' && ast.limit?.offset !== undefined;
+}
+
+/**
+ * ORDER BY para paginar sem ordenação escolhida: (SELECT NULL) mantém a ordem do plano,
+ * mas com DISTINCT ou UNION o SQL Server só aceita ordenar por colunas do resultado, então usa a primeira
+ */
+function syntheticOrderBy(ast: QueryAST): string {
+  const byFirstColumn = ast.select.distinct || (ast.unions?.length ?? 0) > 0;
+  return byFirstColumn ? 'ORDER BY 1' : 'ORDER BY (SELECT NULL)';
+}
+
 function generateLimit(limit: QueryAST['limit']): string {
   if (!limit) return '';
   
@@ -0,0 +1,202 @@
+/**
+ * Parâmetros nomeados (:start_date, @customerId) em SQL do Query Builder
+ * Aqui só se descobre quais parâmetros existem e que campo oferecer para cada um;
+ * os valores vão ao backend separados do SQL e são ligados pelo driver do banco
+ */
+
+import type { GraphNode, QueryParamValue } from '../../api/client';
+import type { QueryAST, WhereCondition } from '../../types/query-builder';
+import type { DatabaseDialect } from './sql-generator';
+import { flattenWhereConditions } from './where-tree';
+
+export type ParameterKind = 'text' | 'number' | 'date' | 'datetime' | 'boolean';
+
+export interface QueryParameter {
+  name: string; // Sem o prefixo
+  kind: ParameterKind;
+  column?: string; // Coluna comparada com o parâmetro, quando encontrada
+}
+
+interface ParameterOccurrence {
+  name: string;
+  start: number;
+}
+
+const PARAMETER_REF = /^[:@]([A-Za-z_][A-Za-z0-9_]*)$/;
+const WORD_CHAR = /[A-Za-z0-9_$]/;
+
+/**
+ * Valor de condição WHERE que é um parâmetro (":nome" ou "@nome") em vez de literal
+ * No PostgreSQL "@" é operador, então só ":nome" vale
+ */
+export function isParameterRef(value: unknown, dialect: DatabaseDialect): value is string {
+  return typeof value === 'string' && PARAMETER_REF.test(value) && (dialect !== 'postgres' || value.startsWith(':'));
+}
+
+// Fim de um trecho entre delimitadores; o delimitador dobrado é escape
+function skipQuoted(sql: string, start: number, close: string, backslashEscapes: boolean): number {
+  let i = start + 1;
+  while (i < sql.length) {
+    if (backslashEscapes && sql[i] === '\\') {
+      i += 2;
+    } else if (sql[i] === close) {
+      if (sql[i + 1] !== close) return i + 1;
+      i += 2;
+    } else {
+      i++;
+    }
+  }
+  return sql.length;
+}
+
+/**
+ * Ocorrências de parâmetros nomeados, com as mesmas regras do backend:
+ * ignora strings, comentários, identificadores entre aspas, casts ("::"), variáveis de sistema ("@@")
+ * e, no MySQL, variáveis de usuário atribuídas na própria query ("@rn := @rn + 1")
+ */
+function findOccurrences(sql: string, dialect: DatabaseDialect): ParameterOccurrence[] {
+  const found: ParameterOccurrence[] = [];
+  const assigned = new Set<string>();
+  const isMySQL = dialect === 'mysql';
+  let i = 0;
+
+  while (i < sql.length) {
+    const ch = sql[i];
+    const next = sql[i + 1];
+
+    if (ch === '-' && next === '-') {
+      const end = sql.indexOf('\n', i);
+      i = end < 0 ? sql.length : end + 1;
+    } else if (ch === '#' && isMySQL) {
+      const end = sql.indexOf('\n', i);
+      i = end < 0 ? sql.length : end + 1;
+    } else if (ch === '/' && next === '*') {
+      const end = sql.indexOf('*/', i + 2);
+      i = end < 0 ? sql.length : end + 2;
+    } else if (ch === "'" || ch === '"') {
+      i = skipQuoted(sql, i, ch, isMySQL);
+    } else if (ch === '`' && (isMySQL || dialect === 'sqlite')) {
+      i = skipQuoted(sql, i, '`', false);
+    } else if (ch === '[' && (dialect === 'sqlserver' || dialect === 'sqlite')) {
+      i = skipQuoted(sql, i, ']', false);
+    } else if (ch === '$' && dialect === 'postgres' && /^\$(?:[A-Za-z_][A-Za-z0-9_]*)?\$/.test(sql.slice(i))) {
+      const tag = /^\$(?:[A-Za-z_][A-Za-z0-9_]*)?\$/.exec(sql.slice(i))![0];
+      const end = sql.indexOf(tag, i + tag.length);
+      i = end < 0 ? sql.length : end + tag.length;
+    } else if (WORD_CHAR.test(ch)) {
+      while (i < sql.length && WORD_CHAR.test(sql[i])) i++;
+    } else if ((ch === ':' && sql[i - 1] !== ':') || (ch === '@' && dialect !== 'postgres')) {
+      let j = i + 1;
+      while (j < sql.length && (WORD_CHAR.test(sql[j]) || sql[j] === ch)) j++;
+      const match = PARAMETER_REF.exec(sql.slice(i, j));
+      if (match) found.push({ name: match[1], start: i });
+      if (match && ch === '@' && isMySQL && /^\s*:=/.test(sql.slice(j))) assigned.add(match[1].toLowerCase());
+      i = Math.max(j, i + 1);
+    } else {
+      i++;
+    }
+  }
+
+  // Variáveis de usuário não diferenciam maiúsculas; todas as ocorrências de uma atribuída ficam de fora
+  return found.filter(p => !(assigned.has(p.name.toLowerCase()) && sql[p.start] === '@'));
+}
+
+// Nomes dos parâmetros do SQL, na ordem da primeira ocorrência
+export function extractParameterNames(sql: string, dialect: DatabaseDialect): string[] {
+  return [...new Set(findOccurrences(sql, dialect).map(p => p.name))];
+}
+
+export function kindFromColumnType(type: string): ParameterKind {
+  const t = type.toLowerCase();
+  if (/^(bit|bool|boolean)\b/.test(t) || t === 'tinyint(1)') return 'boolean';
+  if (/datetime|timestamp/.test(t)) return 'datetime';
+  if (/^date\b/.test(t)) return 'date';
+  if (/int|decimal|numeric|float|double|real|money|number|serial/.test(t)) return 'number';
+  return 'text';
+}
+
+function findColumnType(node: GraphNode | undefined, column: string): string | undefined {
+  return node?.columns.find(c => c.name === column)?.type;
+}
+
+function collectConditions(ast: QueryAST | undefined, out: WhereCondition[] = []): WhereCondition[] {
+  const caseConditions = (ast?.select.fields ?? []).flatMap(f => f.caseExpression?.branches.flatMap(b => b.conditions) ?? []);
+  for (const cond of [...flattenWhereConditions(ast?.where?.root), ...caseConditions]) {
+    out.push(cond);
+    collectConditions(cond.subquery, out);
+  }
+  return out;
+}
+
+// Coluna comparada antes do parâmetro no SQL: "col = :p", "t.col IN (:p", "col BETWEEN :a AND :p"
+const COMPARED_COLUMN =
+  /([A-Za-z_][A-Za-z0-9_$]*)["`\]]?\s*(?:=|<>|!=|>=|<=|>|<|(?:NOT\s+)?LIKE|(?:NOT\s+)?IN\s*\((?:[^()]*,)?|(?:NOT\s+)?BETWEEN(?:\s+[:@][A-Za-z_][A-Za-z0-9_]*\s+AND)?)\s*$/i;
+
+/**
+ * Parâmetros do SQL com o tipo de campo tirado das colunas do grafo
+ * Condições WHERE do AST dão a coluna exata; no SQL digitado, a coluna é procurada pelo nome
+ * nas tabelas da query (tableAliases) e, se não estiver lá, em todo o grafo
+ */
+export function inferParameters(
+  sql: string,
+  dialect: DatabaseDialect,
+  nodes: GraphNode[],
+  ast?: QueryAST,
+  tableAliases: Map<string, string> = new Map()
+): QueryParameter[] {
+  const nodeById = new Map(nodes.map(n => [n.id, n]));
+  const tableIdByAlias = new Map(Array.from(tableAliases, ([tableId, alias]) => [alias, tableId]));
+  const typed = new Map<string, QueryParameter>();
+
+  for (const cond of collectConditions(ast)) {
+    const values = Array.isArray(cond.value) ? cond.value : [cond.value];
+    for (const value of values) {
+      if (!isParameterRef(value, dialect)) continue;
+      const name = value.slice(1);
+      const node = nodeById.get(cond.tableId) ?? nodeById.get(tableIdByAlias.get(cond.tableId) ?? '');
+      const type = findColumnType(node, cond.column);
+      if (type && !typed.has(name)) {
+        typed.set(name, { name, kind: kindFromColumnType(type), column: cond.column });
+      }
+    }
+  }
+
+  const queryNodes = nodes.filter(n => tableAliases.has(n.id));
+  for (const occurrence of findOccurrences(sql, dialect)) {
+    if (typed.has(occurrence.name)) continue;
+    const match = COMPARED_COLUMN.exec(sql.slice(0, occurrence.start));
+    if (!match) continue;
+    const column = match[1];
+    const node = queryNodes.find(n => findColumnType(n, column)) ?? nodes.find(n => findColumnType(n, column));
+    const type = findColumnType(node, column);
+    if (type) {
+      typed.set(occurrence.name, { name: occurrence.name, kind: kindFromColumnType(type), column });
+    }
+  }
+
+  return extractParameterNames(sql, dialect).map(name => typed.get(name) ?? { name, kind: 'text' });
+}
+
+/**
+ * Converte o texto digitado no formulário para o valor enviado ao backend
+ * Campo vazio vira NULL, exceto em texto; lança erro quando o valor não combina com o tipo
+ */
+export function toParamValue(raw: string, kind: ParameterKind): QueryParamValue {
+  if (kind === 'text') return raw;
+  if (raw.trim() === '') return null;
+
+  switch (kind) {
+    case 'number': {
+      const num = Number(raw);
+      if (!Number.isFinite(num)) throw new Error(`"${raw}" não é um número`);
+      return num;
+    }
+    case 'boolean':
+      return raw === 'true';
+    case 'datetime':
+      // datetime-local devolve "2024-01-31T10:00"; os bancos aceitam "2024-01-31 10:00:00"
+      return raw.length === 16 ? `${raw.replace('T', ' ')}:00` : raw.replace('T', ' ');
+    default:
+      return raw;
+  }
+}
@@ -0,0 +1,1331 @@
+/**
+ * Conversão de SQL para o AST do Query Builder
+ * Lê um SELECT (com JOINs, WHERE, GROUP BY, HAVING, ORDER BY, LIMIT/TOP, CTEs, UNIONs e subselects),
+ * resolve as tabelas contra os nós do grafo e lista o que o AST não consegue representar
+ */
+
+import type { GraphNode, GraphEdge } from '../../api/client';
+import type {
+  QueryAST,
+  SelectField,
+  QueryJoin,
+  JoinType,
+  WhereCondition,
+  WhereGroup,
+  HavingCondition,
+  HavingOperator,
+  AggregateFunction,
+  CaseExpression,
+  CaseValue,
+  WhereItem,
+  WhereOperator,
+  WhereLogicalOperator,
+  GroupByField,
+  OrderByField,
+  CTEClause,
+  UnionClause,
+} from '../../types/query-builder';
+import { generateAlias, type DatabaseDialect } from './sql-generator';
+
+export interface SQLImportIssue {
+  clause: string; // Cláusula onde está o trecho (SELECT, WHERE, ...)
+  message: string;
+  sql?: string; // Trecho original que ficou de fora ou foi alterado
+}
+
+export interface SQLImportResult {
+  ast: QueryAST | null; // null quando o SQL não pode ser aberto no builder
+  issues: SQLImportIssue[];
+}
+
+export interface SQLImportOptions {
+  dialect: DatabaseDialect;
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+// ===== TOKENIZAÇÃO =====
+
+type TokenType = 'word' | 'identifier' | 'string' | 'number' | 'parameter' | 'symbol';
+
+interface Token {
+  type: TokenType;
+  value: string; // Palavras em maiúsculas; identificadores e strings sem aspas
+  start: number;
+  end: number;
+}
+
+class SQLParseError extends Error {}
+
+const WORD_START = /[A-Za-z_\u00C0-\uFFFF]/;
+const WORD_CHAR = /[\w$\u00C0-\uFFFF]/;
+const MULTI_CHAR_SYMBOLS = ['<>', '!=', '>=', '<=', '::', '||'];
+
+function readQuoted(sql: string, start: number, close: string, backslashEscapes: boolean): { end: number; value: string } {
+  let value = '';
+  let i = start + 1;
+  while (i < sql.length) {
+    const ch = sql[i];
+    if (backslashEscapes && ch === '\\' && i + 1 < sql.length) {
+      value += sql[i + 1];
+      i += 2;
+    } else if (ch === close) {
+      if (sql[i + 1] !== close) return { end: i + 1, value };
+      value += close;
+      i += 2;
+    } else {
+      value += ch;
+      i++;
+    }
+  }
+  throw new SQLParseError(`Texto iniciado por ${sql[start]} sem fechamento`);
+}
+
+function tokenize(sql: string, dialect: DatabaseDialect): Token[] {
+  const tokens: Token[] = [];
+  const isMySQL = dialect === 'mysql';
+  let i = 0;
+
+  while (i < sql.length) {
+    const ch = sql[i];
+    const next = sql[i + 1];
+
+    if (/\s/.test(ch)) {
+      i++;
+    } else if ((ch === '-' && next === '-') || (ch === '#' && isMySQL)) {
+      const end = sql.indexOf('\n', i);
+      i = end < 0 ? sql.length : end + 1;
+    } else if (ch === '/' && next === '*') {
+      const end = sql.indexOf('*/', i + 2);
+      i = end < 0 ? sql.length : end + 2;
+    } else if (ch === "'" || (ch === '"' && isMySQL)) {
+      const { end, value } = readQuoted(sql, i, ch, isMySQL);
+      tokens.push({ type: 'string', value, start: i, end });
+      i = end;
+    } else if (ch === '"' || (ch === '`' && (isMySQL || dialect === 'sqlite'))) {
+      const { end, value } = readQuoted(sql, i, ch, false);
+      tokens.push({ type: 'identifier', value, start: i, end });
+      i = end;
+    } else if (ch === '[' && (dialect === 'sqlserver' || dialect === 'sqlite')) {
+      const { end, value } = readQuoted(sql, i, ']', false);
+      tokens.push({ type: 'identifier', value, start: i, end });
+      i = end;
+    } else if (WORD_START.test(ch)) {
+      let j = i + 1;
+      while (j < sql.length && WORD_CHAR.test(sql[j])) j++;
+      const word = sql.slice(i, j).toUpperCase();
+      // Prefixos de string: N'...', E'...'
+      if (sql[j] === "'" && (word === 'N' || word === 'E')) {
+        const { end, value } = readQuoted(sql, j, "'", isMySQL || word === 'E');
+        tokens.push({ type: 'string', value, start: i, end });
+        i = end;
+      } else {
+        tokens.push({ type: 'word', value: word, start: i, end: j });
+        i = j;
+      }
+    } else if (/[0-9]/.test(ch) || (ch === '.' && /[0-9]/.test(next ?? ''))) {
+      let j = i + 1;
+      while (j < sql.length && /[0-9.eE]/.test(sql[j])) j++;
+      tokens.push({ type: 'number', value: sql.slice(i, j), start: i, end: j });
+      i = j;
+    } else if (
+      (ch === ':' && WORD_START.test(next ?? '') && sql[i - 1] !== ':') ||
+      (ch === '@' && dialect !== 'postgres')
+    ) {
+      let j = i + 1;
+      while (j < sql.length && (WORD_CHAR.test(sql[j]) || sql[j] === ch)) j++;
+      tokens.push({ type: 'parameter', value: sql.slice(i, j), start: i, end: j });
+      i = j;
+    } else {
+      const symbol = MULTI_CHAR_SYMBOLS.find(s => sql.startsWith(s, i)) ?? ch;
+      tokens.push({ type: 'symbol', value: symbol, start: i, end: i + symbol.length });
+      i += symbol.length;
+    }
+  }
+
+  return tokens;
+}
+
+// ===== ESCOPO =====
+
+// Tabela visível em um SELECT, pelo alias usado no SQL
+interface ScopeTable {
+  tableId: string;
+  alias: string;
+  node?: GraphNode; // Ausente em CTEs e subselects
+}
+
+// Palavras que encerram uma expressão no nível atual do SELECT
+const CLAUSE_WORDS = new Set([
+  'FROM', 'WHERE', 'GROUP', 'HAVING', 'ORDER', 'LIMIT', 'OFFSET', 'FETCH', 'UNION', 'INTERSECT',
+  'EXCEPT', 'MINUS', 'WINDOW', 'FOR', 'INNER', 'LEFT', 'RIGHT', 'FULL', 'CROSS', 'JOIN', 'OUTER',
+  'NATURAL', 'ON', 'USING', 'APPLY',
+]);
+
+const RESERVED_WORDS = new Set([
+  ...CLAUSE_WORDS, 'SELECT', 'AS', 'AND', 'OR', 'NOT', 'IN', 'IS', 'NULL', 'LIKE', 'BETWEEN', 'EXISTS',
+  'CASE', 'WHEN', 'THEN', 'ELSE', 'END', 'DISTINCT', 'ALL', 'TOP', 'BY', 'ASC', 'DESC', 'WITH',
+]);
+
+const AGGREGATES = new Set(['COUNT', 'SUM', 'AVG', 'MIN', 'MAX']);
+const COMPARISON_OPERATORS = new Set(['=', '<>', '!=', '>', '>=', '<', '<=']);
+const FLIPPED_OPERATORS: Record<string, WhereOperator> = { '>': '<', '>=': '<=', '<': '>', '<=': '>=' };
+
+const newId = (prefix: string) => `${prefix}-${Date.now()}-${Math.random()}`;
+
+/**
+ * Parser de um SELECT sobre um trecho de tokens; subselects usam um parser próprio
+ * com o mesmo SQL e a mesma lista de problemas
+ */
+class SelectParser {
+  private pos = 0;
+  private scope = new Map<string, ScopeTable>(); // Chave: alias em minúsculas
+
+  constructor(
+    private readonly sql: string,
+    private readonly tokens: Token[],
+    private readonly options: SQLImportOptions,
+    private readonly issues: SQLImportIssue[],
+    private readonly cteNames: Set<string> = new Set()
+  ) {}
+
+  // ----- navegação -----
+
+  private peek(offset = 0): Token | undefined {
+    return this.tokens[this.pos + offset];
+  }
+
+  private atEnd(): boolean {
+    return this.pos >= this.tokens.length;
+  }
+
+  private isWord(token: Token | undefined, ...words: string[]): boolean {
+    return token?.type === 'word' && words.includes(token.value);
+  }
+
+  private isSymbol(token: Token | undefined, symbol: string): boolean {
+    return token?.type === 'symbol' && token.value === symbol;
+  }
+
+  private acceptWord(...words: string[]): boolean {
+    if (this.isWord(this.peek(), ...words)) {
+      this.pos++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectWord(word: string): void {
+    if (!this.acceptWord(word)) {
+      throw new SQLParseError(`Esperado ${word} ${this.describePosition()}`);
+    }
+  }
+
+  private expectSymbol(symbol: string): void {
+    if (!this.isSymbol(this.peek(), symbol)) {
+      throw new SQLParseError(`Esperado "${symbol}" ${this.describePosition()}`);
+    }
+    this.pos++;
+  }
+
+  private describePosition(): string {
+    const token = this.peek();
+    return token ? `perto de "${this.sql.slice(token.start, token.start + 30)}"` : 'no fim do SQL';
+  }
+
+  private text(from: number, to: number): string {
+    if (to <= from) return '';
+    return this.sql.slice(this.tokens[from].start, this.tokens[to - 1].end);
+  }
+
+  private issue(clause: string, message: string, from?: number, to?: number): void {
+    this.issues.push({ clause, message, ...(from !== undefined && to !== undefined && { sql: this.text(from, to) }) });
+  }
+
+  // Índice do ")" que fecha o "(" em index
+  private matchingParen(index: number): number {
+    let depth = 0;
+    for (let i = index; i < this.tokens.length; i++) {
+      if (this.isSymbol(this.tokens[i], '(')) depth++;
+      if (this.isSymbol(this.tokens[i], ')') && --depth === 0) return i;
+    }
+    throw new SQLParseError('Parênteses sem fechamento');
+  }
+
+  // Avança até uma palavra de cláusula (ou ";", ")" ou vírgula, se pedido) fora de parênteses
+  private scanExpression(stopAtComma: boolean, extraStops: string[] = []): { from: number; to: number } {
+    const from = this.pos;
+    let depth = 0;
+    while (!this.atEnd()) {
+      const token = this.peek()!;
+      if (this.isSymbol(token, '(')) depth++;
+      if (this.isSymbol(token, ')')) {
+        if (depth === 0) break;
+        depth--;
+      }
+      if (depth === 0) {
+        if (this.isSymbol(token, ';')) break;
+        if (stopAtComma && this.isSymbol(token, ',')) break;
+        if (token.type === 'word' && (CLAUSE_WORDS.has(token.value) || extraStops.includes(token.value))) break;
+      }
+      this.pos++;
+    }
+    return { from, to: this.pos };
+  }
+
+  // Lista separada por vírgulas até a próxima cláusula
+  private scanList(extraStops: string[] = []): Array<{ from: number; to: number }> {
+    const items: Array<{ from: number; to: number }> = [];
+    do {
+      const item = this.scanExpression(true, extraStops);
+      if (item.to === item.from) throw new SQLParseError(`Item vazio na lista ${this.describePosition()}`);
+      items.push(item);
+    } while (this.isSymbol(this.peek(), ',') && ++this.pos);
+    return items;
+  }
+
+  // Parser para o conteúdo entre parênteses a partir de "(" em index
+  private subParser(open: number, issues: SQLImportIssue[] = this.issues): SelectParser {
+    const close = this.matchingParen(open);
+    return new SelectParser(this.sql, this.tokens.slice(open + 1, close), this.options, issues, this.cteNames);
+  }
+
+  private startsSubquery(index: number): boolean {
+    return this.isSymbol(this.tokens[index], '(') && this.isWord(this.tokens[index + 1], 'SELECT', 'WITH');
+  }
+
+  // ----- resolução de tabelas e colunas -----
+
+  private resolveTable(parts: string[]): ScopeTable & { found: boolean } {
+    const name = parts[parts.length - 1];
+    const schema = parts.length > 1 ? parts[parts.length - 2] : undefined;
+    const full = parts.join('.').toLowerCase();
+
+    if (!schema && this.cteNames.has(name.toLowerCase())) {
+      return { tableId: name, alias: name, found: true };
+    }
+
+    const candidates = this.options.nodes.filter(node =>
+      node.id.toLowerCase() === full ||
+      (node.label.toLowerCase() === name.toLowerCase() && (!schema || node.schema?.toLowerCase() === schema.toLowerCase()))
+    );
+    // Sem schema no SQL, prefere o schema padrão do banco
+    const node =
+      candidates.find(n => n.id.toLowerCase() === full) ??
+      candidates.find(n => !n.schema || ['dbo', 'public', 'main'].includes(n.schema.toLowerCase())) ??
+      candidates[0];
+
+    if (node) return { tableId: node.id, alias: name, node, found: true };
+    return { tableId: parts.join('.'), alias: name, found: false };
+  }
+
+  // Nome de objeto com partes separadas por ponto: schema.tabela, alias.coluna...
+  private readName(): string[] | null {
+    const parts: string[] = [];
+    const first = this.peek();
+    if (!first || !(first.type === 'identifier' || (first.type === 'word' && !RESERVED_WORDS.has(first.value)))) {
+      return null;
+    }
+    parts.push(first.type === 'word' ? this.sql.slice(first.start, first.end) : first.value);
+    this.pos++;
+    while (this.isSymbol(this.peek(), '.') && (this.peek(1)?.type === 'identifier' || this.peek(1)?.type === 'word')) {
+      const token = this.peek(1)!;
+      parts.push(token.type === 'word' ? this.sql.slice(token.start, token.end) : token.value);
+      this.pos += 2;
+    }
+    return parts;
+  }
+
+  private readAlias(): string | undefined {
+    const hasAs = this.acceptWord('AS');
+    const token = this.peek();
+    if (token && (token.type === 'identifier' || (token.type === 'word' && !RESERVED_WORDS.has(token.value)))) {
+      this.pos++;
+      return token.type === 'word' ? this.sql.slice(token.start, token.end) : token.value;
+    }
+    if (hasAs) throw new SQLParseError(`Alias esperado após AS ${this.describePosition()}`);
+    return undefined;
+  }
+
+  // Alias único no SELECT: o alias do SQL, se houver, para que expressões copiadas continuem válidas
+  private addToScope(table: Omit<ScopeTable, 'alias'>, alias: string | undefined, fallbackName: string): ScopeTable {
+    let finalAlias = alias ?? fallbackName;
+    if (this.scope.has(finalAlias.toLowerCase())) {
+      finalAlias = generateAlias(table.tableId, new Set(Array.from(this.scope.values(), t => t.alias)));
+    }
+    const entry = { ...table, alias: finalAlias };
+    this.scope.set(finalAlias.toLowerCase(), entry);
+    return entry;
+  }
+
+  private tableIdsInScope(): Set<string> {
+    return new Set(Array.from(this.scope.values(), t => t.tableId));
+  }
+
+  // Referência a coluna (coluna ou alias.coluna) no trecho inteiro; null se for outra coisa
+  private columnRef(from: number, to: number): { table: ScopeTable; column: string } | null | 'unknown-alias' {
+    const tokens = this.tokens.slice(from, to);
+    const isName = (t: Token | undefined) => t?.type === 'identifier' || (t?.type === 'word' && !RESERVED_WORDS.has(t.value));
+    const nameOf = (t: Token) => (t.type === 'word' ? this.sql.slice(t.start, t.end) : t.value);
+
+    let qualifier: string | undefined;
+    let column: string;
+    if (tokens.length === 1 && isName(tokens[0])) {
+      column = nameOf(tokens[0]);
+    } else if (tokens.length === 3 && isName(tokens[0]) && this.isSymbol(tokens[1], '.') && isName(tokens[2])) {
+      qualifier = nameOf(tokens[0]);
+      column = nameOf(tokens[2]);
+    } else {
+      return null;
+    }
+
+    if (qualifier) {
+      const table = this.scope.get(qualifier.toLowerCase());
+      return table ? { table, column } : 'unknown-alias';
+    }
+
+    // Sem alias: a tabela do escopo que tem a coluna no grafo, senão a do FROM
+    const tables = Array.from(this.scope.values());
+    if (tables.length === 0) return 'unknown-alias';
+    const owner = tables.find(t => t.node?.columns.some(c => c.name.toLowerCase() === column.toLowerCase()));
+    return { table: owner ?? tables[0], column };
+  }
+
+  // ===== QUERY =====
+
+  /**
+   * query := [WITH ctes] select_core ((UNION [ALL]) select_core)* [ORDER BY] [LIMIT | OFFSET FETCH]
+   */
+  parseQuery(): QueryAST {
+    const ctes = this.acceptWord('WITH') ? this.parseCTEs() : undefined;
+    const ast = this.parseSelectCore();
+    if (ctes) ast.ctes = ctes;
+
+    const unions: UnionClause[] = [];
+    while (this.isWord(this.peek(), 'UNION', 'INTERSECT', 'EXCEPT', 'MINUS')) {
+      const operatorStart = this.pos;
+      const operator = this.peek()!.value;
+      this.pos++;
+      const all = this.acceptWord('ALL');
+      this.acceptWord('DISTINCT');
+
+      let query: QueryAST;
+      if (this.startsSubquery(this.pos)) {
+        const close = this.matchingParen(this.pos);
+        query = this.subParser(this.pos).parseStandalone();
+        this.pos = close + 1;
+      } else {
+        const parser = new SelectParser(this.sql, this.tokens.slice(this.pos), this.options, this.issues, this.cteNames);
+        query = parser.parseSelectCore();
+        this.pos += parser.pos;
+      }
+
+      if (operator !== 'UNION') {
+        this.issue('UNION', `${operator} não é suportado pelo builder; a query combinada foi descartada`, operatorStart, this.pos);
+        continue;
+      }
+      unions.push({ id: newId('union'), query, type: all ? 'UNION ALL' : 'UNION', order: unions.length });
+    }
+    if (unions.length > 0) ast.unions = unions;
+
+    if (this.acceptWord('ORDER')) {
+      this.expectWord('BY');
+      this.parseOrderBy(ast);
+    }
+    this.parseLimit(ast);
+
+    return ast;
+  }
+
+  // Query que deve ocupar todos os tokens do parser (subselects e o SQL inteiro)
+  parseStandalone(): QueryAST {
+    const ast = this.parseQuery();
+    if (!this.atEnd()) {
+      const from = this.pos;
+      this.pos = this.tokens.length;
+      this.issue('SQL', 'Trecho não reconhecido foi ignorado', from, this.pos);
+    }
+    return ast;
+  }
+
+  private parseCTEs(): CTEClause[] {
+    const recursive = this.acceptWord('RECURSIVE');
+    const ctes: CTEClause[] = [];
+
+    do {
+      const nameParts = this.readName();
+      if (!nameParts || nameParts.length !== 1) throw new SQLParseError(`Nome de CTE esperado ${this.describePosition()}`);
+      const name = nameParts[0];
+      // O nome vale dentro da própria CTE (recursiva) e no restante da query
+      this.cteNames.add(name.toLowerCase());
+
+      let columns: string[] | undefined;
+      if (this.isSymbol(this.peek(), '(')) {
+        const close = this.matchingParen(this.pos);
+        columns = this.tokens
+          .slice(this.pos + 1, close)
+          .filter(t => !this.isSymbol(t, ','))
+          .map(t => (t.type === 'word' ? this.sql.slice(t.start, t.end) : t.value));
+        this.pos = close + 1;
+      }
+
+      this.expectWord('AS');
+      if (!this.startsSubquery(this.pos)) throw new SQLParseError(`Subquery da CTE ${name} esperada ${this.describePosition()}`);
+      const close = this.matchingParen(this.pos);
+      const query = this.subParser(this.pos).parseStandalone();
+      this.pos = close + 1;
+
+      ctes.push({ id: newId('cte'), name, query, ...(columns && { columns }), ...(recursive && { recursive }) });
+    } while (this.isSymbol(this.peek(), ',') && ++this.pos);
+
+    return ctes;
+  }
+
+  private parseSelectCore(): QueryAST {
+    this.expectWord('SELECT');
+    const ast: QueryAST = { from: { table: '', alias: '' }, select: { fields: [] }, joins: [] };
+
+    if (this.acceptWord('DISTINCT')) {
+      ast.select.distinct = true;
+    } else {
+      this.acceptWord('ALL');
+    }
+
+    if (this.acceptWord('TOP')) {
+      const topStart = this.pos - 1;
+      const parenthesized = this.isSymbol(this.peek(), '(');
+      if (parenthesized) this.pos++;
+      const count = this.peek();
+      if (count?.type !== 'number' || !/^[0-9]+$/.test(count.value)) {
+        throw new SQLParseError(`TOP aceita apenas um número ${this.describePosition()}`);
+      }
+      this.pos++;
+      if (parenthesized) this.expectSymbol(')');
+      ast.limit = { limit: parseInt(count.value, 10) };
+      if (this.isWord(this.peek(), 'PERCENT', 'WITH')) {
+        this.acceptWord('PERCENT');
+        if (this.acceptWord('WITH')) this.expectWord('TIES');
+        this.issue('SELECT', 'Modificadores de TOP não são suportados; o limite foi mantido como número de linhas', topStart, this.pos);
+      }
+    }
+
+    // A lista do SELECT só é interpretada depois do FROM, quando os aliases já são conhecidos
+    const selectItems = this.scanList();
+
+    if (!this.acceptWord('FROM')) {
+      throw new SQLParseError('O builder precisa de uma tabela no FROM');
+    }
+    this.parseFrom(ast);
+    this.parseJoins(ast);
+
+    if (this.acceptWord('WHERE')) {
+      const where = this.scanExpression(false);
+      const root = this.parseConditions(where.from, where.to);
+      if (root.items.length > 0) ast.where = { root };
+    }
+
+    if (this.acceptWord('GROUP')) {
+      this.expectWord('BY');
+      this.parseGroupBy(ast);
+    }
+
+    if (this.acceptWord('HAVING')) {
+      const having = this.scanExpression(false);
+      this.parseHaving(ast, having.from, having.to);
+    }
+
+    ast.select.fields = selectItems
+      .flatMap(item => this.parseSelectItem(item.from, item.to))
+      .map((field, order) => ({ ...field, order }));
+
+    return ast;
+  }
+
+  // ===== SELECT =====
+
+  private parseSelectItem(from: number, to: number): SelectField[] {
+    // Alias no fim: "expr AS nome" ou "expr nome"
+    let alias: string | undefined;
+    let end = to;
+    const last = this.tokens[to - 1];
+    const beforeLast = this.tokens[to - 2];
+    const isAliasToken = last.type === 'identifier' || (last.type === 'word' && !RESERVED_WORDS.has(last.value));
+    if (to - from >= 2 && (isAliasToken || last.type === 'string')) {
+      if (this.isWord(beforeLast, 'AS')) {
+        alias = this.tokenName(last);
+        end = to - 2;
+      } else if (
+        // Sem AS, string no fim é literal tipado (DATE '2024-01-01'), não alias
+        isAliasToken &&
+        !this.isSymbol(beforeLast, '.') &&
+        (this.isSymbol(beforeLast, ')') || ['identifier', 'word', 'number', 'string'].includes(beforeLast.type)) &&
+        !(beforeLast.type === 'word' && RESERVED_WORDS.has(beforeLast.value) && beforeLast.value !== 'END')
+      ) {
+        alias = this.tokenName(last);
+        end = to - 1;
+      }
+    }
+
+    const expression = this.text(from, end);
+    const asExpression = (): SelectField[] => [{
+      id: newId('expr'), tableId: '', column: '', expression, type: 'expression', order: 0, ...(alias && { alias }),
+    }];
+
+    // *, alias.*
+    if (end - from === 1 && this.isSymbol(this.tokens[from], '*')) {
+      return this.expandStar(Array.from(this.scope.values())) ?? asExpression();
+    }
+    if (end - from === 3 && this.isSymbol(this.tokens[from + 1], '.') && this.isSymbol(this.tokens[from + 2], '*')) {
+      const table = this.scope.get(this.tokenName(this.tokens[from]).toLowerCase());
+      return (table && this.expandStar([table])) ?? asExpression();
+    }
+
+    // Subselect
+    if (this.startsSubquery(from) && this.matchingParen(from) === end - 1) {
+      const subIssues: SQLImportIssue[] = [];
+      try {
+        const subquery = this.subParser(from, subIssues).parseStandalone();
+        // Subselect que o builder não representa por inteiro (ex.: correlacionado) fica como expressão
+        if (subIssues.length === 0) {
+          return [{ id: newId('subquery'), tableId: '', column: '', type: 'subquery', subquery, order: 0, ...(alias && { alias }) }];
+        }
+      } catch (err) {
+        if (!(err instanceof SQLParseError)) throw err;
+      }
+      return asExpression();
+    }
+
+    // CASE WHEN estruturado
+    const caseExpression = this.parseCase(from, end);
+    if (caseExpression) {
+      return [{ id: newId('case'), tableId: '', column: '', type: 'case', caseExpression, order: 0, ...(alias && { alias }) }];
+    }
+
+    // Agregação simples: COUNT(*), SUM(alias.coluna)
+    const fn = this.tokens[from];
+    if (
+      fn.type === 'word' && AGGREGATES.has(fn.value) &&
+      this.isSymbol(this.tokens[from + 1], '(') && this.matchingParen(from + 1) === end - 1
+    ) {
+      const distinct = this.isWord(this.tokens[from + 2], 'DISTINCT');
+      const argFrom = from + (distinct ? 3 : 2);
+      const argTo = end - 1;
+      if (fn.value === 'COUNT' && argTo - argFrom === 1 && this.isSymbol(this.tokens[argFrom], '*')) {
+        const table = Array.from(this.scope.values())[0];
+        return [{
+          id: newId('agg'), tableId: table.tableId, column: '*', type: 'aggregate',
+          aggregateFunction: 'COUNT', order: 0, ...(alias && { alias }),
+        }];
+      }
+      const ref = this.columnRef(argFrom, argTo);
+      if (ref && ref !== 'unknown-alias') {
+        return [{
+          id: newId('agg'), tableId: ref.table.tableId, column: ref.column, type: 'aggregate',
+          aggregateFunction: fn.value as SelectField['aggregateFunction'], order: 0,
+          ...(distinct && { distinct }), ...(alias && { alias }),
+        }];
+      }
+      return asExpression();
+    }
+
+    const ref = this.columnRef(from, end);
+    if (ref === 'unknown-alias') {
+      this.issue('SELECT', 'Coluna de tabela fora da query; mantida como expressão', from, end);
+      return asExpression();
+    }
+    if (ref) {
+      return [{ id: newId('field'), tableId: ref.table.tableId, column: ref.column, type: 'column', order: 0, ...(alias && { alias }) }];
+    }
+
+    return asExpression();
+  }
+
+  /**
+   * CASE WHEN cond [AND cond] THEN valor ... [ELSE valor] END
+   * Só entra no AST se todas as condições e resultados couberem nele; caso contrário,
+   * o CASE continua como expressão, sem registrar problemas de importação
+   */
+  private parseCase(from: number, to: number): CaseExpression | null {
+    if (!this.isWord(this.tokens[from], 'CASE') || !this.isWord(this.tokens[from + 1], 'WHEN') || !this.isWord(this.tokens[to - 1], 'END')) {
+      return null;
+    }
+
+    // Palavras-chave do CASE externo (fora de parênteses e de CASEs aninhados)
+    const markers: Array<{ word: string; at: number }> = [];
+    let depth = 0;
+    let caseDepth = 0;
+    for (let i = from + 1; i < to - 1; i++) {
+      const token = this.tokens[i];
+      if (this.isSymbol(token, '(')) depth++;
+      if (this.isSymbol(token, ')')) depth--;
+      if (depth !== 0 || token.type !== 'word') continue;
+      if (token.value === 'CASE') caseDepth++;
+      else if (token.value === 'END') caseDepth--;
+      else if (caseDepth === 0 && ['WHEN', 'THEN', 'ELSE'].includes(token.value)) markers.push({ word: token.value, at: i });
+    }
+    markers.push({ word: 'END', at: to - 1 });
+
+    const issueCount = this.issues.length;
+    const fail = () => {
+      this.issues.splice(issueCount);
+      return null;
+    };
+
+    const expr: CaseExpression = { branches: [] };
+    for (let m = 0; m < markers.length - 1; m++) {
+      const { word, at } = markers[m];
+      const next = markers[m + 1];
+      if (word === 'WHEN') {
+        const then = markers[m + 2];
+        if (next.word !== 'THEN' || !then || then.word === 'THEN') return fail();
+        const conditions = this.parseCaseConditions(at + 1, next.at);
+        const result = this.parseCaseValue(next.at + 1, then.at);
+        if (!conditions || !result) return fail();
+        expr.branches.push({ id: newId('case-branch'), conditions, result });
+        m++;
+      } else if (word === 'ELSE' && next.word === 'END') {
+        const value = this.parseCaseValue(at + 1, next.at);
+        if (!value) return fail();
+        expr.else = value;
+      } else {
+        return fail();
+      }
+    }
+    return this.issues.length > issueCount ? fail() : expr;
+  }
+
+  // Condições do WHEN: só comparações de coluna unidas por AND
+  private parseCaseConditions(from: number, to: number): WhereCondition[] | null {
+    if (this.splitTopLevel(from, to, 'OR').length > 1) return null;
+    const conditions: WhereCondition[] = [];
+    for (const part of this.splitTopLevel(from, to, 'AND')) {
+      if (this.isSymbol(this.tokens[part.from], '(')) return null;
+      const condition = this.parseCondition(part.from, part.to);
+      if (!condition || condition.subquery || condition.operator === 'EXISTS' || condition.operator === 'NOT EXISTS') return null;
+      conditions.push({ ...condition, id: newId('case-cond') });
+    }
+    return conditions;
+  }
+
+  private parseCaseValue(from: number, to: number): CaseValue | null {
+    if (to - from === 1 && this.isWord(this.tokens[from], 'NULL')) return { kind: 'null' };
+    const value = this.literal(from, to);
+    if (value !== undefined) return { kind: 'value', value };
+    const ref = this.columnRef(from, to);
+    if (ref && ref !== 'unknown-alias') return { kind: 'column', tableId: ref.table.tableId, column: ref.column };
+    return null;
+  }
+
+  private tokenName(token: Token): string {
+    return token.type === 'word' ? this.sql.slice(token.start, token.end) : token.value;
+  }
+
+  // "*" vira as colunas das tabelas do grafo; null se alguma tabela não tem colunas conhecidas
+  private expandStar(tables: ScopeTable[]): SelectField[] | null {
+    if (tables.length === 0 || tables.some(t => !t.node || t.node.columns.length === 0)) return null;
+    return tables.flatMap(t => t.node!.columns.map(col => ({
+      id: newId('field'), tableId: t.tableId, column: col.name, type: 'column' as const, order: 0,
+    })));
+  }
+
+  // ===== FROM / JOIN =====
+
+  // Tabela ou subselect com alias; devolve a entrada do escopo e o subselect, se houver
+  private parseTableRef(clause: string): { table: ScopeTable; subquery?: QueryAST } {
+    const start = this.pos;
+
+    if (this.startsSubquery(this.pos)) {
+      const close = this.matchingParen(this.pos);
+      const subquery = this.subParser(this.pos).parseStandalone();
+      this.pos = close + 1;
+      const alias = this.readAlias();
+      if (!alias) throw new SQLParseError(`Subselect no ${clause} precisa de alias`);
+      return { table: this.addToScope({ tableId: alias }, alias, alias), subquery };
+    }
+
+    const parts = this.readName();
+    if (!parts) throw new SQLParseError(`Tabela esperada no ${clause} ${this.describePosition()}`);
+    if (this.isSymbol(this.peek(), '(')) {
+      throw new SQLParseError(`Funções de tabela no ${clause} não são suportadas pelo builder`);
+    }
+
+    const resolved = this.resolveTable(parts);
+    if (!resolved.found) {
+      this.issue(clause, `Tabela ${parts.join('.')} não encontrada no schema; colunas e relacionamentos dela não serão reconhecidos`, start, this.pos);
+    }
+    if (this.tableIdsInScope().has(resolved.tableId)) {
+      throw new SQLParseError(
+        `A tabela ${parts.join('.')} aparece mais de uma vez; o builder identifica as tabelas pelo nome e não representa self-joins`
+      );
+    }
+
+    const alias = this.readAlias();
+    // Dicas de tabela do SQL Server: WITH (NOLOCK)
+    if (this.isWord(this.peek(), 'WITH') && this.isSymbol(this.peek(1), '(')) {
+      const hintStart = this.pos;
+      this.pos = this.matchingParen(this.pos + 1) + 1;
+      this.issue(clause, 'Dicas de tabela foram removidas', hintStart, this.pos);
+    }
+
+    return { table: this.addToScope({ tableId: resolved.tableId, node: resolved.node }, alias, resolved.alias) };
+  }
+
+  private parseFrom(ast: QueryAST): void {
+    const { table, subquery } = this.parseTableRef('FROM');
+    ast.from = subquery
+      ? { table: '', alias: table.alias, subquery }
+      : { table: table.tableId, alias: table.alias };
+
+    if (this.isSymbol(this.peek(), ',')) {
+      throw new SQLParseError('Tabelas separadas por vírgula no FROM não são suportadas; use JOIN ... ON');
+    }
+  }
+
+  private parseJoins(ast: QueryAST): void {
+    for (;;) {
+      const joinStart = this.pos;
+      let type: JoinType = 'INNER';
+
+      if (this.isWord(this.peek(), 'CROSS', 'NATURAL') || (this.isWord(this.peek(), 'OUTER') && this.isWord(this.peek(1), 'APPLY'))) {
+        throw new SQLParseError(`${this.peek()!.value} JOIN/APPLY não é suportado pelo builder`);
+      }
+      if (this.acceptWord('LEFT')) type = 'LEFT';
+      else if (this.acceptWord('RIGHT')) type = 'RIGHT';
+      else if (this.acceptWord('FULL')) type = 'FULL';
+      else this.acceptWord('INNER');
+      if (type !== 'INNER') this.acceptWord('OUTER');
+
+      if (!this.acceptWord('JOIN')) {
+        if (this.pos !== joinStart) throw new SQLParseError(`JOIN esperado ${this.describePosition()}`);
+        return;
+      }
+
+      const { table, subquery } = this.parseTableRef('JOIN');
+      const join: QueryJoin = {
+        id: newId('join'),
+        type,
+        sourceTableId: ast.from.table || ast.from.alias,
+        sourceAlias: ast.from.alias,
+        sourceColumn: '',
+        targetTableId: table.tableId,
+        targetAlias: table.alias,
+        targetColumn: '',
+        ...(subquery && { targetSubquery: subquery, targetSubqueryAlias: table.alias }),
+      };
+
+      if (this.acceptWord('USING')) {
+        // USING (col) equivale a igualdade com a tabela anterior
+        const previous = ast.joins.length > 0 ? ast.joins[ast.joins.length - 1] : null;
+        const sourceAlias = previous ? previous.targetAlias : ast.from.alias;
+        const open = this.pos;
+        const close = this.matchingParen(open);
+        const columns = this.tokens.slice(open + 1, close).filter(t => !this.isSymbol(t, ',')).map(t => this.tokenName(t));
+        this.pos = close + 1;
+        join.sourceTableId = previous ? previous.targetTableId : join.sourceTableId;
+        join.sourceAlias = sourceAlias;
+        join.sourceColumn = columns[0];
+        join.targetColumn = columns[0];
+        if (columns.length > 1) {
+          join.customCondition = columns.map(c => `${sourceAlias}.${c} = ${table.alias}.${c}`).join(' AND ');
+        }
+      } else {
+        this.expectWord('ON');
+        const on = this.scanExpression(false);
+        this.fillJoinCondition(join, on.from, on.to);
+      }
+
+      ast.joins.push(join);
+    }
+  }
+
+  // Igualdade simples entre colunas vira origem/destino (com o relacionamento do grafo); o resto fica como condição livre
+  private fillJoinCondition(join: QueryJoin, from: number, to: number): void {
+    const targetKey = join.targetAlias.toLowerCase();
+    const equalities: Array<{ source: ScopeTable; sourceColumn: string; targetColumn: string }> = [];
+    let simple = true;
+
+    for (const part of this.splitTopLevel(from, to, 'AND')) {
+      const eq = this.findTopLevelSymbol(part.from, part.to, '=');
+      const left = eq >= 0 ? this.columnRef(part.from, eq) : null;
+      const right = eq >= 0 ? this.columnRef(eq + 1, part.to) : null;
+      if (!left || !right || left === 'unknown-alias' || right === 'unknown-alias') {
+        simple = false;
+        break;
+      }
+      if (left.table.alias.toLowerCase() === targetKey && right.table.alias.toLowerCase() !== targetKey) {
+        equalities.push({ source: right.table, sourceColumn: right.column, targetColumn: left.column });
+      } else if (right.table.alias.toLowerCase() === targetKey && left.table.alias.toLowerCase() !== targetKey) {
+        equalities.push({ source: left.table, sourceColumn: left.column, targetColumn: right.column });
+      } else {
+        simple = false;
+        break;
+      }
+    }
+
+    if (simple && equalities.length > 0) {
+      const first = equalities[0];
+      join.sourceTableId = first.source.tableId;
+      join.sourceAlias = first.source.alias;
+      join.sourceColumn = first.sourceColumn;
+      join.targetColumn = first.targetColumn;
+      const edge = this.options.edges.find(e =>
+        (e.from === first.source.tableId && e.to === join.targetTableId && e.fromColumn === first.sourceColumn && e.toColumn === first.targetColumn) ||
+        (e.to === first.source.tableId && e.from === join.targetTableId && e.toColumn === first.sourceColumn && e.fromColumn === first.targetColumn)
+      );
+      if (edge) join.edgeId = edge.id;
+      if (equalities.length > 1) join.customCondition = this.text(from, to);
+      return;
+    }
+
+    // Origem: a primeira outra tabela citada na condição
+    for (let i = from; i < to - 2; i++) {
+      if (this.isSymbol(this.tokens[i + 1], '.')) {
+        const table = this.scope.get(this.tokenName(this.tokens[i]).toLowerCase());
+        if (table && table.alias.toLowerCase() !== targetKey) {
+          join.sourceTableId = table.tableId;
+          join.sourceAlias = table.alias;
+          break;
+        }
+      }
+    }
+    join.customCondition = this.text(from, to);
+  }
+
+  // ===== WHERE =====
+
+  // Divide um trecho em partes unidas pelos conectores, fora de parênteses (o AND de BETWEEN não divide)
+  private splitTopLevel(from: number, to: number, ...connectors: string[]): Array<{ from: number; to: number; connector?: string }> {
+    const parts: Array<{ from: number; to: number; connector?: string }> = [];
+    let depth = 0;
+    let partStart = from;
+    let connector: string | undefined;
+    let pendingBetween = false;
+
+    for (let i = from; i < to; i++) {
+      const token = this.tokens[i];
+      if (this.isSymbol(token, '(')) depth++;
+      if (this.isSymbol(token, ')')) depth--;
+      if (depth !== 0 || token.type !== 'word') continue;
+      if (token.value === 'BETWEEN') pendingBetween = true;
+      else if (token.value === 'AND' && pendingBetween) pendingBetween = false;
+      else if (connectors.includes(token.value)) {
+        parts.push({ from: partStart, to: i, connector });
+        connector = token.value;
+        partStart = i + 1;
+      }
+    }
+    parts.push({ from: partStart, to, connector });
+    return parts;
+  }
+
+  private findTopLevelSymbol(from: number, to: number, symbol: string): number {
+    let depth = 0;
+    for (let i = from; i < to; i++) {
+      if (this.isSymbol(this.tokens[i], '(')) depth++;
+      if (this.isSymbol(this.tokens[i], ')')) depth--;
+      if (depth === 0 && this.isSymbol(this.tokens[i], symbol)) return i;
+    }
+    return -1;
+  }
+
+  // OR tem precedência menor que AND: "a AND b OR c" vira OR[AND[a, b], c]
+  private parseConditions(from: number, to: number): WhereGroup {
+    const items = this.splitTopLevel(from, to, 'OR')
+      .map(part => this.parseConjunction(part.from, part.to))
+      .filter((item): item is WhereItem => item !== null);
+    return items.length === 1 && items[0].kind === 'group' ? items[0] : this.group(items.length > 1 ? 'OR' : 'AND', items);
+  }
+
+  private parseConjunction(from: number, to: number): WhereItem | null {
+    const items = this.splitTopLevel(from, to, 'AND')
+      .map(part => this.parseConditionItem(part.from, part.to))
+      .filter((item): item is WhereItem => item !== null);
+    if (items.length <= 1) return items[0] ?? null;
+    return this.group('AND', items);
+  }
+
+  // Condição simples ou grupo entre parênteses
+  private parseConditionItem(from: number, to: number): WhereItem | null {
+    if (to > from && this.isSymbol(this.tokens[from], '(') && this.matchingParen(from) === to - 1) {
+      const group = this.parseConditions(from + 1, to - 1);
+      if (group.items.length <= 1) return group.items[0] ?? null;
+      return group;
+    }
+    const condition = this.parseCondition(from, to);
+    return condition && { ...condition, id: newId('where') };
+  }
+
+  private group(operator: WhereLogicalOperator, items: WhereItem[]): WhereGroup {
+    return { id: newId('where-group'), kind: 'group', operator, items };
+  }
+
+  // Valor literal aceito em WhereCondition.value: texto, número ou parâmetro (:nome)
+  private literal(from: number, to: number): string | number | undefined {
+    const first = this.tokens[from];
+    if (to - from === 2 && this.isSymbol(first, '-') && this.tokens[from + 1].type === 'number') {
+      return -Number(this.tokens[from + 1].value);
+    }
+    if (to - from !== 1) return undefined;
+    if (first.type === 'number') return Number(first.value);
+    if (first.type === 'string') return first.value;
+    if (first.type === 'parameter' && /^[:@][A-Za-z_][A-Za-z0-9_]*$/.test(first.value)) return first.value;
+    return undefined;
+  }
+
+  private parseCondition(from: number, to: number): Omit<WhereCondition, 'id'> | null {
+    const unsupported = (message: string) => {
+      this.issue('WHERE', `${message}; a condição foi removida`, from, to);
+      return null;
+    };
+    if (to <= from) return null;
+
+    // [NOT] EXISTS (subselect)
+    const negated = this.isWord(this.tokens[from], 'NOT');
+    const existsAt = negated ? from + 1 : from;
+    if (this.isWord(this.tokens[existsAt], 'EXISTS')) {
+      const open = existsAt + 1;
+      if (!this.startsSubquery(open) || this.matchingParen(open) !== to - 1) return unsupported('EXISTS sem subselect');
+      const operator: WhereOperator = negated ? 'NOT EXISTS' : 'EXISTS';
+      const subIssues: SQLImportIssue[] = [];
+      try {
+        const subquery = this.subParser(open, subIssues).parseStandalone();
+        if (subIssues.length === 0) return { tableId: '', column: '', operator, subquery };
+      } catch (err) {
+        if (!(err instanceof SQLParseError)) throw err;
+      }
+      // Subselect correlacionado: o texto vai como está
+      return { tableId: '', column: '', operator, value: this.text(open + 1, to - 1) };
+    }
+
+    if (negated) return unsupported('NOT antes da condição não é suportado pelo builder');
+
+    // Coluna à esquerda: o fim dela é o operador
+    let opAt = -1;
+    for (let i = from; i < to; i++) {
+      const t = this.tokens[i];
+      if ((t.type === 'symbol' && COMPARISON_OPERATORS.has(t.value)) || this.isWord(t, 'LIKE', 'IN', 'IS', 'BETWEEN', 'NOT')) {
+        opAt = i;
+        break;
+      }
+      if (this.isSymbol(t, '(')) break;
+    }
+    if (opAt <= from) return unsupported('Condição que não compara uma coluna não é suportada pelo builder');
+
+    const left = this.columnRef(from, opAt);
+    const opToken = this.tokens[opAt];
+
+    // Comparação simples: coluna op valor ou valor op coluna
+    if (opToken.type === 'symbol') {
+      const operator = opToken.value as WhereOperator;
+      const rightValue = this.literal(opAt + 1, to);
+      if (left && left !== 'unknown-alias' && rightValue !== undefined) {
+        return { tableId: left.table.tableId, column: left.column, operator, value: rightValue };
+      }
+      const leftValue = this.literal(from, opAt);
+      const right = this.columnRef(opAt + 1, to);
+      if (leftValue !== undefined && right && right !== 'unknown-alias') {
+        return { tableId: right.table.tableId, column: right.column, operator: FLIPPED_OPERATORS[operator] ?? operator, value: leftValue };
+      }
+      if (left === 'unknown-alias' || right === 'unknown-alias') return unsupported('Coluna de tabela fora da query');
+      return unsupported('Só comparações entre coluna e valor literal são suportadas pelo builder');
+    }
+
+    if (!left) return unsupported('Condição que não compara uma coluna não é suportada pelo builder');
+    if (left === 'unknown-alias') return unsupported('Coluna de tabela fora da query');
+    const base = { tableId: left.table.tableId, column: left.column };
+
+    let i = opAt;
+    if (this.isWord(this.tokens[i], 'IS')) {
+      const not = this.isWord(this.tokens[i + 1], 'NOT');
+      if (this.isWord(this.tokens[i + (not ? 2 : 1)], 'NULL') && i + (not ? 3 : 2) === to) {
+        return { ...base, operator: not ? 'IS NOT NULL' : 'IS NULL' };
+      }
+      return unsupported('IS só é suportado com NULL');
+    }
+
+    const not = this.isWord(this.tokens[i], 'NOT');
+    if (not) i++;
+    const keyword = this.tokens[i];
+
+    if (this.isWord(keyword, 'LIKE')) {
+      const value = this.literal(i + 1, to);
+      if (value === undefined) return unsupported('LIKE só é suportado com valor literal');
+      return { ...base, operator: not ? 'NOT LIKE' : 'LIKE', value: String(value) };
+    }
+
+    if (this.isWord(keyword, 'IN')) {
+      const open = i + 1;
+      if (!this.isSymbol(this.tokens[open], '(') || this.matchingParen(open) !== to - 1) return unsupported('IN sem lista entre parênteses');
+      const operator: WhereOperator = not ? 'NOT IN' : 'IN';
+      if (this.startsSubquery(open)) {
+        const subIssues: SQLImportIssue[] = [];
+        const subquery = this.subParser(open, subIssues).parseStandalone();
+        if (subIssues.length > 0) {
+          subIssues.forEach(issue => this.issues.push(issue));
+          return unsupported('Subselect do IN não pode ser representado por inteiro');
+        }
+        return { ...base, operator, subquery };
+      }
+      const values = this.splitTopLevelCommas(open + 1, to - 1).map(item => this.literal(item.from, item.to));
+      if (values.some(v => v === undefined)) return unsupported('IN só é suportado com valores literais');
+      const value = values.every(v => typeof v === 'number')
+        ? (values as number[])
+        : values.map(v => String(v));
+      return { ...base, operator, value };
+    }
+
+    if (this.isWord(keyword, 'BETWEEN')) {
+      const and = this.tokens.findIndex((t, index) => index > i && index < to && this.isWord(t, 'AND'));
+      const low = and > 0 ? this.literal(i + 1, and) : undefined;
+      const high = and > 0 ? this.literal(and + 1, to) : undefined;
+      if (low === undefined || high === undefined) return unsupported('BETWEEN só é suportado com valores literais');
+      const value = typeof low === 'number' && typeof high === 'number' ? [low, high] : [String(low), String(high)];
+      return { ...base, operator: not ? 'NOT BETWEEN' : 'BETWEEN', value };
+    }
+
+    return unsupported('Operador não suportado pelo builder');
+  }
+
+  private splitTopLevelCommas(from: number, to: number): Array<{ from: number; to: number }> {
+    const items: Array<{ from: number; to: number }> = [];
+    let start = from;
+    let comma = this.findTopLevelSymbol(start, to, ',');
+    while (comma >= 0) {
+      items.push({ from: start, to: comma });
+      start = comma + 1;
+      comma = this.findTopLevelSymbol(start, to, ',');
+    }
+    items.push({ from: start, to });
+    return items;
+  }
+
+  // ===== GROUP BY / ORDER BY / LIMIT =====
+
+  private parseGroupBy(ast: QueryAST): void {
+    const fields: GroupByField[] = [];
+    for (const item of this.scanList()) {
+      const ref = this.columnRef(item.from, item.to);
+      if (!ref || ref === 'unknown-alias') {
+        this.issue('GROUP BY', 'Só colunas são suportadas no GROUP BY; o item foi removido', item.from, item.to);
+        continue;
+      }
+      fields.push({ id: newId('groupby'), tableId: ref.table.tableId, column: ref.column, order: fields.length });
+    }
+    if (fields.length > 0) ast.groupBy = { fields };
+  }
+
+  // ===== HAVING =====
+
+  // O HAVING do builder usa um só operador entre as condições, sem grupos
+  private parseHaving(ast: QueryAST, from: number, to: number): void {
+    const orParts = this.splitTopLevel(from, to, 'OR');
+    const andParts = this.splitTopLevel(from, to, 'AND');
+    if (orParts.length > 1 && andParts.length > 1) {
+      this.issue('HAVING', 'HAVING com AND e OR misturados não é suportado pelo builder e foi removido', from - 1, to);
+      return;
+    }
+
+    const parts = orParts.length > 1 ? orParts : andParts;
+    const conditions = parts
+      .map(part => this.parseHavingCondition(part.from, part.to))
+      .filter((cond): cond is HavingCondition => cond !== null);
+    if (conditions.length > 0) {
+      ast.having = { operator: orParts.length > 1 ? 'OR' : 'AND', conditions };
+    }
+  }
+
+  // Agregação à esquerda (COUNT(*), SUM(o.total) ou outra expressão agregada) comparada com valores literais
+  private parseHavingCondition(from: number, to: number): HavingCondition | null {
+    const unsupported = (message: string) => {
+      this.issue('HAVING', `${message}; a condição foi removida`, from, to);
+      return null;
+    };
+    const fn = this.tokens[from];
+    if (!(fn?.type === 'word' && AGGREGATES.has(fn.value) && this.isSymbol(this.tokens[from + 1], '('))) {
+      return unsupported('Só condições sobre COUNT, SUM, AVG, MIN ou MAX são suportadas no HAVING');
+    }
+    const close = this.matchingParen(from + 1);
+    if (close < 0 || close >= to - 1) return unsupported('Condição do HAVING sem comparação');
+
+    const aggregateFunction = fn.value as AggregateFunction;
+    const argFrom = from + 2;
+    let aggregate: Pick<HavingCondition, 'tableId' | 'column' | 'expression'>;
+    const ref = this.columnRef(argFrom, close);
+    if (aggregateFunction === 'COUNT' && close - argFrom === 1 && this.isSymbol(this.tokens[argFrom], '*')) {
+      aggregate = { tableId: '', column: '*' };
+    } else if (ref && ref !== 'unknown-alias') {
+      aggregate = { tableId: ref.table.tableId, column: ref.column };
+    } else {
+      aggregate = { tableId: '', column: '', expression: this.text(from, close + 1) };
+    }
+
+    const comparison = this.parseHavingComparison(close + 1, to);
+    if (!comparison) return unsupported('Só comparações com valores literais são suportadas no HAVING');
+    return { id: newId('having'), aggregateFunction, ...aggregate, ...comparison };
+  }
+
+  private parseHavingComparison(from: number, to: number): Pick<HavingCondition, 'operator' | 'value'> | null {
+    const opToken = this.tokens[from];
+    if (opToken.type === 'symbol' && COMPARISON_OPERATORS.has(opToken.value)) {
+      const value = this.literal(from + 1, to);
+      return value === undefined ? null : { operator: opToken.value as HavingOperator, value };
+    }
+
+    if (this.isWord(opToken, 'IS')) {
+      const not = this.isWord(this.tokens[from + 1], 'NOT');
+      const nullAt = from + (not ? 2 : 1);
+      return this.isWord(this.tokens[nullAt], 'NULL') && nullAt + 1 === to ? { operator: not ? 'IS NOT NULL' : 'IS NULL' } : null;
+    }
+
+    const not = this.isWord(opToken, 'NOT');
+    const keywordAt = not ? from + 1 : from;
+    if (this.isWord(this.tokens[keywordAt], 'BETWEEN')) {
+      const and = this.tokens.findIndex((t, index) => index > keywordAt && index < to && this.isWord(t, 'AND'));
+      const low = and > 0 ? this.literal(keywordAt + 1, and) : undefined;
+      const high = and > 0 ? this.literal(and + 1, to) : undefined;
+      if (low === undefined || high === undefined) return null;
+      const value = typeof low === 'number' && typeof high === 'number' ? [low, high] : [String(low), String(high)];
+      return { operator: not ? 'NOT BETWEEN' : 'BETWEEN', value };
+    }
+    if (this.isWord(this.tokens[keywordAt], 'IN')) {
+      const open = keywordAt + 1;
+      if (!this.isSymbol(this.tokens[open], '(') || this.matchingParen(open) !== to - 1) return null;
+      const values = this.splitTopLevelCommas(open + 1, to - 1).map(item => this.literal(item.from, item.to));
+      if (values.some(v => v === undefined)) return null;
+      const value = values.every(v => typeof v === 'number') ? (values as number[]) : values.map(v => String(v));
+      return { operator: not ? 'NOT IN' : 'IN', value };
+    }
+    return null;
+  }
+
+  private parseOrderBy(ast: QueryAST): void {
+    const fields: OrderByField[] = [];
+    const selectFields = ast.select.fields;
+
+    for (;;) {
+      const item = this.scanExpression(true, ['ASC', 'DESC', 'NULLS']);
+      if (item.to === item.from) throw new SQLParseError(`Item vazio no ORDER BY ${this.describePosition()}`);
+      let direction: OrderByField['direction'] = 'ASC';
+      if (this.acceptWord('DESC')) direction = 'DESC';
+      else this.acceptWord('ASC');
+      if (this.acceptWord('NULLS')) {
+        this.issue('ORDER BY', 'NULLS FIRST/LAST não é suportado e foi removido', this.pos - 1, this.pos + 1);
+        this.acceptWord('FIRST', 'LAST');
+      }
+
+      let target: { tableId: string; column: string } | null = null;
+      const ref = this.columnRef(item.from, item.to);
+      const single = this.tokens[item.from];
+
+      if (item.to - item.from === 1 && single.type === 'number') {
+        // Posição na lista do SELECT
+        const field = selectFields[parseInt(single.value, 10) - 1];
+        if (field?.type === 'column') target = field;
+      } else if (ref && ref !== 'unknown-alias') {
+        // Alias do SELECT tem precedência sobre coluna de mesmo nome
+        const byAlias = item.to - item.from === 1
+          ? selectFields.find(f => f.alias?.toLowerCase() === ref.column.toLowerCase())
+          : undefined;
+        target = byAlias ? (byAlias.type === 'column' ? byAlias : null) : { tableId: ref.table.tableId, column: ref.column };
+      }
+
+      if (!target) {
+        this.issue('ORDER BY', 'Só colunas são suportadas no ORDER BY; o item foi removido', item.from, item.to);
+      } else {
+        fields.push({ id: newId('orderby'), tableId: target.tableId, column: target.column, direction, order: fields.length });
+      }
+
+      if (!this.isSymbol(this.peek(), ',')) break;
+      this.pos++;
+    }
+
+    if (fields.length > 0) ast.orderBy = { fields };
+  }
+
+  private readCount(): number {
+    const token = this.peek();
+    if (token?.type !== 'number' || !/^[0-9]+$/.test(token.value)) {
+      throw new SQLParseError(`Número esperado ${this.describePosition()}`);
+    }
+    this.pos++;
+    return parseInt(token.value, 10);
+  }
+
+  // LIMIT n [OFFSET m], LIMIT m, n (MySQL) ou OFFSET m ROWS FETCH NEXT n ROWS ONLY
+  private parseLimit(ast: QueryAST): void {
+    if (this.acceptWord('LIMIT')) {
+      let limit = this.readCount();
+      let offset: number | undefined;
+      if (this.isSymbol(this.peek(), ',')) {
+        this.pos++;
+        offset = limit;
+        limit = this.readCount();
+      } else if (this.acceptWord('OFFSET')) {
+        offset = this.readCount();
+      }
+      ast.limit = offset ? { limit, offset } : { limit };
+    } else if (this.acceptWord('OFFSET')) {
+      const offset = this.readCount();
+      this.acceptWord('ROWS', 'ROW');
+      if (!this.acceptWord('FETCH')) {
+        throw new SQLParseError('OFFSET sem FETCH não é suportado pelo builder');
+      }
+      this.acceptWord('FIRST', 'NEXT');
+      const limit = this.readCount();
+      this.acceptWord('ROWS', 'ROW');
+      this.expectWord('ONLY');
+      // Offset mantido mesmo quando 0, para o SQL Server continuar gerando OFFSET ... FETCH
+      ast.limit = { limit, offset };
+    }
+  }
+}
+
+function closingParen(tokens: Token[]): number {
+  let depth = 0;
+  for (let i = 0; i < tokens.length; i++) {
+    if (tokens[i].type !== 'symbol') continue;
+    if (tokens[i].value === '(') depth++;
+    if (tokens[i].value === ')' && --depth === 0) return i;
+  }
+  return -1;
+}
+
+/**
+ * Converte um SELECT no AST do Query Builder
+ * Trechos que o AST não representa entram em issues (e são removidos ou mantidos como expressão);
+ * SQL que não é um SELECT com tabela no FROM devolve ast null
+ */
+export function parseSQLToAST(sql: string, options: SQLImportOptions): SQLImportResult {
+  const issues: SQLImportIssue[] = [];
+
+  try {
+    const tokens = tokenize(sql, options.dialect);
+    const statementEnd = tokens.findIndex(t => t.type === 'symbol' && t.value === ';');
+    const statement = statementEnd >= 0 ? tokens.slice(0, statementEnd) : tokens;
+
+    if (statement.length === 0) {
+      return { ast: null, issues: [{ clause: 'SQL', message: 'SQL vazio' }] };
+    }
+    if (!(statement[0].type === 'word' && ['SELECT', 'WITH'].includes(statement[0].value)) &&
+        !(statement[0].type === 'symbol' && statement[0].value === '(')) {
+      return { ast: null, issues: [{ clause: 'SQL', message: 'Apenas consultas SELECT podem ser abertas no builder' }] };
+    }
+    if (tokens.slice(statement.length + 1).length > 0) {
+      issues.push({ clause: 'SQL', message: 'Há mais de uma instrução; apenas a primeira foi importada' });
+    }
+
+    // SELECT inteiro entre parênteses
+    let body = statement;
+    while (body[0].type === 'symbol' && body[0].value === '(' && closingParen(body) === body.length - 1) {
+      body = body.slice(1, -1);
+    }
+
+    const ast = new SelectParser(sql, body, options, issues).parseStandalone();
+    return { ast, issues };
+  } catch (err) {
+    if (err instanceof SQLParseError) {
+      return { ast: null, issues: [...issues, { clause: 'SQL', message: err.message }] };
+    }
+    throw err;
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Árvore de condições WHERE (grupos e condições)
+ * Operações imutáveis usadas pelo hook do builder e a migração do formato antigo, em lista plana
+ */
+
+import type {
+  QueryAST,
+  WhereClause,
+  WhereCondition,
+  WhereGroup,
+  WhereItem,
+  WhereLogicalOperator,
+  LegacyWhereClause,
+} from '../../types/query-builder';
+
+export function createWhereGroup(operator: WhereLogicalOperator = 'AND', items: WhereItem[] = []): WhereGroup {
+  return {
+    id: `where-group-${Date.now()}-${Math.random()}`,
+    kind: 'group',
+    operator,
+    items,
+  };
+}
+
+export function isWhereGroup(item: WhereItem): item is WhereGroup {
+  return item.kind === 'group';
+}
+
+// Todas as condições da árvore, em ordem de leitura
+export function flattenWhereConditions(group: WhereGroup | undefined): WhereCondition[] {
+  if (!group) return [];
+  return group.items.flatMap(item => (isWhereGroup(item) ? flattenWhereConditions(item) : [item]));
+}
+
+export function countWhereConditions(where: WhereClause | undefined): number {
+  return flattenWhereConditions(where?.root).length;
+}
+
+export function findWhereItem(group: WhereGroup, id: string): WhereItem | undefined {
+  if (group.id === id) return group;
+  for (const item of group.items) {
+    if (item.id === id) return item;
+    if (isWhereGroup(item)) {
+      const found = findWhereItem(item, id);
+      if (found) return found;
+    }
+  }
+  return undefined;
+}
+
+// Aplica `update` no item com o id informado; o resto da árvore é reaproveitado
+export function updateWhereItem(group: WhereGroup, id: string, update: (item: WhereItem) => WhereItem): WhereGroup {
+  if (group.id === id) return update(group) as WhereGroup;
+  return {
+    ...group,
+    items: group.items.map(item => {
+      if (item.id === id) return update(item);
+      return isWhereGroup(item) ? updateWhereItem(item, id, update) : item;
+    }),
+  };
+}
+
+export function insertWhereItem(group: WhereGroup, parentId: string, newItem: WhereItem): WhereGroup {
+  return updateWhereItem(group, parentId, parent =>
+    isWhereGroup(parent) ? { ...parent, items: [...parent.items, newItem] } : parent
+  );
+}
+
+// Remove condição ou grupo (com tudo o que há dentro); a raiz nunca é removida
+export function removeWhereItem(group: WhereGroup, id: string): WhereGroup {
+  return {
+    ...group,
+    items: group.items
+      .filter(item => item.id !== id)
+      .map(item => (isWhereGroup(item) ? removeWhereItem(item, id) : item)),
+  };
+}
+
+// Move o item uma posição para cima (-1) ou para baixo (1) dentro do próprio grupo
+export function moveWhereItem(group: WhereGroup, id: string, offset: -1 | 1): WhereGroup {
+  const index = group.items.findIndex(item => item.id === id);
+  if (index >= 0) {
+    const target = index + offset;
+    if (target < 0 || target >= group.items.length) return group;
+    const items = [...group.items];
+    [items[index], items[target]] = [items[target], items[index]];
+    return { ...group, items };
+  }
+  return {
+    ...group,
+    items: group.items.map(item => (isWhereGroup(item) ? moveWhereItem(item, id, offset) : item)),
+  };
+}
+
+/**
+ * Converte a lista plana antiga na árvore, respeitando a precedência do SQL (AND antes de OR):
+ * "a AND b OR c" vira OR[AND[a, b], c], que gera o mesmo SQL de antes
+ */
+function migrateLegacyWhere(where: LegacyWhereClause): WhereClause {
+  const sorted = where.conditions
+    .map((cond, index) => ({ cond, order: cond.order ?? index }))
+    .sort((a, b) => a.order - b.order)
+    .map(entry => entry.cond);
+
+  const runs: WhereCondition[][] = [];
+  sorted.forEach(({ logicalOperator, order: _order, ...cond }, index) => {
+    const condition: WhereCondition = { ...cond, subquery: cond.subquery && migrateAST(cond.subquery) };
+    if (index === 0 || logicalOperator === 'OR') {
+      runs.push([condition]);
+    } else {
+      runs[runs.length - 1].push(condition);
+    }
+  });
+
+  if (runs.length <= 1) {
+    return { root: createWhereGroup('AND', runs[0] ?? []) };
+  }
+  return {
+    root: createWhereGroup(
+      'OR',
+      runs.map(run => (run.length === 1 ? run[0] : createWhereGroup('AND', run)))
+    ),
+  };
+}
+
+function migrateGroup(group: WhereGroup): WhereGroup {
+  return {
+    ...group,
+    items: group.items.map(item =>
+      isWhereGroup(item) ? migrateGroup(item) : { ...item, subquery: item.subquery && migrateAST(item.subquery) }
+    ),
+  };
+}
+
+export function migrateWhere(where: WhereClause | LegacyWhereClause | undefined): WhereClause | undefined {
+  if (!where) return undefined;
+  if ('root' in where) return { root: migrateGroup(where.root) };
+  return migrateLegacyWhere(where);
+}
+
+/**
+ * Traz um AST salvo (queries salvas, histórico, permalinks) para o formato atual,
+ * inclusive nos subselects de SELECT, FROM, JOIN, WHERE, CTEs e UNIONs
+ */
+export function migrateAST(ast: QueryAST): QueryAST {
+  return {
+    ...ast,
+    from: ast.from.subquery ? { ...ast.from, subquery: migrateAST(ast.from.subquery) } : ast.from,
+    select: {
+      ...ast.select,
+      fields: ast.select.fields.map(f => (f.subquery ? { ...f, subquery: migrateAST(f.subquery) } : f)),
+    },
+    joins: ast.joins.map(j => (j.targetSubquery ? { ...j, targetSubquery: migrateAST(j.targetSubquery) } : j)),
+    where: migrateWhere(ast.where as WhereClause | LegacyWhereClause | undefined),
+    ctes: ast.ctes?.map(cte => ({ ...cte, query: migrateAST(cte.query) })),
+    unions: ast.unions?.map(union => ({ ...union, query: migrateAST(union.query) })),
+  };
+}
@@ -0,0 +1,100 @@
+/**
+ * Funções de janela (ROW_NUMBER, RANK, LAG, SUM(...) OVER ...) do SELECT
+ * Regras de cada função usadas pelo gerador de SQL e pelo diálogo de edição
+ */
+
+import type { WindowFrame, WindowFrameBound, WindowFunction, WindowSpec } from '../../types/query-builder';
+import type { DatabaseDialect } from './sql-generator';
+
+export const WINDOW_FUNCTIONS: Array<{ name: WindowFunction; description: string }> = [
+  { name: 'ROW_NUMBER', description: 'Numeração sequencial dentro da partição' },
+  { name: 'RANK', description: 'Posição com saltos após empates' },
+  { name: 'DENSE_RANK', description: 'Posição sem saltos após empates' },
+  { name: 'LAG', description: 'Valor de uma linha anterior' },
+  { name: 'LEAD', description: 'Valor de uma linha seguinte' },
+  { name: 'SUM', description: 'Soma (acumulada com ORDER BY)' },
+  { name: 'AVG', description: 'Média (móvel com frame)' },
+  { name: 'COUNT', description: 'Contagem' },
+  { name: 'MIN', description: 'Mínimo' },
+  { name: 'MAX', description: 'Máximo' },
+];
+
+export function isRankingFunction(fn: WindowFunction): boolean {
+  return fn === 'ROW_NUMBER' || fn === 'RANK' || fn === 'DENSE_RANK';
+}
+
+export function isOffsetFunction(fn: WindowFunction): boolean {
+  return fn === 'LAG' || fn === 'LEAD';
+}
+
+// Ranking e LAG/LEAD dependem da ordem das linhas; sem ORDER BY o resultado é arbitrário
+export function requiresOrderBy(fn: WindowFunction): boolean {
+  return isRankingFunction(fn) || isOffsetFunction(fn);
+}
+
+// Só agregações aceitam frame (ROWS/RANGE BETWEEN ...)
+export function acceptsFrame(fn: WindowFunction): boolean {
+  return !requiresOrderBy(fn);
+}
+
+// COUNT pode ficar sem argumento (COUNT(*)); ranking nunca tem argumento
+export function requiresArgument(fn: WindowFunction): boolean {
+  return !isRankingFunction(fn) && fn !== 'COUNT';
+}
+
+export function formatFrameBound(bound: WindowFrameBound): string {
+  if (bound.type === 'PRECEDING' || bound.type === 'FOLLOWING') {
+    return `${bound.offset ?? 1} ${bound.type}`;
+  }
+  return bound.type;
+}
+
+export function formatFrame(frame: WindowFrame): string {
+  return `${frame.unit} BETWEEN ${formatFrameBound(frame.start)} AND ${formatFrameBound(frame.end)}`;
+}
+
+const BOUND_POSITION: Record<WindowFrameBound['type'], number> = {
+  'UNBOUNDED PRECEDING': 0,
+  PRECEDING: 1,
+  'CURRENT ROW': 2,
+  FOLLOWING: 3,
+  'UNBOUNDED FOLLOWING': 4,
+};
+
+/**
+ * Problema no frame, ou null se for válido: o início não pode vir depois do fim, e o SQL Server
+ * só aceita RANGE com UNBOUNDED e CURRENT ROW
+ */
+export function frameError(frame: WindowFrame, dialect: DatabaseDialect): string | null {
+  if (frame.start.type === 'UNBOUNDED FOLLOWING') return 'O frame não pode começar em UNBOUNDED FOLLOWING';
+  if (frame.end.type === 'UNBOUNDED PRECEDING') return 'O frame não pode terminar em UNBOUNDED PRECEDING';
+
+  const start = BOUND_POSITION[frame.start.type];
+  const end = BOUND_POSITION[frame.end.type];
+  const sameDirection = start === end && (start === 1 || start === 3);
+  if (start > end) return 'O início do frame vem depois do fim';
+  if (sameDirection) {
+    const startOffset = frame.start.offset ?? 1;
+    const endOffset = frame.end.offset ?? 1;
+    // "3 PRECEDING" vem antes de "1 PRECEDING"; "1 FOLLOWING" antes de "3 FOLLOWING"
+    if (start === 1 ? startOffset < endOffset : startOffset > endOffset) return 'O início do frame vem depois do fim';
+  }
+
+  const hasOffset = [frame.start, frame.end].some(b => b.type === 'PRECEDING' || b.type === 'FOLLOWING');
+  if (dialect === 'sqlserver' && frame.unit === 'RANGE' && hasOffset) {
+    return 'O SQL Server só aceita RANGE com UNBOUNDED e CURRENT ROW; use ROWS';
+  }
+  return null;
+}
+
+// Resumo legível (sem escapar identificadores) para a lista do SELECT
+export function describeWindow(spec: WindowSpec, aliasOf: (tableId: string) => string): string {
+  const ref = (c: { tableId: string; column: string }) => `${aliasOf(c.tableId)}.${c.column}`;
+  const args = spec.argument ? ref(spec.argument) : spec.function === 'COUNT' ? '*' : '';
+  const over = [
+    spec.partitionBy.length > 0 ? `PARTITION BY ${spec.partitionBy.map(ref).join(', ')}` : '',
+    spec.orderBy.length > 0 ? `ORDER BY ${spec.orderBy.map(o => `${ref(o)} ${o.direction}`).join(', ')}` : '',
+    spec.frame && acceptsFrame(spec.function) ? formatFrame(spec.frame) : '',
+  ].filter(Boolean).join(' ');
+  return `${spec.function}(${args}) OVER (${over})`;
+}